@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SearchCache" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "params" JSONB NOT NULL,
+    "flights" JSONB NOT NULL,
+    "dictionaries" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchCache_key_key" ON "SearchCache"("key");
+
+-- CreateIndex
+CREATE INDEX "SearchCache_expiresAt_idx" ON "SearchCache"("expiresAt");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ApiUsage" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApiUsage_date_idx" ON "ApiUsage"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiUsage_provider_endpoint_date_key" ON "ApiUsage"("provider", "endpoint", "date");
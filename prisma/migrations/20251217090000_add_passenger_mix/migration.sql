@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "ScheduledTask" ADD COLUMN     "children" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "infants" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nonStop" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PriceAlert" ADD COLUMN     "adults" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "children" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "infants" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "travelClass" TEXT NOT NULL DEFAULT 'ECONOMY',
+ADD COLUMN     "nonStop" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "Conversation" (
+    "id" TEXT NOT NULL,
+    "title" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Conversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Conversation_updatedAt_idx" ON "Conversation"("updatedAt");
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "conversationId" TEXT;
+
+-- Move the existing single chat stream into its own conversation
+INSERT INTO "Conversation" ("id", "title", "createdAt", "updatedAt")
+SELECT 'earlier-chat', 'Earlier chat', MIN("createdAt"), MAX("createdAt")
+FROM "ChatMessage"
+HAVING COUNT(*) > 0;
+
+UPDATE "ChatMessage" SET "conversationId" = 'earlier-chat' WHERE "conversationId" IS NULL;
+
+ALTER TABLE "ChatMessage" ALTER COLUMN "conversationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_conversationId_createdAt_idx" ON "ChatMessage"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
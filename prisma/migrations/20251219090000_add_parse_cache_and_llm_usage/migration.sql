@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ParseCache" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "input" TEXT NOT NULL,
+    "referenceDate" TEXT,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ParseCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LlmUsage" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "cost" DOUBLE PRECISION,
+    "date" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ParseCache_key_key" ON "ParseCache"("key");
+
+-- CreateIndex
+CREATE INDEX "ParseCache_expiresAt_idx" ON "ParseCache"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_date_idx" ON "LlmUsage"("date");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_feature_date_idx" ON "LlmUsage"("feature", "date");
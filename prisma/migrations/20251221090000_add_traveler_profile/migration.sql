@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "TravelerProfile" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "homeAirport" TEXT,
+    "adults" INTEGER NOT NULL DEFAULT 1,
+    "children" INTEGER NOT NULL DEFAULT 0,
+    "infants" INTEGER NOT NULL DEFAULT 0,
+    "travelClass" TEXT NOT NULL DEFAULT 'ECONOMY',
+    "maxStops" INTEGER,
+    "preferredAirlines" TEXT[],
+    "resultFilters" JSONB,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TravelerProfile_pkey" PRIMARY KEY ("id")
+);
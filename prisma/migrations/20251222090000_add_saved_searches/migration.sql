@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "parsedQuery" JSONB,
+    "origin" TEXT,
+    "destination" TEXT,
+    "departureDate" TEXT,
+    "returnDate" TEXT,
+    "adults" INTEGER NOT NULL DEFAULT 1,
+    "children" INTEGER NOT NULL DEFAULT 0,
+    "infants" INTEGER NOT NULL DEFAULT 0,
+    "travelClass" TEXT NOT NULL DEFAULT 'ECONOMY',
+    "nonStop" BOOLEAN NOT NULL DEFAULT false,
+    "tags" TEXT[],
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_pinned_updatedAt_idx" ON "SavedSearch"("pinned", "updatedAt");
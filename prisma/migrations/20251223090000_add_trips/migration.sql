@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "Trip" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "startDate" TEXT,
+    "endDate" TEXT,
+    "budget" DOUBLE PRECISION,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "adults" INTEGER NOT NULL DEFAULT 1,
+    "children" INTEGER NOT NULL DEFAULT 0,
+    "infants" INTEGER NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Trip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Trip_updatedAt_idx" ON "Trip"("updatedAt");
+
+-- AlterTable
+ALTER TABLE "SearchQuery" ADD COLUMN     "tripId" TEXT;
+
+-- AlterTable
+ALTER TABLE "FlightResult" ADD COLUMN     "tripId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ScheduledTask" ADD COLUMN     "tripId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PriceAlert" ADD COLUMN     "tripId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SearchQuery_tripId_idx" ON "SearchQuery"("tripId");
+
+-- CreateIndex
+CREATE INDEX "FlightResult_tripId_idx" ON "FlightResult"("tripId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTask_tripId_idx" ON "ScheduledTask"("tripId");
+
+-- CreateIndex
+CREATE INDEX "PriceAlert_tripId_idx" ON "PriceAlert"("tripId");
+
+-- AddForeignKey
+ALTER TABLE "SearchQuery" ADD CONSTRAINT "SearchQuery_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlightResult" ADD CONSTRAINT "FlightResult_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTask" ADD CONSTRAINT "ScheduledTask_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceAlert" ADD CONSTRAINT "PriceAlert_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "ScheduledTask" ADD COLUMN     "leaseOwner" TEXT,
+ADD COLUMN     "leaseUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TaskRun" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "runner" TEXT NOT NULL,
+    "providerCalls" INTEGER NOT NULL DEFAULT 0,
+    "price" DOUBLE PRECISION,
+    "currency" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "TaskRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskRun_taskId_startedAt_idx" ON "TaskRun"("taskId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskRun_status_idx" ON "TaskRun"("status");
+
+-- CreateIndex
+CREATE INDEX "TaskRun_startedAt_idx" ON "TaskRun"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskRun" ADD CONSTRAINT "TaskRun_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "ScheduledTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
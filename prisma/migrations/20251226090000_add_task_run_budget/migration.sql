@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScheduledTask" ADD COLUMN     "maxRunsPerDay" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SavedSearch" ADD COLUMN     "searchKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_searchKey_idx" ON "SavedSearch"("searchKey");
@@ -0,0 +1,293 @@
+/**
+ * Parser Evaluation
+ *
+ * Scores natural-language parsing against the golden set in
+ * fixtures/parser-eval/cases.json, field by field (origin, destination, trip
+ * type, resolved dates, flexibility, passengers, cabin). Every case has a
+ * frozen "today", so the plain-text report is stable and can be committed and
+ * diffed after a prompt change, a model swap or a change to date resolution.
+ *
+ *   npm run eval:parser                          # rule-based parser, offline
+ *   npm run eval:parser -- --source live --record fixtures/parser-eval/recordings/<model>.json
+ *   npm run eval:parser -- --source recorded --recording fixtures/parser-eval/recordings/<model>.json
+ *   npm run eval:parser -- --out fixtures/parser-eval/reports/rules.txt --fail-under 90
+ *
+ * Cases with a `parsed` query skip the parser and only score resolveParsedDates.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import path from "path";
+import { config as loadEnv } from "dotenv";
+import {
+  parseTravelQuery,
+  resolveParsedDates,
+  TravelQuerySchema,
+  type ParsedTravelQuery,
+} from "../src/lib/openai";
+import { parseTravelQueryWithRules } from "../src/lib/query-parser";
+import { findAirportCodeForCity, isSameMetro } from "../src/lib/airports";
+
+// Live runs need the LLM settings the app uses
+loadEnv({ path: ".env.local", quiet: true });
+loadEnv({ quiet: true });
+// ...but always ask the model, a cached parse would hide prompt and model changes
+process.env.PARSE_CACHE_TTL_DAYS = "0";
+
+const DEFAULT_CORPUS = "fixtures/parser-eval/cases.json";
+
+type Source = "rules" | "live" | "recorded";
+
+interface ExpectedFields {
+  origin?: string; // IATA airport or metro code; any airport of the same metro matches
+  destination?: string;
+  tripType?: ParsedTravelQuery["intent"]["tripType"];
+  departureDate?: string;
+  returnDate?: string | null; // null for one-way
+  departureRange?: { start: string; end: string } | null;
+  departureFlexibility?: ParsedTravelQuery["dates"]["departure"]["flexibility"];
+  adults?: number;
+  children?: number;
+  infants?: number;
+  cabin?: ParsedTravelQuery["preferences"]["cabinClass"];
+  directOnly?: boolean;
+}
+
+type Field = keyof ExpectedFields;
+
+const FIELDS: Field[] = [
+  "origin", "destination", "tripType", "departureDate", "returnDate", "departureRange",
+  "departureFlexibility", "adults", "children", "infants", "cabin", "directOnly",
+];
+
+interface EvalCase {
+  id: string;
+  today: string; // YYYY-MM-DD the query is evaluated at
+  query?: string;
+  parsed?: unknown; // Hand-written parser output, for date-resolution cases
+  expected: ExpectedFields;
+}
+
+interface CaseResult {
+  id: string;
+  status: "PASS" | "FAIL" | "SKIP";
+  note?: string;
+  mismatches: string[];
+  scores: Partial<Record<Field, boolean>>;
+}
+
+// ============================================
+// Arguments
+// ============================================
+
+function parseArgs(argv: string[]) {
+  const args = {
+    source: "rules" as Source,
+    corpus: DEFAULT_CORPUS,
+    recording: undefined as string | undefined,
+    record: undefined as string | undefined,
+    out: undefined as string | undefined,
+    failUnder: undefined as number | undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case "--source":
+        if (value !== "rules" && value !== "live" && value !== "recorded") {
+          throw new Error(`Unknown source "${value}" (rules, live or recorded)`);
+        }
+        args.source = value;
+        i++;
+        break;
+      case "--corpus": args.corpus = value; i++; break;
+      case "--recording": args.recording = value; i++; break;
+      case "--record": args.record = value; i++; break;
+      case "--out": args.out = value; i++; break;
+      case "--fail-under": args.failUnder = Number(value); i++; break;
+      default:
+        throw new Error(`Unknown argument "${argv[i]}"`);
+    }
+  }
+
+  if (args.source === "recorded" && !args.recording) {
+    throw new Error("--source recorded needs --recording <file>");
+  }
+  return args;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function locationCode(location: ParsedTravelQuery["origin"]): string | undefined {
+  return location.iataCode?.toUpperCase() ?? findAirportCodeForCity(location.city);
+}
+
+/**
+ * The fields a case can be scored on, as the search route would use them
+ */
+function actualFields(parsed: ParsedTravelQuery, today: Date): Record<Field, unknown> {
+  const resolved = resolveParsedDates(parsed, today);
+  return {
+    origin: locationCode(parsed.origin),
+    destination: locationCode(parsed.destination),
+    tripType: parsed.intent.tripType,
+    departureDate: resolved.departureDate,
+    returnDate: resolved.returnDate ?? null,
+    departureRange: resolved.departureDateRange ?? null,
+    departureFlexibility: parsed.dates.departure.flexibility,
+    adults: parsed.passengers.adults,
+    children: parsed.passengers.children,
+    infants: parsed.passengers.infants,
+    cabin: parsed.preferences.cabinClass,
+    directOnly: parsed.preferences.directFlightsOnly,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value && typeof value === "object" && "start" in value && "end" in value) {
+    return `${value.start}..${value.end}`;
+  }
+  return value === undefined ? "(none)" : String(value);
+}
+
+function matches(field: Field, expected: unknown, actual: unknown): boolean {
+  if ((field === "origin" || field === "destination") && typeof expected === "string" && typeof actual === "string") {
+    return expected === actual || isSameMetro(expected, actual);
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+function scoreCase(testCase: EvalCase, parsed: ParsedTravelQuery | null): CaseResult {
+  if (!parsed) {
+    return { id: testCase.id, status: "SKIP", note: "no parser result", mismatches: [], scores: {} };
+  }
+
+  const actual = actualFields(parsed, parseLocalDate(testCase.today));
+  const scores: Partial<Record<Field, boolean>> = {};
+  const mismatches: string[] = [];
+
+  for (const field of FIELDS) {
+    if (!(field in testCase.expected)) continue;
+    const expected = testCase.expected[field];
+    scores[field] = matches(field, expected, actual[field]);
+    if (!scores[field]) {
+      mismatches.push(`${field}: expected ${formatValue(expected)}, got ${formatValue(actual[field])}`);
+    }
+  }
+
+  return { id: testCase.id, status: mismatches.length ? "FAIL" : "PASS", mismatches, scores };
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+async function parseCase(
+  testCase: EvalCase,
+  source: Source,
+  recording: Record<string, unknown>
+): Promise<ParsedTravelQuery | null> {
+  if (testCase.parsed) {
+    return TravelQuerySchema.parse(testCase.parsed);
+  }
+  if (!testCase.query) {
+    throw new Error(`Case ${testCase.id} needs a query or a parsed result`);
+  }
+
+  const today = parseLocalDate(testCase.today);
+  switch (source) {
+    case "rules":
+      return parseTravelQueryWithRules(testCase.query, today);
+    case "recorded":
+      return testCase.id in recording ? TravelQuerySchema.parse(recording[testCase.id]) : null;
+    case "live":
+      try {
+        return await parseTravelQuery(testCase.query, [], today);
+      } catch (error) {
+        console.error(`Live parse failed for ${testCase.id}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+  }
+}
+
+// ============================================
+// Report
+// ============================================
+
+function buildReport(source: string, corpus: string, results: CaseResult[]): { report: string; accuracy: number } {
+  const lines = [`Parser evaluation - source: ${source}, corpus: ${corpus}`, ""];
+
+  for (const result of results) {
+    lines.push(`${result.status.padEnd(5)} ${result.id}${result.note ? `  (${result.note})` : ""}`);
+    for (const mismatch of result.mismatches) {
+      lines.push(`        ${mismatch}`);
+    }
+  }
+
+  lines.push("", `${"Field".padEnd(22)}${"Correct".padStart(8)}${"Total".padStart(8)}${"Accuracy".padStart(10)}`);
+  let correct = 0;
+  let total = 0;
+  const row = (label: string, right: number, all: number) =>
+    `${label.padEnd(22)}${String(right).padStart(8)}${String(all).padStart(8)}${`${(all ? (right / all) * 100 : 0).toFixed(1)}%`.padStart(10)}`;
+
+  for (const field of FIELDS) {
+    const scored = results.map((result) => result.scores[field]).filter((score) => score !== undefined);
+    if (scored.length === 0) continue;
+    const right = scored.filter(Boolean).length;
+    correct += right;
+    total += scored.length;
+    lines.push(row(field, right, scored.length));
+  }
+  lines.push(row("overall", correct, total));
+
+  const count = (status: CaseResult["status"]) => results.filter((result) => result.status === status).length;
+  lines.push("", `Cases: ${count("PASS")} passed, ${count("FAIL")} failed, ${count("SKIP")} skipped`, "");
+
+  return { report: lines.join("\n"), accuracy: total ? (correct / total) * 100 : 0 };
+}
+
+function writeFile(file: string, content: string) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const cases = JSON.parse(readFileSync(args.corpus, "utf8")) as EvalCase[];
+  const recording = args.recording
+    ? (JSON.parse(readFileSync(args.recording, "utf8")) as Record<string, unknown>)
+    : {};
+
+  const results: CaseResult[] = [];
+  const recorded: Record<string, ParsedTravelQuery> = {};
+  for (const testCase of cases) {
+    const parsed = await parseCase(testCase, args.source, recording);
+    if (parsed && testCase.query) recorded[testCase.id] = parsed;
+    results.push(scoreCase(testCase, parsed));
+  }
+
+  if (args.record) {
+    writeFile(args.record, `${JSON.stringify(recorded, null, 2)}\n`);
+  }
+
+  const source = args.source === "recorded" ? `recorded (${args.recording})` : args.source;
+  const { report, accuracy } = buildReport(source, args.corpus, results);
+  if (args.out) writeFile(args.out, report);
+  process.stdout.write(report);
+
+  if (args.failUnder !== undefined && accuracy < args.failUnder) {
+    console.error(`Accuracy ${accuracy.toFixed(1)}% is below ${args.failUnder}%`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,207 @@
+/**
+ * Background Worker
+ *
+ * Runs due scheduled tasks and checks price alerts on its own loop, for
+ * self-hosted setups without an external cron. Tasks and alerts are claimed
+ * atomically, so the worker can run next to /api/cron/run-tasks (or as several
+ * replicas) without anything running twice.
+ *
+ *   npm run worker
+ *
+ * Configuration (environment):
+ *   WORKER_POLL_SECONDS   Seconds between polls (default 60)
+ *   WORKER_CONCURRENCY    Tasks or alerts processed at once (default 2)
+ *   WORKER_HEALTH_PORT    Port of the GET /health endpoint (default 3001, 0 disables)
+ *
+ * SIGTERM/SIGINT stop it gracefully: no new work is started, runs in progress
+ * finish and release their leases. A second signal exits immediately.
+ */
+
+import { createServer, type Server } from "http";
+import { hostname } from "os";
+import { config as loadEnv } from "dotenv";
+
+loadEnv({ path: ".env.local", quiet: true });
+loadEnv({ quiet: true });
+
+const DEFAULT_POLL_SECONDS = 60;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_HEALTH_PORT = 3001;
+
+// Expired cache entries and old run log entries are purged at most this often
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Unhealthy when no poll has finished for this many poll intervals
+const STALE_POLLS = 3;
+
+// ...or when the poll in progress has been running longer than this (leases last 10 minutes)
+const STUCK_POLL_MS = 15 * 60 * 1000;
+
+const RUNNER = `worker:${hostname()}:${process.pid}`;
+
+interface WorkerState {
+  startedAt: Date;
+  pollStartedAt: Date | null; // Start of the poll in progress
+  stopping: boolean;
+  polls: number;
+  lastPollAt: Date | null; // Last poll that finished without error
+  lastError: string | null;
+  tasksRun: number;
+  tasksFailed: number;
+  alertsChecked: number;
+  alertsTriggered: number;
+}
+
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) || value < min ? fallback : value;
+}
+
+const pollMs = readIntEnv("WORKER_POLL_SECONDS", DEFAULT_POLL_SECONDS, 1) * 1000;
+const concurrency = readIntEnv("WORKER_CONCURRENCY", DEFAULT_CONCURRENCY, 1);
+const healthPort = readIntEnv("WORKER_HEALTH_PORT", DEFAULT_HEALTH_PORT, 0);
+
+const state: WorkerState = {
+  startedAt: new Date(),
+  pollStartedAt: null,
+  stopping: false,
+  polls: 0,
+  lastPollAt: null,
+  lastError: null,
+  tasksRun: 0,
+  tasksFailed: 0,
+  alertsChecked: 0,
+  alertsTriggered: 0,
+};
+
+const shutdown = new AbortController();
+let wakeUp: (() => void) | null = null;
+let lastPurgeAt = 0;
+
+function isHealthy(): boolean {
+  if (state.stopping) return false;
+  // A long poll is fine, one that hangs is not
+  const limit = state.pollStartedAt ? Math.max(STALE_POLLS * pollMs, STUCK_POLL_MS) : STALE_POLLS * pollMs;
+  const since = (state.pollStartedAt ?? state.lastPollAt ?? state.startedAt).getTime();
+  return Date.now() - since < limit;
+}
+
+function startHealthServer(): Server {
+  const server = createServer((request, response) => {
+    if (request.method !== "GET" || request.url !== "/health") {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ success: false, error: "Not found" }));
+      return;
+    }
+
+    const healthy = isHealthy();
+    response.writeHead(healthy ? 200 : 503, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        success: healthy,
+        status: state.stopping ? "stopping" : healthy ? "ok" : "stale",
+        runner: RUNNER,
+        pollSeconds: pollMs / 1000,
+        concurrency,
+        ...state,
+      })
+    );
+  });
+
+  server.listen(healthPort, () => {
+    console.log(`Worker health endpoint on http://localhost:${healthPort}/health`);
+  });
+  return server;
+}
+
+async function poll() {
+  // Imported lazily: some modules read their settings from the environment on import
+  const { runDueTasks, checkPriceAlerts, purgeOldTaskRuns } = await import("../src/lib/scheduler");
+  const { purgeExpiredSearchCache } = await import("../src/lib/search-cache");
+  const { purgeExpiredParseCache } = await import("../src/lib/parse-cache");
+
+  const options = { concurrency, runner: RUNNER, signal: shutdown.signal };
+
+  const taskResults = await runDueTasks(options);
+  state.tasksRun += taskResults.length;
+  state.tasksFailed += taskResults.filter((r) => !r.success).length;
+
+  const alertResults = await checkPriceAlerts(options);
+  state.alertsChecked += alertResults.length;
+  state.alertsTriggered += alertResults.filter((r) => r.triggered).length;
+
+  if (taskResults.length > 0 || alertResults.length > 0) {
+    console.log(
+      `Ran ${taskResults.length} task(s), ${taskResults.filter((r) => !r.success).length} failed; ` +
+        `checked ${alertResults.length} alert(s), ${alertResults.filter((r) => r.triggered).length} triggered`
+    );
+  }
+
+  if (Date.now() - lastPurgeAt >= PURGE_INTERVAL_MS && !shutdown.signal.aborted) {
+    const purgedCache = (await purgeExpiredSearchCache()) + (await purgeExpiredParseCache());
+    const purgedRuns = await purgeOldTaskRuns();
+    lastPurgeAt = Date.now();
+    if (purgedCache > 0 || purgedRuns > 0) {
+      console.log(`Purged ${purgedCache} cache entries and ${purgedRuns} task runs`);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wakeUp = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+function handleSignal(signal: NodeJS.Signals) {
+  if (state.stopping) {
+    console.log(`Received ${signal} again, exiting now`);
+    process.exit(1);
+  }
+
+  console.log(`Received ${signal}, finishing runs in progress...`);
+  state.stopping = true;
+  shutdown.abort();
+  wakeUp?.();
+}
+
+async function main() {
+  process.on("SIGTERM", handleSignal);
+  process.on("SIGINT", handleSignal);
+
+  const server = healthPort > 0 ? startHealthServer() : null;
+  console.log(`Worker ${RUNNER} polling every ${pollMs / 1000}s with concurrency ${concurrency}`);
+
+  while (!state.stopping) {
+    state.pollStartedAt = new Date();
+    try {
+      await poll();
+      state.lastPollAt = new Date();
+      state.lastError = null;
+    } catch (error) {
+      // Keep polling: a database or provider outage should not stop the worker
+      console.error("Worker poll failed:", error);
+      state.lastError = error instanceof Error ? error.message : "Unknown error";
+    }
+    state.pollStartedAt = null;
+    state.polls++;
+
+    if (!state.stopping) {
+      await sleep(pollMs);
+    }
+  }
+
+  server?.close();
+  const { prisma } = await import("../src/lib/db");
+  await prisma.$disconnect();
+  console.log("Worker stopped");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
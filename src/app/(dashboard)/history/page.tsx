@@ -286,6 +286,8 @@ export default function HistoryPage() {
           carriers: data.data.dictionaries?.carriers,
           parsedQuery: data.data.parsedQuery,
           insight: data.data.insight,
+          cache: data.data.cache,
+          dateMatrix: data.data.dateMatrix,
           query: item.rawPrompt,
         })
       );
@@ -307,6 +309,11 @@ export default function HistoryPage() {
         destination: item.destination,
         departureDate: item.departureDate,
         returnDate: item.returnDate,
+        adults: item.adults,
+        children: item.children,
+        infants: item.infants,
+        travelClass: item.travelClass,
+        nonStop: item.nonStop,
         name: `${item.origin} → ${item.destination}`,
       })
     );
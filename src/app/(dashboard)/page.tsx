@@ -7,25 +7,38 @@ import {
   RouteComparison,
   RouteComparisonSkeleton,
   SearchProgress,
+  PriceCalendar,
   type SearchStage,
 } from "@/components/flights";
 import { NormalizedFlight } from "@/lib/amadeus";
-import { MultiCitySearchResult } from "@/lib/multi-city";
+import { MultiCitySearchResult, MultiCityRoute } from "@/lib/multi-city";
 import { ParsedTravelQuery } from "@/lib/openai";
+import type { SearchCacheInfo } from "@/lib/search-cache";
+import type { DateMatrixResult, DateMatrixCell } from "@/lib/date-matrix";
+import { describeAirlinePreferences, type AirlinePreferences } from "@/lib/flight-utils";
+import { readStreamedResponse } from "@/lib/event-stream";
+import type { SearchStageUpdate } from "@/lib/search-stages";
+import type { NaturalSearchResponse, NaturalSearchStreamEvent } from "@/app/api/flights/search-natural/route";
+import type { CompareRoutesResponse, CompareRoutesStreamEvent } from "@/app/api/flights/compare-routes/route";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Compass, Route, Bell, Plane, Sparkles, Info, Clock, RefreshCw, Bookmark, X, Play, Trash2, GitCompare, Loader2, Trophy, Timer, ArrowRight } from "lucide-react";
+import { Compass, Route, Bell, Plane, Sparkles, Info, Clock, RefreshCw, Bookmark, X, Play, Trash2, GitCompare, Loader2, Trophy, Timer, ArrowRight, Pin, PinOff, Tag } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { toast } from "sonner";
-import { getSavedSearches, saveSearch, deleteSavedSearch, SavedSearch } from "@/lib/saved-searches";
+import type { SavedSearch } from "@/lib/saved-searches";
 import { useRouter } from "next/navigation";
 
 const CACHE_KEY = "flightSearchCache";
 const CACHE_MAX_AGE_MS = 30 * 60 * 1000; // 30 minutes
 
+// Saved searches used to live in localStorage; the dashboard offers to import them once
+const LEGACY_SAVED_SEARCHES_KEY = "savedSearches";
+
 interface CachedSearch {
   result: SearchResult;
   timestamp: number;
@@ -47,6 +60,10 @@ interface SearchResult {
   carriers?: Record<string, string>;
   parsedQuery?: ParsedTravelQuery;
   insight?: string;
+  cache?: SearchCacheInfo; // Server-side cache status
+  dateMatrix?: DateMatrixResult; // Price calendar for flexible-date searches
+  selectedDates?: { departureDate: string; returnDate?: string }; // Date pair shown from the calendar
+  airlinePreferences?: AirlinePreferences; // Carrier constraints applied by the server
 }
 
 export default function HomePage() {
@@ -59,20 +76,48 @@ export default function HomePage() {
   const [clarificationQuestions, setClarificationQuestions] = useState<string[]>([]);
   const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [lastQuery, setLastQuery] = useState<string | null>(null);
+  const [lastSearchParams, setLastSearchParams] = useState<SearchParams | null>(null);
   const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [legacySearches, setLegacySearches] = useState<unknown[]>([]); // Not yet imported from this browser
+  const [isImporting, setIsImporting] = useState(false);
   const [searchStage, setSearchStage] = useState<SearchStage>("parsing");
+  const [stageUpdate, setStageUpdate] = useState<SearchStageUpdate | null>(null); // Detail streamed by the server
+  const [partialResults, setPartialResults] = useState<{ flights: NormalizedFlight[]; carriers?: Record<string, string> } | null>(null);
+  const [partialRoutes, setPartialRoutes] = useState<MultiCityRoute[]>([]);
+  const [routeProgress, setRouteProgress] = useState<string | null>(null);
   const [isNaturalLanguageSearch, setIsNaturalLanguageSearch] = useState(true);
+  const [isLoadingMatrixDate, setIsLoadingMatrixDate] = useState(false);
 
   // Load saved searches on mount
   useEffect(() => {
-    setSavedSearches(getSavedSearches());
+    fetchSavedSearches();
   }, []);
 
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch("/api/saved-searches");
+      const data = await response.json();
+      if (data.success) {
+        setSavedSearches(data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch saved searches:", error);
+    }
+
+    try {
+      const legacy = JSON.parse(localStorage.getItem(LEGACY_SAVED_SEARCHES_KEY) || "[]");
+      setLegacySearches(Array.isArray(legacy) ? legacy : []);
+    } catch (error) {
+      console.error("Failed to read searches saved in this browser:", error);
+    }
+  };
+
   // Save results to sessionStorage
   const cacheResults = useCallback((result: SearchResult, query?: string) => {
     const cache: CachedSearch = {
       result,
-      timestamp: Date.now(),
+      // Use the server's fetch time so cached results show their real age
+      timestamp: result.cache ? Date.parse(result.cache.cachedAt) : Date.now(),
       query,
     };
     try {
@@ -97,6 +142,8 @@ export default function HomePage() {
           carriers: data.carriers,
           parsedQuery: data.parsedQuery,
           insight: data.insight,
+          cache: data.cache,
+          dateMatrix: data.dateMatrix,
         };
         setSearchResult(result);
         cacheResults(result, data.query);
@@ -131,7 +178,7 @@ export default function HomePage() {
   }, [cacheResults]);
 
   // Manual structured search
-  const handleSearch = async (params: SearchParams) => {
+  const handleSearch = async (params: SearchParams, forceRefresh = false) => {
     setIsLoading(true);
     setIsNaturalLanguageSearch(false);
     setSearchStage("searching");
@@ -149,6 +196,7 @@ export default function HomePage() {
           returnDate: params.returnDate,
           adults: params.adults,
           travelClass: params.travelClass,
+          forceRefresh,
         }),
       });
 
@@ -164,9 +212,11 @@ export default function HomePage() {
         searchId: data.data.searchId,
         flights: data.data.flights,
         carriers: data.data.dictionaries?.carriers,
+        cache: data.data.cache,
       };
       setSearchResult(result);
       cacheResults(result);
+      setLastSearchParams(params);
       toast.success(`Found ${result.flights.length} flights`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "An error occurred";
@@ -178,29 +228,34 @@ export default function HomePage() {
     }
   };
 
-  // Natural language search
-  const handleNaturalSearch = async (query: string) => {
+  // Natural language search, skipping the parse when the structured query is already known
+  const handleNaturalSearch = async (query: string, forceRefresh = false, parsedQuery?: ParsedTravelQuery) => {
     setIsLoading(true);
     setIsNaturalLanguageSearch(true);
     setSearchStage("parsing");
+    setStageUpdate(null);
+    setPartialResults(null);
     setError(null);
     setClarificationQuestions([]);
 
     try {
-      // Simulate parsing stage (API handles this but we show it)
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      setSearchStage("searching");
-
       const response = await fetch("/api/flights/search-natural", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query }),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ query, parsedQuery, forceRefresh }),
       });
 
-      setSearchStage("processing");
-      const data = await response.json();
+      // Stages and early flights arrive as the server works through the search
+      const data = await readStreamedResponse<NaturalSearchResponse, NaturalSearchStreamEvent>(response, (event) => {
+        if (event.event === "stage") {
+          setSearchStage(event.data.stage);
+          setStageUpdate(event.data);
+        } else if (event.event === "partial") {
+          setPartialResults(event.data);
+        }
+      });
 
-      if (!response.ok || !data.success) {
+      if (!data.success) {
         // Handle clarification needed
         if (data.needsClarification && data.clarificationQuestions) {
           setClarificationQuestions(data.clarificationQuestions);
@@ -217,9 +272,13 @@ export default function HomePage() {
         carriers: data.data.dictionaries?.carriers,
         parsedQuery: data.data.parsedQuery,
         insight: data.data.insight,
+        cache: data.data.cache,
+        dateMatrix: data.data.dateMatrix,
+        airlinePreferences: data.data.airlinePreferences,
       };
       setSearchResult(result);
       cacheResults(result, query);
+      setLastSearchParams(null);
       toast.success(`Found ${result.flights.length} flights`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "An error occurred";
@@ -228,13 +287,67 @@ export default function HomePage() {
       toast.error("Search failed", { description: errorMsg });
     } finally {
       setIsLoading(false);
+      setPartialResults(null);
     }
   };
 
-  // Refresh prices (re-run last query)
+  // Load full results for a date pair picked from the price calendar
+  const handleSelectMatrixDate = async (cell: DateMatrixCell) => {
+    if (!searchResult?.dateMatrix) return;
+    const parsed = searchResult.parsedQuery;
+    const airlines = searchResult.airlinePreferences;
+
+    setIsLoadingMatrixDate(true);
+    try {
+      const response = await fetch("/api/flights/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          origin: searchResult.dateMatrix.origin,
+          destination: searchResult.dateMatrix.destination,
+          departureDate: cell.departureDate,
+          returnDate: cell.returnDate,
+          adults: parsed?.passengers.adults ?? 1,
+          children: parsed?.passengers.children ?? 0,
+          infants: parsed?.passengers.infants ?? 0,
+          travelClass: parsed?.preferences.cabinClass ?? "ECONOMY",
+          nonStop: parsed?.preferences.directFlightsOnly ?? false,
+          includedAirlineCodes: airlines?.preferredOnly ? airlines.preferred : undefined,
+          excludedAirlineCodes: airlines?.avoided.length ? airlines.avoided : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Search failed");
+      }
+
+      const result: SearchResult = {
+        ...searchResult,
+        searchId: data.data.searchId,
+        flights: data.data.flights,
+        carriers: data.data.dictionaries?.carriers,
+        cache: data.data.cache,
+        insight: undefined, // Insight described the original dates
+        selectedDates: { departureDate: cell.departureDate, returnDate: cell.returnDate },
+      };
+      setSearchResult(result);
+      cacheResults(result, lastQuery || undefined);
+      toast.success(`Found ${result.flights.length} flights for ${cell.departureDate}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "An error occurred";
+      toast.error("Search failed", { description: errorMsg });
+    } finally {
+      setIsLoadingMatrixDate(false);
+    }
+  };
+
+  // Refresh prices (re-run last search, bypassing the server cache)
   const handleRefreshPrices = async () => {
     if (lastQuery) {
-      await handleNaturalSearch(lastQuery);
+      await handleNaturalSearch(lastQuery, true, searchResult?.parsedQuery);
+    } else if (lastSearchParams) {
+      await handleSearch(lastSearchParams, true);
     }
   };
 
@@ -243,39 +356,98 @@ export default function HomePage() {
     setSearchResult(null);
     setCachedAt(null);
     setLastQuery(null);
+    setLastSearchParams(null);
     sessionStorage.removeItem(CACHE_KEY);
   };
 
-  // Save current search
-  const handleSaveSearch = () => {
-    if (!lastQuery || !searchResult) return;
-
-    const parsed = searchResult.parsedQuery;
-    const saved = saveSearch({
-      name: parsed
-        ? `${parsed.origin.city} → ${parsed.destination.city}`
-        : lastQuery.slice(0, 50),
-      query: lastQuery,
-      origin: parsed?.origin.iataCode,
-      destination: parsed?.destination.iataCode,
-      departureDate: parsed?.dates.departure.date || undefined,
-      returnDate: parsed?.dates.return?.date || undefined,
-    });
+  // Save current search, with the prompt and the parameters it resolved to
+  const handleSaveSearch = async () => {
+    if (!searchResult) return;
 
-    setSavedSearches(getSavedSearches());
-    toast.success("Search saved", { description: saved.name });
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searchId: searchResult.searchId }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error("Failed to save search", { description: data.error });
+        return;
+      }
+      toast.success("Search saved", { description: data.data.name });
+      fetchSavedSearches();
+    } catch (error) {
+      toast.error("Failed to save search", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   };
 
   // Delete saved search
-  const handleDeleteSavedSearch = (id: string) => {
-    deleteSavedSearch(id);
-    setSavedSearches(getSavedSearches());
+  const handleDeleteSavedSearch = async (id: string) => {
+    const response = await fetch(`/api/saved-searches/${id}`, { method: "DELETE" });
+    const data = await response.json();
+    if (!data.success) {
+      toast.error("Failed to remove search", { description: data.error });
+      return;
+    }
+    setSavedSearches((prev) => prev.filter((search) => search.id !== id));
     toast.success("Search removed");
   };
 
-  // Run saved search
+  // Pin a saved search or change its tags
+  const handleUpdateSavedSearch = async (id: string, changes: { pinned?: boolean; tags?: string[] }) => {
+    const response = await fetch(`/api/saved-searches/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      toast.error("Failed to update search", { description: data.error });
+      return;
+    }
+    fetchSavedSearches(); // Pinning changes the order
+  };
+
+  // Move the searches this browser saved before they were stored on the server
+  const handleImportLegacySearches = async () => {
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/saved-searches/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searches: legacySearches }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error("Import failed", { description: data.error });
+        return;
+      }
+      localStorage.removeItem(LEGACY_SAVED_SEARCHES_KEY);
+      toast.success(`Imported ${data.data.imported} saved search${data.data.imported !== 1 ? "es" : ""}`, {
+        description: data.data.skipped > 0 ? `${data.data.skipped} already saved` : undefined,
+      });
+      fetchSavedSearches();
+    } catch (error) {
+      toast.error("Import failed", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDismissLegacySearches = () => {
+    localStorage.removeItem(LEGACY_SAVED_SEARCHES_KEY);
+    setLegacySearches([]);
+  };
+
+  // Run saved search with the query it was parsed into: prompts saved from chat
+  // follow-ups ("make it nonstop") can't be parsed on their own
   const handleRunSavedSearch = async (search: SavedSearch) => {
-    await handleNaturalSearch(search.query);
+    await handleNaturalSearch(search.query, false, search.parsedQuery ?? undefined);
   };
 
   // Create task from saved search
@@ -287,6 +459,11 @@ export default function HomePage() {
         destination: search.destination,
         departureDate: search.departureDate,
         returnDate: search.returnDate,
+        adults: search.adults,
+        children: search.children,
+        infants: search.infants,
+        travelClass: search.travelClass,
+        nonStop: search.nonStop,
         name: search.name,
       })
     );
@@ -297,11 +474,13 @@ export default function HomePage() {
   const handleCompareRoutes = async (params: SearchParams) => {
     setIsComparingRoutes(true);
     setRouteComparison(null);
+    setPartialRoutes([]);
+    setRouteProgress(null);
 
     try {
       const response = await fetch("/api/flights/compare-routes", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify({
           origin: params.origin.toUpperCase(),
           destination: params.destination.toUpperCase(),
@@ -312,9 +491,16 @@ export default function HomePage() {
         }),
       });
 
-      const data = await response.json();
+      // Each route is shown as soon as its hub has been searched
+      const data = await readStreamedResponse<CompareRoutesResponse, CompareRoutesStreamEvent>(response, (event) => {
+        if (event.event === "stage") {
+          setRouteProgress(event.data.detail ?? null);
+        } else if (event.event === "route") {
+          setPartialRoutes((routes) => [...routes, event.data.route]);
+        }
+      });
 
-      if (!response.ok || !data.success) {
+      if (!data.success) {
         console.error("Route comparison failed:", data.error);
         return;
       }
@@ -324,6 +510,8 @@ export default function HomePage() {
       console.error("Route comparison error:", err);
     } finally {
       setIsComparingRoutes(false);
+      setPartialRoutes([]);
+      setRouteProgress(null);
     }
   };
 
@@ -383,7 +571,11 @@ export default function HomePage() {
 
       {/* Parsed Query Summary */}
       {searchResult?.parsedQuery && (
-        <ParsedQuerySummary query={searchResult.parsedQuery} />
+        <ParsedQuerySummary
+          query={searchResult.parsedQuery}
+          airlinePreferences={searchResult.airlinePreferences}
+          carriers={searchResult.carriers}
+        />
       )}
 
       {/* AI Insight */}
@@ -415,10 +607,28 @@ export default function HomePage() {
 
       {/* Search Progress */}
       {isLoading && (
-        <SearchProgress
-          stage={searchStage}
-          isNaturalLanguage={isNaturalLanguageSearch}
-        />
+        <>
+          <SearchProgress
+            stage={searchStage}
+            isNaturalLanguage={isNaturalLanguageSearch}
+            detail={stageUpdate?.detail}
+            completed={stageUpdate?.completed}
+            total={stageUpdate?.total}
+          />
+          {partialResults && partialResults.flights.length > 0 && (
+            <div className="pt-4">
+              <p className="text-sm text-muted-foreground mb-3 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Early results - still searching
+              </p>
+              <FlightResultsList
+                flights={partialResults.flights}
+                carriers={partialResults.carriers}
+                isLoading={false}
+              />
+            </div>
+          )}
+        </>
       )}
 
       {/* Results */}
@@ -428,19 +638,37 @@ export default function HomePage() {
           {cachedAt && (
             <CachedResultsBanner
               cachedAt={cachedAt}
+              fromServerCache={!!searchResult.cache?.hit}
               onRefresh={handleRefreshPrices}
               onClear={clearResults}
               onSave={handleSaveSearch}
-              canRefresh={!!lastQuery}
-              canSave={!!lastQuery}
+              canRefresh={!!lastQuery || !!lastSearchParams}
+              canSave={!!lastQuery || !!lastSearchParams}
               isRefreshing={isLoading}
             />
           )}
+          {searchResult.dateMatrix && searchResult.dateMatrix.cells.length > 0 && (
+            <div className="mb-6">
+              <PriceCalendar
+                matrix={searchResult.dateMatrix}
+                selectedDepartureDate={
+                  searchResult.selectedDates?.departureDate ?? searchResult.dateMatrix.cheapest?.departureDate
+                }
+                selectedReturnDate={
+                  searchResult.selectedDates?.returnDate ?? searchResult.dateMatrix.cheapest?.returnDate
+                }
+                onSelect={handleSelectMatrixDate}
+                isLoading={isLoadingMatrixDate}
+              />
+            </div>
+          )}
           <FlightResultsList
             flights={searchResult.flights}
             carriers={searchResult.carriers}
             isLoading={false}
             searchId={searchResult.searchId}
+            checkedBags={searchResult.parsedQuery?.preferences.checkedBags}
+            preferredAirlines={searchResult.airlinePreferences?.preferred}
           />
         </div>
       )}
@@ -449,8 +677,24 @@ export default function HomePage() {
       {(isComparingRoutes || routeComparison) && (
         <div className="pt-4">
           <Separator className="mb-6" />
+          {isComparingRoutes && routeProgress && (
+            <p className="text-sm text-muted-foreground mb-4 flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {routeProgress}
+            </p>
+          )}
           {isComparingRoutes ? (
-            <RouteComparisonSkeleton />
+            partialRoutes.length > 0 ? (
+              <RouteComparison
+                directRoute={partialRoutes.find((route) => route.type === "direct") ?? null}
+                stopoverRoutes={partialRoutes
+                  .filter((route) => route.type === "stopover")
+                  .sort((a, b) => b.score - a.score)}
+                bestRoute={null}
+              />
+            ) : (
+              <RouteComparisonSkeleton />
+            )
           ) : routeComparison ? (
             <RouteComparison
               directRoute={routeComparison.directRoute}
@@ -461,12 +705,36 @@ export default function HomePage() {
         </div>
       )}
 
+      {/* One-time import of the searches this browser saved locally */}
+      {!isLoading && legacySearches.length > 0 && (
+        <Alert>
+          <Bookmark className="h-4 w-4" />
+          <AlertTitle>Searches saved in this browser</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+            <span>
+              {legacySearches.length} saved search{legacySearches.length !== 1 ? "es are" : " is"} only
+              stored here. Import them to use them on every device, in the chat and for tasks.
+            </span>
+            <span className="flex gap-2">
+              <Button size="sm" onClick={handleImportLegacySearches} disabled={isImporting}>
+                {isImporting && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                Import
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleDismissLegacySearches} disabled={isImporting}>
+                Discard
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Saved Searches - Show when there are saved searches */}
       {!isLoading && savedSearches.length > 0 && (
         <SavedSearchesSection
           searches={savedSearches}
           onRun={handleRunSavedSearch}
           onDelete={handleDeleteSavedSearch}
+          onUpdate={handleUpdateSavedSearch}
           onCreateTask={handleCreateTaskFromSaved}
           isLoading={isLoading}
         />
@@ -507,16 +775,32 @@ export default function HomePage() {
   );
 }
 
-function ParsedQuerySummary({ query }: { query: ParsedTravelQuery }) {
+function ParsedQuerySummary({
+  query,
+  airlinePreferences,
+  carriers,
+}: {
+  query: ParsedTravelQuery;
+  airlinePreferences?: AirlinePreferences;
+  carriers?: Record<string, string>;
+}) {
+  const airlineSummary = airlinePreferences && describeAirlinePreferences(airlinePreferences, carriers);
+
   return (
     <Alert className="bg-muted/50 border-border">
       <Info className="h-4 w-4" />
       <AlertTitle>Search Understood</AlertTitle>
       <AlertDescription>
         <div className="flex flex-wrap gap-2 mt-2">
-          <Badge variant="secondary">
-            {query.origin.city} → {query.destination.city}
-          </Badge>
+          {query.intent.tripType === "multi_city" && query.legs && query.legs.length > 1 ? (
+            <Badge variant="secondary">
+              {query.legs.map((leg) => `${leg.origin.city} → ${leg.destination.city}`).join(", ")}
+            </Badge>
+          ) : (
+            <Badge variant="secondary">
+              {query.origin.city} → {query.destination.city}
+            </Badge>
+          )}
           {query.dates.departure.date && (
             <Badge variant="outline">
               Departure: {query.dates.departure.date}
@@ -543,6 +827,18 @@ function ParsedQuerySummary({ query }: { query: ParsedTravelQuery }) {
           <Badge variant="outline" className="capitalize">
             {query.preferences.cabinClass.toLowerCase().replace("_", " ")}
           </Badge>
+          {query.preferences.checkedBags !== undefined && (
+            <Badge variant="outline">
+              {query.preferences.checkedBags === 0
+                ? "Carry-on only"
+                : `${query.preferences.checkedBags} checked bag${query.preferences.checkedBags > 1 ? "s" : ""}`}
+            </Badge>
+          )}
+          {airlineSummary && (
+            <Badge variant="outline">
+              {airlineSummary}
+            </Badge>
+          )}
           {query.preferences.flexibleDates && (
             <Badge className="bg-accent text-accent-foreground">
               Flexible dates
@@ -609,6 +905,7 @@ function formatRelativeTime(timestamp: number): string {
 
 function CachedResultsBanner({
   cachedAt,
+  fromServerCache,
   onRefresh,
   onClear,
   onSave,
@@ -617,6 +914,7 @@ function CachedResultsBanner({
   isRefreshing,
 }: {
   cachedAt: number;
+  fromServerCache: boolean;
   onRefresh: () => void;
   onClear: () => void;
   onSave: () => void;
@@ -639,6 +937,11 @@ function CachedResultsBanner({
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
         <Clock className="h-4 w-4" />
         <span>Results from {timeAgo}</span>
+        {fromServerCache && (
+          <Badge variant="secondary" className="text-xs">
+            Cached
+          </Badge>
+        )}
       </div>
       <div className="flex items-center gap-2">
         {canSave && (
@@ -653,6 +956,7 @@ function CachedResultsBanner({
             size="sm"
             onClick={onRefresh}
             disabled={isRefreshing}
+            title="Fetch live prices, bypassing the cache"
           >
             <RefreshCw className={`h-4 w-4 mr-1.5 ${isRefreshing ? "animate-spin" : ""}`} />
             Refresh Prices
@@ -680,16 +984,24 @@ function SavedSearchesSection({
   searches,
   onRun,
   onDelete,
+  onUpdate,
   onCreateTask,
   isLoading,
 }: {
   searches: SavedSearch[];
   onRun: (search: SavedSearch) => void;
   onDelete: (id: string) => void;
+  onUpdate: (id: string, changes: { pinned?: boolean; tags?: string[] }) => void;
   onCreateTask: (search: SavedSearch) => void;
   isLoading: boolean;
 }) {
   const [selectedForCompare, setSelectedForCompare] = useState<Set<string>>(new Set());
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const allTags = Array.from(new Set(searches.flatMap((s) => s.tags))).sort();
+  const visibleSearches = tagFilter && allTags.includes(tagFilter)
+    ? searches.filter((s) => s.tags.includes(tagFilter))
+    : searches;
   const [isComparing, setIsComparing] = useState(false);
   const [comparisonResults, setComparisonResults] = useState<ComparisonResult[] | null>(null);
 
@@ -931,9 +1243,33 @@ function SavedSearchesSection({
         </div>
       )}
 
+      {/* Tag Filter */}
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="h-3.5 w-3.5 text-muted-foreground" />
+          <Badge
+            variant={!tagFilter ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => setTagFilter(null)}
+          >
+            All
+          </Badge>
+          {allTags.map((tag) => (
+            <Badge
+              key={tag}
+              variant={tagFilter === tag ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
       {/* Saved Search Cards */}
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-        {searches.map((search) => (
+        {visibleSearches.map((search) => (
           <Card
             key={search.id}
             className={`group relative transition-all ${selectedForCompare.has(search.id) ? "ring-2 ring-primary" : ""}`}
@@ -949,7 +1285,10 @@ function SavedSearchesSection({
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex-1 min-w-0">
-                      <h3 className="font-medium truncate">{search.name}</h3>
+                      <h3 className="font-medium truncate flex items-center gap-1.5">
+                        {search.pinned && <Pin className="h-3.5 w-3.5 shrink-0 text-primary" />}
+                        <span className="truncate">{search.name}</span>
+                      </h3>
                       <p className="text-xs text-muted-foreground mt-1 truncate">
                         {search.query}
                       </p>
@@ -970,15 +1309,39 @@ function SavedSearchesSection({
                           )}
                         </p>
                       )}
+                      {search.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {search.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title={search.pinned ? "Unpin" : "Pin"}
+                        onClick={() => onUpdate(search.id, { pinned: !search.pinned })}
+                      >
+                        {search.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      <SavedSearchTagEditor
+                        tags={search.tags}
+                        onSave={(tags) => onUpdate(search.id, { tags })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => onDelete(search.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={() => onDelete(search.id)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
                   </div>
                   <div className="flex items-center gap-2 mt-3">
                     <Button
@@ -1014,3 +1377,54 @@ function SavedSearchesSection({
     </div>
   );
 }
+
+function SavedSearchTagEditor({
+  tags,
+  onSave,
+}: {
+  tags: string[];
+  onSave: (tags: string[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setValue(tags.join(", "));
+    setOpen(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextTags = value
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+    onSave(nextTags);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit tags">
+          <Tag className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <p className="text-sm font-medium">Tags</p>
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="summer, family"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+          <Button type="submit" size="sm" className="w-full">
+            Save
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
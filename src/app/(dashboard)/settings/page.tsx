@@ -5,6 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Mail,
   Send,
@@ -14,7 +23,25 @@ import {
   Bell,
   AlertCircle,
   ExternalLink,
+  Activity,
+  Luggage,
+  Sparkles,
+  Scale,
+  Trash2,
+  UserRound,
 } from "lucide-react";
+import type { ApiUsageSummary } from "@/lib/api-usage";
+import type { LLMUsageSummary, LLMUsageTotals } from "@/lib/llm-usage";
+import type { RankingPresetItem } from "@/lib/ranking-presets";
+import type { TravelerProfile } from "@/lib/traveler-profile";
+import {
+  MAX_RANKING_WEIGHT,
+  RANKING_FACTORS,
+  type RankingFactor,
+  type RankingSettings,
+} from "@/lib/ranking";
+import { getCheckedBagsSetting, setCheckedBagsSetting, MAX_CHECKED_BAGS } from "@/lib/baggage";
+import { toast } from "sonner";
 
 interface NotificationStatus {
   email: {
@@ -29,6 +56,8 @@ interface NotificationStatus {
 
 export default function SettingsPage() {
   const [status, setStatus] = useState<NotificationStatus | null>(null);
+  const [usage, setUsage] = useState<ApiUsageSummary | null>(null);
+  const [llmUsage, setLlmUsage] = useState<LLMUsageSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [testingEmail, setTestingEmail] = useState(false);
   const [testingTelegram, setTestingTelegram] = useState(false);
@@ -39,6 +68,7 @@ export default function SettingsPage() {
 
   useEffect(() => {
     fetchStatus();
+    fetchUsage();
   }, []);
 
   const fetchStatus = async () => {
@@ -55,6 +85,19 @@ export default function SettingsPage() {
     }
   };
 
+  const fetchUsage = async () => {
+    try {
+      const response = await fetch("/api/usage");
+      const data = await response.json();
+      if (data.success) {
+        setUsage(data.data.amadeus);
+        setLlmUsage(data.data.llm);
+      }
+    } catch (error) {
+      console.error("Failed to fetch API usage:", error);
+    }
+  };
+
   const testNotification = async (channel: "email" | "telegram") => {
     if (channel === "email") {
       setTestingEmail(true);
@@ -265,6 +308,19 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Traveler Profile */}
+      <TravelerProfileCard />
+
+      {/* Travel Preferences */}
+      <TravelPreferencesCard />
+
+      {/* Result Ranking */}
+      <RankingPreferencesCard />
+
+      {/* API Usage */}
+      {usage && <ApiUsageCard usage={usage} />}
+      {llmUsage && <LlmUsageCard usage={llmUsage} />}
+
       {/* Setup Instructions */}
       <Card>
         <CardHeader>
@@ -321,3 +377,605 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+function ApiUsageCard({ usage }: { usage: ApiUsageSummary }) {
+  const quotaPercent = usage.monthlyQuota > 0
+    ? Math.min(100, Math.round((usage.monthToDate / usage.monthlyQuota) * 100))
+    : 0;
+  const barColor = quotaPercent >= 90 ? "bg-red-500" : quotaPercent >= 70 ? "bg-orange-500" : "bg-green-500";
+  const recentDays = usage.daily.slice(-14);
+  const maxDaily = Math.max(1, ...recentDays.map((d) => d.calls));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Amadeus API Usage
+        </CardTitle>
+        <CardDescription>
+          Calls made to the flight API, including retries. Set the quota with{" "}
+          <code className="text-xs bg-muted px-1 py-0.5 rounded">AMADEUS_MONTHLY_QUOTA</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Today</p>
+            <p className="text-2xl font-semibold">{usage.today}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">This month</p>
+            <p className="text-2xl font-semibold">{usage.monthToDate}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Errors today</p>
+            <p className={`text-2xl font-semibold ${usage.errorsToday > 0 ? "text-red-600" : ""}`}>
+              {usage.errorsToday}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-muted-foreground">Monthly quota</span>
+            <span className="font-medium">
+              {usage.monthToDate} / {usage.monthlyQuota} ({quotaPercent}%)
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full ${barColor}`} style={{ width: `${quotaPercent}%` }} />
+          </div>
+        </div>
+
+        {recentDays.length > 0 && (
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Last 14 days</p>
+            <div className="flex items-end gap-1 h-16">
+              {recentDays.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-primary/60 rounded-t"
+                  style={{ height: `${Math.max(4, (day.calls / maxDaily) * 100)}%` }}
+                  title={`${day.date}: ${day.calls} calls${day.errors ? `, ${day.errors} errors` : ""}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {usage.byEndpoint.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {usage.byEndpoint.map((entry) => (
+              <Badge key={entry.endpoint} variant="secondary">
+                {entry.endpoint}: {entry.calls}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const LLM_FEATURE_LABELS: Record<string, string> = {
+  parse: "Query parsing",
+  airports: "Airport lookup",
+  insights: "Search insights",
+  chat: "Chat",
+  title: "Chat titles",
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+    : String(tokens);
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const totalTokens = (totals: LLMUsageTotals) => totals.promptTokens + totals.completionTokens;
+
+function LlmUsageCard({ usage }: { usage: LLMUsageSummary }) {
+  const recentDays = usage.daily.slice(-14);
+  const maxDaily = Math.max(1, ...recentDays.map(totalTokens));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          LLM Usage
+        </CardTitle>
+        <CardDescription>
+          Tokens used by AI features and their estimated cost. Cached parses don&apos;t count.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Today</p>
+            <p className="text-2xl font-semibold">{formatCost(usage.today.cost)}</p>
+            <p className="text-xs text-muted-foreground">
+              {usage.today.calls} calls, {formatTokens(totalTokens(usage.today))} tokens
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">This month</p>
+            <p className="text-2xl font-semibold">{formatCost(usage.monthToDate.cost)}</p>
+            <p className="text-xs text-muted-foreground">
+              {usage.monthToDate.calls} calls, {formatTokens(totalTokens(usage.monthToDate))} tokens
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Prompt / completion</p>
+            <p className="text-2xl font-semibold">
+              {formatTokens(usage.monthToDate.promptTokens)} / {formatTokens(usage.monthToDate.completionTokens)}
+            </p>
+            <p className="text-xs text-muted-foreground">tokens this month</p>
+          </div>
+        </div>
+
+        {recentDays.length > 0 && (
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Last 14 days</p>
+            <div className="flex items-end gap-1 h-16">
+              {recentDays.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-primary/60 rounded-t"
+                  style={{ height: `${Math.max(4, (totalTokens(day) / maxDaily) * 100)}%` }}
+                  title={`${day.date}: ${day.calls} calls, ${formatTokens(totalTokens(day))} tokens, ${formatCost(day.cost)}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {usage.byFeature.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">This month by feature</p>
+            {usage.byFeature.map((entry) => (
+              <div key={entry.feature} className="flex items-center justify-between text-sm">
+                <span>{LLM_FEATURE_LABELS[entry.feature] ?? entry.feature}</span>
+                <span className="text-muted-foreground">
+                  {entry.calls} calls · {formatTokens(totalTokens(entry))} tokens ·{" "}
+                  <span className="font-medium text-foreground">{formatCost(entry.cost)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {usage.unpricedCalls > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {usage.unpricedCalls} calls this month used models without known pricing and aren&apos;t included in the cost.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const PASSENGER_FIELDS = [
+  { key: "adults", label: "Adults", min: 1 },
+  { key: "children", label: "Children", min: 0 },
+  { key: "infants", label: "Infants", min: 0 },
+] as const;
+
+function TravelerProfileCard() {
+  const [profile, setProfile] = useState<TravelerProfile | null>(null);
+  const [homeAirport, setHomeAirport] = useState("");
+  const [airlines, setAirlines] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  const fetchProfile = async () => {
+    try {
+      const response = await fetch("/api/profile");
+      const data = await response.json();
+      if (data.success) {
+        setProfile(data.data);
+        setHomeAirport(data.data.homeAirport ?? "");
+        setAirlines(data.data.preferredAirlines.join(", "));
+      }
+    } catch (error) {
+      console.error("Failed to fetch traveler profile:", error);
+    }
+  };
+
+  const update = <K extends keyof TravelerProfile>(key: K, value: TravelerProfile[K]) => {
+    setProfile((prev) => prev && { ...prev, [key]: value });
+  };
+
+  const saveProfile = async () => {
+    if (!profile) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          homeAirport: homeAirport.trim() || null,
+          adults: profile.adults,
+          children: profile.children,
+          infants: profile.infants,
+          travelClass: profile.travelClass,
+          maxStops: profile.maxStops,
+          preferredAirlines: airlines.split(/[\s,]+/).filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+        const detail = Object.values(fieldErrors).flat()[0];
+        toast.error("Failed to save profile", { description: detail || data.error });
+        return;
+      }
+      setProfile(data.data);
+      setHomeAirport(data.data.homeAirport ?? "");
+      setAirlines(data.data.preferredAirlines.join(", "));
+      toast.success("Profile saved");
+    } catch (error) {
+      toast.error("Failed to save profile", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRound className="h-5 w-5" />
+          Traveler Profile
+        </CardTitle>
+        <CardDescription>
+          Defaults for every search on any device. &quot;To Tokyo in May&quot; leaves from your
+          home airport, and the search and task forms start with these values.
+        </CardDescription>
+      </CardHeader>
+      {profile && (
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Home airport</p>
+              <p className="text-sm text-muted-foreground">Airport or city code, e.g. EZE or LON</p>
+            </div>
+            <Input
+              value={homeAirport}
+              onChange={(e) => setHomeAirport(e.target.value.toUpperCase())}
+              placeholder="EZE"
+              maxLength={3}
+              className="w-24 uppercase font-mono"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="font-medium">Usual travelers</p>
+            <div className="flex gap-2">
+              {PASSENGER_FIELDS.map(({ key, label, min }) => (
+                <Select
+                  key={key}
+                  value={profile[key].toString()}
+                  onValueChange={(value) => update(key, parseInt(value))}
+                >
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 10 - min }, (_, i) => i + min).map((count) => (
+                      <SelectItem key={count} value={count.toString()}>
+                        {count} {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="font-medium">Cabin</p>
+            <Select
+              value={profile.travelClass}
+              onValueChange={(value) => update("travelClass", value as TravelerProfile["travelClass"])}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ECONOMY">Economy</SelectItem>
+                <SelectItem value="PREMIUM_ECONOMY">Premium Economy</SelectItem>
+                <SelectItem value="BUSINESS">Business</SelectItem>
+                <SelectItem value="FIRST">First Class</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="font-medium">Stops</p>
+            <Select
+              value={profile.maxStops?.toString() ?? "any"}
+              onValueChange={(value) => update("maxStops", value === "any" ? null : parseInt(value))}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any number of stops</SelectItem>
+                <SelectItem value="0">Nonstop only</SelectItem>
+                <SelectItem value="1">Max 1 stop</SelectItem>
+                <SelectItem value="2">Max 2 stops</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Preferred airlines</p>
+              <p className="text-sm text-muted-foreground">IATA codes, e.g. IB, AR</p>
+            </div>
+            <Input
+              value={airlines}
+              onChange={(e) => setAirlines(e.target.value.toUpperCase())}
+              placeholder="IB, AR"
+              className="w-48 uppercase font-mono"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={saveProfile} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Profile
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function TravelPreferencesCard() {
+  const [checkedBags, setCheckedBags] = useState(() => getCheckedBagsSetting());
+
+  const handleChange = (bags: number) => {
+    setCheckedBags(bags);
+    setCheckedBagsSetting(bags);
+    toast.success("Preference saved");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Luggage className="h-5 w-5" />
+          Travel Preferences
+        </CardTitle>
+        <CardDescription>
+          Flight prices include estimated fees for the bags you check. Fares that already
+          include bags are not charged again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium">Checked bags per passenger</p>
+            <p className="text-sm text-muted-foreground">
+              Searches that mention bags (&quot;with one checked bag&quot;) override this
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_CHECKED_BAGS + 1 }, (_, bags) => (
+              <Button
+                key={bags}
+                size="sm"
+                variant={bags === checkedBags ? "default" : "outline"}
+                onClick={() => handleChange(bags)}
+                className="w-9"
+              >
+                {bags}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+function RankingPreferencesCard() {
+  const [presets, setPresets] = useState<RankingPresetItem[]>([]);
+  const [draft, setDraft] = useState<RankingSettings | null>(null);
+  const [newName, setNewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPresets();
+  }, []);
+
+  const fetchPresets = async () => {
+    try {
+      const response = await fetch("/api/ranking-presets");
+      const data = await response.json();
+      if (data.success) {
+        setPresets(data.data);
+        setDraft(data.data.find((preset: RankingPresetItem) => preset.active)?.settings ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch ranking presets:", error);
+    }
+  };
+
+  const activePreset = presets.find((preset) => preset.active);
+  const isDirty = !!activePreset && !!draft && JSON.stringify(activePreset.settings) !== JSON.stringify(draft);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Request failed");
+      await fetchPresets();
+      return true;
+    } catch (error) {
+      toast.error("Failed to save ranking", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectPreset = async (preset: RankingPresetItem) => {
+    if (await request(`/api/ranking-presets/${preset.id}`, "PATCH", { active: true })) {
+      toast.success(`Ranking with "${preset.name}"`);
+    }
+  };
+
+  const saveChanges = async () => {
+    if (!activePreset || !draft) return;
+    if (await request(`/api/ranking-presets/${activePreset.id}`, "PATCH", { settings: draft })) {
+      toast.success("Preset saved");
+    }
+  };
+
+  const saveAsNew = async () => {
+    if (!draft || !newName.trim()) return;
+    if (await request("/api/ranking-presets", "POST", { name: newName.trim(), settings: draft, active: true })) {
+      setNewName("");
+      toast.success("Preset saved");
+    }
+  };
+
+  const deletePreset = async () => {
+    if (!activePreset || activePreset.builtIn) return;
+    if (await request(`/api/ranking-presets/${activePreset.id}`, "DELETE")) {
+      toast.success("Preset deleted");
+    }
+  };
+
+  const setWeight = (factor: RankingFactor, value: number) => {
+    setDraft((prev) => prev && { ...prev, weights: { ...prev.weights, [factor]: value } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Result Ranking
+        </CardTitle>
+        <CardDescription>
+          How the recommended sort weighs each factor, for flight results and route comparisons.
+          Every result explains its score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <Button
+              key={preset.id}
+              size="sm"
+              variant={preset.active ? "default" : "outline"}
+              disabled={isSaving}
+              onClick={() => selectPreset(preset)}
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+
+        {draft && (
+          <>
+            <div className="space-y-4">
+              {(Object.keys(RANKING_FACTORS) as RankingFactor[]).map((factor) => (
+                <div key={factor} className="grid grid-cols-[1fr_160px_24px] items-center gap-4">
+                  <div>
+                    <p className="text-sm font-medium">{RANKING_FACTORS[factor].label}</p>
+                    <p className="text-xs text-muted-foreground">{RANKING_FACTORS[factor].description}</p>
+                  </div>
+                  <Slider
+                    value={[draft.weights[factor]]}
+                    min={0}
+                    max={MAX_RANKING_WEIGHT}
+                    step={1}
+                    onValueChange={([value]) => setWeight(factor, value)}
+                  />
+                  <span className="text-sm tabular-nums text-right">{draft.weights[factor]}</span>
+                </div>
+              ))}
+
+              <div className="grid grid-cols-[1fr_160px_24px] items-center gap-4">
+                <div>
+                  <p className="text-sm font-medium">Preferred departure hours</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatHour(draft.departureWindow.start)} - {formatHour(draft.departureWindow.end)} local time
+                  </p>
+                </div>
+                <Slider
+                  value={[draft.departureWindow.start, draft.departureWindow.end]}
+                  min={0}
+                  max={24}
+                  step={1}
+                  minStepsBetweenThumbs={1}
+                  onValueChange={([start, end]) => setDraft((prev) => prev && { ...prev, departureWindow: { start, end } })}
+                />
+                <span />
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="flex flex-wrap items-center gap-2">
+              {activePreset && !activePreset.builtIn && (
+                <>
+                  <Button size="sm" disabled={!isDirty || isSaving} onClick={saveChanges}>
+                    Save {activePreset.name}
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isSaving} onClick={deletePreset}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </>
+              )}
+              {isDirty && (
+                <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => setDraft(activePreset.settings)}>
+                  Reset
+                </Button>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="New preset name"
+                  className="h-8 w-44"
+                  maxLength={50}
+                />
+                <Button size="sm" variant="outline" disabled={!newName.trim() || isSaving} onClick={saveAsNew}>
+                  Save as preset
+                </Button>
+              </div>
+            </div>
+            {activePreset?.builtIn && isDirty && (
+              <p className="text-xs text-muted-foreground">
+                Built-in presets can&apos;t be changed. Save your weights as a new preset to use them.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { TaskCard, TaskCardSkeleton, TaskForm, TaskData, TaskDetailDialog } from "@/components/tasks";
 import { Plus, Bell, Clock, RefreshCw, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 
 export default function TasksPage() {
   return (
@@ -34,6 +35,11 @@ function TasksPageContent() {
     destination?: string;
     departureDate?: string;
     returnDate?: string;
+    adults?: number;
+    children?: number;
+    infants?: number;
+    travelClass?: "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
+    nonStop?: boolean;
   } | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
@@ -52,6 +58,11 @@ function TasksPageContent() {
             destination: data.destination || "",
             departureDate: data.departureDate || "",
             returnDate: data.returnDate || undefined,
+            adults: data.adults,
+            children: data.children,
+            infants: data.infants,
+            travelClass: data.travelClass,
+            nonStop: data.nonStop,
           });
           setIsFormOpen(true);
         } catch (e) {
@@ -130,6 +141,9 @@ function TasksPageContent() {
       await fetchTasks();
     } catch (err) {
       console.error("Run task error:", err);
+      toast.error("Task run failed", {
+        description: err instanceof Error ? err.message : undefined,
+      });
     }
   };
 
@@ -160,9 +174,13 @@ function TasksPageContent() {
     departureDate: string;
     returnDate?: string;
     adults: number;
+    children: number;
+    infants: number;
     travelClass: string;
+    nonStop: boolean;
     cronExpr: string;
     priceTarget?: number;
+    maxRunsPerDay: number | null;
   }) => {
     const response = await fetch("/api/tasks", {
       method: "POST",
@@ -186,9 +204,13 @@ function TasksPageContent() {
     departureDate: string;
     returnDate?: string;
     adults: number;
+    children: number;
+    infants: number;
     travelClass: string;
+    nonStop: boolean;
     cronExpr: string;
     priceTarget?: number;
+    maxRunsPerDay: number | null;
   }) => {
     if (!editingTask) return;
 
@@ -0,0 +1,425 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { PriceChart } from "@/components/tasks";
+import { TripAttachMenu, TripForm, TripShortlist, type TripFormValues } from "@/components/trips";
+import { formatDateWindow, formatPassengerMix } from "@/lib/flight-utils";
+import type { TripDetail, TripItem, TripItemType } from "@/lib/trips";
+import {
+  ArrowLeft,
+  Bell,
+  Calendar,
+  Clock,
+  Loader2,
+  MapPinned,
+  Pencil,
+  Search,
+  Star,
+  StickyNote,
+  Trash2,
+  Users,
+  Wallet,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+const formatMoney = (amount: number, currency: string) =>
+  `${Math.round(amount).toLocaleString()} ${currency}`;
+
+export default function TripPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [trip, setTrip] = useState<TripDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
+
+  useEffect(() => {
+    fetchTrip();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const fetchTrip = async () => {
+    try {
+      const response = await fetch(`/api/trips/${id}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setError(data.error || "Failed to load trip");
+      } else {
+        setTrip(data.data);
+        setNotes(data.data.notes ?? "");
+        setError(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trip");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveTrip = async (changes: Partial<TripFormValues>) => {
+    const response = await fetch(`/api/trips/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      toast.error("Failed to save trip", { description: result.error });
+      throw new Error(result.error || "Failed to save trip");
+    }
+    await fetchTrip();
+  };
+
+  const handleSaveNotes = async () => {
+    setIsSavingNotes(true);
+    try {
+      await saveTrip({ notes: notes.trim() || null });
+      toast.success("Notes saved");
+    } catch {
+      // Already reported by saveTrip
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
+
+  const handleDeleteTrip = async () => {
+    if (!trip || !confirm(`Delete "${trip.name}"? Its searches, tasks and alerts are kept.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/trips/${id}`, { method: "DELETE" });
+    const result = await response.json();
+    if (!result.success) {
+      toast.error("Failed to delete trip", { description: result.error });
+      return;
+    }
+    toast.success("Trip deleted");
+    router.push("/trips");
+  };
+
+  const handleAttach = async (item: TripItem) => {
+    const response = await fetch(`/api/trips/${id}/items`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(item),
+    });
+    const result = await response.json();
+    if (!result.success) {
+      toast.error("Failed to add to trip", { description: result.error });
+      return;
+    }
+    toast.success("Added to trip");
+    fetchTrip();
+  };
+
+  const handleDetach = async (type: TripItemType, itemId: string) => {
+    const response = await fetch(`/api/trips/${id}/items?type=${type}&itemId=${itemId}`, {
+      method: "DELETE",
+    });
+    const result = await response.json();
+    if (!result.success) {
+      toast.error("Failed to remove from trip", { description: result.error });
+      return;
+    }
+    fetchTrip();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="h-8 w-64 bg-muted animate-pulse rounded" />
+        <div className="h-32 bg-muted animate-pulse rounded-xl" />
+        <div className="h-64 bg-muted animate-pulse rounded-xl" />
+      </div>
+    );
+  }
+
+  if (error || !trip) {
+    return (
+      <div className="max-w-5xl mx-auto space-y-4">
+        <Link href="/trips" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" />
+          All trips
+        </Link>
+        <div className="p-4 rounded-lg bg-destructive/10 text-destructive">{error ?? "Trip not found"}</div>
+      </div>
+    );
+  }
+
+  const budget = trip.budgetSummary;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <Link href="/trips" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 w-fit">
+          <ArrowLeft className="h-4 w-4" />
+          All trips
+        </Link>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="font-display text-3xl font-semibold truncate">{trip.name}</h1>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+              <span className="flex items-center gap-1.5">
+                <MapPinned className="h-3.5 w-3.5" />
+                <span className="font-mono">{trip.destination}</span>
+              </span>
+              <span className="flex items-center gap-1.5">
+                <Calendar className="h-3.5 w-3.5" />
+                {formatDateWindow(trip)}
+              </span>
+              <span className="flex items-center gap-1.5">
+                <Users className="h-3.5 w-3.5" />
+                {formatPassengerMix(trip)}
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <TripAttachMenu
+              tripId={trip.id}
+              attachedSearchIds={trip.searches.map((s) => s.id)}
+              onAttach={handleAttach}
+            />
+            <Button variant="outline" size="icon" title="Edit trip" onClick={() => setIsFormOpen(true)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" title="Delete trip" onClick={handleDeleteTrip}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Budget */}
+      <div className="grid grid-cols-3 gap-4">
+        <Card className="bg-muted/30">
+          <CardContent className="pt-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <Wallet className="h-3.5 w-3.5" />
+              Budget
+            </p>
+            <p className="text-2xl font-semibold">
+              {budget ? formatMoney(budget.budget, budget.currency) : "—"}
+            </p>
+            {!budget && (
+              <button className="text-xs text-primary hover:underline" onClick={() => setIsFormOpen(true)}>
+                Set a budget
+              </button>
+            )}
+          </CardContent>
+        </Card>
+        <Card className="bg-muted/30">
+          <CardContent className="pt-4">
+            <p className="text-xs text-muted-foreground">Cheapest option</p>
+            <p className="text-2xl font-semibold">
+              {budget?.cheapestPrice != null ? formatMoney(budget.cheapestPrice, budget.currency) : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">Shortlisted or tracked</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-muted/30">
+          <CardContent className="pt-4">
+            <p className="text-xs text-muted-foreground">Remaining</p>
+            <p
+              className={`text-2xl font-semibold ${
+                budget?.remaining == null ? "" : budget.remaining >= 0 ? "text-green-600" : "text-destructive"
+              }`}
+            >
+              {budget?.remaining != null ? formatMoney(budget.remaining, budget.currency) : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">After the cheapest option</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Shortlist */}
+      <section className="space-y-3">
+        <h2 className="font-display text-lg font-semibold flex items-center gap-2">
+          <Star className="h-5 w-5" />
+          Shortlist
+          {trip.shortlist.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">({trip.shortlist.length})</span>
+          )}
+        </h2>
+        <TripShortlist
+          items={trip.shortlist}
+          budget={trip.budget}
+          currency={trip.currency}
+          onRemove={(itemId) => handleDetach("flight", itemId)}
+        />
+      </section>
+
+      {/* Tracked prices */}
+      <section className="space-y-3">
+        <h2 className="font-display text-lg font-semibold flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Price Tracking
+        </h2>
+
+        {trip.tasks.length === 0 && trip.alerts.length === 0 && (
+          <div className="p-6 rounded-lg border border-dashed text-center text-sm text-muted-foreground">
+            No tasks or alerts yet. Add one with the &quot;Add&quot; menu, or attach a search that has a task.
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {trip.tasks.map((task) => (
+            <div key={task.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate flex items-center gap-2">
+                    {task.name}
+                    {!task.active && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {task.origin} → {task.destination} · {task.departureDate}
+                    {task.returnDate && ` – ${task.returnDate}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Remove from trip"
+                  onClick={() => handleDetach("task", task.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <PriceChart
+                priceHistory={task.priceHistory}
+                priceTarget={task.priceTarget}
+                lowestPrice={task.lowestPrice}
+              />
+            </div>
+          ))}
+        </div>
+
+        {trip.alerts.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Bell className="h-4 w-4" />
+                Price Alerts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y divide-border">
+              {trip.alerts.map((alert) => (
+                <div key={alert.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {alert.origin} → {alert.destination} · {alert.departureDate}
+                      {alert.returnDate && ` – ${alert.returnDate}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Now {formatMoney(alert.currentPrice, alert.currency)} · alert below{" "}
+                      {formatMoney(alert.targetPrice, alert.currency)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {alert.triggered ? (
+                      <Badge className="text-xs">Triggered</Badge>
+                    ) : !alert.active ? (
+                      <Badge variant="outline" className="text-xs">Inactive</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">
+                        {formatMoney(Math.max(alert.currentPrice - alert.targetPrice, 0), alert.currency)} to go
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Remove from trip"
+                      onClick={() => handleDetach("alert", alert.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </section>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Searches */}
+        <section className="space-y-3">
+          <h2 className="font-display text-lg font-semibold flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Searches
+          </h2>
+          {trip.searches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Searches are added when you shortlist one of their flights, or from the &quot;Add&quot; menu.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {trip.searches.map((search) => (
+                <div key={search.id} className="group flex items-center justify-between gap-3 p-3 rounded-lg border">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{search.rawPrompt}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(search.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                      {search.cheapestPrice != null && ` · from ${formatMoney(search.cheapestPrice, search.currency)}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove from trip"
+                    onClick={() => handleDetach("search", search.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Notes */}
+        <section className="space-y-3">
+          <h2 className="font-display text-lg font-semibold flex items-center gap-2">
+            <StickyNote className="h-5 w-5" />
+            Notes
+          </h2>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Hotels to check, who's coming, visa reminders..."
+            rows={6}
+          />
+          <Button
+            size="sm"
+            onClick={handleSaveNotes}
+            disabled={isSavingNotes || notes === (trip.notes ?? "")}
+          >
+            {isSavingNotes && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+            Save notes
+          </Button>
+        </section>
+      </div>
+
+      <TripForm
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        onSubmit={saveTrip}
+        editTrip={trip}
+      />
+    </div>
+  );
+}
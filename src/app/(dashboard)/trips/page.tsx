@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TripForm, type TripFormValues } from "@/components/trips";
+import { formatDateWindow, formatPassengerMix } from "@/lib/flight-utils";
+import type { TripSummary } from "@/lib/trips";
+import { Plus, MapPinned, Calendar, Users, Wallet, Star, Clock, Bell, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function TripsPage() {
+  const [trips, setTrips] = useState<TripSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  useEffect(() => {
+    fetchTrips();
+  }, []);
+
+  const fetchTrips = async () => {
+    try {
+      const response = await fetch("/api/trips");
+      const data = await response.json();
+      if (data.success) {
+        setTrips(data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch trips:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateTrip = async (values: TripFormValues) => {
+    const response = await fetch("/api/trips", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      toast.error("Failed to create trip", { description: result.error });
+      throw new Error(result.error || "Failed to create trip");
+    }
+
+    toast.success("Trip created", { description: result.data.name });
+    await fetchTrips();
+  };
+
+  const handleDeleteTrip = async (trip: TripSummary) => {
+    if (!confirm(`Delete "${trip.name}"? Its searches, tasks and alerts are kept.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/trips/${trip.id}`, { method: "DELETE" });
+    const result = await response.json();
+    if (!result.success) {
+      toast.error("Failed to delete trip", { description: result.error });
+      return;
+    }
+    setTrips((prev) => prev.filter((t) => t.id !== trip.id));
+    toast.success("Trip deleted");
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="font-display text-3xl font-semibold">Trips</h1>
+          <p className="text-muted-foreground">
+            Keep each journey&apos;s searches, shortlisted flights and price tracking together
+          </p>
+        </div>
+        <Button onClick={() => setIsFormOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Trip
+        </Button>
+      </div>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {[0, 1].map((i) => (
+            <div key={i} className="h-40 rounded-xl bg-muted animate-pulse" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && trips.length === 0 && (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-2">
+              <MapPinned className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <CardTitle>No Trips Yet</CardTitle>
+            <CardDescription>
+              Create a trip, then shortlist flights into it from any search results.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center pb-6">
+            <Button onClick={() => setIsFormOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Plan Your First Trip
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Trip List */}
+      {!isLoading && trips.length > 0 && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {trips.map((trip) => (
+            <Card key={trip.id} className="group relative card-hover">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <CardTitle className="font-display text-lg truncate">
+                      <Link href={`/trips/${trip.id}`} className="after:absolute after:inset-0">
+                        {trip.name}
+                      </Link>
+                    </CardTitle>
+                    <CardDescription className="flex items-center gap-1.5 mt-1">
+                      <MapPinned className="h-3.5 w-3.5" />
+                      <span className="font-mono">{trip.destination}</span>
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative z-10 h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => handleDeleteTrip(trip)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                  <span className="flex items-center gap-1.5">
+                    <Calendar className="h-3.5 w-3.5" />
+                    {formatDateWindow(trip)}
+                  </span>
+                  <span className="flex items-center gap-1.5">
+                    <Users className="h-3.5 w-3.5" />
+                    {formatPassengerMix(trip)}
+                  </span>
+                  {trip.budget != null && (
+                    <span className="flex items-center gap-1.5">
+                      <Wallet className="h-3.5 w-3.5" />
+                      {Math.round(trip.budget).toLocaleString()} {trip.currency}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  <Badge variant="secondary" className="text-xs">
+                    <Search className="h-3 w-3 mr-1" />
+                    {trip.counts.searches}
+                  </Badge>
+                  <Badge variant="secondary" className="text-xs">
+                    <Star className="h-3 w-3 mr-1" />
+                    {trip.counts.shortlist} shortlisted
+                  </Badge>
+                  <Badge variant="secondary" className="text-xs">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {trip.counts.tasks}
+                  </Badge>
+                  <Badge variant="secondary" className="text-xs">
+                    <Bell className="h-3 w-3 mr-1" />
+                    {trip.counts.alerts}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <TripForm open={isFormOpen} onOpenChange={setIsFormOpen} onSubmit={handleCreateTrip} />
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { searchAirports, isAmadeusConfigured, AirportSuggestion } from "@/lib/amadeus";
+import { searchAirports as searchLocalAirports } from "@/lib/airports";
 import { isAuthenticated } from "@/lib/auth";
 
+// Suggestions returned per query
+const MAX_RESULTS = 10;
+
 const querySchema = z.object({
   q: z.string().min(2, "Search query must be at least 2 characters"),
 });
@@ -30,14 +34,6 @@ export async function GET(request: NextRequest): Promise<NextResponse<AirportSea
       );
     }
 
-    // Check Amadeus configuration
-    if (!isAmadeusConfigured()) {
-      return NextResponse.json(
-        { success: false, error: "Airport search service not configured" },
-        { status: 503 }
-      );
-    }
-
     // Parse query params
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q");
@@ -50,21 +46,39 @@ export async function GET(request: NextRequest): Promise<NextResponse<AirportSea
       );
     }
 
-    // Search airports via Amadeus
-    const airports = await searchAirports(validationResult.data.q);
+    // Serve from the bundled airport dataset first
+    const localResults = searchLocalAirports(validationResult.data.q, MAX_RESULTS);
+    if (localResults.length >= MAX_RESULTS || !isAmadeusConfigured()) {
+      return NextResponse.json({
+        success: true,
+        data: localResults,
+      });
+    }
+
+    // Fill up with Amadeus for airports missing from the dataset; a partial
+    // local match (one city for a prefix) shouldn't hide the rest
+    let airports: AirportSuggestion[] = [];
+    try {
+      airports = await searchAirports(validationResult.data.q);
+    } catch (error) {
+      console.error("Amadeus airport search failed, using local results:", error);
+    }
 
     // Transform to simplified format
-    const simplified = airports.map((airport: AirportSuggestion) => ({
-      code: airport.iataCode,
-      name: airport.name,
-      city: airport.address.cityName,
-      country: airport.address.countryName,
-      type: airport.subType === "AIRPORT" ? "airport" : "city",
-    }));
+    const localCodes = new Set(localResults.map((airport) => airport.code));
+    const simplified = airports
+      .filter((airport) => !localCodes.has(airport.iataCode))
+      .map((airport) => ({
+        code: airport.iataCode,
+        name: airport.name,
+        city: airport.address.cityName,
+        country: airport.address.countryName,
+        type: airport.subType === "AIRPORT" ? "airport" : "city",
+      }));
 
     return NextResponse.json({
       success: true,
-      data: simplified,
+      data: [...localResults, ...simplified].slice(0, MAX_RESULTS),
     });
   } catch (error) {
     console.error("Airport search error:", error);
@@ -46,6 +46,11 @@ const createAlertSchema = z.object({
   currency: z.string().default("USD"),
   flightId: z.string().optional(),
   airlines: z.array(z.string()).default([]),
+  adults: z.number().int().min(1).max(9).default(1),
+  children: z.number().int().min(0).max(9).default(0),
+  infants: z.number().int().min(0).max(9).default(0),
+  travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
+  nonStop: z.boolean().default(false),
 });
 
 export async function POST(request: NextRequest) {
@@ -59,12 +64,17 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createAlertSchema.parse(body);
 
-    // Check for existing alert on same route/date
+    // Check for existing alert on same route/date for the same travelers and cabin
     const existing = await prisma.priceAlert.findFirst({
       where: {
         origin: data.origin,
         destination: data.destination,
         departureDate: new Date(data.departureDate),
+        adults: data.adults,
+        children: data.children,
+        infants: data.infants,
+        travelClass: data.travelClass,
+        nonStop: data.nonStop,
         active: true,
       },
     });
@@ -100,6 +110,11 @@ export async function POST(request: NextRequest) {
         currency: data.currency,
         flightId: data.flightId,
         airlines: data.airlines,
+        adults: data.adults,
+        children: data.children,
+        infants: data.infants,
+        travelClass: data.travelClass,
+        nonStop: data.nonStop,
         expiresAt: departureDate, // Alert expires on departure date
       },
     });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isOpenAIConfigured } from "@/lib/openai";
+import { runChatAgent, type ChatAgentResult } from "@/lib/chat-agent";
+import { loadConversationContext } from "@/lib/conversation";
+import { parseConfidentlyWithRules } from "@/lib/query-parser";
+import { isAuthenticated } from "@/lib/auth";
+import { getTravelerProfile } from "@/lib/traveler-profile";
+
+// Request validation schema
+const requestSchema = z.object({
+  message: z.string().trim().min(1, "Message cannot be empty"),
+  conversationId: z.string().optional(), // Omitted for the first message of a new chat
+});
+
+export interface ChatAgentSuccessResponse {
+  success: true;
+  data: ChatAgentResult;
+}
+
+export interface ChatAgentErrorResponse {
+  success: false;
+  error: string;
+}
+
+export type ChatAgentResponse = ChatAgentSuccessResponse | ChatAgentErrorResponse;
+
+// POST - Let the assistant answer a chat message, using tools where needed
+export async function POST(request: NextRequest): Promise<NextResponse<ChatAgentResponse>> {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = requestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    // Without an LLM every message is a search, and a complete query the rules
+    // understand is one too, without asking the model first
+    const { message } = validationResult.data;
+    if (!isOpenAIConfigured() || parseConfidentlyWithRules(message, await getTravelerProfile())) {
+      return NextResponse.json({ success: true, data: { kind: "search" } });
+    }
+
+    // Earlier turns and the last search, loaded before this message is stored
+    const context = await loadConversationContext(validationResult.data.conversationId);
+    const result = await runChatAgent(message, context);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Chat agent error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to process message",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  parseTravelQueryInContext,
+  isOpenAIConfigured,
+  ParsedTravelQuery,
+} from "@/lib/openai";
+import { loadConversationContext } from "@/lib/conversation";
+import { parseConfidentlyWithRules, parseNaturalQuery } from "@/lib/query-parser";
+import { isAuthenticated } from "@/lib/auth";
+import { getTravelerProfile } from "@/lib/traveler-profile";
+
+// Request validation schema
+const requestSchema = z.object({
+  message: z.string().trim().min(1, "Message cannot be empty"),
+  conversationId: z.string().optional(), // Omitted for the first message of a new chat
+});
+
+export interface ChatParseSuccessResponse {
+  success: true;
+  data: {
+    parsedQuery: ParsedTravelQuery;
+    isFollowUp: boolean; // Applied as a diff to the previous search
+    changedFields: string[];
+    summary?: string;
+    previousSearchId?: string;
+  };
+}
+
+export interface ChatParseErrorResponse {
+  success: false;
+  error: string;
+  needsClarification?: boolean;
+  clarificationQuestions?: string[];
+  parsedQuery?: Partial<ParsedTravelQuery>;
+}
+
+export type ChatParseResponse = ChatParseSuccessResponse | ChatParseErrorResponse;
+
+// POST - Parse a chat message in the context of the conversation so far
+export async function POST(request: NextRequest): Promise<NextResponse<ChatParseResponse>> {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = requestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    const { message } = validationResult.data;
+    const profile = await getTravelerProfile();
+
+    // A complete query the rules understand is a new search, and without an LLM
+    // the rules are all there is: follow-ups can't be applied to the last search
+    const ruleBased = isOpenAIConfigured()
+      ? parseConfidentlyWithRules(message, profile)
+      : await parseNaturalQuery(message, profile);
+    if (!ruleBased && !isOpenAIConfigured()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "AI service not configured - try a simpler query like \"BCN to JFK 12 March return 20 March\"",
+        },
+        { status: 503 }
+      );
+    }
+
+    // Earlier turns and the last search, loaded before this message is stored
+    const context = await loadConversationContext(validationResult.data.conversationId);
+    const result = ruleBased
+      ? { parsedQuery: ruleBased, isFollowUp: false, changedFields: [] }
+      : await parseTravelQueryInContext(message, context, profile);
+    console.log("Conversational parse:", {
+      isFollowUp: result.isFollowUp,
+      changedFields: result.changedFields,
+      previousSearchId: context.previousSearchId,
+    });
+
+    const { confidence } = result.parsedQuery;
+    if (confidence.needsClarification && confidence.overall < 0.5) {
+      return NextResponse.json({
+        success: false,
+        error: "I need more information to search for flights",
+        needsClarification: true,
+        clarificationQuestions: confidence.clarificationQuestions,
+        parsedQuery: result.parsedQuery,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        previousSearchId: result.isFollowUp ? context.previousSearchId : undefined,
+      },
+    });
+  } catch (error) {
+    console.error("Chat parse error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to understand the message",
+      },
+      { status: 500 }
+    );
+  }
+}
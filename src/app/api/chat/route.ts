@@ -2,9 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
+import {
+  createConversationTitle,
+  loadSearchResults,
+  toConversationSummary,
+  type ConversationSummary,
+  type StoredFlightResults,
+} from "@/lib/conversation";
 
 // Schema for creating a chat message
 const createMessageSchema = z.object({
+  conversationId: z.string().min(1),
   role: z.enum(["user", "assistant", "system"]),
   content: z.string().min(1),
   searchId: z.string().optional(),
@@ -12,6 +20,7 @@ const createMessageSchema = z.object({
 
 // Schema for getting chat history
 const getMessagesSchema = z.object({
+  conversationId: z.string().min(1),
   limit: z.coerce.number().int().min(1).max(100).default(50),
   before: z.string().optional(), // Cursor for pagination
 });
@@ -22,9 +31,15 @@ export interface ChatMessageResponse {
   content: string;
   searchId: string | null;
   createdAt: string;
+  flightResults?: StoredFlightResults; // Restored cards of the linked search
 }
 
-// GET - Retrieve chat history
+export interface CreateChatMessageResponse {
+  success: true;
+  data: ChatMessageResponse & { conversation: ConversationSummary };
+}
+
+// GET - Retrieve the messages of a conversation
 export async function GET(request: NextRequest) {
   try {
     const authenticated = await isAuthenticated();
@@ -37,8 +52,9 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const validationResult = getMessagesSchema.safeParse({
-      limit: searchParams.get("limit"),
-      before: searchParams.get("before"),
+      conversationId: searchParams.get("conversationId") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+      before: searchParams.get("before") ?? undefined,
     });
 
     if (!validationResult.success) {
@@ -48,9 +64,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { limit, before } = validationResult.data;
+    const { conversationId, limit, before } = validationResult.data;
 
     const messages = await db.chatMessage.findMany({
+      where: { conversationId },
       take: limit,
       orderBy: { createdAt: "desc" },
       ...(before && {
@@ -60,7 +77,12 @@ export async function GET(request: NextRequest) {
     });
 
     // Reverse to get chronological order
-    const chronologicalMessages = messages.reverse();
+    const chronologicalMessages = [...messages].reverse();
+
+    // Flight cards aren't stored with the message; rebuild them from the linked searches
+    const searchResults = await loadSearchResults([
+      ...new Set(messages.flatMap((m) => (m.role === "assistant" && m.searchId ? [m.searchId] : []))),
+    ]);
 
     return NextResponse.json({
       success: true,
@@ -71,9 +93,10 @@ export async function GET(request: NextRequest) {
           content: m.content,
           searchId: m.searchId,
           createdAt: m.createdAt.toISOString(),
+          flightResults: m.role === "assistant" && m.searchId ? searchResults.get(m.searchId) : undefined,
         })),
         hasMore: messages.length === limit,
-        cursor: messages.length > 0 ? messages[0].id : null,
+        cursor: messages.length > 0 ? messages[messages.length - 1].id : null,
       },
     });
   } catch (error) {
@@ -110,16 +133,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { role, content, searchId } = validationResult.data;
+    const { conversationId, role, content, searchId } = validationResult.data;
+
+    const existing = await db.conversation.findUnique({ where: { id: conversationId } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
 
     const message = await db.chatMessage.create({
       data: {
+        conversationId,
         role,
         content,
         searchId,
       },
     });
 
+    // Name the conversation after its first user message and move it to the top of the list
+    const conversation = await db.conversation.update({
+      where: { id: conversationId },
+      data: {
+        updatedAt: message.createdAt,
+        ...(!existing.title && role === "user" && { title: await createConversationTitle(content) }),
+      },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
@@ -128,6 +169,7 @@ export async function POST(request: NextRequest) {
         content: message.content,
         searchId: message.searchId,
         createdAt: message.createdAt.toISOString(),
+        conversation: toConversationSummary(conversation),
       },
     });
   } catch (error) {
@@ -139,8 +181,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE - Clear chat history
-export async function DELETE() {
+// DELETE - Clear the messages of a conversation
+export async function DELETE(request: NextRequest) {
   try {
     const authenticated = await isAuthenticated();
     if (!authenticated) {
@@ -150,7 +192,15 @@ export async function DELETE() {
       );
     }
 
-    await db.chatMessage.deleteMany({});
+    const conversationId = new URL(request.url).searchParams.get("conversationId");
+    if (!conversationId) {
+      return NextResponse.json(
+        { success: false, error: "Conversation ID required" },
+        { status: 400 }
+      );
+    }
+
+    await db.chatMessage.deleteMany({ where: { conversationId } });
 
     return NextResponse.json({
       success: true,
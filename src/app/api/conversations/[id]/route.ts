@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { isAuthenticated } from "@/lib/auth";
+import { toConversationSummary } from "@/lib/conversation";
+
+// Schema for renaming a conversation
+const updateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH - Rename a conversation
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const validationResult = updateConversationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.conversation.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    // Keep the position in the list: renaming isn't activity
+    const conversation = await db.conversation.update({
+      where: { id },
+      data: { title: validationResult.data.title, updatedAt: existing.updatedAt },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toConversationSummary(conversation),
+    });
+  } catch (error) {
+    console.error("Update conversation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a conversation and its messages
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const existing = await db.conversation.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.conversation.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      message: "Conversation deleted",
+    });
+  } catch (error) {
+    console.error("Delete conversation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
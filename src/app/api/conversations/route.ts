@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { isAuthenticated } from "@/lib/auth";
+import { toConversationSummary } from "@/lib/conversation";
+
+// Schema for listing conversations
+const listConversationsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  before: z.string().optional(), // Cursor for pagination
+});
+
+// Schema for creating a conversation
+const createConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+});
+
+// GET - List conversations, most recently active first
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = listConversationsSchema.safeParse({
+      limit: searchParams.get("limit") ?? undefined,
+      before: searchParams.get("before") ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid parameters" },
+        { status: 400 }
+      );
+    }
+
+    const { limit, before } = validationResult.data;
+
+    const conversations = await db.conversation.findMany({
+      take: limit,
+      orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+      ...(before && {
+        cursor: { id: before },
+        skip: 1,
+      }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conversations: conversations.map(toConversationSummary),
+        hasMore: conversations.length === limit,
+        cursor: conversations.length > 0 ? conversations[conversations.length - 1].id : null,
+      },
+    });
+  } catch (error) {
+    console.error("Get conversations error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to retrieve conversations" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Start a new conversation
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = createConversationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await db.conversation.create({
+      data: { title: validationResult.data.title },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toConversationSummary(conversation),
+    });
+  } catch (error) {
+    console.error("Create conversation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create conversation" },
+      { status: 500 }
+    );
+  }
+}
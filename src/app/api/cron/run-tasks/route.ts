@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runDueTasks, checkPriceAlerts } from "@/lib/scheduler";
+import { runDueTasks, checkPriceAlerts, purgeOldTaskRuns } from "@/lib/scheduler";
+import { purgeExpiredSearchCache } from "@/lib/search-cache";
+import { purgeExpiredParseCache } from "@/lib/parse-cache";
 
 // This endpoint can be called by external cron services (Vercel Cron, Railway, etc.)
 // For security, we check for a secret token in the Authorization header
@@ -23,6 +25,13 @@ export async function GET(request: NextRequest) {
     // Check price alerts
     const alertResults = await checkPriceAlerts();
 
+    // Clean up expired search and parse cache entries
+    const purgedCacheEntries = await purgeExpiredSearchCache();
+    const purgedParseCacheEntries = await purgeExpiredParseCache();
+
+    // Trim the task run log
+    const purgedRuns = await purgeOldTaskRuns();
+
     // Summary of task results
     const taskSummary = {
       total: taskResults.length,
@@ -51,6 +60,13 @@ export async function GET(request: NextRequest) {
         summary: alertSummary,
         results: alertResults,
       },
+      cache: {
+        purged: purgedCacheEntries,
+        parsePurged: purgedParseCacheEntries,
+      },
+      runs: {
+        purged: purgedRuns,
+      },
     });
   } catch (error) {
     console.error("Cron run-tasks error:", error);
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { isAuthenticated } from "@/lib/auth";
-import { isAmadeusConfigured } from "@/lib/amadeus";
-import { searchMultiCityRoutes, MultiCitySearchResult } from "@/lib/multi-city";
+import { isFlightSearchConfigured } from "@/lib/flight-providers";
+import { searchMultiCityRoutes, MultiCitySearchResult, MultiCityRoute, MultiCityProgress } from "@/lib/multi-city";
+import { createEventStream, wantsEventStream } from "@/lib/event-stream";
+import { getActiveRankingSettings } from "@/lib/ranking-presets";
+import type { SearchStageUpdate } from "@/lib/search-stages";
 
 // Request validation schema
 const compareRoutesSchema = z.object({
@@ -13,6 +16,7 @@ const compareRoutesSchema = z.object({
   adults: z.number().int().min(1).max(9).default(1),
   travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
   maxHubs: z.number().int().min(1).max(5).default(3),
+  forceRefresh: z.boolean().default(false), // Bypass the server-side result cache
 });
 
 export interface CompareRoutesSuccessResponse {
@@ -28,7 +32,14 @@ export interface CompareRoutesErrorResponse {
 
 export type CompareRoutesResponse = CompareRoutesSuccessResponse | CompareRoutesErrorResponse;
 
-export async function POST(request: NextRequest): Promise<NextResponse<CompareRoutesResponse>> {
+// Sent with `Accept: text/event-stream`: stage updates, each route as its hub finishes, then the usual response
+export type CompareRoutesStreamEvent =
+  | { event: "stage"; data: SearchStageUpdate }
+  | { event: "route"; data: { route: MultiCityRoute } }
+  | { event: "done"; data: CompareRoutesResponse }
+  | { event: "error"; data: CompareRoutesErrorResponse };
+
+export async function POST(request: NextRequest): Promise<Response> {
   try {
     // Check authentication
     const authenticated = await isAuthenticated();
@@ -39,8 +50,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<CompareRo
       );
     }
 
-    // Check Amadeus configuration
-    if (!isAmadeusConfigured()) {
+    // Check flight provider configuration
+    if (!isFlightSearchConfigured()) {
       return NextResponse.json(
         { success: false, error: "Flight search service not configured" },
         { status: 503 }
@@ -63,9 +74,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<CompareRo
     }
 
     const params = validationResult.data;
-
-    // Perform multi-city route search
-    const result = await searchMultiCityRoutes({
+    const searchParams = {
       origin: params.origin,
       destination: params.destination,
       departureDate: params.departureDate,
@@ -73,7 +82,24 @@ export async function POST(request: NextRequest): Promise<NextResponse<CompareRo
       adults: params.adults,
       travelClass: params.travelClass,
       maxHubs: params.maxHubs,
-    });
+      forceRefresh: params.forceRefresh,
+      ranking: await getActiveRankingSettings(),
+    };
+
+    if (wantsEventStream(request)) {
+      return createEventStream<CompareRoutesStreamEvent>(async (send) => {
+        send({
+          event: "stage",
+          data: { stage: "searching", detail: `Finding stopover hubs for ${params.origin} → ${params.destination}` },
+        });
+        const result = await searchMultiCityRoutes(searchParams, (update) => sendProgress(send, update));
+        send({ event: "stage", data: { stage: "complete" } });
+        send({ event: "done", data: { success: true, data: result } });
+      });
+    }
+
+    // Perform multi-city route search
+    const result = await searchMultiCityRoutes(searchParams);
 
     return NextResponse.json({
       success: true,
@@ -92,3 +118,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<CompareRo
     );
   }
 }
+
+/**
+ * Translate multi-city search progress into stream events
+ */
+function sendProgress(send: (event: CompareRoutesStreamEvent) => void, update: MultiCityProgress) {
+  switch (update.type) {
+    case "hubs":
+      send({
+        event: "stage",
+        data: {
+          stage: "searching",
+          detail: `Searching direct flights and ${update.hubs.map((hub) => hub.code).join(", ")}`,
+          completed: 0,
+          total: update.hubs.length,
+        },
+      });
+      break;
+    case "direct":
+      if (update.route) send({ event: "route", data: { route: update.route } });
+      break;
+    case "hub":
+      if (update.route) send({ event: "route", data: { route: update.route } });
+      send({
+        event: "stage",
+        data: {
+          stage: "searching",
+          detail: `Searched via ${update.hub.city} (${update.completed} of ${update.total} hubs)`,
+          completed: update.completed,
+          total: update.total,
+        },
+      });
+      break;
+  }
+}
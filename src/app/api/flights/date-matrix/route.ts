@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isFlightSearchConfigured } from "@/lib/flight-providers";
+import { searchDateMatrix, DateMatrixResult } from "@/lib/date-matrix";
+import { isAuthenticated } from "@/lib/auth";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+// Request validation schema
+const dateMatrixSchema = z.object({
+  origin: z.string().length(3, "Origin must be a 3-letter IATA code").toUpperCase(),
+  destination: z.string().length(3, "Destination must be a 3-letter IATA code").toUpperCase(),
+  departureStart: dateString,
+  departureEnd: dateString,
+  tripDurations: z.array(z.number().int().min(1).max(60)).max(7).optional(), // Omit for one-way
+  adults: z.number().int().min(1).max(9).default(1),
+  children: z.number().int().min(0).max(9).default(0),
+  infants: z.number().int().min(0).max(9).default(0),
+  travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
+  nonStop: z.boolean().default(false),
+  includedAirlineCodes: z.array(z.string().length(2).toUpperCase()).max(10).optional(), // IATA carrier codes
+  excludedAirlineCodes: z.array(z.string().length(2).toUpperCase()).max(10).optional(),
+  currency: z.string().length(3).default("USD"),
+  forceRefresh: z.boolean().default(false), // Bypass the server-side result cache
+}).refine((data) => data.departureEnd >= data.departureStart, {
+  message: "departureEnd must not be before departureStart",
+  path: ["departureEnd"],
+});
+
+export type DateMatrixResponse =
+  | { success: true; data: DateMatrixResult }
+  | { success: false; error: string; details?: unknown };
+
+export async function POST(request: NextRequest): Promise<NextResponse<DateMatrixResponse>> {
+  try {
+    // Check authentication
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Check flight provider configuration
+    if (!isFlightSearchConfigured()) {
+      return NextResponse.json(
+        { success: false, error: "Flight search service not configured" },
+        { status: 503 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = dateMatrixSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const params = validationResult.data;
+
+    const result = await searchDateMatrix({
+      origin: params.origin,
+      destination: params.destination,
+      departureStart: params.departureStart,
+      departureEnd: params.departureEnd,
+      tripDurations: params.tripDurations,
+      adults: params.adults,
+      children: params.children,
+      infants: params.infants,
+      travelClass: params.travelClass,
+      nonStop: params.nonStop,
+      includedAirlineCodes: params.includedAirlineCodes,
+      excludedAirlineCodes: params.excludedAirlineCodes,
+      currencyCode: params.currency,
+      forceRefresh: params.forceRefresh,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Date matrix search error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to search flexible dates",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import {
-  parseTravelQuery,
   lookupAirportCodes,
   resolveParsedDates,
+  resolveAirlinePreferences,
   isOpenAIConfigured,
   ParsedTravelQuery,
+  TravelQuerySchema,
   generateSearchInsights,
 } from "@/lib/openai";
-import { searchFlights, isAmadeusConfigured, NormalizedFlight } from "@/lib/amadeus";
+import { NormalizedFlight, FlightSearchLeg } from "@/lib/amadeus";
+import { isFlightSearchConfigured, getActiveProviders } from "@/lib/flight-providers";
+import { searchFlightsCached, SearchCacheInfo } from "@/lib/search-cache";
+import { searchDateMatrix, DateMatrixResult } from "@/lib/date-matrix";
+import { findAirportCodeForCity } from "@/lib/airports";
+import { AirlinePreferences } from "@/lib/flight-utils";
+import { compareByScore, scoreFlights } from "@/lib/ranking";
+import { getActiveRankingSettings } from "@/lib/ranking-presets";
+import { getTravelerProfile } from "@/lib/traveler-profile";
 import { db } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
+import { parseNaturalQuery } from "@/lib/query-parser";
+import { createEventStream, wantsEventStream } from "@/lib/event-stream";
+import type { SearchStageUpdate } from "@/lib/search-stages";
+
+// Early results shown while a flexible-date search is still pricing dates
+const EARLY_RESULTS_LIMIT = 20;
 
 // Request validation schema
 const requestSchema = z.object({
-  query: z.string().min(10, "Please provide more details about your trip"),
+  query: z.string().min(1),
+  // Already-parsed query, e.g. a chat follow-up refined by /api/chat/parse
+  parsedQuery: TravelQuerySchema.optional(),
+  forceRefresh: z.boolean().default(false), // Bypass the server-side result cache
+}).refine((data) => data.parsedQuery || data.query.trim().length >= 10, {
+  message: "Please provide more details about your trip",
+  path: ["query"],
 });
 
 export interface NaturalSearchSuccessResponse {
@@ -24,7 +45,10 @@ export interface NaturalSearchSuccessResponse {
     parsedQuery: ParsedTravelQuery;
     flights: NormalizedFlight[];
     count: number;
+    cache: SearchCacheInfo;
     insight?: string;
+    dateMatrix?: DateMatrixResult; // Present when the query had flexible dates
+    airlinePreferences: AirlinePreferences; // Carrier constraints applied to the search
     dictionaries?: {
       carriers?: Record<string, string>;
       aircraft?: Record<string, string>;
@@ -42,7 +66,17 @@ export interface NaturalSearchErrorResponse {
 
 export type NaturalSearchResponse = NaturalSearchSuccessResponse | NaturalSearchErrorResponse;
 
-export async function POST(request: NextRequest): Promise<NextResponse<NaturalSearchResponse>> {
+// Sent with `Accept: text/event-stream`: stage updates, early flights, then the usual response
+export type NaturalSearchStreamEvent =
+  | { event: "stage"; data: SearchStageUpdate }
+  | { event: "partial"; data: { flights: NormalizedFlight[]; carriers?: Record<string, string> } }
+  | { event: "done"; data: NaturalSearchResponse }
+  | { event: "error"; data: NaturalSearchErrorResponse };
+
+type SearchRequest = z.infer<typeof requestSchema>;
+type SendEvent = (event: NaturalSearchStreamEvent) => void;
+
+export async function POST(request: NextRequest): Promise<Response> {
   try {
     // Check authentication
     const authenticated = await isAuthenticated();
@@ -53,15 +87,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
       );
     }
 
-    // Check configurations
-    if (!isOpenAIConfigured()) {
-      return NextResponse.json(
-        { success: false, error: "AI service not configured" },
-        { status: 503 }
-      );
-    }
-
-    if (!isAmadeusConfigured()) {
+    // Check configurations (simple queries are parsed without the AI service)
+    if (!isFlightSearchConfigured()) {
       return NextResponse.json(
         { success: false, error: "Flight search service not configured" },
         { status: 503 }
@@ -82,59 +109,212 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
       );
     }
 
-    const { query } = validationResult.data;
+    if (wantsEventStream(request)) {
+      return createEventStream<NaturalSearchStreamEvent>(async (send) => {
+        const outcome = await runNaturalSearch(validationResult.data, send);
+        send({ event: "done", data: outcome.body });
+      });
+    }
 
-    // Step 1: Parse the natural language query using OpenAI
+    const outcome = await runNaturalSearch(validationResult.data);
+    return NextResponse.json(outcome.body, { status: outcome.status });
+  } catch (error) {
+    console.error("Natural flight search error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to search flights",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Parse, resolve and search, reporting each stage through `send` when streaming
+ */
+async function runNaturalSearch(
+  params: SearchRequest,
+  send: SendEvent = () => {}
+): Promise<{ body: NaturalSearchResponse; status: number }> {
+  try {
+    const { query, forceRefresh } = params;
+
+    // Step 1: Parse the natural language query with rules, falling back to
+    // the LLM for anything they aren't sure about (unless the chat already did)
     console.log("Parsing travel query:", query);
-    const parsedQuery = await parseTravelQuery(query);
+    send({ event: "stage", data: { stage: "parsing" } });
+    const parsedQuery = params.parsedQuery ?? await parseNaturalQuery(query, await getTravelerProfile());
+    if (!parsedQuery) {
+      return {
+        status: 503,
+        body: {
+          success: false,
+          error: "AI service not configured - try a simpler query like \"BCN to JFK 12 March return 20 March\"",
+        },
+      };
+    }
     console.log("Parsed query:", JSON.stringify(parsedQuery, null, 2));
 
     // Check if we need clarification
     if (parsedQuery.confidence.needsClarification && parsedQuery.confidence.overall < 0.5) {
-      return NextResponse.json({
-        success: false,
-        error: "I need more information to search for flights",
-        needsClarification: true,
-        clarificationQuestions: parsedQuery.confidence.clarificationQuestions,
-        parsedQuery,
-      });
+      return {
+        status: 200,
+        body: {
+          success: false,
+          error: "I need more information to search for flights",
+          needsClarification: true,
+          clarificationQuestions: parsedQuery.confidence.clarificationQuestions,
+          parsedQuery,
+        },
+      };
     }
 
     // Step 2: Resolve airport codes if not provided
-    let originCode = parsedQuery.origin.iataCode;
-    let destCode = parsedQuery.destination.iataCode;
+    const parsedLegs = parsedQuery.intent.tripType === "multi_city" && parsedQuery.legs && parsedQuery.legs.length > 1
+      ? parsedQuery.legs
+      : undefined;
+    const locations = parsedLegs
+      ? parsedLegs.flatMap((leg) => [leg.origin, leg.destination])
+      : [parsedQuery.origin, parsedQuery.destination];
+    const codesByCity = new Map<string, string>();
+    send({
+      event: "stage",
+      data: { stage: "resolving", detail: `${locations[0].city} → ${locations[1].city}` },
+    });
 
-    if (!originCode || !destCode) {
-      const citiesToLookup: string[] = [];
-      if (!originCode) citiesToLookup.push(parsedQuery.origin.city);
-      if (!destCode) citiesToLookup.push(parsedQuery.destination.city);
+    // Resolve what we can from the bundled airport dataset before asking the LLM
+    for (const location of locations) {
+      const localCode = location.iataCode ? undefined : findAirportCodeForCity(location.city);
+      if (localCode) codesByCity.set(location.city.toLowerCase(), localCode);
+    }
 
+    const citiesToLookup = [...new Set(
+      locations
+        .filter((location) => !location.iataCode && !codesByCity.has(location.city.toLowerCase()))
+        .map((location) => location.city)
+    )];
+    if (citiesToLookup.length > 0) {
       console.log("Looking up airport codes for:", citiesToLookup);
       const airportLookup = await lookupAirportCodes(citiesToLookup);
       console.log("Airport lookup result:", airportLookup);
 
       for (const airport of airportLookup.airports) {
-        if (!originCode && airport.city.toLowerCase() === parsedQuery.origin.city.toLowerCase()) {
-          originCode = airport.iataCode;
-        }
-        if (!destCode && airport.city.toLowerCase() === parsedQuery.destination.city.toLowerCase()) {
-          destCode = airport.iataCode;
-        }
+        codesByCity.set(airport.city.toLowerCase(), airport.iataCode);
       }
     }
 
-    // Validate we have both codes
-    if (!originCode || !destCode) {
-      return NextResponse.json({
-        success: false,
-        error: `Could not find airport codes for ${!originCode ? parsedQuery.origin.city : ""} ${!destCode ? parsedQuery.destination.city : ""}`.trim(),
-        parsedQuery,
-      });
+    const getCode = (location: { city: string; iataCode?: string }) =>
+      location.iataCode ?? codesByCity.get(location.city.toLowerCase());
+
+    // Validate we have every code
+    const unresolvedCities = [...new Set(locations.filter((location) => !getCode(location)).map((location) => location.city))];
+    if (unresolvedCities.length > 0) {
+      return {
+        status: 200,
+        body: {
+          success: false,
+          error: `Could not find airport codes for ${unresolvedCities.join(", ")}`,
+          parsedQuery,
+        },
+      };
     }
 
+    // Multi-city searches are filed under their first flight, as the parser reports them
+    // (the last leg's destination is often the origin again)
+    const originCode = getCode(parsedLegs ? parsedLegs[0].origin : parsedQuery.origin)!;
+    const destCode = getCode(parsedLegs ? parsedLegs[0].destination : parsedQuery.destination)!;
+
     // Step 3: Resolve dates
-    const { departureDate, returnDate } = resolveParsedDates(parsedQuery);
-    console.log("Resolved dates:", { departureDate, returnDate });
+    const resolvedDates = resolveParsedDates(parsedQuery);
+    let { departureDate, returnDate } = resolvedDates;
+    const { departureDateRange, tripDurations, legDates } = resolvedDates;
+    console.log("Resolved dates:", { departureDate, returnDate, departureDateRange, tripDurations, legDates });
+
+    // An inverted range would quietly fall back to a single date
+    if (departureDateRange && departureDateRange.start > departureDateRange.end) {
+      return {
+        status: 200,
+        body: {
+          success: false,
+          error: `The departure dates don't add up (${departureDateRange.start} to ${departureDateRange.end}) - which dates did you mean?`,
+          parsedQuery,
+        },
+      };
+    }
+
+    // Multi-city itinerary, one search leg per parsed flight
+    const legs: FlightSearchLeg[] | undefined = parsedLegs && legDates
+      ? parsedLegs.map((leg, index) => ({
+          origin: getCode(leg.origin)!,
+          destination: getCode(leg.destination)!,
+          departureDate: legDates[index],
+        }))
+      : undefined;
+    if (legs) returnDate = undefined;
+
+    // Avoided airlines are excluded outright; preferred ones only restrict the
+    // search when the user asked for them exclusively, otherwise they rank higher
+    const airlinePreferences = resolveAirlinePreferences(parsedQuery);
+    const airlineFilters = {
+      includedAirlineCodes: airlinePreferences.preferredOnly ? airlinePreferences.preferred : undefined,
+      excludedAirlineCodes: airlinePreferences.avoided.length > 0 ? airlinePreferences.avoided : undefined,
+    };
+
+    // Step 3b: For flexible dates, price the whole range and search the cheapest date pair
+    let dateMatrix: DateMatrixResult | undefined;
+    const isRoundTrip = parsedQuery.intent.tripType !== "one_way" && !!returnDate;
+    const hasFlexibleDates = !legs && (
+      (departureDateRange && departureDateRange.start < departureDateRange.end) ||
+      (isRoundTrip && (tripDurations?.length ?? 0) > 1)
+    );
+
+    if (hasFlexibleDates) {
+      // Show the cheapest flights found so far while the remaining dates are priced
+      let earlyFlights: NormalizedFlight[] = [];
+      send({
+        event: "stage",
+        data: { stage: "searching", detail: `Comparing dates for ${originCode} → ${destCode}` },
+      });
+
+      dateMatrix = await searchDateMatrix({
+        origin: originCode,
+        destination: destCode,
+        departureStart: departureDateRange?.start ?? departureDate,
+        departureEnd: departureDateRange?.end ?? departureDate,
+        tripDurations: isRoundTrip ? tripDurations : undefined,
+        adults: parsedQuery.passengers.adults,
+        children: parsedQuery.passengers.children,
+        infants: parsedQuery.passengers.infants,
+        travelClass: parsedQuery.preferences.cabinClass,
+        nonStop: parsedQuery.preferences.directFlightsOnly,
+        ...airlineFilters,
+        forceRefresh,
+      }, ({ cell, flights: cellFlights, completed, total }) => {
+        send({
+          event: "stage",
+          data: { stage: "searching", detail: `Priced ${completed} of ${total} dates`, completed, total },
+        });
+        if (cellFlights.length === 0) return;
+
+        // Offer ids restart for every search; prefix them with the dates to keep them unique
+        const dated = cellFlights.map((flight) => ({
+          ...flight,
+          id: `${cell.departureDate}_${cell.returnDate ?? ""}_${flight.id}`,
+        }));
+        earlyFlights = [...earlyFlights, ...dated]
+          .sort((a, b) => a.price - b.price)
+          .slice(0, EARLY_RESULTS_LIMIT);
+        send({ event: "partial", data: { flights: earlyFlights } });
+      });
+
+      if (dateMatrix.cheapest) {
+        departureDate = dateMatrix.cheapest.departureDate;
+        returnDate = dateMatrix.cheapest.returnDate ?? returnDate;
+      }
+      console.log("Date matrix:", dateMatrix.searchStats, "cheapest:", dateMatrix.cheapest);
+    }
 
     // Step 4: Create search query record
     const searchQuery = await db.searchQuery.create({
@@ -146,23 +326,34 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
           resolvedDestination: destCode,
           resolvedDepartureDate: departureDate,
           resolvedReturnDate: returnDate,
+          resolvedLegs: legs,
+          resolvedAirlines: airlinePreferences,
         } as object,
       },
     });
 
-    // Step 5: Search flights via Amadeus
+    // Step 5: Search flights via the configured providers
     console.log("Searching flights:", {
       origin: originCode,
       destination: destCode,
       departureDate,
       returnDate,
+      legs,
+    });
+    send({
+      event: "stage",
+      data: {
+        stage: "searching",
+        detail: `Searching ${getActiveProviders().map((provider) => provider.name).join(", ")} for ${originCode} → ${destCode} on ${departureDate}`,
+      },
     });
 
-    const { flights, dictionaries } = await searchFlights({
+    const { flights: searchedFlights, dictionaries, cache } = await searchFlightsCached({
       originLocationCode: originCode,
       destinationLocationCode: destCode,
       departureDate,
       returnDate: parsedQuery.intent.tripType === "one_way" ? undefined : returnDate,
+      legs,
       adults: parsedQuery.passengers.adults,
       children: parsedQuery.passengers.children,
       infants: parsedQuery.passengers.infants,
@@ -170,14 +361,23 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
       nonStop: parsedQuery.preferences.directFlightsOnly,
       maxPrice: parsedQuery.preferences.maxBudget,
       max: 50,
+      ...airlineFilters,
+    }, { forceRefresh });
+
+    // Best match first with the active ranking preset, boosting preferred airlines
+    const scores = scoreFlights(searchedFlights, await getActiveRankingSettings(), {
+      preferredAirlines: airlinePreferences.preferred,
     });
+    const flights = [...searchedFlights].sort(compareByScore(scores, (flight) => flight.price));
+
+    send({ event: "partial", data: { flights, carriers: dictionaries?.carriers } });
 
     // Step 6: Store flight results in database
     if (flights.length > 0) {
       await db.flightResult.createMany({
         data: flights.slice(0, 50).map((flight) => ({
           searchId: searchQuery.id,
-          source: "amadeus",
+          source: flight.source,
           itinerary: flight.raw as object,
           price: flight.price,
           currency: flight.currency,
@@ -185,8 +385,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
           legs: flight.legs.length,
           origin: flight.legs[0].origin,
           destination: flight.legs[flight.legs.length - 1].destination,
-          departureAt: new Date(flight.legs[0].departureAt),
-          arrivalAt: new Date(flight.legs[0].arrivalAt),
+          departureAt: new Date(flight.legs[0].departureUtc),
+          arrivalAt: new Date(flight.legs[0].arrivalUtc),
           stops: flight.legs[0].stops,
           airlines: flight.airlines,
         })),
@@ -195,7 +395,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
 
     // Step 7: Generate insights (non-blocking)
     let insight: string | undefined;
-    if (flights.length > 0) {
+    if (flights.length > 0 && isOpenAIConfigured()) {
+      send({ event: "stage", data: { stage: "processing", detail: `Analyzing ${flights.length} flights` } });
       const prices = flights.map((f) => f.price);
       const hasDirectFlights = flights.some((f) => f.legs[0].stops === 0);
       insight = await generateSearchInsights(
@@ -206,29 +407,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<NaturalSe
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        searchId: searchQuery.id,
-        parsedQuery,
-        flights,
-        count: flights.length,
-        insight,
-        dictionaries: {
-          carriers: dictionaries?.carriers,
-          aircraft: dictionaries?.aircraft,
+    send({ event: "stage", data: { stage: "complete" } });
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: {
+          searchId: searchQuery.id,
+          parsedQuery,
+          flights,
+          count: flights.length,
+          cache,
+          insight,
+          dateMatrix,
+          airlinePreferences,
+          dictionaries: {
+            carriers: dictionaries?.carriers,
+            aircraft: dictionaries?.aircraft,
+          },
         },
       },
-    });
+    };
   } catch (error) {
     console.error("Natural flight search error:", error);
 
-    return NextResponse.json(
-      {
+    return {
+      status: 500,
+      body: {
         success: false,
         error: error instanceof Error ? error.message : "Failed to search flights",
       },
-      { status: 500 }
-    );
+    };
   }
 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { searchFlights, isAmadeusConfigured, NormalizedFlight } from "@/lib/amadeus";
+import { NormalizedFlight } from "@/lib/amadeus";
+import { isFlightSearchConfigured } from "@/lib/flight-providers";
+import { searchFlightsCached, SearchCacheInfo } from "@/lib/search-cache";
 import { db } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
 
@@ -15,9 +17,12 @@ const searchSchema = z.object({
   infants: z.number().int().min(0).max(9).default(0),
   travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
   nonStop: z.boolean().default(false),
+  includedAirlineCodes: z.array(z.string().length(2).toUpperCase()).max(10).optional(), // IATA carrier codes
+  excludedAirlineCodes: z.array(z.string().length(2).toUpperCase()).max(10).optional(),
   currency: z.string().length(3).default("USD"),
   maxPrice: z.number().positive().optional(),
   maxResults: z.number().int().min(1).max(250).default(50),
+  forceRefresh: z.boolean().default(false), // Bypass the server-side result cache
 });
 
 export type FlightSearchRequest = z.infer<typeof searchSchema>;
@@ -28,6 +33,7 @@ export interface FlightSearchSuccessResponse {
     searchId: string;
     flights: NormalizedFlight[];
     count: number;
+    cache: SearchCacheInfo;
     dictionaries?: {
       carriers?: Record<string, string>;
       aircraft?: Record<string, string>;
@@ -54,8 +60,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<FlightSea
       );
     }
 
-    // Check Amadeus configuration
-    if (!isAmadeusConfigured()) {
+    // Check flight provider configuration
+    if (!isFlightSearchConfigured()) {
       return NextResponse.json(
         { success: false, error: "Flight search service not configured" },
         { status: 503 }
@@ -87,8 +93,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<FlightSea
       },
     });
 
-    // Search flights via Amadeus
-    const { flights, dictionaries } = await searchFlights({
+    // Search flights via the configured providers (served from cache when fresh)
+    const { flights, dictionaries, cache } = await searchFlightsCached({
       originLocationCode: params.origin,
       destinationLocationCode: params.destination,
       departureDate: params.departureDate,
@@ -98,17 +104,19 @@ export async function POST(request: NextRequest): Promise<NextResponse<FlightSea
       infants: params.infants,
       travelClass: params.travelClass,
       nonStop: params.nonStop,
+      includedAirlineCodes: params.includedAirlineCodes,
+      excludedAirlineCodes: params.excludedAirlineCodes,
       currencyCode: params.currency,
       maxPrice: params.maxPrice,
       max: params.maxResults,
-    });
+    }, { forceRefresh: params.forceRefresh });
 
     // Store flight results in database
     if (flights.length > 0) {
       await db.flightResult.createMany({
         data: flights.map((flight) => ({
           searchId: searchQuery.id,
-          source: "amadeus",
+          source: flight.source,
           itinerary: flight.raw as object,
           price: flight.price,
           currency: flight.currency,
@@ -116,8 +124,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<FlightSea
           legs: flight.legs.length,
           origin: flight.legs[0].origin,
           destination: flight.legs[flight.legs.length - 1].destination,
-          departureAt: new Date(flight.legs[0].departureAt),
-          arrivalAt: new Date(flight.legs[0].arrivalAt),
+          departureAt: new Date(flight.legs[0].departureUtc),
+          arrivalAt: new Date(flight.legs[0].arrivalUtc),
           stops: flight.legs[0].stops,
           airlines: flight.airlines,
         })),
@@ -130,6 +138,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<FlightSea
         searchId: searchQuery.id,
         flights,
         count: flights.length,
+        cache,
         dictionaries: {
           carriers: dictionaries?.carriers,
           aircraft: dictionaries?.aircraft,
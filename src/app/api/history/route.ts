@@ -1,20 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
+import { listSearchHistory, type HistoryItem } from "@/lib/search-history";
 
-export interface HistoryItem {
-  id: string;
-  rawPrompt: string;
-  origin: string;
-  destination: string;
-  departureDate: string | null;
-  returnDate: string | null;
-  resultCount: number;
-  cheapestPrice: number | null;
-  currency: string;
-  createdAt: string;
-  hasTask: boolean;
-}
+export type { HistoryItem };
 
 export interface HistoryResponse {
   success: true;
@@ -44,61 +33,12 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
     const offset = parseInt(searchParams.get("offset") || "0");
 
-    // Fetch searches with aggregated result info
-    const searches = await prisma.searchQuery.findMany({
-      take: limit,
-      skip: offset,
-      orderBy: { createdAt: "desc" },
-      include: {
-        results: {
-          select: {
-            price: true,
-            currency: true,
-            origin: true,
-            destination: true,
-          },
-          orderBy: { price: "asc" },
-        },
-        task: {
-          select: { id: true },
-        },
-      },
-    });
-
-    const total = await prisma.searchQuery.count();
-
-    // Transform to HistoryItem format
-    const historyItems: HistoryItem[] = searches.map((search) => {
-      const parsed = search.parsed as {
-        resolvedOrigin?: string;
-        resolvedDestination?: string;
-        resolvedDepartureDate?: string;
-        resolvedReturnDate?: string;
-        origin?: { iataCode?: string; city?: string };
-        destination?: { iataCode?: string; city?: string };
-      } | null;
-
-      const cheapest = search.results[0];
-
-      return {
-        id: search.id,
-        rawPrompt: search.rawPrompt,
-        origin: parsed?.resolvedOrigin || cheapest?.origin || "???",
-        destination: parsed?.resolvedDestination || cheapest?.destination || "???",
-        departureDate: parsed?.resolvedDepartureDate || null,
-        returnDate: parsed?.resolvedReturnDate || null,
-        resultCount: search.results.length,
-        cheapestPrice: cheapest?.price || null,
-        currency: cheapest?.currency || "USD",
-        createdAt: search.createdAt.toISOString(),
-        hasTask: !!search.task,
-      };
-    });
+    const { searches, total } = await listSearchHistory(limit, offset);
 
     return NextResponse.json<HistoryResponse>({
       success: true,
       data: {
-        searches: historyItems,
+        searches,
         total,
       },
     });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/auth";
+import {
+  getTravelerProfile,
+  TravelerProfileError,
+  TravelerProfileUpdateSchema,
+  updateTravelerProfile,
+} from "@/lib/traveler-profile";
+
+// GET - Get the traveler profile (the defaults if none was saved)
+export async function GET() {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await getTravelerProfile();
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    console.error("Get traveler profile error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch traveler profile" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update some of the profile's fields
+export async function PATCH(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = TravelerProfileUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = await updateTravelerProfile(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    if (error instanceof TravelerProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Update traveler profile error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update traveler profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { isAuthenticated } from "@/lib/auth";
+import { BUILT_IN_RANKING_PRESETS, RankingSettingsSchema } from "@/lib/ranking";
+import { activateRankingPreset } from "@/lib/ranking-presets";
+
+// Schema for updating a preset; built-in presets can only be activated
+const updatePresetSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  settings: RankingSettingsSchema.optional(),
+  active: z.literal(true).optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH - Rename, change the weights of, or activate a preset
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const validationResult = updatePresetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, settings, active } = validationResult.data;
+
+    const existing = await prisma.rankingPreset.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.builtIn && (name !== undefined || settings !== undefined)) {
+      return NextResponse.json(
+        { success: false, error: "Built-in presets can't be changed, save a copy instead" },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && name.toLowerCase() !== existing.name.toLowerCase()) {
+      const taken = await prisma.rankingPreset.findFirst({
+        where: { name: { equals: name, mode: "insensitive" }, id: { not: id } },
+      });
+      if (taken) {
+        return NextResponse.json(
+          { success: false, error: "A preset with this name already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const preset = await prisma.rankingPreset.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(settings !== undefined && { settings: settings as object }),
+      },
+    });
+    if (active) await activateRankingPreset(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: preset.id,
+        name: preset.name,
+        settings: settings ?? preset.settings,
+        builtIn: preset.builtIn,
+        active: active ?? preset.active,
+      },
+    });
+  } catch (error) {
+    console.error("Update ranking preset error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update ranking preset" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a custom preset; deleting the active one falls back to the first built-in
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const existing = await prisma.rankingPreset.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.builtIn) {
+      return NextResponse.json(
+        { success: false, error: "Built-in presets can't be deleted" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.rankingPreset.delete({ where: { id } });
+
+    if (existing.active) {
+      const fallback = await prisma.rankingPreset.findUnique({
+        where: { name: BUILT_IN_RANKING_PRESETS[0].name },
+      });
+      if (fallback) await activateRankingPreset(fallback.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Preset deleted",
+    });
+  } catch (error) {
+    console.error("Delete ranking preset error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete ranking preset" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { isAuthenticated } from "@/lib/auth";
+import { RankingSettingsSchema } from "@/lib/ranking";
+import { activateRankingPreset, listRankingPresets } from "@/lib/ranking-presets";
+
+// Schema for saving a new preset
+const createPresetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  settings: RankingSettingsSchema,
+  active: z.boolean().default(false), // Rank with the new preset right away
+});
+
+// GET - List ranking presets, including the active one
+export async function GET() {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const presets = await listRankingPresets();
+
+    return NextResponse.json({
+      success: true,
+      data: presets,
+    });
+  } catch (error) {
+    console.error("List ranking presets error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch ranking presets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save a new preset
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = createPresetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, settings, active } = validationResult.data;
+
+    // Seeds the built-in presets, so their names are taken before a custom one is saved
+    const existing = await listRankingPresets();
+    if (existing.some((preset) => preset.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json(
+        { success: false, error: "A preset with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const preset = await prisma.rankingPreset.create({
+      data: { name, settings: settings as object },
+    });
+    if (active) await activateRankingPreset(preset.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: preset.id, name, settings, builtIn: false, active },
+    });
+  } catch (error) {
+    console.error("Create ranking preset error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save ranking preset" },
+      { status: 500 }
+    );
+  }
+}
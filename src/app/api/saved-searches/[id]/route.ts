@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { isAuthenticated } from "@/lib/auth";
+import { getSavedSearch, SavedSearchTagsSchema } from "@/lib/saved-searches";
+
+// Schema for renaming, tagging or pinning a saved search
+const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  tags: SavedSearchTagsSchema.optional(),
+  pinned: z.boolean().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Get a saved search
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const search = await getSavedSearch(id);
+    if (!search) {
+      return NextResponse.json(
+        { success: false, error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: search,
+    });
+  } catch (error) {
+    console.error("Get saved search error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Rename, tag or pin a saved search
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const validationResult = updateSavedSearchSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.savedSearch.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.savedSearch.update({
+      where: { id },
+      data: validationResult.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await getSavedSearch(id),
+    });
+  } catch (error) {
+    console.error("Update saved search error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a saved search
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const existing = await prisma.savedSearch.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.savedSearch.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      message: "Saved search deleted",
+    });
+  } catch (error) {
+    console.error("Delete saved search error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete saved search" },
+      { status: 500 }
+    );
+  }
+}
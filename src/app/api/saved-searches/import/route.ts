@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "@/lib/auth";
+import { importLegacySavedSearches, LegacySavedSearchSchema } from "@/lib/saved-searches";
+
+// Schema for the searches a browser kept in localStorage
+const importSchema = z.object({
+  searches: z.array(LegacySavedSearchSchema).max(100),
+});
+
+// POST - Import the saved searches this browser kept before they moved to the database
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = importSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await importLegacySavedSearches(validationResult.data.searches);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Import saved searches error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to import saved searches" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "@/lib/auth";
+import { listSavedSearches, saveSearchFromHistory, SavedSearchTagsSchema } from "@/lib/saved-searches";
+
+// Schema for saving a search from the history
+const saveSearchSchema = z.object({
+  searchId: z.string().min(1),
+  name: z.string().trim().min(1).max(100).optional(), // Defaults to the route, e.g. "Madrid → Tokyo"
+  tags: SavedSearchTagsSchema.optional(),
+  pinned: z.boolean().optional(),
+});
+
+// GET - List saved searches, optionally only those with a tag
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tag = request.nextUrl.searchParams.get("tag") || undefined;
+    const searches = await listSavedSearches({ tag });
+
+    return NextResponse.json({
+      success: true,
+      data: searches,
+    });
+  } catch (error) {
+    console.error("List saved searches error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch saved searches" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save a search from the history (saving the same search again updates it)
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = saveSearchSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { searchId, ...options } = validationResult.data;
+    const saved = await saveSearchFromHistory(searchId, options);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: "Search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+    });
+  } catch (error) {
+    console.error("Save search error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save search" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
-import { getNextRunTime, isValidCron } from "@/lib/scheduler";
+import { isValidCron, planNextRun } from "@/lib/scheduler";
 
 // Update schema
 const updateTaskSchema = z.object({
@@ -12,9 +12,13 @@ const updateTaskSchema = z.object({
   departureDate: z.string().optional(),
   returnDate: z.string().nullable().optional(),
   adults: z.number().int().min(1).max(9).optional(),
+  children: z.number().int().min(0).max(9).optional(),
+  infants: z.number().int().min(0).max(9).optional(),
   travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).optional(),
+  nonStop: z.boolean().optional(),
   cronExpr: z.string().refine(isValidCron, "Invalid cron expression").optional(),
   priceTarget: z.number().positive().nullable().optional(),
+  maxRunsPerDay: z.number().int().min(1).max(48).nullable().optional(),
   active: z.boolean().optional(),
 });
 
@@ -43,6 +47,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
           orderBy: { sentAt: "desc" },
           take: 20,
         },
+        runs: {
+          orderBy: { startedAt: "desc" },
+          take: 50,
+        },
       },
     });
 
@@ -103,8 +111,18 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Recalculate next run if cron changed
-    const nextRun = data.cronExpr ? getNextRunTime(data.cronExpr) : undefined;
+    if ((data.infants ?? existingTask.infants) > (data.adults ?? existingTask.adults)) {
+      return NextResponse.json(
+        { success: false, error: "Each infant must travel with an adult" },
+        { status: 400 }
+      );
+    }
+
+    // Recalculate next run if the schedule, its budget or the date it adapts to changed
+    const nextRun =
+      data.cronExpr || data.maxRunsPerDay !== undefined || data.departureDate
+        ? await planNextRun({ ...existingTask, ...data })
+        : undefined;
 
     const task = await prisma.scheduledTask.update({
       where: { id },
@@ -24,7 +24,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
           success: false,
           error: result.error || "Task execution failed",
         },
-        { status: result.error === "Task not found" ? 404 : 500 }
+        { status: result.error === "Task not found" ? 404 : result.skipped ? 409 : 500 }
       );
     }
 
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
-import { getNextRunTime, isValidCron } from "@/lib/scheduler";
+import { getNextRunTime, isValidCron, parseRelativeDate } from "@/lib/scheduler";
 
 // Request validation schema for creating/updating tasks
 const taskSchema = z.object({
@@ -12,10 +12,17 @@ const taskSchema = z.object({
   departureDate: z.string().min(1, "Departure date is required"),
   returnDate: z.string().optional(),
   adults: z.number().int().min(1).max(9).default(1),
+  children: z.number().int().min(0).max(9).default(0),
+  infants: z.number().int().min(0).max(9).default(0),
   travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
+  nonStop: z.boolean().default(false),
   cronExpr: z.string().refine(isValidCron, "Invalid cron expression"),
   priceTarget: z.number().positive().optional(),
+  maxRunsPerDay: z.number().int().min(1).max(48).nullable().optional(),
   active: z.boolean().default(true),
+}).refine((data) => data.infants <= data.adults, {
+  message: "Each infant must travel with an adult",
+  path: ["infants"],
 });
 
 // GET - List all tasks
@@ -84,7 +91,10 @@ export async function POST(request: NextRequest) {
     const data = validationResult.data;
 
     // Calculate next run time
-    const nextRun = getNextRunTime(data.cronExpr);
+    const nextRun = getNextRunTime(data.cronExpr, undefined, {
+      departureDate: parseRelativeDate(data.departureDate),
+      maxRunsPerDay: data.maxRunsPerDay,
+    });
 
     const task = await prisma.scheduledTask.create({
       data: {
@@ -94,9 +104,13 @@ export async function POST(request: NextRequest) {
         departureDate: data.departureDate,
         returnDate: data.returnDate,
         adults: data.adults,
+        children: data.children,
+        infants: data.infants,
         travelClass: data.travelClass,
+        nonStop: data.nonStop,
         cronExpr: data.cronExpr,
         priceTarget: data.priceTarget,
+        maxRunsPerDay: data.maxRunsPerDay,
         active: data.active,
         nextRun,
       },
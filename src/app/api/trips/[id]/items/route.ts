@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "@/lib/auth";
+import { attachToTrip, detachFromTrip, TripItemSchema, TripNotFoundError } from "@/lib/trips";
+
+const itemTypeSchema = z.enum(["search", "flight", "task", "alert"]);
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST - Attach a search, shortlisted flight, task or alert to the trip
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const validationResult = TripItemSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    await attachToTrip(id, validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      message: "Added to trip",
+    });
+  } catch (error) {
+    if (error instanceof TripNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    console.error("Attach to trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to add to trip" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an item from the trip (?type=flight&itemId=...), without deleting it
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const type = itemTypeSchema.safeParse(searchParams.get("type"));
+    const itemId = searchParams.get("itemId");
+
+    if (!type.success || !itemId) {
+      return NextResponse.json(
+        { success: false, error: "Item type and ID required" },
+        { status: 400 }
+      );
+    }
+
+    await detachFromTrip(id, type.data, itemId);
+
+    return NextResponse.json({
+      success: true,
+      message: "Removed from trip",
+    });
+  } catch (error) {
+    if (error instanceof TripNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    console.error("Detach from trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to remove from trip" },
+      { status: 500 }
+    );
+  }
+}
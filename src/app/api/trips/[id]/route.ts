@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/auth";
+import { deleteTrip, getTripDetail, TripError, TripUpdateSchema, updateTrip } from "@/lib/trips";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Get a trip with its searches, shortlist, tasks and alerts
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const trip = await getTripDetail(id);
+    if (!trip) {
+      return NextResponse.json(
+        { success: false, error: "Trip not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: trip,
+    });
+  } catch (error) {
+    console.error("Get trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch trip" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update some of the trip's fields
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const validationResult = TripUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const trip = await updateTrip(id, validationResult.data);
+    if (!trip) {
+      return NextResponse.json(
+        { success: false, error: "Trip not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: trip,
+    });
+  } catch (error) {
+    if (error instanceof TripError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Update trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update trip" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a trip, keeping what was attached to it
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const deleted = await deleteTrip(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Trip not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Trip deleted",
+    });
+  } catch (error) {
+    console.error("Delete trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete trip" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/auth";
+import { createTrip, listTrips, TripCreateSchema, TripError } from "@/lib/trips";
+
+// GET - List trips
+export async function GET() {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const trips = await listTrips();
+
+    return NextResponse.json({
+      success: true,
+      data: trips,
+    });
+  } catch (error) {
+    console.error("Get trips error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch trips" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a trip
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = TripCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const trip = await createTrip(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: trip,
+    });
+  } catch (error) {
+    if (error instanceof TripError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Create trip error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create trip" },
+      { status: 500 }
+    );
+  }
+}
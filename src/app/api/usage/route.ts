@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/auth";
+import { getApiUsageSummary } from "@/lib/api-usage";
+import { getLLMUsageSummary } from "@/lib/llm-usage";
+
+// GET - API usage and quota summary, and LLM token usage
+export async function GET() {
+  try {
+    const authenticated = await isAuthenticated();
+    if (!authenticated) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [amadeus, llm] = await Promise.all([
+      getApiUsageSummary("amadeus"),
+      getLLMUsageSummary(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { amadeus, llm },
+    });
+  } catch (error) {
+    console.error("Get API usage error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch API usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ChatAgentAction } from "@/lib/chat-agent";
+import { Bell, Bookmark, CalendarClock, Check, Loader2, X } from "lucide-react";
+
+export type ChatActionStatus = "pending" | "running" | "done" | "cancelled";
+
+interface ChatActionConfirmationProps {
+  action: ChatAgentAction;
+  status: ChatActionStatus;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<ChatAgentAction["type"], { icon: typeof Bell; label: string; done: string }> = {
+  create_task: { icon: CalendarClock, label: "Create tracking task", done: "Created" },
+  create_alert: { icon: Bell, label: "Create price alert", done: "Created" },
+  save_search: { icon: Bookmark, label: "Save search", done: "Saved" },
+};
+
+export function ChatActionConfirmation({
+  action,
+  status,
+  onConfirm,
+  onCancel,
+}: ChatActionConfirmationProps) {
+  const { icon: Icon, label, done } = ACTION_LABELS[action.type];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg border bg-background">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Icon className="h-4 w-4 text-primary" />
+        {label}
+      </div>
+
+      <div className="ml-auto flex items-center gap-2">
+        {status === "done" && (
+          <Badge variant="secondary" className="text-xs">
+            <Check className="h-3 w-3 mr-1" />
+            {done}
+          </Badge>
+        )}
+        {status === "cancelled" && (
+          <Badge variant="outline" className="text-xs text-muted-foreground">
+            Cancelled
+          </Badge>
+        )}
+        {(status === "pending" || status === "running") && (
+          <>
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={status === "running"}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+            <Button size="sm" onClick={onConfirm} disabled={status === "running"}>
+              {status === "running" ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Check className="h-4 w-4 mr-1" />
+              )}
+              Confirm
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,22 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { ChatMessage, ChatMessageProps } from "./chat-message";
 import { ChatInput } from "./chat-input";
+import { ChatActionConfirmation, type ChatActionStatus } from "./chat-action-confirmation";
+import { ConversationSidebar } from "./conversation-sidebar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { FlightCard } from "@/components/flights/flight-card";
+import { RouteComparison } from "@/components/flights/route-comparison";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { NormalizedFlight } from "@/lib/amadeus";
 import { ParsedTravelQuery } from "@/lib/openai";
+import type { MultiCitySearchResult } from "@/lib/multi-city";
+import type { ChatAgentAction, ChatAgentResult } from "@/lib/chat-agent";
+import type { ConversationSummary } from "@/lib/conversation";
+import type { ChatMessageResponse } from "@/app/api/chat/route";
+import { describeAirlinePreferences, isPreferredAirlineFlight, type AirlinePreferences } from "@/lib/flight-utils";
 import { Plane, Sparkles, Trash2 } from "lucide-react";
+import { toast } from "sonner";
 
 interface Message extends ChatMessageProps {
   id: string;
@@ -19,7 +28,11 @@ interface Message extends ChatMessageProps {
     searchId?: string;
     parsedQuery?: ParsedTravelQuery;
     insight?: string;
+    airlinePreferences?: AirlinePreferences;
+    totalCount?: number; // Stored results of a restored search, when more than were loaded
   };
+  routeComparison?: MultiCitySearchResult;
+  action?: ChatAgentAction & { status: ChatActionStatus };
 }
 
 interface ChatContainerProps {
@@ -34,10 +47,33 @@ const WELCOME_MESSAGE: Message = {
   timestamp: new Date(),
 };
 
+const MESSAGES_PAGE_SIZE = 50;
+
+const toMessage = (m: ChatMessageResponse): Message => ({
+  id: m.id,
+  role: m.role as "user" | "assistant" | "system",
+  content: m.content,
+  timestamp: new Date(m.createdAt),
+  flightResults: m.flightResults && m.flightResults.flights.length > 0
+    ? {
+        flights: m.flightResults.flights,
+        searchId: m.flightResults.searchId,
+        parsedQuery: m.flightResults.parsedQuery,
+        airlinePreferences: m.flightResults.airlinePreferences,
+        totalCount: m.flightResults.totalCount,
+      }
+    : undefined,
+});
+
 export function ChatContainer({ initialMessage }: ChatContainerProps) {
   const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(true);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messagesCursor, setMessagesCursor] = useState<string | null>(null); // Set while older messages remain
   const scrollRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -46,36 +82,92 @@ export function ChatContainer({ initialMessage }: ChatContainerProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
+  // Paging back through history keeps the reader's position
+  const skipScrollRef = useRef(false);
+
   useEffect(() => {
+    if (skipScrollRef.current) {
+      skipScrollRef.current = false;
+      return;
+    }
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
-  // Load chat history on mount
+  // Open a conversation, or page back through it with a cursor
+  const loadMessages = async (id: string, before?: string) => {
+    setIsLoadingHistory(true);
+    try {
+      const params = new URLSearchParams({ conversationId: id, limit: String(MESSAGES_PAGE_SIZE) });
+      if (before) params.set("before", before);
+      const response = await fetch(`/api/chat?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        const loaded: Message[] = data.data.messages.map(toMessage);
+        skipScrollRef.current = !!before;
+        setMessages((prev) =>
+          before ? [WELCOME_MESSAGE, ...loaded, ...prev.filter((m) => m.id !== WELCOME_MESSAGE.id)] : [WELCOME_MESSAGE, ...loaded]
+        );
+        setMessagesCursor(data.data.hasMore ? data.data.cursor : null);
+      }
+    } catch (error) {
+      console.error("Failed to load chat history:", error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const openConversation = (id: string) => {
+    if (isLoading || id === conversationId) return;
+    setConversationId(id);
+    setMessages([WELCOME_MESSAGE]);
+    setMessagesCursor(null);
+    loadMessages(id);
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) return;
+    setConversationId(null);
+    setMessages([WELCOME_MESSAGE]);
+    setMessagesCursor(null);
+  };
+
+  const loadConversations = async (before?: string) => {
+    setIsLoadingConversations(true);
+    try {
+      const params = new URLSearchParams({ limit: "20" });
+      if (before) params.set("before", before);
+      const response = await fetch(`/api/conversations?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        const page: ConversationSummary[] = data.data.conversations;
+        setConversations((prev) => (before ? [...prev, ...page] : page));
+        setConversationsCursor(data.data.hasMore ? data.data.cursor : null);
+        return page;
+      }
+    } catch (error) {
+      console.error("Failed to load conversations:", error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+    return [];
+  };
+
+  // Load the conversation list on mount and reopen the most recent one
   useEffect(() => {
-    const loadHistory = async () => {
-      try {
-        const response = await fetch("/api/chat?limit=50");
-        const data = await response.json();
-
-        if (data.success && data.data.messages.length > 0) {
-          const historyMessages: Message[] = data.data.messages.map(
-            (m: { id: string; role: string; content: string; createdAt: string }) => ({
-              id: m.id,
-              role: m.role as "user" | "assistant" | "system",
-              content: m.content,
-              timestamp: new Date(m.createdAt),
-            })
-          );
-          setMessages([WELCOME_MESSAGE, ...historyMessages]);
-        }
-      } catch (error) {
-        console.error("Failed to load chat history:", error);
-      } finally {
+    const loadInitial = async () => {
+      const page = await loadConversations();
+      if (page.length > 0 && !initialMessage) {
+        setConversationId(page[0].id);
+        await loadMessages(page[0].id);
+      } else {
         setIsLoadingHistory(false);
       }
     };
 
-    loadHistory();
+    loadInitial();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Handle initial message from URL or props
@@ -86,29 +178,225 @@ export function ChatContainer({ initialMessage }: ChatContainerProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isLoadingHistory]);
 
+  // Keep the sidebar entry current, most recently active first
+  const upsertConversation = (conversation: ConversationSummary) => {
+    setConversations((prev) => [conversation, ...prev.filter((c) => c.id !== conversation.id)]);
+  };
+
+  // The first message of a new chat creates its conversation
+  const ensureConversation = async (): Promise<string> => {
+    if (conversationId) return conversationId;
+
+    const response = await fetch("/api/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to start a conversation");
+    }
+
+    upsertConversation(data.data);
+    setConversationId(data.data.id);
+    return data.data.id;
+  };
+
   // Persist message to database
-  const persistMessage = async (role: string, content: string, searchId?: string) => {
+  const persistMessage = async (id: string, role: string, content: string, searchId?: string) => {
     try {
-      await fetch("/api/chat", {
+      const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role, content, searchId }),
+        body: JSON.stringify({ conversationId: id, role, content, searchId }),
       });
+      const data = await response.json();
+      if (data.success) {
+        upsertConversation(data.data.conversation);
+      }
     } catch (error) {
       console.error("Failed to persist message:", error);
     }
   };
 
-  // Clear chat history
+  // Clear the messages of the current conversation
   const clearHistory = async () => {
+    if (!conversationId) return;
     try {
-      await fetch("/api/chat", { method: "DELETE" });
+      await fetch(`/api/chat?conversationId=${conversationId}`, { method: "DELETE" });
       setMessages([WELCOME_MESSAGE]);
+      setMessagesCursor(null);
     } catch (error) {
       console.error("Failed to clear history:", error);
     }
   };
 
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to rename conversation");
+      }
+      setConversations((prev) => prev.map((c) => (c.id === id ? data.data : c)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename conversation");
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete conversation");
+      }
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      if (id === conversationId) {
+        startNewConversation();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete conversation");
+    }
+  };
+
+  // Run the conversational parse + search flow for a message, or a saved search's prompt
+  const searchFlights = async (
+    content: string,
+    activeId: string,
+    onParsed: () => void,
+    savedSearch?: { name: string; query: string; parsedQuery: ParsedTravelQuery | null }
+  ) => {
+    let response: Response;
+    let data;
+    let refinement: { isFollowUp: boolean; summary?: string } | undefined;
+
+    if (savedSearch) {
+      // A saved search is run as a fresh query, from the query it was parsed into when
+      // there is one: prompts saved from follow-ups ("make it nonstop") don't stand on their own
+      onParsed();
+      response = await fetch("/api/flights/search-natural", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: savedSearch.query, parsedQuery: savedSearch.parsedQuery ?? undefined }),
+      });
+      data = await response.json();
+    } else {
+      // Parse in the context of the conversation: follow-ups refine the previous search,
+      // answers to clarification questions complete the earlier request
+      const parseResponse = await fetch("/api/chat/parse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: content, conversationId: activeId }),
+      });
+
+      // Persist user message once the parser has read the earlier turns
+      onParsed();
+
+      const parseData = await parseResponse.json();
+      refinement = parseData.success
+        ? (parseData.data as { isFollowUp: boolean; summary?: string })
+        : undefined;
+
+      // Call natural language search API with the parsed query
+      response = parseData.success
+        ? await fetch("/api/flights/search-natural", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ query: content, parsedQuery: parseData.data.parsedQuery }),
+          })
+        : parseResponse;
+
+      data = parseData.success ? await response.json() : parseData;
+    }
+
+    if (!response.ok || !data.success) {
+      // Handle clarification needed
+      if (data.needsClarification && data.clarificationQuestions) {
+        const clarificationContent = `I need a bit more information to search for your flight:\n\n${data.clarificationQuestions
+            .map((q: string, i: number) => `${i + 1}. ${q}`)
+            .join("\n")}`;
+        const assistantMessage: Message = {
+          id: `assistant-${Date.now()}`,
+          role: "assistant",
+          content: clarificationContent,
+          timestamp: new Date(),
+        };
+        setMessages((prev) => [...prev, assistantMessage]);
+        persistMessage(activeId, "assistant", clarificationContent);
+        return;
+      }
+
+      throw new Error(data.error || "Search failed");
+    }
+
+    // Build response message
+    const flightCount = data.data.flights.length;
+    const parsedQuery = data.data.parsedQuery as ParsedTravelQuery | undefined;
+
+    let responseContent = "";
+
+    if (parsedQuery) {
+      responseContent = `I found ${flightCount} flight${flightCount !== 1 ? "s" : ""} for your trip from ${parsedQuery.origin.city} to ${parsedQuery.destination.city}`;
+
+      if (parsedQuery.dates.departure.date) {
+        responseContent += ` departing ${formatDate(parsedQuery.dates.departure.date)}`;
+      }
+
+      if (parsedQuery.dates.return?.date) {
+        responseContent += ` and returning ${formatDate(parsedQuery.dates.return.date)}`;
+      }
+
+      responseContent += ".";
+    } else {
+      responseContent = `I found ${flightCount} flight${flightCount !== 1 ? "s" : ""} for your search.`;
+    }
+
+    if (flightCount === 0) {
+      responseContent = "I couldn't find any flights matching your criteria. Try adjusting your dates or destinations, or being more flexible with your requirements.";
+    }
+
+    // Say what a follow-up changed, so refinements are visibly applied to the last search
+    if (refinement?.isFollowUp) {
+      responseContent = `${refinement.summary ? `Updated your search: ${refinement.summary.replace(/\.$/, "")}. ` : "Updated your search. "}${responseContent}`;
+    } else if (savedSearch) {
+      responseContent = `Ran your saved search "${savedSearch.name}". ${responseContent}`;
+    }
+
+    // Say which airline constraints were applied, so "no Ryanair" is visibly honored
+    const airlinePreferences = data.data.airlinePreferences as AirlinePreferences | undefined;
+    const airlineSummary = airlinePreferences
+      && describeAirlinePreferences(airlinePreferences, data.data.dictionaries?.carriers);
+    if (airlineSummary) {
+      responseContent += `\n\n${airlineSummary}.`;
+    }
+
+    const assistantMessage: Message = {
+      id: `assistant-${Date.now()}`,
+      role: "assistant",
+      content: responseContent,
+      timestamp: new Date(),
+      flightResults:
+        flightCount > 0
+          ? {
+              flights: data.data.flights,
+              carriers: data.data.dictionaries?.carriers,
+              searchId: data.data.searchId,
+              parsedQuery: data.data.parsedQuery,
+              insight: data.data.insight,
+              airlinePreferences,
+            }
+          : undefined,
+    };
+
+    setMessages((prev) => [...prev, assistantMessage]);
+    persistMessage(activeId, "assistant", responseContent, data.data.searchId);
+  };
+
   const handleSendMessage = async (content: string) => {
     // Add user message
     const userMessage: Message = {
@@ -120,86 +408,46 @@ export function ChatContainer({ initialMessage }: ChatContainerProps) {
     setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
 
-    // Persist user message
-    persistMessage("user", content);
+    // Stored only after the server has read the earlier turns, so it isn't its own context
+    let activeId: string | undefined;
+    let userPersisted: Promise<void> | undefined;
+    const persistUserMessage = (id: string) => (userPersisted ??= persistMessage(id, "user", content));
 
     try {
-      // Call natural language search API
-      const response = await fetch("/api/flights/search-natural", {
+      activeId = await ensureConversation();
+      const currentId = activeId;
+
+      // Let the assistant decide: search (or refine the search), or use a tool
+      const agentResponse = await fetch("/api/chat/agent", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: content }),
+        body: JSON.stringify({ message: content, conversationId: currentId }),
       });
+      const agentData = await agentResponse.json();
 
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        // Handle clarification needed
-        if (data.needsClarification && data.clarificationQuestions) {
-          const clarificationContent = `I need a bit more information to search for your flight:\n\n${data.clarificationQuestions
-              .map((q: string, i: number) => `${i + 1}. ${q}`)
-              .join("\n")}`;
-          const assistantMessage: Message = {
-            id: `assistant-${Date.now()}`,
-            role: "assistant",
-            content: clarificationContent,
-            timestamp: new Date(),
-          };
-          setMessages((prev) => [...prev, assistantMessage]);
-          persistMessage("assistant", clarificationContent);
-          return;
-        }
-
-        throw new Error(data.error || "Search failed");
-      }
-
-      // Build response message
-      const flightCount = data.data.flights.length;
-      const parsedQuery = data.data.parsedQuery as ParsedTravelQuery | undefined;
-
-      let responseContent = "";
-
-      if (parsedQuery) {
-        responseContent = `I found ${flightCount} flight${flightCount !== 1 ? "s" : ""} for your trip from ${parsedQuery.origin.city} to ${parsedQuery.destination.city}`;
-
-        if (parsedQuery.dates.departure.date) {
-          responseContent += ` departing ${formatDate(parsedQuery.dates.departure.date)}`;
-        }
-
-        if (parsedQuery.dates.return?.date) {
-          responseContent += ` and returning ${formatDate(parsedQuery.dates.return.date)}`;
-        }
-
-        responseContent += ".";
-      } else {
-        responseContent = `I found ${flightCount} flight${flightCount !== 1 ? "s" : ""} for your search.`;
+      if (!agentResponse.ok || !agentData.success) {
+        throw new Error(agentData.error || "Assistant unavailable");
       }
 
-      if (flightCount === 0) {
-        responseContent = "I couldn't find any flights matching your criteria. Try adjusting your dates or destinations, or being more flexible with your requirements.";
+      const result = agentData.data as ChatAgentResult;
+      if (result.kind === "search") {
+        await searchFlights(content, currentId, () => persistUserMessage(currentId), result.savedSearch);
+        return;
       }
 
+      await persistUserMessage(currentId);
       const assistantMessage: Message = {
         id: `assistant-${Date.now()}`,
         role: "assistant",
-        content: responseContent,
+        content: result.content,
         timestamp: new Date(),
-        flightResults:
-          flightCount > 0
-            ? {
-                flights: data.data.flights,
-                carriers: data.data.dictionaries?.carriers,
-                searchId: data.data.searchId,
-                parsedQuery: data.data.parsedQuery,
-                insight: data.data.insight,
-              }
-            : undefined,
+        routeComparison: result.routeComparison,
+        action: result.action && { ...result.action, status: "pending" },
       };
-
       setMessages((prev) => [...prev, assistantMessage]);
-      persistMessage("assistant", responseContent, data.data.searchId);
+      persistMessage(currentId, "assistant", result.content);
     } catch (error) {
-      const errorContent = `Sorry, I encountered an error while searching for flights: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`;
+      const errorContent = `Sorry, I encountered an error: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`;
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
         role: "assistant",
@@ -207,114 +455,228 @@ export function ChatContainer({ initialMessage }: ChatContainerProps) {
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
-      persistMessage("assistant", errorContent);
+      if (activeId) {
+        await persistUserMessage(activeId);
+        persistMessage(activeId, "assistant", errorContent);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const setActionStatus = (messageId: string, status: ChatActionStatus) => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === messageId && m.action ? { ...m, action: { ...m.action, status } } : m))
+    );
+  };
+
+  const addAssistantMessage = (content: string) => {
+    setMessages((prev) => [
+      ...prev,
+      { id: `assistant-${Date.now()}`, role: "assistant", content, timestamp: new Date() },
+    ]);
+    if (conversationId) {
+      persistMessage(conversationId, "assistant", content);
+    }
+  };
+
+  // Run a confirmed write through the same API the task form and alert dialog use
+  const handleConfirmAction = async (messageId: string, action: ChatAgentAction) => {
+    setActionStatus(messageId, "running");
+    try {
+      const response = await fetch(action.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action.payload),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Request failed");
+      }
+
+      setActionStatus(messageId, "done");
+      addAssistantMessage(
+        action.type === "create_task"
+          ? `Done - "${action.payload.name}" is now being tracked. You can manage it on the Tasks page.`
+          : action.type === "save_search"
+            ? `Done - saved as "${data.data.name}". You'll find it on the dashboard, and I can run it again whenever you ask.`
+            : `Done - ${data.message === "Alert updated" ? "I updated your existing alert" : "your price alert is set"}. I'll let you know when the price drops.`
+      );
+    } catch (error) {
+      setActionStatus(messageId, "pending");
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    }
+  };
+
+  const handleCancelAction = (messageId: string) => {
+    setActionStatus(messageId, "cancelled");
+    addAssistantMessage("OK, I won't set that up.");
+  };
+
+  const activeConversation = conversations.find((c) => c.id === conversationId);
+
   return (
-    <div className="flex flex-col h-[calc(100vh-8rem)] max-w-4xl mx-auto">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b">
-        <div>
-          <h1 className="font-display text-xl font-semibold">Travel Assistant</h1>
-          <p className="text-sm text-muted-foreground">
-            Describe your trip and I&apos;ll find the best flights
-          </p>
+    <div className="flex h-[calc(100vh-8rem)]">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={conversationId}
+        isLoading={isLoadingConversations}
+        hasMore={!!conversationsCursor}
+        onSelect={openConversation}
+        onNew={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onLoadMore={() => conversationsCursor && loadConversations(conversationsCursor)}
+      />
+
+      <div className="flex flex-col flex-1 min-w-0 max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div className="min-w-0">
+            <h1 className="font-display text-xl font-semibold truncate">
+              {activeConversation?.title ?? "Travel Assistant"}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Describe your trip, then refine it (&quot;a week later?&quot;, &quot;make it nonstop&quot;)
+            </p>
+          </div>
+          {conversationId && messages.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearHistory}
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
         </div>
-        {messages.length > 1 && (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={clearHistory}
-            className="text-muted-foreground hover:text-destructive"
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            Clear
-          </Button>
-        )}
-      </div>
 
-      {/* Messages Area */}
-      <ScrollArea className="flex-1 px-4" ref={scrollRef}>
-        <div className="py-4 space-y-2">
-          {messages.map((message) => (
-            <ChatMessage
-              key={message.id}
-              role={message.role}
-              content={message.content}
-              timestamp={message.timestamp}
-            >
-              {/* Flight Results */}
-              {message.flightResults && (
-                <div className="mt-4 space-y-4">
-                  {/* AI Insight */}
-                  {message.flightResults.insight && (
-                    <div className="flex items-start gap-2 p-3 rounded-lg bg-primary/5 border border-primary/20">
-                      <Sparkles className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
-                      <p className="text-sm text-muted-foreground">
-                        {message.flightResults.insight}
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Parsed Query Summary */}
-                  {message.flightResults.parsedQuery && (
-                    <div className="flex flex-wrap gap-2">
-                      <Badge variant="secondary" className="text-xs">
-                        {message.flightResults.parsedQuery.origin.iataCode || message.flightResults.parsedQuery.origin.city} →{" "}
-                        {message.flightResults.parsedQuery.destination.iataCode || message.flightResults.parsedQuery.destination.city}
-                      </Badge>
-                      {message.flightResults.parsedQuery.preferences.maxBudget && (
-                        <Badge variant="outline" className="text-xs">
-                          Budget: ${message.flightResults.parsedQuery.preferences.maxBudget}
+        {/* Messages Area */}
+        <ScrollArea className="flex-1 px-4" ref={scrollRef}>
+          <div className="py-4 space-y-2">
+            {/* Older messages of the conversation */}
+            {messagesCursor && conversationId && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground"
+                  onClick={() => loadMessages(conversationId, messagesCursor)}
+                  disabled={isLoadingHistory}
+                >
+                  Load earlier messages
+                </Button>
+              </div>
+            )}
+
+            {messages.map((message) => (
+              <ChatMessage
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                timestamp={message.timestamp}
+              >
+                {/* Flight Results */}
+                {message.flightResults && (
+                  <div className="mt-4 space-y-4">
+                    {/* AI Insight */}
+                    {message.flightResults.insight && (
+                      <div className="flex items-start gap-2 p-3 rounded-lg bg-primary/5 border border-primary/20">
+                        <Sparkles className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
+                        <p className="text-sm text-muted-foreground">
+                          {message.flightResults.insight}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Parsed Query Summary */}
+                    {message.flightResults.parsedQuery && (
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary" className="text-xs">
+                          {message.flightResults.parsedQuery.origin.iataCode || message.flightResults.parsedQuery.origin.city} →{" "}
+                          {message.flightResults.parsedQuery.destination.iataCode || message.flightResults.parsedQuery.destination.city}
                         </Badge>
-                      )}
-                      <Badge variant="outline" className="text-xs capitalize">
-                        {message.flightResults.parsedQuery.preferences.cabinClass
-                          .toLowerCase()
-                          .replace("_", " ")}
-                      </Badge>
-                    </div>
-                  )}
-
-                  {/* Flight Cards (show top 3) */}
-                  <div className="space-y-3">
-                    {message.flightResults.flights.slice(0, 3).map((flight) => (
-                      <FlightCard
-                        key={flight.id}
-                        flight={flight}
-                        carriers={message.flightResults?.carriers}
-                      />
-                    ))}
-
-                    {/* Show more indicator */}
-                    {message.flightResults.flights.length > 3 && (
-                      <div className="text-center py-2">
-                        <Badge variant="outline" className="cursor-pointer hover:bg-muted">
-                          <Plane className="h-3 w-3 mr-1" />
-                          {message.flightResults.flights.length - 3} more flights available
+                        {message.flightResults.parsedQuery.preferences.maxBudget && (
+                          <Badge variant="outline" className="text-xs">
+                            Budget: ${message.flightResults.parsedQuery.preferences.maxBudget}
+                          </Badge>
+                        )}
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {message.flightResults.parsedQuery.preferences.cabinClass
+                            .toLowerCase()
+                            .replace("_", " ")}
                         </Badge>
                       </div>
                     )}
+
+                    {/* Flight Cards (show top 3) */}
+                    <div className="space-y-3">
+                      {message.flightResults.flights.slice(0, 3).map((flight) => (
+                        <FlightCard
+                          key={flight.id}
+                          flight={flight}
+                          carriers={message.flightResults?.carriers}
+                          isPreferredAirline={isPreferredAirlineFlight(
+                            flight,
+                            message.flightResults?.airlinePreferences?.preferred ?? []
+                          )}
+                          searchId={message.flightResults?.searchId}
+                        />
+                      ))}
+
+                      {/* Show more indicator */}
+                      {(message.flightResults.totalCount ?? message.flightResults.flights.length) > 3 && (
+                        <div className="text-center py-2">
+                          <Badge variant="outline" className="cursor-pointer hover:bg-muted">
+                            <Plane className="h-3 w-3 mr-1" />
+                            {(message.flightResults.totalCount ?? message.flightResults.flights.length) - 3} more flights available
+                          </Badge>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              )}
-            </ChatMessage>
-          ))}
-
-          {/* Loading indicator */}
-          {isLoading && (
-            <ChatMessage role="assistant" content="Searching for flights..." isStreaming />
-          )}
+                )}
+
+                {/* Route comparison from the assistant's tools */}
+                {message.routeComparison && (
+                  <div className="mt-4">
+                    <RouteComparison
+                      directRoute={message.routeComparison.directRoute}
+                      stopoverRoutes={message.routeComparison.stopoverRoutes}
+                      bestRoute={message.routeComparison.bestRoute}
+                    />
+                  </div>
+                )}
+
+                {/* Writes proposed by the assistant wait for confirmation */}
+                {message.action && (
+                  <div className="mt-2">
+                    <ChatActionConfirmation
+                      action={message.action}
+                      status={message.action.status}
+                      onConfirm={() => message.action && handleConfirmAction(message.id, message.action)}
+                      onCancel={() => handleCancelAction(message.id)}
+                    />
+                  </div>
+                )}
+              </ChatMessage>
+            ))}
 
-          <div ref={messagesEndRef} />
-        </div>
-      </ScrollArea>
+            {/* Loading indicator */}
+            {isLoading && (
+              <ChatMessage role="assistant" content="Working on it..." isStreaming />
+            )}
 
-      {/* Input Area */}
-      <ChatInput onSend={handleSendMessage} isLoading={isLoading} />
+            <div ref={messagesEndRef} />
+          </div>
+        </ScrollArea>
+
+        {/* Input Area */}
+        <ChatInput onSend={handleSendMessage} isLoading={isLoading} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ConversationSummary } from "@/lib/conversation";
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  isLoading: boolean;
+  hasMore: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onLoadMore: () => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  isLoading,
+  hasMore,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onLoadMore,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title ?? "");
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="hidden md:flex w-64 flex-shrink-0 flex-col border-r">
+      <div className="p-3 border-b">
+        <Button variant="outline" size="sm" className="w-full justify-start" onClick={onNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          New chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading && conversations.length === 0 &&
+            Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-9 w-full" />)}
+
+          {!isLoading && conversations.length === 0 && (
+            <p className="px-2 py-4 text-sm text-muted-foreground">No conversations yet</p>
+          )}
+
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={cn(
+                "group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm",
+                conversation.id === activeId ? "bg-muted" : "hover:bg-muted/50"
+              )}
+            >
+              <MessageSquare className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+
+              {editingId === conversation.id ? (
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onSelect(conversation.id)}
+                >
+                  <span className="block truncate">{conversation.title ?? "New conversation"}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatUpdatedAt(conversation.updatedAt)}
+                  </span>
+                </button>
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                    <span className="sr-only">Conversation options</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => startRename(conversation)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => onDelete(conversation.id)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+
+          {hasMore && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-muted-foreground"
+              onClick={onLoadMore}
+              disabled={isLoading}
+            >
+              Load older
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
+
+function formatUpdatedAt(iso: string): string {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
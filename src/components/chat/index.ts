@@ -1,3 +1,5 @@
 export { ChatMessage, type ChatMessageProps } from "./chat-message";
 export { ChatInput } from "./chat-input";
 export { ChatContainer } from "./chat-container";
+export { ChatActionConfirmation, type ChatActionStatus } from "./chat-action-confirmation";
+export { ConversationSidebar } from "./conversation-sidebar";
@@ -1,7 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import { NormalizedFlight, formatDuration } from "@/lib/amadeus";
+import { NormalizedFlight } from "@/lib/amadeus";
+import { formatDuration, getLegLabel, getPassengerMix, getTravelClass } from "@/lib/flight-utils";
+import { formatDayOffset, formatLocalDate, formatLocalTime, getDayOffset } from "@/lib/timezones";
+import type { EffectivePrice } from "@/lib/baggage";
+import type { RankingScore } from "@/lib/ranking";
+import type { TripSummary } from "@/lib/trips";
+import { RankingBreakdown } from "./ranking-breakdown";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,7 +17,7 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Plane, Clock, Circle, ExternalLink, Bell, BellRing, Copy, CalendarPlus, Share2, MoreHorizontal, Check, Sparkles } from "lucide-react";
+import { Plane, Clock, Circle, Luggage, ExternalLink, Bell, BellRing, Copy, CalendarPlus, Share2, MoreHorizontal, Check, Sparkles, Star, MapPinned, Plus } from "lucide-react";
 import { toast } from "sonner";
 import { copyToClipboard, downloadICS, shareNative } from "@/lib/flight-export";
 import {
@@ -19,8 +25,12 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import Link from "next/link";
 
 /**
  * Generates a Google Flights search URL for the given flight.
@@ -29,12 +39,20 @@ function generateGoogleFlightsUrl(flight: NormalizedFlight): string {
   const outbound = flight.legs[0];
   const returnLeg = flight.legs[1];
 
-  const departureDate = new Date(outbound.departureAt).toISOString().split("T")[0];
+  // Local departure dates, as the airline publishes them
+  const departureDate = outbound.departureAt.slice(0, 10);
+
+  if (flight.isMultiCity) {
+    const query = flight.legs
+      .map((leg) => `${leg.origin} to ${leg.destination} on ${leg.departureAt.split("T")[0]}`)
+      .join(", then ");
+    return `https://www.google.com/travel/flights?q=${encodeURIComponent(`multi-city flights ${query}`)}`;
+  }
 
   let query = `flights from ${outbound.origin} to ${outbound.destination} on ${departureDate}`;
 
   if (returnLeg) {
-    const returnDate = new Date(returnLeg.departureAt).toISOString().split("T")[0];
+    const returnDate = returnLeg.departureAt.slice(0, 10);
     query += ` return ${returnDate}`;
   }
 
@@ -45,15 +63,30 @@ interface FlightCardProps {
   flight: NormalizedFlight;
   carriers?: Record<string, string>;
   index?: number;
+  effectivePrice?: EffectivePrice; // Price with the traveler's checked bags, when they have any
+  isPreferredAirline?: boolean; // Sold entirely by an airline the traveler asked for
+  ranking?: RankingScore; // Score breakdown, when results are ranked by it
+  rank?: number; // Position in the ranked results
+  searchId?: string; // Stored search the flight came from, needed to shortlist it for a trip
 }
 
-export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
+export function FlightCard({
+  flight,
+  carriers,
+  index = 0,
+  effectivePrice,
+  isPreferredAirline,
+  ranking,
+  rank,
+  searchId,
+}: FlightCardProps) {
   const outboundLeg = flight.legs[0];
   const returnLeg = flight.legs[1];
   const [isAlertOpen, setIsAlertOpen] = useState(false);
   const [targetPrice, setTargetPrice] = useState(Math.round(flight.price * 0.9).toString());
   const [isCreatingAlert, setIsCreatingAlert] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [trips, setTrips] = useState<TripSummary[] | null>(null);
 
   const handleCopy = async () => {
     const success = await copyToClipboard(flight);
@@ -78,6 +111,39 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
     }
   };
 
+  // Trips are only needed once the menu is opened
+  const loadTrips = async () => {
+    if (!searchId || trips) return;
+    try {
+      const response = await fetch("/api/trips");
+      const data = await response.json();
+      setTrips(data.success ? data.data : []);
+    } catch (error) {
+      console.error("Failed to fetch trips:", error);
+    }
+  };
+
+  const handleAddToTrip = async (trip: TripSummary) => {
+    try {
+      const response = await fetch(`/api/trips/${trip.id}/items`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "flight", searchId, flightId: flight.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to add to trip");
+      }
+
+      toast.success("Shortlisted", { description: `Added to ${trip.name}` });
+    } catch (error) {
+      toast.error("Failed to add to trip", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
   const handleCreateAlert = async () => {
     const price = parseFloat(targetPrice);
     if (isNaN(price) || price <= 0) {
@@ -93,13 +159,17 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
         body: JSON.stringify({
           origin: outboundLeg.origin,
           destination: outboundLeg.destination,
-          departureDate: outboundLeg.departureAt,
-          returnDate: returnLeg?.departureAt,
+          departureDate: outboundLeg.departureAt.slice(0, 10),
+          returnDate: returnLeg?.departureAt.slice(0, 10),
           targetPrice: price,
           currentPrice: flight.price,
           currency: flight.currency,
           flightId: flight.id,
           airlines: flight.airlines,
+          // Track the same party and cabin; an alert on a direct flight only tracks direct flights
+          ...getPassengerMix(flight),
+          travelClass: getTravelClass(flight),
+          nonStop: isDirect,
         }),
       });
 
@@ -122,30 +192,12 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
     }
   };
 
-  const formatTime = (isoString: string) => {
-    const date = new Date(isoString);
-    return date.toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false,
-    });
-  };
-
-  const formatDate = (isoString: string) => {
-    const date = new Date(isoString);
-    return date.toLocaleDateString("en-US", {
-      weekday: "short",
-      month: "short",
-      day: "numeric",
-    });
-  };
-
   const getAirlineName = (code: string) => {
     return carriers?.[code] || code;
   };
 
   const staggerClass = `stagger-${Math.min(index + 1, 10)}`;
-  const isDirect = outboundLeg.stops === 0 && (!returnLeg || returnLeg.stops === 0);
+  const isDirect = flight.legs.every((leg) => leg.stops === 0);
 
   return (
     <div
@@ -175,6 +227,13 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
               ))}
             </div>
             <div className="flex items-center gap-2">
+              {ranking && <RankingBreakdown ranking={ranking} rank={rank} />}
+              {isPreferredAirline && (
+                <Badge className="bg-primary/10 text-primary border-primary/20 text-xs font-medium px-2.5">
+                  <Star className="w-3 h-3 mr-1" />
+                  Preferred
+                </Badge>
+              )}
               {isDirect && (
                 <Badge className="bg-accent/10 text-accent border-accent/20 text-xs font-medium px-2.5">
                   <Sparkles className="w-3 h-3 mr-1" />
@@ -186,32 +245,40 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
                   One Way
                 </Badge>
               )}
+              {flight.isMultiCity && (
+                <Badge variant="outline" className="text-xs border-dashed">
+                  Multi-City · {flight.legs.length} flights
+                </Badge>
+              )}
+              {flight.includedCheckedBags != null && (
+                <Badge variant="outline" className="text-xs">
+                  <Luggage className="w-3 h-3 mr-1" />
+                  {flight.includedCheckedBags === 0
+                    ? "No checked bag"
+                    : `${flight.includedCheckedBags} bag${flight.includedCheckedBags > 1 ? "s" : ""} included`}
+                </Badge>
+              )}
             </div>
           </div>
 
-          {/* Outbound flight */}
-          <FlightLeg
-            leg={outboundLeg}
-            formatTime={formatTime}
-            formatDate={formatDate}
-          />
-
-          {/* Return flight if exists */}
-          {returnLeg && (
-            <>
-              <div className="my-5 flex items-center gap-4">
-                <div className="flex-1 h-px bg-gradient-to-r from-transparent via-border to-transparent" />
-                <span className="text-[10px] uppercase tracking-widest text-muted-foreground/70 font-medium">Return</span>
-                <div className="flex-1 h-px bg-gradient-to-r from-transparent via-border to-transparent" />
-              </div>
+          {/* Every leg: outbound/return, or each flight of a multi-city trip */}
+          {flight.legs.map((leg, legIndex) => (
+            <div key={legIndex}>
+              {(legIndex > 0 || flight.isMultiCity) && (
+                <div className={`${legIndex > 0 ? "my-5" : "mb-4"} flex items-center gap-4`}>
+                  <div className="flex-1 h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+                  <span className="text-[10px] uppercase tracking-widest text-muted-foreground/70 font-medium">
+                    {getLegLabel(flight, legIndex)}
+                  </span>
+                  <div className="flex-1 h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+                </div>
+              )}
               <FlightLeg
-                leg={returnLeg}
-                formatTime={formatTime}
-                formatDate={formatDate}
-                isReturn
+                leg={leg}
+                isReturn={!flight.isMultiCity && legIndex > 0}
               />
-            </>
-          )}
+            </div>
+          ))}
         </div>
 
         {/* Perforation divider */}
@@ -244,6 +311,15 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
             {flight.currency}
           </span>
 
+          {effectivePrice && effectivePrice.bagFees > 0 && (
+            <span
+              className="text-xs text-amber-600 mt-1 text-center"
+              title="Estimated from typical carrier fees"
+            >
+              ≈ ${Math.round(effectivePrice.total).toLocaleString()} with bags
+            </span>
+          )}
+
           {flight.bookableSeats <= 4 && (
             <Badge
               variant="destructive"
@@ -268,60 +344,62 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
             </a>
           </Button>
 
-          {/* Price Alert Button */}
-          <Popover open={isAlertOpen} onOpenChange={setIsAlertOpen}>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                size="sm"
-                className="mt-2.5 w-full btn-press hover:border-primary/40 hover:bg-primary/5 transition-all"
-              >
-                <Bell className="h-3.5 w-3.5 mr-2" />
-                Set Alert
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-72 glass shadow-xl border-border/50" align="end">
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <h4 className="font-semibold flex items-center gap-2">
-                    <BellRing className="h-4 w-4 text-primary" />
-                    Price Alert
-                  </h4>
-                  <p className="text-xs text-muted-foreground leading-relaxed">
-                    Get notified when this route drops below your target price.
-                  </p>
-                </div>
-                <div className="space-y-3">
-                  <Label htmlFor="target-price" className="text-sm font-medium">
-                    Alert when below
-                  </Label>
-                  <div className="flex items-center gap-2">
-                    <span className="text-muted-foreground font-medium">$</span>
-                    <Input
-                      id="target-price"
-                      type="number"
-                      value={targetPrice}
-                      onChange={(e) => setTargetPrice(e.target.value)}
-                      className="flex-1 input-premium"
-                      placeholder="Target price"
-                    />
-                  </div>
-                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
-                    <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/40" />
-                    Current price: ${Math.round(flight.price)}
-                  </p>
-                </div>
+          {/* Price Alert Button (alerts track a single route, so not for multi-city) */}
+          {!flight.isMultiCity && (
+            <Popover open={isAlertOpen} onOpenChange={setIsAlertOpen}>
+              <PopoverTrigger asChild>
                 <Button
-                  className="w-full btn-press"
+                  variant="outline"
                   size="sm"
-                  onClick={handleCreateAlert}
-                  disabled={isCreatingAlert}
+                  className="mt-2.5 w-full btn-press hover:border-primary/40 hover:bg-primary/5 transition-all"
                 >
-                  {isCreatingAlert ? "Creating..." : "Create Alert"}
+                  <Bell className="h-3.5 w-3.5 mr-2" />
+                  Set Alert
                 </Button>
-              </div>
-            </PopoverContent>
-          </Popover>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 glass shadow-xl border-border/50" align="end">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      <BellRing className="h-4 w-4 text-primary" />
+                      Price Alert
+                    </h4>
+                    <p className="text-xs text-muted-foreground leading-relaxed">
+                      Get notified when this route drops below your target price.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <Label htmlFor="target-price" className="text-sm font-medium">
+                      Alert when below
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground font-medium">$</span>
+                      <Input
+                        id="target-price"
+                        type="number"
+                        value={targetPrice}
+                        onChange={(e) => setTargetPrice(e.target.value)}
+                        className="flex-1 input-premium"
+                        placeholder="Target price"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                      <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/40" />
+                      Current price: ${Math.round(flight.price)}
+                    </p>
+                  </div>
+                  <Button
+                    className="w-full btn-press"
+                    size="sm"
+                    onClick={handleCreateAlert}
+                    disabled={isCreatingAlert}
+                  >
+                    {isCreatingAlert ? "Creating..." : "Create Alert"}
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
         </div>
       </div>
 
@@ -334,7 +412,7 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
           </span>
           <span className="font-mono text-[10px] opacity-60">{flight.id}</span>
         </div>
-        <DropdownMenu>
+        <DropdownMenu onOpenChange={(open) => open && loadTrips()}>
           <DropdownMenuTrigger asChild>
             <Button
               variant="ghost"
@@ -357,6 +435,28 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
               <CalendarPlus className="h-4 w-4 mr-2" />
               Add to calendar
             </DropdownMenuItem>
+            {searchId && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger className="cursor-pointer">
+                  <MapPinned className="h-4 w-4 mr-2" />
+                  Add to trip
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-52">
+                  {trips?.map((trip) => (
+                    <DropdownMenuItem key={trip.id} onClick={() => handleAddToTrip(trip)} className="cursor-pointer">
+                      <span className="truncate">{trip.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                  {trips && trips.length > 0 && <DropdownMenuSeparator />}
+                  <DropdownMenuItem asChild className="cursor-pointer">
+                    <Link href="/trips">
+                      <Plus className="h-4 w-4 mr-2" />
+                      New trip
+                    </Link>
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleShare} className="cursor-pointer">
               <Share2 className="h-4 w-4 mr-2" />
@@ -371,23 +471,25 @@ export function FlightCard({ flight, carriers, index = 0 }: FlightCardProps) {
 
 interface FlightLegProps {
   leg: NormalizedFlight["legs"][0];
-  formatTime: (iso: string) => string;
-  formatDate: (iso: string) => string;
   isReturn?: boolean;
 }
 
-function FlightLeg({ leg, formatTime, formatDate }: FlightLegProps) {
+// Times are shown in each airport's local time, as printed on the ticket
+function FlightLeg({ leg }: FlightLegProps) {
+  const arrivalDays = getDayOffset(leg.departureAt, leg.arrivalAt);
+  const arrivalDayOffset = formatDayOffset(leg.departureAt, leg.arrivalAt);
+
   return (
     <div className="group/leg">
       <div className="flex items-center gap-6">
         {/* Departure */}
         <div className="text-center min-w-[80px]">
           <div className="font-display text-3xl font-semibold tracking-tight">
-            {formatTime(leg.departureAt)}
+            {formatLocalTime(leg.departureAt)}
           </div>
           <div className="text-lg font-bold tracking-wide mt-0.5">{leg.origin}</div>
           <div className="text-xs text-muted-foreground mt-1">
-            {formatDate(leg.departureAt)}
+            {formatLocalDate(leg.departureAt)}
           </div>
         </div>
 
@@ -430,11 +532,21 @@ function FlightLeg({ leg, formatTime, formatDate }: FlightLegProps) {
         {/* Arrival */}
         <div className="text-center min-w-[80px]">
           <div className="font-display text-3xl font-semibold tracking-tight">
-            {formatTime(leg.arrivalAt)}
+            {formatLocalTime(leg.arrivalAt)}
+            {arrivalDayOffset && (
+              <sup
+                className="ml-0.5 text-xs font-semibold text-accent"
+                title={arrivalDays > 0
+                  ? `Arrives ${arrivalDays} day${arrivalDays > 1 ? "s" : ""} after departure (local time)`
+                  : "Arrives the day before departure (local time)"}
+              >
+                {arrivalDayOffset}
+              </sup>
+            )}
           </div>
           <div className="text-lg font-bold tracking-wide mt-0.5">{leg.destination}</div>
           <div className="text-xs text-muted-foreground mt-1">
-            {formatDate(leg.arrivalAt)}
+            {formatLocalDate(leg.arrivalAt)}
           </div>
         </div>
       </div>
@@ -1,7 +1,12 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { NormalizedFlight } from "@/lib/amadeus";
+import { isPreferredAirlineFlight } from "@/lib/flight-utils";
+import { getEffectivePrice, getCheckedBagsSetting, MAX_CHECKED_BAGS } from "@/lib/baggage";
+import { compareByScore, scoreFlights, DEFAULT_RANKING_SETTINGS } from "@/lib/ranking";
+import type { RankingPresetItem } from "@/lib/ranking-presets";
+import type { TravelerProfile } from "@/lib/traveler-profile";
 import { FlightCard } from "./flight-card";
 import { FlightCardSkeleton } from "./flight-card-skeleton";
 import { Button } from "@/components/ui/button";
@@ -31,10 +36,14 @@ import {
   Clock,
   DollarSign,
   SlidersHorizontal,
+  Luggage,
+  Scale,
 } from "lucide-react";
+import { toast } from "sonner";
 
 const ITEMS_PER_PAGE = 10;
 const FILTER_STORAGE_KEY = "flightFilters";
+const FILTER_SYNC_DELAY_MS = 1000; // Wait for filter changes to settle before saving them to the profile
 
 // Time of day ranges
 type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
@@ -68,34 +77,107 @@ interface FlightResultsListProps {
   carriers?: Record<string, string>;
   isLoading?: boolean;
   searchId?: string;
+  checkedBags?: number; // Bags per passenger requested in the search (overrides the saved setting)
+  preferredAirlines?: string[]; // IATA codes the "recommended" ranking boosts
 }
 
-type SortOption = "price" | "duration" | "stops" | "departure";
+type SortOption = "recommended" | "price" | "duration" | "stops" | "departure";
+
+const NO_PREFERRED_AIRLINES: string[] = [];
 
 export function FlightResultsList({
   flights,
   carriers,
   isLoading,
   searchId,
+  checkedBags,
+  preferredAirlines = NO_PREFERRED_AIRLINES,
 }: FlightResultsListProps) {
-  const [sortBy, setSortBy] = useState<SortOption>("price");
+  const [sortBy, setSortBy] = useState<SortOption>("recommended");
+  const [rankingPresets, setRankingPresets] = useState<RankingPresetItem[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [filters, setFilters] = useState<Filters>(defaultFilters);
+  const [filtersSynced, setFiltersSynced] = useState(false);
+  const syncedFiltersRef = useRef<string | null>(null);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [bagCount, setBagCount] = useState(() => checkedBags ?? getCheckedBagsSetting());
+  const [prevCheckedBags, setPrevCheckedBags] = useState(checkedBags);
+
+  // A new search that asks for bags takes precedence over the current selection
+  if (checkedBags !== prevCheckedBags) {
+    setPrevCheckedBags(checkedBags);
+    if (checkedBags !== undefined) setBagCount(checkedBags);
+  }
+
+  // Price including estimated fees for the selected number of checked bags
+  const effectivePrices = useMemo(
+    () => new Map(flights.map((f) => [f.id, getEffectivePrice(f, bagCount)])),
+    [flights, bagCount]
+  );
+  const priceOf = useCallback(
+    (f: NormalizedFlight) => effectivePrices.get(f.id)?.total ?? f.price,
+    [effectivePrices]
+  );
+
+  // Weights of the active ranking preset, shared with route comparison
+  useEffect(() => {
+    const fetchRankingPresets = async () => {
+      try {
+        const response = await fetch("/api/ranking-presets");
+        const data = await response.json();
+        if (data.success) {
+          setRankingPresets(data.data);
+        }
+      } catch (error) {
+        console.error("Failed to fetch ranking presets:", error);
+      }
+    };
+    fetchRankingPresets();
+  }, []);
+
+  const activatePreset = async (id: string) => {
+    const previous = rankingPresets;
+    setRankingPresets((presets) => presets.map((preset) => ({ ...preset, active: preset.id === id })));
+    let failure: string | null = null;
+    try {
+      const response = await fetch(`/api/ranking-presets/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: true }),
+      });
+      const data = await response.json();
+      if (!data.success) failure = data.error || "Unknown error";
+    } catch (error) {
+      failure = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    if (failure) {
+      setRankingPresets(previous);
+      toast.error("Failed to change ranking", { description: failure });
+    }
+  };
+
+  const rankingSettings = rankingPresets.find((preset) => preset.active)?.settings ?? DEFAULT_RANKING_SETTINGS;
+
+  // Scores of every result, so each card can explain its position
+  const scores = useMemo(
+    () => scoreFlights(flights, rankingSettings, { preferredAirlines }, priceOf),
+    [flights, rankingSettings, preferredAirlines, priceOf]
+  );
 
   // Calculate price and duration bounds from flights
   const bounds = useMemo(() => {
     if (flights.length === 0) {
       return { minPrice: 0, maxPrice: 10000, maxDurationMins: 2400 };
     }
-    const prices = flights.map((f) => f.price);
+    const prices = flights.map(priceOf);
     const durations = flights.map((f) => parseDuration(f.legs[0].duration));
     return {
       minPrice: Math.floor(Math.min(...prices)),
       maxPrice: Math.ceil(Math.max(...prices)),
       maxDurationMins: Math.max(...durations),
     };
-  }, [flights]);
+  }, [flights, priceOf]);
 
   // Get unique airlines
   const uniqueAirlines = useMemo(() => {
@@ -122,21 +204,65 @@ export function FlightResultsList({
     }
   }, [bounds.minPrice, bounds.maxPrice]);
 
-  // Save filters to localStorage (except price range which is dynamic)
+  // Filters saved in the traveler profile follow us across devices, so they
+  // win over this browser's copy; without any, the profile's max stops apply
+  useEffect(() => {
+    const hasLocalFilters = localStorage.getItem(FILTER_STORAGE_KEY) !== null;
+    const fetchProfileFilters = async () => {
+      try {
+        const response = await fetch("/api/profile");
+        const data = await response.json();
+        const profile: TravelerProfile | null = data.success ? data.data : null;
+        if (profile?.resultFilters) {
+          syncedFiltersRef.current = JSON.stringify(profile.resultFilters);
+          setFilters((prev) => ({ ...prev, ...profile.resultFilters }));
+        } else if (profile && !hasLocalFilters && profile.maxStops !== null) {
+          setFilters((prev) => ({
+            ...prev,
+            maxStops: profile.maxStops === 0 ? null : profile.maxStops,
+            directOnly: profile.maxStops === 0,
+          }));
+        }
+      } catch (error) {
+        console.error("Failed to fetch saved filters:", error);
+      }
+      setFiltersSynced(true);
+    };
+    fetchProfileFilters();
+  }, []);
+
+  // Save filters to localStorage and the profile (except price range which is dynamic)
   useEffect(() => {
+    const toSave = {
+      maxDuration: filters.maxDuration,
+      maxStops: filters.maxStops,
+      directOnly: filters.directOnly,
+      timeOfDay: filters.timeOfDay,
+      // Don't save airlines as they're specific to each search
+    };
     try {
-      const toSave = {
-        maxDuration: filters.maxDuration,
-        maxStops: filters.maxStops,
-        directOnly: filters.directOnly,
-        timeOfDay: filters.timeOfDay,
-        // Don't save airlines as they're specific to each search
-      };
       localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(toSave));
     } catch (e) {
       console.error("Failed to save filters:", e);
     }
-  }, [filters.maxDuration, filters.maxStops, filters.directOnly, filters.timeOfDay]);
+
+    // Only once the profile's filters are loaded, so they aren't overwritten with ours
+    const serialized = JSON.stringify(toSave);
+    if (!filtersSynced || serialized === syncedFiltersRef.current) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/profile", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ resultFilters: toSave }),
+        });
+        if (response.ok) syncedFiltersRef.current = serialized;
+      } catch (e) {
+        console.error("Failed to save filters to profile:", e);
+      }
+    }, FILTER_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters.maxDuration, filters.maxStops, filters.directOnly, filters.timeOfDay, filtersSynced]);
 
   // Initialize price range when flights change
   useEffect(() => {
@@ -152,8 +278,8 @@ export function FlightResultsList({
   const processedFlights = useMemo(() => {
     return [...flights]
       .filter((f) => {
-        // Price filter
-        if (f.price < filters.priceRange[0] || f.price > filters.priceRange[1]) {
+        // Price filter (including bag fees)
+        if (priceOf(f) < filters.priceRange[0] || priceOf(f) > filters.priceRange[1]) {
           return false;
         }
 
@@ -177,7 +303,8 @@ export function FlightResultsList({
 
         // Time of day filter
         if (filters.timeOfDay.length > 0) {
-          const departureHour = new Date(f.legs[0].departureAt).getHours();
+          // Local hour at the departure airport, whatever the viewer's timezone
+          const departureHour = Number(f.legs[0].departureAt.slice(11, 13));
           const matchesTime = filters.timeOfDay.some((tod) => {
             const range = TIME_RANGES[tod];
             if (tod === "night") {
@@ -198,19 +325,21 @@ export function FlightResultsList({
       })
       .sort((a, b) => {
         switch (sortBy) {
+          case "recommended":
+            return compareByScore(scores, priceOf)(a, b);
           case "price":
-            return a.price - b.price;
+            return priceOf(a) - priceOf(b);
           case "duration":
             return parseDuration(a.legs[0].duration) - parseDuration(b.legs[0].duration);
           case "stops":
             return a.legs[0].stops - b.legs[0].stops;
           case "departure":
-            return new Date(a.legs[0].departureAt).getTime() - new Date(b.legs[0].departureAt).getTime();
+            return Date.parse(a.legs[0].departureUtc) - Date.parse(b.legs[0].departureUtc);
           default:
             return 0;
         }
       });
-  }, [flights, filters, sortBy]);
+  }, [flights, filters, sortBy, priceOf, scores]);
 
   // Pagination
   const totalPages = Math.ceil(processedFlights.length / ITEMS_PER_PAGE);
@@ -296,6 +425,10 @@ export function FlightResultsList({
         activeFilterCount={activeFilterCount}
         onOpenFilters={() => setIsFilterOpen(true)}
         searchId={searchId}
+        bagCount={bagCount}
+        setBagCount={setBagCount}
+        rankingPresets={rankingPresets}
+        onSelectPreset={activatePreset}
       />
 
       {/* Filters Panel */}
@@ -360,23 +493,31 @@ export function FlightResultsList({
           <div>
             <span className="text-muted-foreground">Cheapest: </span>
             <span className="font-display font-semibold text-primary">
-              ${Math.round(Math.min(...processedFlights.map((f) => f.price)))}
+              ${Math.round(Math.min(...processedFlights.map(priceOf)))}
             </span>
           </div>
           <div className="w-px h-4 bg-border" />
           <div>
             <span className="text-muted-foreground">Average: </span>
             <span className="font-medium">
-              ${Math.round(processedFlights.reduce((sum, f) => sum + f.price, 0) / processedFlights.length)}
+              ${Math.round(processedFlights.reduce((sum, f) => sum + priceOf(f), 0) / processedFlights.length)}
             </span>
           </div>
+          {bagCount > 0 && (
+            <>
+              <div className="w-px h-4 bg-border" />
+              <span className="text-xs text-muted-foreground">
+                Prices include {bagCount} checked bag{bagCount !== 1 ? "s" : ""} per passenger (estimated fees)
+              </span>
+            </>
+          )}
           {directCount > 0 && processedFlights.some((f) => f.legs[0].stops === 0) && (
             <>
               <div className="w-px h-4 bg-border" />
               <div>
                 <span className="text-muted-foreground">Direct from: </span>
                 <span className="font-medium text-accent">
-                  ${Math.round(Math.min(...processedFlights.filter((f) => f.legs[0].stops === 0).map((f) => f.price)))}
+                  ${Math.round(Math.min(...processedFlights.filter((f) => f.legs[0].stops === 0).map(priceOf)))}
                 </span>
               </div>
             </>
@@ -400,7 +541,17 @@ export function FlightResultsList({
       {processedFlights.length > 0 && (
         <div className="space-y-4">
           {paginatedFlights.map((flight, index) => (
-            <FlightCard key={flight.id} flight={flight} carriers={carriers} index={index} />
+            <FlightCard
+              key={flight.id}
+              flight={flight}
+              carriers={carriers}
+              index={index}
+              effectivePrice={bagCount > 0 ? effectivePrices.get(flight.id) : undefined}
+              isPreferredAirline={isPreferredAirlineFlight(flight, preferredAirlines)}
+              ranking={sortBy === "recommended" ? scores.get(flight.id) : undefined}
+              rank={(currentPage - 1) * ITEMS_PER_PAGE + index + 1}
+              searchId={searchId}
+            />
           ))}
         </div>
       )}
@@ -625,6 +776,10 @@ interface ResultsHeaderProps {
   onOpenFilters: () => void;
   searchId?: string;
   isLoading?: boolean;
+  bagCount?: number;
+  setBagCount?: (value: number) => void;
+  rankingPresets?: RankingPresetItem[];
+  onSelectPreset?: (id: string) => void;
 }
 
 function ResultsHeader({
@@ -636,7 +791,13 @@ function ResultsHeader({
   onOpenFilters,
   searchId,
   isLoading,
+  bagCount = 0,
+  setBagCount,
+  rankingPresets = [],
+  onSelectPreset,
 }: ResultsHeaderProps) {
+  const activePreset = rankingPresets.find((preset) => preset.active);
+
   return (
     <div className="flex items-center justify-between py-3 border-b border-border">
       <div>
@@ -658,6 +819,40 @@ function ResultsHeader({
       </div>
 
       <div className="flex items-center gap-3">
+        {/* Checked bags included in prices */}
+        {setBagCount && (
+          <Select value={bagCount.toString()} onValueChange={(v) => setBagCount(parseInt(v))}>
+            <SelectTrigger className="w-[130px] text-sm">
+              <Luggage className="w-3.5 h-3.5 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_CHECKED_BAGS + 1 }, (_, bags) => (
+                <SelectItem key={bags} value={bags.toString()}>
+                  {bags === 0 ? "No bags" : `${bags} bag${bags !== 1 ? "s" : ""}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {/* Ranking preset used by the "recommended" sort */}
+        {sortBy === "recommended" && activePreset && onSelectPreset && (
+          <Select value={activePreset.id} onValueChange={onSelectPreset}>
+            <SelectTrigger className="w-[150px] text-sm" title="Ranking preset">
+              <Scale className="w-3.5 h-3.5 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rankingPresets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {/* Filters button */}
         <Button variant="outline" size="sm" onClick={onOpenFilters} className="text-sm">
           <SlidersHorizontal className="w-3.5 h-3.5 mr-1.5" />
@@ -676,6 +871,7 @@ function ResultsHeader({
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
+            <SelectItem value="recommended">Recommended</SelectItem>
             <SelectItem value="price">Price: Low to High</SelectItem>
             <SelectItem value="duration">Duration: Shortest</SelectItem>
             <SelectItem value="stops">Stops: Fewest</SelectItem>
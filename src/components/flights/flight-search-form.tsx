@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -31,6 +31,7 @@ import {
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { AirportSearch } from "./airport-search";
+import type { TravelerProfile } from "@/lib/traveler-profile";
 
 const structuredSearchSchema = z.object({
   origin: z.string().length(3, "Enter 3-letter airport code"),
@@ -74,6 +75,29 @@ export function FlightSearchForm({
     },
   });
 
+  // Start from the traveler profile, keeping anything already filled in
+  useEffect(() => {
+    const applyProfile = async () => {
+      try {
+        const response = await fetch("/api/profile");
+        const data = await response.json();
+        if (!data.success) return;
+
+        const profile: TravelerProfile = data.data;
+        const values = form.getValues();
+        form.reset({
+          ...values,
+          origin: values.origin || profile.homeAirport || "",
+          adults: values.adults === 1 ? Math.min(profile.adults, 9) : values.adults,
+          travelClass: values.travelClass === "ECONOMY" ? profile.travelClass : values.travelClass,
+        });
+      } catch (error) {
+        console.error("Failed to load traveler profile:", error);
+      }
+    };
+    applyProfile();
+  }, [form]);
+
   const handleStructuredSubmit = (data: StructuredSearchForm) => {
     const searchParams = {
       ...data,
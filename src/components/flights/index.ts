@@ -4,3 +4,4 @@ export { FlightResultsList } from "./flight-results-list";
 export { FlightSearchForm } from "./flight-search-form";
 export { RouteComparison, RouteComparisonSkeleton } from "./route-comparison";
 export { SearchProgress, SearchLoadingSimple, type SearchStage } from "./search-progress";
+export { PriceCalendar } from "./price-calendar";
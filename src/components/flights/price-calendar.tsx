@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, TrendingDown, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DateMatrixResult, DateMatrixCell } from "@/lib/date-matrix";
+
+interface PriceCalendarProps {
+  matrix: DateMatrixResult;
+  selectedDepartureDate?: string;
+  selectedReturnDate?: string;
+  onSelect?: (cell: DateMatrixCell) => void;
+  isLoading?: boolean;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Date helpers on YYYY-MM-DD strings in UTC
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const toKey = (date: Date) => date.toISOString().split("T")[0];
+
+export function PriceCalendar({
+  matrix,
+  selectedDepartureDate,
+  selectedReturnDate,
+  onSelect,
+  isLoading = false,
+}: PriceCalendarProps) {
+  const [duration, setDuration] = useState<number | undefined>(
+    matrix.cheapest?.tripDuration ?? matrix.tripDurations[0]
+  );
+
+  // Cells for the selected trip length, keyed by departure date
+  const cellsByDate = useMemo(() => {
+    const map = new Map<string, DateMatrixCell>();
+    for (const cell of matrix.cells) {
+      if (cell.tripDuration === duration) map.set(cell.departureDate, cell);
+    }
+    return map;
+  }, [matrix.cells, duration]);
+
+  const prices = Array.from(cellsByDate.values())
+    .map((cell) => cell.price)
+    .filter((price): price is number => price !== null);
+  const minPrice = prices.length > 0 ? Math.min(...prices) : 0;
+  const maxPrice = prices.length > 0 ? Math.max(...prices) : 0;
+
+  // Full weeks (Monday-Sunday) covering the searched departure dates
+  const weeks = useMemo(() => {
+    if (matrix.departureDates.length === 0) return [];
+    const first = toDate(matrix.departureDates[0]);
+    const last = toDate(matrix.departureDates[matrix.departureDates.length - 1]);
+    first.setUTCDate(first.getUTCDate() - ((first.getUTCDay() + 6) % 7));
+    last.setUTCDate(last.getUTCDate() + (6 - ((last.getUTCDay() + 6) % 7)));
+
+    const result: string[][] = [];
+    for (const day = new Date(first); day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+      if (result.length === 0 || result[result.length - 1].length === 7) result.push([]);
+      result[result.length - 1].push(toKey(day));
+    }
+    return result;
+  }, [matrix.departureDates]);
+
+  const getPriceColor = (price: number) => {
+    if (maxPrice === minPrice) return "bg-green-500/10 text-green-700 border-green-500/20";
+    const ratio = (price - minPrice) / (maxPrice - minPrice);
+    if (ratio < 0.33) return "bg-green-500/10 text-green-700 border-green-500/20";
+    if (ratio < 0.66) return "bg-amber-500/10 text-amber-700 border-amber-500/20";
+    return "bg-red-500/10 text-red-700 border-red-500/20";
+  };
+
+  const cheapest = matrix.cheapest;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="font-display text-lg flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Flexible Dates
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          {cheapest && cheapest.price !== null && (
+            <Badge className="bg-green-500/10 text-green-600 border-green-500/20">
+              <TrendingDown className="h-3 w-3 mr-1" />
+              Cheapest ${Math.round(cheapest.price)} on{" "}
+              {toDate(cheapest.departureDate).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+                timeZone: "UTC",
+              })}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {matrix.origin} → {matrix.destination} • {matrix.searchStats.totalSearches} date
+          {matrix.searchStats.totalSearches !== 1 ? "s" : ""} checked
+          {matrix.searchStats.skippedDates > 0 &&
+            ` • ${matrix.searchStats.skippedDates} skipped to save quota`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Trip length selector (round trips only) */}
+        {matrix.tripDurations.length > 1 && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm text-muted-foreground">Trip length:</span>
+            {matrix.tripDurations.map((days) => (
+              <Button
+                key={days}
+                size="sm"
+                variant={days === duration ? "default" : "outline"}
+                onClick={() => setDuration(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Calendar grid */}
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="text-xs font-medium text-muted-foreground py-1">
+              {day}
+            </div>
+          ))}
+          {weeks.flat().map((date) => {
+            const cell = cellsByDate.get(date);
+            const dayOfMonth = toDate(date).getUTCDate();
+            const isSelected =
+              cell &&
+              cell.departureDate === selectedDepartureDate &&
+              (cell.returnDate ?? undefined) === (selectedReturnDate ?? undefined);
+            const isCheapest =
+              cell &&
+              cheapest &&
+              cell.departureDate === cheapest.departureDate &&
+              cell.returnDate === cheapest.returnDate;
+
+            if (!cell) {
+              return (
+                <div key={date} className="rounded-md p-2 text-xs text-muted-foreground/40">
+                  {dayOfMonth}
+                </div>
+              );
+            }
+
+            return (
+              <button
+                key={date}
+                type="button"
+                disabled={cell.price === null || !onSelect || isLoading}
+                onClick={() => onSelect?.(cell)}
+                title={
+                  cell.error
+                    ? cell.error
+                    : cell.returnDate
+                      ? `${cell.departureDate} → ${cell.returnDate}`
+                      : cell.departureDate
+                }
+                className={cn(
+                  "rounded-md border p-2 text-xs transition-all",
+                  cell.price !== null ? getPriceColor(cell.price) : "bg-muted/50 text-muted-foreground",
+                  cell.price !== null && onSelect && "hover:shadow-md cursor-pointer",
+                  isCheapest && "ring-2 ring-green-500/50",
+                  isSelected && "ring-2 ring-primary"
+                )}
+              >
+                <div className="text-muted-foreground">{dayOfMonth}</div>
+                <div className="font-semibold">
+                  {cell.price !== null ? `$${Math.round(cell.price)}` : "—"}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Lowest total fare per departure date{matrix.tripDurations.length > 0 && ` for a ${duration}-day trip`}.
+          Click a date to see all flights.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
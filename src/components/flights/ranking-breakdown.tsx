@@ -0,0 +1,64 @@
+"use client";
+
+import type { RankingScore } from "@/lib/ranking";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Scale } from "lucide-react";
+
+interface RankingBreakdownProps {
+  ranking: RankingScore;
+  rank?: number; // Position in the ranked list, for the heading
+}
+
+/**
+ * Score badge that opens the "why this ranks here" breakdown
+ */
+export function RankingBreakdown({ ranking, rank }: RankingBreakdownProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center rounded-md border border-border/60 px-2.5 py-0.5 text-xs font-medium tabular-nums text-muted-foreground hover:text-foreground hover:border-primary/40 transition-colors"
+          title="Why this ranks here"
+        >
+          <Scale className="w-3 h-3 mr-1" />
+          {Math.round(ranking.total)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 glass shadow-xl border-border/50" align="end">
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <h4 className="font-semibold flex items-center gap-2">
+              <Scale className="h-4 w-4 text-primary" />
+              {rank ? `Why this ranks #${rank}` : "Why this ranks here"}
+            </h4>
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Score {Math.round(ranking.total)} of 100, weighted by your ranking preset. Change the weights in Settings.
+            </p>
+          </div>
+          <div className="space-y-2.5">
+            {ranking.components.map((component) => (
+              <div key={component.factor} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium">
+                    {component.label}
+                    <span className="text-muted-foreground font-normal"> ×{component.weight}</span>
+                  </span>
+                  <span className="tabular-nums text-muted-foreground">+{component.points.toFixed(1)}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-primary/60" style={{ width: `${component.score}%` }} />
+                </div>
+                <p className="text-[11px] text-muted-foreground">{component.detail}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -16,7 +16,8 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { MultiCityRoute } from "@/lib/multi-city";
-import { formatDuration } from "@/lib/amadeus";
+import { formatDuration } from "@/lib/flight-utils";
+import { RankingBreakdown } from "./ranking-breakdown";
 
 interface RouteComparisonProps {
   directRoute: MultiCityRoute | null;
@@ -34,7 +35,7 @@ export function RouteComparison({
   const allRoutes = [
     ...(directRoute ? [directRoute] : []),
     ...stopoverRoutes,
-  ].sort((a, b) => b.score - a.score);
+  ].sort((a, b) => (b.ranking?.total ?? b.score) - (a.ranking?.total ?? a.score) || a.totalPrice - b.totalPrice);
 
   if (allRoutes.length === 0) {
     return (
@@ -113,7 +114,7 @@ function RouteCard({ route, isBest, rank, directPrice, onSelect }: RouteCardProp
               {isBest && (
                 <Badge className="bg-primary text-primary-foreground">
                   <Star className="h-3 w-3 mr-1" />
-                  Best Value
+                  Best Match
                 </Badge>
               )}
               {isDirect ? (
@@ -129,6 +130,7 @@ function RouteCard({ route, isBest, rank, directPrice, onSelect }: RouteCardProp
                   Save {route.savingsPercent}%
                 </Badge>
               )}
+              {route.ranking && <RankingBreakdown ranking={route.ranking} rank={rank} />}
             </div>
 
             {/* Route Path */}
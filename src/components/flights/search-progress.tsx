@@ -1,29 +1,30 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Loader2, CheckCircle2, Sparkles, Search, BarChart3, Plane } from "lucide-react";
+import { Loader2, CheckCircle2, Sparkles, Search, BarChart3, Plane, MapPin } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { SearchStage } from "@/lib/search-stages";
 
-export type SearchStage = "parsing" | "searching" | "processing" | "complete";
+export type { SearchStage };
 
 interface SearchProgressProps {
   stage: SearchStage;
   isNaturalLanguage?: boolean;
+  detail?: string; // Streamed from the server, e.g. "Priced 4 of 12 dates"
+  completed?: number;
+  total?: number;
 }
 
-const stages = [
+const stages: { id: SearchStage; label: string; icon: typeof Sparkles }[] = [
   { id: "parsing", label: "Understanding your request", icon: Sparkles },
+  { id: "resolving", label: "Finding airports", icon: MapPin },
   { id: "searching", label: "Finding available flights", icon: Search },
   { id: "processing", label: "Analyzing best options", icon: BarChart3 },
   { id: "complete", label: "Ready to explore", icon: CheckCircle2 },
 ];
 
-const stageIndex: Record<SearchStage, number> = {
-  parsing: 0,
-  searching: 1,
-  processing: 2,
-  complete: 3,
-};
+// Manual searches already know their airports
+const manualStages: SearchStage[] = ["searching", "processing", "complete"];
 
 // Simple loading indicator for non-staged loading
 export function SearchLoadingSimple() {
@@ -42,11 +43,22 @@ export function SearchLoadingSimple() {
   );
 }
 
-export function SearchProgress({ stage, isNaturalLanguage = true }: SearchProgressProps) {
-  const currentIndex = stageIndex[stage];
+export function SearchProgress({
+  stage,
+  isNaturalLanguage = true,
+  detail,
+  completed,
+  total,
+}: SearchProgressProps) {
   const filteredStages = isNaturalLanguage
     ? stages
-    : stages.filter((s) => s.id !== "parsing");
+    : stages.filter((s) => manualStages.includes(s.id));
+  const currentIndex = Math.max(0, filteredStages.findIndex((s) => s.id === stage));
+  // Advance within the current stage when the server reports how far it got
+  const stageFraction = total ? Math.min(1, (completed ?? 0) / total) : 0.5;
+  const percent = stage === "complete"
+    ? 100
+    : Math.min(100, ((currentIndex + stageFraction) / (filteredStages.length - 1)) * 100);
 
   return (
     <div className="py-12">
@@ -75,7 +87,7 @@ export function SearchProgress({ stage, isNaturalLanguage = true }: SearchProgre
               className="h-full bg-gradient-to-r from-primary via-primary/90 to-primary rounded-full relative"
               initial={{ width: "0%" }}
               animate={{
-                width: stage === "complete" ? "100%" : `${((currentIndex + 0.5) / (filteredStages.length - 1)) * 100}%`,
+                width: `${percent}%`,
               }}
               transition={{ duration: 0.5, ease: "easeOut" }}
             >
@@ -90,20 +102,19 @@ export function SearchProgress({ stage, isNaturalLanguage = true }: SearchProgre
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             style={{
-              left: stage === "complete" ? "100%" : `${((currentIndex + 0.5) / (filteredStages.length - 1)) * 100}%`,
+              left: `${percent}%`,
               transform: "translateX(-50%)",
             }}
           >
-            {stage === "complete" ? "100%" : `${Math.round(((currentIndex + 0.5) / (filteredStages.length - 1)) * 100)}%`}
+            {`${Math.round(percent)}%`}
           </motion.div>
         </div>
 
         {/* Stages */}
         <div className="space-y-3 px-4">
           {filteredStages.map((s, index) => {
-            const actualIndex = isNaturalLanguage ? index : index + 1;
-            const isActive = stageIndex[stage] === actualIndex;
-            const isComplete = stageIndex[stage] > actualIndex;
+            const isActive = currentIndex === index && stage !== "complete";
+            const isComplete = currentIndex > index || stage === "complete";
             const Icon = s.icon;
 
             return (
@@ -151,6 +162,9 @@ export function SearchProgress({ stage, isNaturalLanguage = true }: SearchProgre
                   >
                     {s.label}
                   </p>
+                  {isActive && detail && (
+                    <p className="text-xs text-muted-foreground mt-0.5 truncate">{detail}</p>
+                  )}
                 </div>
                 {isActive && (
                   <motion.div
@@ -10,7 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Plane, Search, Calendar, History, User, LogOut, MessageSquare, Settings, Menu, Globe } from "lucide-react";
+import { Plane, Search, Calendar, History, User, LogOut, MessageSquare, Settings, Menu, Globe, MapPinned } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 export function Navbar() {
@@ -26,6 +26,7 @@ export function Navbar() {
   const navLinks = [
     { href: "/", label: "Search", icon: Search },
     { href: "/chat", label: "Chat", icon: MessageSquare },
+    { href: "/trips", label: "Trips", icon: MapPinned },
     { href: "/tasks", label: "Tasks", icon: Calendar },
     { href: "/history", label: "History", icon: History },
   ];
@@ -57,7 +58,7 @@ export function Navbar() {
           <div className="hidden md:flex items-center">
             <div className="flex items-center gap-1 p-1 rounded-xl bg-muted/30">
               {navLinks.map((link) => {
-                const isActive = pathname === link.href;
+                const isActive = pathname === link.href || pathname.startsWith(`${link.href}/`);
                 const Icon = link.icon;
                 return (
                   <Link
@@ -103,7 +104,7 @@ export function Navbar() {
               <DropdownMenuContent align="end" className="w-52 glass">
                 {navLinks.map((link) => {
                   const Icon = link.icon;
-                  const isActive = pathname === link.href;
+                  const isActive = pathname === link.href || pathname.startsWith(`${link.href}/`);
                   return (
                     <DropdownMenuItem key={link.href} asChild>
                       <Link
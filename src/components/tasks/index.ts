@@ -4,3 +4,5 @@ export { TaskForm } from "./task-form";
 export { PriceChart } from "./price-chart";
 export type { PricePoint } from "./price-chart";
 export { TaskDetailDialog } from "./task-detail-dialog";
+export { TaskRunLog } from "./task-run-log";
+export type { TaskRunEntry } from "./task-run-log";
@@ -28,6 +28,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { formatPassengerMix } from "@/lib/flight-utils";
 
 export interface TaskData {
   id: string;
@@ -37,9 +38,13 @@ export interface TaskData {
   departureDate: string;
   returnDate?: string | null;
   adults: number;
+  children: number;
+  infants: number;
   travelClass: string;
+  nonStop: boolean;
   cronExpr: string;
   priceTarget?: number | null;
+  maxRunsPerDay?: number | null;
   active: boolean;
   lastRun?: string | null;
   nextRun?: string | null;
@@ -256,6 +261,12 @@ export function TaskCard({
             {task.travelClass.toLowerCase().replace("_", " ")}
           </Badge>
 
+          {(task.adults > 1 || task.children > 0 || task.infants > 0) && (
+            <Badge variant="secondary">{formatPassengerMix(task)}</Badge>
+          )}
+
+          {task.nonStop && <Badge variant="secondary">Direct only</Badge>}
+
           {task._count && task._count.priceHistory > 0 && (
             <span className="text-xs text-muted-foreground">
               {task._count.priceHistory} price checks
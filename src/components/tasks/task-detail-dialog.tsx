@@ -25,11 +25,14 @@ import {
 } from "lucide-react";
 import { PriceChart, PricePoint } from "./price-chart";
 import { TaskData } from "./task-card";
-import { describeCronSchedule } from "@/lib/cron-utils";
+import { TaskRunLog, TaskRunEntry } from "./task-run-log";
+import { AUTO_SCHEDULE, DEFAULT_AUTO_RUNS_PER_DAY, describeCronSchedule } from "@/lib/cron-utils";
+import { formatPassengerMix } from "@/lib/flight-utils";
 import { cn } from "@/lib/utils";
 
 interface TaskWithHistory extends TaskData {
   priceHistory: PricePoint[];
+  runs: TaskRunEntry[];
 }
 
 interface TaskDetailDialogProps {
@@ -187,7 +190,8 @@ export function TaskDetailDialog({
                   Travelers
                 </div>
                 <div className="font-medium">
-                  {task.adults} Adult{task.adults !== 1 ? "s" : ""}
+                  {formatPassengerMix(task)}
+                  {task.nonStop && " · direct only"}
                 </div>
               </div>
 
@@ -199,6 +203,11 @@ export function TaskDetailDialog({
                 <div className="font-medium text-xs">
                   {describeCronSchedule(task.cronExpr)}
                 </div>
+                {(task.maxRunsPerDay || task.cronExpr === AUTO_SCHEDULE) && (
+                  <div className="text-xs text-muted-foreground">
+                    At most {task.maxRunsPerDay ?? DEFAULT_AUTO_RUNS_PER_DAY} runs a day
+                  </div>
+                )}
               </div>
             </div>
 
@@ -268,6 +277,9 @@ export function TaskDetailDialog({
                 <span className="font-medium">{formatDate(task.nextRun)}</span>
               </div>
             </div>
+
+            {/* Run Log */}
+            <TaskRunLog runs={task.runs} className="mt-4" />
           </>
         ) : null}
       </DialogContent>
@@ -15,6 +15,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -22,9 +23,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plane, Calendar, Users, Bell, Clock, Loader2 } from "lucide-react";
-import { CRON_PRESETS } from "@/lib/cron-utils";
+import { Plane, Calendar, Users, Bell, Clock, Loader2, Bookmark } from "lucide-react";
+import { AUTO_SCHEDULE, CRON_PRESETS, DEFAULT_AUTO_RUNS_PER_DAY } from "@/lib/cron-utils";
 import type { TaskData } from "./task-card";
+import type { TravelerProfile } from "@/lib/traveler-profile";
+import type { SavedSearch } from "@/lib/saved-searches";
 
 const taskFormSchema = z.object({
   name: z.string().min(1, "Name is required").max(100),
@@ -33,9 +36,16 @@ const taskFormSchema = z.object({
   departureDate: z.string().min(1, "Departure date is required"),
   returnDate: z.string().optional(),
   adults: z.number().min(1).max(9),
+  children: z.number().min(0).max(9),
+  infants: z.number().min(0).max(9),
   travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]),
+  nonStop: z.boolean(),
   cronExpr: z.string().min(1, "Schedule is required"),
   priceTarget: z.number().positive().optional().or(z.literal("")),
+  maxRunsPerDay: z.number().int().min(1).max(48).optional().or(z.literal("")).or(z.nan()),
+}).refine((data) => data.infants <= data.adults, {
+  message: "Each infant must travel with an adult",
+  path: ["infants"],
 });
 
 type TaskFormData = z.infer<typeof taskFormSchema>;
@@ -46,25 +56,63 @@ interface PrefillData {
   destination?: string;
   departureDate?: string;
   returnDate?: string;
+  adults?: number;
+  children?: number;
+  infants?: number;
+  travelClass?: TaskFormData["travelClass"];
+  nonStop?: boolean;
 }
 
 interface TaskFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: Omit<TaskFormData, "priceTarget"> & { priceTarget?: number }) => Promise<void>;
+  onSubmit: (
+    data: Omit<TaskFormData, "priceTarget" | "maxRunsPerDay"> & { priceTarget?: number; maxRunsPerDay: number | null }
+  ) => Promise<void>;
   editTask?: TaskData | null;
   prefillData?: PrefillData | null;
 }
 
 export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }: TaskFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [profile, setProfile] = useState<TravelerProfile | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    fetchProfile();
+    fetchSavedSearches();
+  }, []);
+
+  const fetchProfile = async () => {
+    try {
+      const response = await fetch("/api/profile");
+      const data = await response.json();
+      if (data.success) {
+        setProfile(data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch traveler profile:", error);
+    }
+  };
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch("/api/saved-searches");
+      const data = await response.json();
+      if (data.success) {
+        setSavedSearches(data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch saved searches:", error);
+    }
+  };
 
   // Get tomorrow's date as min date
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
   const minDate = tomorrow.toISOString().split("T")[0];
 
-  // Determine default values from editTask or prefillData
+  // Determine default values from editTask or prefillData, then the traveler profile
   const getDefaultValues = (): TaskFormData => {
     if (editTask) {
       return {
@@ -74,34 +122,46 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
         departureDate: editTask.departureDate,
         returnDate: editTask.returnDate || "",
         adults: editTask.adults,
+        children: editTask.children,
+        infants: editTask.infants,
         travelClass: editTask.travelClass as TaskFormData["travelClass"],
+        nonStop: editTask.nonStop,
         cronExpr: editTask.cronExpr,
         priceTarget: editTask.priceTarget || "",
+        maxRunsPerDay: editTask.maxRunsPerDay ?? "",
       };
     }
     if (prefillData) {
       return {
         name: prefillData.name || "",
-        origin: prefillData.origin || "",
+        origin: prefillData.origin || profile?.homeAirport || "",
         destination: prefillData.destination || "",
         departureDate: prefillData.departureDate || "",
         returnDate: prefillData.returnDate || "",
-        adults: 1,
-        travelClass: "ECONOMY",
+        adults: prefillData.adults ?? profile?.adults ?? 1,
+        children: prefillData.children ?? profile?.children ?? 0,
+        infants: prefillData.infants ?? profile?.infants ?? 0,
+        travelClass: prefillData.travelClass ?? profile?.travelClass ?? "ECONOMY",
+        nonStop: prefillData.nonStop ?? profile?.maxStops === 0,
         cronExpr: "0 9 * * *",
         priceTarget: "",
+        maxRunsPerDay: "",
       };
     }
     return {
       name: "",
-      origin: "",
+      origin: profile?.homeAirport || "",
       destination: "",
       departureDate: "",
       returnDate: "",
-      adults: 1,
-      travelClass: "ECONOMY",
+      adults: profile?.adults ?? 1,
+      children: profile?.children ?? 0,
+      infants: profile?.infants ?? 0,
+      travelClass: profile?.travelClass ?? "ECONOMY",
+      nonStop: profile?.maxStops === 0,
       cronExpr: "0 9 * * *",
       priceTarget: "",
+      maxRunsPerDay: "",
     };
   };
 
@@ -110,11 +170,34 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
     defaultValues: getDefaultValues(),
   });
 
-  // Reset form when editTask or prefillData changes
+  // Reset form when editTask, prefillData or the profile changes
   useEffect(() => {
     form.reset(getDefaultValues());
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editTask, prefillData]);
+  }, [editTask, prefillData, profile]);
+
+  // Fill the route, dates and passengers a saved search resolved to
+  const applySavedSearch = (id: string) => {
+    const search = savedSearches.find((s) => s.id === id);
+    if (!search) return;
+
+    const current = form.getValues();
+    form.reset({
+      ...current,
+      name: current.name || search.name,
+      origin: search.origin ?? current.origin,
+      destination: search.destination ?? current.destination,
+      departureDate: search.departureDate ?? current.departureDate,
+      returnDate: search.returnDate ?? "",
+      adults: search.adults,
+      children: search.children,
+      infants: search.infants,
+      travelClass: search.travelClass,
+      nonStop: search.nonStop,
+    });
+  };
+
+  const isAutoSchedule = form.watch("cronExpr") === AUTO_SCHEDULE;
 
   const handleSubmit = async (data: TaskFormData) => {
     setIsSubmitting(true);
@@ -124,6 +207,8 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
         origin: data.origin.toUpperCase(),
         destination: data.destination.toUpperCase(),
         priceTarget: data.priceTarget ? Number(data.priceTarget) : undefined,
+        maxRunsPerDay:
+          typeof data.maxRunsPerDay === "number" && !isNaN(data.maxRunsPerDay) ? data.maxRunsPerDay : null,
       });
       form.reset();
       onOpenChange(false);
@@ -147,6 +232,31 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
         </DialogHeader>
 
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          {/* Start from a saved search */}
+          {!editTask && savedSearches.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Bookmark className="w-4 h-4" />
+                From saved search
+              </Label>
+              <Select onValueChange={applySavedSearch} disabled={isSubmitting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a saved search (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedSearches.map((search) => (
+                    <SelectItem key={search.id} value={search.id}>
+                      {search.name}
+                      {search.departureDate && (
+                        <span className="text-muted-foreground"> · {search.departureDate}</span>
+                      )}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Task Name */}
           <div className="space-y-2">
             <Label htmlFor="name">Name</Label>
@@ -244,10 +354,10 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
             </div>
           </div>
 
-          {/* Passengers & Class */}
-          <div className="grid grid-cols-2 gap-4">
+          {/* Passengers */}
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="adults">Passengers</Label>
+              <Label htmlFor="adults">Adults</Label>
               <div className="relative">
                 <Users className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Select
@@ -255,13 +365,13 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
                   onValueChange={(v) => form.setValue("adults", parseInt(v))}
                   disabled={isSubmitting}
                 >
-                  <SelectTrigger className="pl-10">
+                  <SelectTrigger id="adults" className="pl-10">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => (
                       <SelectItem key={n} value={n.toString()}>
-                        {n} Adult{n > 1 ? "s" : ""}
+                        {n}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -269,6 +379,54 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="children">Children (2-11)</Label>
+              <Select
+                value={form.watch("children").toString()}
+                onValueChange={(v) => form.setValue("children", parseInt(v))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="children">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+                    <SelectItem key={n} value={n.toString()}>
+                      {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="infants">Infants (lap)</Label>
+              <Select
+                value={form.watch("infants").toString()}
+                onValueChange={(v) => form.setValue("infants", parseInt(v), { shouldValidate: true })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="infants">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4].map((n) => (
+                    <SelectItem key={n} value={n.toString()}>
+                      {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {form.formState.errors.infants && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.infants.message}
+            </p>
+          )}
+
+          {/* Class & Stops */}
+          <div className="grid grid-cols-2 gap-4 items-end">
             <div className="space-y-2">
               <Label htmlFor="travelClass">Class</Label>
               <Select
@@ -278,7 +436,7 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
                 }
                 disabled={isSubmitting}
               >
-                <SelectTrigger>
+                <SelectTrigger id="travelClass">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
@@ -289,6 +447,18 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="flex items-center gap-2 h-9">
+              <Switch
+                id="nonStop"
+                checked={form.watch("nonStop")}
+                onCheckedChange={(checked) => form.setValue("nonStop", checked)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="nonStop" className="cursor-pointer">
+                Direct flights only
+              </Label>
+            </div>
           </div>
 
           {/* Schedule */}
@@ -313,6 +483,31 @@ export function TaskForm({ open, onOpenChange, onSubmit, editTask, prefillData }
                 </SelectContent>
               </Select>
             </div>
+            {isAutoSchedule && (
+              <p className="text-xs text-muted-foreground">
+                Checks every few hours close to departure or while prices swing, and every few days while they stay flat.
+              </p>
+            )}
+          </div>
+
+          {/* Run Budget */}
+          <div className="space-y-2">
+            <Label htmlFor="maxRunsPerDay">Checks per day at most (optional)</Label>
+            <Input
+              id="maxRunsPerDay"
+              type="number"
+              min={1}
+              max={48}
+              {...form.register("maxRunsPerDay", { valueAsNumber: true })}
+              placeholder={isAutoSchedule ? String(DEFAULT_AUTO_RUNS_PER_DAY) : "No limit"}
+              disabled={isSubmitting}
+            />
+            {form.formState.errors.maxRunsPerDay && (
+              <p className="text-sm text-destructive">Enter a number from 1 to 48</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Once reached, the task waits for the next day (UTC). Manual runs count too.
+            </p>
           </div>
 
           {/* Price Target */}
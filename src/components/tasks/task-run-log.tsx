@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, XCircle, Loader2, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface TaskRunEntry {
+  id: string;
+  trigger: string; // "cron" | "manual"
+  status: string; // "running" | "success" | "failed"
+  runner: string;
+  providerCalls: number;
+  price?: number | null;
+  currency?: string | null;
+  error?: string | null;
+  startedAt: string;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+}
+
+interface TaskRunLogProps {
+  runs: TaskRunEntry[];
+  className?: string;
+}
+
+// Runs listed before "Show all"
+const COLLAPSED_RUNS = 8;
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export function TaskRunLog({ runs, className }: TaskRunLogProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  if (runs.length === 0) {
+    return (
+      <div className={cn("p-4 rounded-lg border border-dashed text-center text-sm text-muted-foreground", className)}>
+        <History className="h-4 w-4 mx-auto mb-1" />
+        No runs yet
+      </div>
+    );
+  }
+
+  const visibleRuns = showAll ? runs : runs.slice(0, COLLAPSED_RUNS);
+  const failedRuns = runs.filter((run) => run.status === "failed").length;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1.5">
+          <History className="h-4 w-4" />
+          Run Log
+        </h4>
+        {failedRuns > 0 && (
+          <span className="text-xs text-destructive">
+            {failedRuns} of {runs.length} failed
+          </span>
+        )}
+      </div>
+
+      <div className="rounded-lg border divide-y text-sm">
+        {visibleRuns.map((run) => (
+          <div key={run.id} className="flex items-start gap-3 px-3 py-2">
+            {run.status === "success" ? (
+              <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+            ) : run.status === "failed" ? (
+              <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            ) : (
+              <Loader2 className="h-4 w-4 mt-0.5 shrink-0 animate-spin text-muted-foreground" />
+            )}
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  {new Date(run.startedAt).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                  {run.trigger === "cron" ? "Scheduled" : "Manual"}
+                </Badge>
+              </div>
+              <p
+                className={cn(
+                  "text-xs truncate",
+                  run.status === "failed" ? "text-destructive" : "text-muted-foreground"
+                )}
+                title={run.error ?? undefined}
+              >
+                {run.status === "running"
+                  ? `Running on ${run.runner}`
+                  : run.status === "failed"
+                    ? run.error || "Failed"
+                    : run.price != null
+                      ? `Best price ${Math.round(run.price).toLocaleString()} ${run.currency ?? ""}`
+                      : "No flights found"}
+              </p>
+            </div>
+
+            <div className="text-right text-xs text-muted-foreground shrink-0">
+              <div>{run.providerCalls === 0 ? "Cached" : `${run.providerCalls} API call${run.providerCalls > 1 ? "s" : ""}`}</div>
+              {run.durationMs != null && <div>{formatDuration(run.durationMs)}</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {runs.length > COLLAPSED_RUNS && (
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show less" : `Show all ${runs.length} runs`}
+        </Button>
+      )}
+    </div>
+  );
+}
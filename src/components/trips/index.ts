@@ -0,0 +1,4 @@
+export { TripForm } from "./trip-form";
+export type { TripFormValues } from "./trip-form";
+export { TripShortlist } from "./trip-shortlist";
+export { TripAttachMenu } from "./trip-attach-menu";
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { HistoryItem } from "@/lib/search-history";
+import type { TripItem } from "@/lib/trips";
+import { Bell, Clock, Loader2, Plus, Search } from "lucide-react";
+
+// Recent searches offered for attaching
+const RECENT_SEARCHES_LIMIT = 15;
+
+interface AttachableTask {
+  id: string;
+  name: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  tripId: string | null;
+}
+
+interface AttachableAlert {
+  id: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  targetPrice: number;
+  currency: string;
+  tripId: string | null;
+}
+
+interface TripAttachMenuProps {
+  tripId: string;
+  attachedSearchIds: string[];
+  onAttach: (item: TripItem) => void;
+}
+
+/**
+ * "Add" menu of the trip page: attach a recent search, a task or an alert
+ */
+export function TripAttachMenu({ tripId, attachedSearchIds, onAttach }: TripAttachMenuProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [searches, setSearches] = useState<HistoryItem[] | null>(null);
+  const [tasks, setTasks] = useState<AttachableTask[]>([]);
+  const [alerts, setAlerts] = useState<AttachableAlert[]>([]);
+
+  // Loaded each time the menu opens, so items attached elsewhere drop out
+  const loadOptions = async () => {
+    setIsLoading(true);
+    try {
+      const [historyResponse, tasksResponse, alertsResponse] = await Promise.all([
+        fetch(`/api/history?limit=${RECENT_SEARCHES_LIMIT}`),
+        fetch("/api/tasks"),
+        fetch("/api/alerts"),
+      ]);
+      const [history, tasksData, alertsData] = await Promise.all([
+        historyResponse.json(),
+        tasksResponse.json(),
+        alertsResponse.json(),
+      ]);
+      setSearches(history.success ? history.data.searches : []);
+      setTasks(tasksData.success ? tasksData.data : []);
+      setAlerts(alertsData.success ? alertsData.data : []);
+    } catch (error) {
+      console.error("Failed to load items to attach:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const availableSearches = (searches ?? []).filter((s) => !attachedSearchIds.includes(s.id));
+  const availableTasks = tasks.filter((t) => t.tripId !== tripId);
+  const availableAlerts = alerts.filter((a) => a.tripId !== tripId);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadOptions()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Add to this trip
+          {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+        </DropdownMenuLabel>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-72 max-h-80 overflow-y-auto">
+            {availableSearches.length === 0 ? (
+              <DropdownMenuItem disabled>No recent searches</DropdownMenuItem>
+            ) : (
+              availableSearches.map((search) => (
+                <DropdownMenuItem
+                  key={search.id}
+                  className="cursor-pointer flex-col items-start gap-0"
+                  onClick={() => onAttach({ type: "search", searchId: search.id })}
+                >
+                  <span className="truncate w-full">{search.rawPrompt}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {search.origin} → {search.destination}
+                    {search.departureDate && ` · ${search.departureDate}`}
+                  </span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Clock className="h-4 w-4 mr-2" />
+            Tracking task
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-64 max-h-80 overflow-y-auto">
+            {availableTasks.length === 0 ? (
+              <DropdownMenuItem disabled>No other tasks</DropdownMenuItem>
+            ) : (
+              availableTasks.map((task) => (
+                <DropdownMenuItem
+                  key={task.id}
+                  className="cursor-pointer flex-col items-start gap-0"
+                  onClick={() => onAttach({ type: "task", taskId: task.id })}
+                >
+                  <span className="truncate w-full">{task.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {task.origin} → {task.destination} · {task.departureDate}
+                  </span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Bell className="h-4 w-4 mr-2" />
+            Price alert
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-64 max-h-80 overflow-y-auto">
+            {availableAlerts.length === 0 ? (
+              <DropdownMenuItem disabled>No other active alerts</DropdownMenuItem>
+            ) : (
+              availableAlerts.map((alert) => (
+                <DropdownMenuItem
+                  key={alert.id}
+                  className="cursor-pointer flex-col items-start gap-0"
+                  onClick={() => onAttach({ type: "alert", alertId: alert.id })}
+                >
+                  <span>
+                    {alert.origin} → {alert.destination} · {alert.departureDate.slice(0, 10)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    Below {Math.round(alert.targetPrice)} {alert.currency}
+                  </span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plane, Calendar, Users, Wallet, Loader2 } from "lucide-react";
+import type { TripSummary } from "@/lib/trips";
+
+const tripFormSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  destination: z.string().length(3, "Enter 3-letter airport code"),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  budget: z.number().positive().optional().or(z.literal("")).or(z.nan()),
+  currency: z.string().length(3),
+  adults: z.number().min(1).max(9),
+  children: z.number().min(0).max(9),
+  infants: z.number().min(0).max(9),
+  notes: z.string().max(5000).optional(),
+}).refine((data) => data.infants <= data.adults, {
+  message: "Each infant must travel with an adult",
+  path: ["infants"],
+}).refine((data) => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: "The trip must end after it starts",
+  path: ["endDate"],
+});
+
+type TripFormData = z.infer<typeof tripFormSchema>;
+
+export interface TripFormValues {
+  name: string;
+  destination: string;
+  startDate: string | null;
+  endDate: string | null;
+  budget: number | null;
+  currency: string;
+  adults: number;
+  children: number;
+  infants: number;
+  notes: string | null;
+}
+
+interface TripFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: TripFormValues) => Promise<void>;
+  editTrip?: TripSummary | null;
+}
+
+const CURRENCIES = ["USD", "EUR", "GBP", "ARS", "BRL", "JPY"];
+
+export function TripForm({ open, onOpenChange, onSubmit, editTrip }: TripFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const getDefaultValues = (): TripFormData => ({
+    name: editTrip?.name ?? "",
+    destination: editTrip?.destination ?? "",
+    startDate: editTrip?.startDate ?? "",
+    endDate: editTrip?.endDate ?? "",
+    budget: editTrip?.budget ?? "",
+    currency: editTrip?.currency ?? "USD",
+    adults: editTrip?.adults ?? 1,
+    children: editTrip?.children ?? 0,
+    infants: editTrip?.infants ?? 0,
+    notes: editTrip?.notes ?? "",
+  });
+
+  const form = useForm<TripFormData>({
+    resolver: zodResolver(tripFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  // Reset form when the trip being edited changes
+  useEffect(() => {
+    form.reset(getDefaultValues());
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editTrip]);
+
+  const handleSubmit = async (data: TripFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        name: data.name,
+        destination: data.destination.toUpperCase(),
+        startDate: data.startDate || null,
+        endDate: data.endDate || null,
+        budget: typeof data.budget === "number" && !isNaN(data.budget) ? data.budget : null,
+        currency: data.currency,
+        adults: data.adults,
+        children: data.children,
+        infants: data.infants,
+        notes: data.notes || null,
+      });
+      form.reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Form submit error:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {editTrip ? "Edit Trip" : "Plan a Trip"}
+          </DialogTitle>
+          <DialogDescription>
+            Group the searches, flights, tasks and alerts of one journey, with its budget.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          {/* Name & Destination */}
+          <div className="grid grid-cols-[1fr_8rem] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-name">Name</Label>
+              <Input
+                id="trip-name"
+                {...form.register("name")}
+                placeholder="e.g., Japan in spring"
+                disabled={isSubmitting}
+              />
+              {form.formState.errors.name && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.name.message}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trip-destination">Destination</Label>
+              <div className="relative">
+                <Plane className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground rotate-45" />
+                <Input
+                  id="trip-destination"
+                  {...form.register("destination")}
+                  placeholder="TYO"
+                  className="pl-10 uppercase font-mono"
+                  maxLength={3}
+                  disabled={isSubmitting}
+                />
+              </div>
+              {form.formState.errors.destination && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.destination.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Date Window */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-startDate">Leave from (optional)</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="trip-startDate"
+                  type="date"
+                  {...form.register("startDate")}
+                  className="pl-10"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trip-endDate">Back by (optional)</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="trip-endDate"
+                  type="date"
+                  {...form.register("endDate")}
+                  min={form.watch("startDate") || undefined}
+                  className="pl-10"
+                  disabled={isSubmitting}
+                />
+              </div>
+              {form.formState.errors.endDate && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.endDate.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Travelers */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-adults">Adults</Label>
+              <div className="relative">
+                <Users className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Select
+                  value={form.watch("adults").toString()}
+                  onValueChange={(v) => form.setValue("adults", parseInt(v))}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="trip-adults" className="pl-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => (
+                      <SelectItem key={n} value={n.toString()}>
+                        {n}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trip-children">Children (2-11)</Label>
+              <Select
+                value={form.watch("children").toString()}
+                onValueChange={(v) => form.setValue("children", parseInt(v))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="trip-children">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+                    <SelectItem key={n} value={n.toString()}>
+                      {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trip-infants">Infants (lap)</Label>
+              <Select
+                value={form.watch("infants").toString()}
+                onValueChange={(v) => form.setValue("infants", parseInt(v), { shouldValidate: true })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="trip-infants">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4].map((n) => (
+                    <SelectItem key={n} value={n.toString()}>
+                      {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {form.formState.errors.infants && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.infants.message}
+            </p>
+          )}
+
+          {/* Budget */}
+          <div className="space-y-2">
+            <Label htmlFor="trip-budget">Flight budget (optional)</Label>
+            <div className="grid grid-cols-[1fr_6rem] gap-2">
+              <div className="relative">
+                <Wallet className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="trip-budget"
+                  type="number"
+                  {...form.register("budget", { valueAsNumber: true })}
+                  placeholder="e.g., 2500"
+                  className="pl-10"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <Select
+                value={form.watch("currency")}
+                onValueChange={(v) => form.setValue("currency", v)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              For all travelers together. Prices in other currencies don&apos;t count against it.
+            </p>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="trip-notes">Notes (optional)</Label>
+            <Textarea
+              id="trip-notes"
+              {...form.register("notes")}
+              placeholder="Hotels to check, who's coming, visa reminders..."
+              rows={3}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {editTrip ? "Saving..." : "Creating..."}
+                </>
+              ) : editTrip ? (
+                "Save Changes"
+              ) : (
+                "Create Trip"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatDuration, getLegLabel } from "@/lib/flight-utils";
+import { formatDayOffset, formatLocalDate, formatLocalTime } from "@/lib/timezones";
+import type { TripShortlistItem } from "@/lib/trips";
+import { Star, Trophy, X } from "lucide-react";
+
+interface TripShortlistProps {
+  items: TripShortlistItem[];
+  budget: number | null;
+  currency: string;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Shortlisted flights side by side, with what each leaves of the budget
+ */
+export function TripShortlist({ items, budget, currency, onRemove }: TripShortlistProps) {
+  if (items.length === 0) {
+    return (
+      <div className="p-6 rounded-lg border border-dashed text-center text-sm text-muted-foreground">
+        <Star className="h-5 w-5 mx-auto mb-2" />
+        Nothing shortlisted yet. Use &quot;Add to trip&quot; in the menu of any flight in your search results.
+      </div>
+    );
+  }
+
+  const bestPrice = Math.min(...items.map((item) => item.flight.price));
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {items.map(({ id, flight, createdAt }) => {
+        const isBest = flight.price === bestPrice && items.length > 1;
+        const left = budget != null && flight.currency === currency ? budget - flight.price : null;
+
+        return (
+          <div
+            key={id}
+            className={`group relative min-w-[15rem] flex-1 p-4 rounded-lg border space-y-3 ${isBest ? "border-green-500/40 bg-green-500/5" : "border-border bg-card"}`}
+          >
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove from shortlist"
+              onClick={() => onRemove(id)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+
+            {/* Price */}
+            <div>
+              <div className={`font-display text-2xl font-semibold tabular-nums flex items-center gap-1.5 ${isBest ? "text-green-600" : ""}`}>
+                {isBest && <Trophy className="h-4 w-4" />}
+                {Math.round(flight.price).toLocaleString()} <span className="text-xs font-normal text-muted-foreground">{flight.currency}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Seen {new Date(createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+              </p>
+              {left != null && (
+                <p className={`text-xs mt-1 font-medium ${left >= 0 ? "text-green-600" : "text-destructive"}`}>
+                  {left >= 0
+                    ? `Leaves ${Math.round(left).toLocaleString()} ${currency} of the budget`
+                    : `${Math.round(-left).toLocaleString()} ${currency} over budget`}
+                </p>
+              )}
+            </div>
+
+            {/* Airlines */}
+            <div className="flex flex-wrap gap-1">
+              {flight.airlines.map((airline) => (
+                <Badge key={airline} variant="outline" className="text-xs">
+                  {airline}
+                </Badge>
+              ))}
+            </div>
+
+            {/* Legs */}
+            <div className="space-y-2 pt-2 border-t border-border">
+              {flight.legs.map((leg, index) => {
+                const dayOffset = formatDayOffset(leg.departureAt, leg.arrivalAt);
+                return (
+                  <div key={index} className="text-sm">
+                    <p className="text-[10px] uppercase tracking-widest text-muted-foreground">
+                      {getLegLabel(flight, index)} · {formatLocalDate(leg.departureAt)}
+                    </p>
+                    <p className="font-medium">
+                      <span className="font-mono">{leg.origin}</span> {formatLocalTime(leg.departureAt)}
+                      {" → "}
+                      <span className="font-mono">{leg.destination}</span> {formatLocalTime(leg.arrivalAt)}
+                      {dayOffset && <sup className="text-xs text-muted-foreground ml-0.5">{dayOffset}</sup>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDuration(leg.duration)} · {leg.stops === 0 ? "Direct" : `${leg.stops} stop${leg.stops > 1 ? "s" : ""}`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+/**
+ * Airport Reference Data
+ *
+ * Local lookup service over the bundled airport dataset (src/data/airports.json).
+ * Provides names, coordinates, IANA timezones, metro city codes and regions
+ * without calling the Amadeus location API.
+ */
+
+import airportData from "@/data/airports.json";
+
+export type Region = "europe" | "middle_east" | "asia" | "americas" | "oceania" | "africa";
+
+export interface Airport {
+  iata: string;
+  name: string;
+  city: string;
+  // IATA metropolitan area code (e.g. LON for LHR/LGW/STN), equal to iata when single-airport
+  cityCode: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+  lat: number;
+  lon: number;
+  // IANA timezone, e.g. "Europe/Madrid"
+  tz: string;
+}
+
+export interface LocationSuggestion {
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+  type: "airport" | "city";
+}
+
+const COUNTRIES: Record<string, { name: string; region: Region }> = {
+  // Americas
+  US: { name: "United States", region: "americas" },
+  CA: { name: "Canada", region: "americas" },
+  MX: { name: "Mexico", region: "americas" },
+  GT: { name: "Guatemala", region: "americas" },
+  SV: { name: "El Salvador", region: "americas" },
+  CR: { name: "Costa Rica", region: "americas" },
+  PA: { name: "Panama", region: "americas" },
+  CU: { name: "Cuba", region: "americas" },
+  DO: { name: "Dominican Republic", region: "americas" },
+  JM: { name: "Jamaica", region: "americas" },
+  BS: { name: "Bahamas", region: "americas" },
+  PR: { name: "Puerto Rico", region: "americas" },
+  AW: { name: "Aruba", region: "americas" },
+  CW: { name: "Curaçao", region: "americas" },
+  BB: { name: "Barbados", region: "americas" },
+  SX: { name: "Sint Maarten", region: "americas" },
+  AR: { name: "Argentina", region: "americas" },
+  UY: { name: "Uruguay", region: "americas" },
+  PY: { name: "Paraguay", region: "americas" },
+  CL: { name: "Chile", region: "americas" },
+  PE: { name: "Peru", region: "americas" },
+  BO: { name: "Bolivia", region: "americas" },
+  EC: { name: "Ecuador", region: "americas" },
+  CO: { name: "Colombia", region: "americas" },
+  VE: { name: "Venezuela", region: "americas" },
+  BR: { name: "Brazil", region: "americas" },
+  // Europe
+  GB: { name: "United Kingdom", region: "europe" },
+  IE: { name: "Ireland", region: "europe" },
+  FR: { name: "France", region: "europe" },
+  NL: { name: "Netherlands", region: "europe" },
+  BE: { name: "Belgium", region: "europe" },
+  LU: { name: "Luxembourg", region: "europe" },
+  DE: { name: "Germany", region: "europe" },
+  CH: { name: "Switzerland", region: "europe" },
+  AT: { name: "Austria", region: "europe" },
+  ES: { name: "Spain", region: "europe" },
+  PT: { name: "Portugal", region: "europe" },
+  IT: { name: "Italy", region: "europe" },
+  MT: { name: "Malta", region: "europe" },
+  GR: { name: "Greece", region: "europe" },
+  CY: { name: "Cyprus", region: "europe" },
+  TR: { name: "Turkey", region: "europe" },
+  DK: { name: "Denmark", region: "europe" },
+  NO: { name: "Norway", region: "europe" },
+  SE: { name: "Sweden", region: "europe" },
+  FI: { name: "Finland", region: "europe" },
+  IS: { name: "Iceland", region: "europe" },
+  EE: { name: "Estonia", region: "europe" },
+  LV: { name: "Latvia", region: "europe" },
+  LT: { name: "Lithuania", region: "europe" },
+  PL: { name: "Poland", region: "europe" },
+  CZ: { name: "Czechia", region: "europe" },
+  HU: { name: "Hungary", region: "europe" },
+  RO: { name: "Romania", region: "europe" },
+  BG: { name: "Bulgaria", region: "europe" },
+  RS: { name: "Serbia", region: "europe" },
+  HR: { name: "Croatia", region: "europe" },
+  SI: { name: "Slovenia", region: "europe" },
+  BA: { name: "Bosnia and Herzegovina", region: "europe" },
+  ME: { name: "Montenegro", region: "europe" },
+  AL: { name: "Albania", region: "europe" },
+  MK: { name: "North Macedonia", region: "europe" },
+  MD: { name: "Moldova", region: "europe" },
+  UA: { name: "Ukraine", region: "europe" },
+  RU: { name: "Russia", region: "europe" },
+  // Middle East (Egypt grouped here, matching how carriers route it)
+  AE: { name: "United Arab Emirates", region: "middle_east" },
+  QA: { name: "Qatar", region: "middle_east" },
+  BH: { name: "Bahrain", region: "middle_east" },
+  KW: { name: "Kuwait", region: "middle_east" },
+  OM: { name: "Oman", region: "middle_east" },
+  SA: { name: "Saudi Arabia", region: "middle_east" },
+  IL: { name: "Israel", region: "middle_east" },
+  JO: { name: "Jordan", region: "middle_east" },
+  LB: { name: "Lebanon", region: "middle_east" },
+  IQ: { name: "Iraq", region: "middle_east" },
+  IR: { name: "Iran", region: "middle_east" },
+  EG: { name: "Egypt", region: "middle_east" },
+  // Africa
+  MA: { name: "Morocco", region: "africa" },
+  DZ: { name: "Algeria", region: "africa" },
+  TN: { name: "Tunisia", region: "africa" },
+  SD: { name: "Sudan", region: "africa" },
+  ET: { name: "Ethiopia", region: "africa" },
+  KE: { name: "Kenya", region: "africa" },
+  UG: { name: "Uganda", region: "africa" },
+  RW: { name: "Rwanda", region: "africa" },
+  TZ: { name: "Tanzania", region: "africa" },
+  NG: { name: "Nigeria", region: "africa" },
+  GH: { name: "Ghana", region: "africa" },
+  CI: { name: "Côte d'Ivoire", region: "africa" },
+  SN: { name: "Senegal", region: "africa" },
+  AO: { name: "Angola", region: "africa" },
+  NA: { name: "Namibia", region: "africa" },
+  ZM: { name: "Zambia", region: "africa" },
+  ZW: { name: "Zimbabwe", region: "africa" },
+  MZ: { name: "Mozambique", region: "africa" },
+  ZA: { name: "South Africa", region: "africa" },
+  MG: { name: "Madagascar", region: "africa" },
+  MU: { name: "Mauritius", region: "africa" },
+  SC: { name: "Seychelles", region: "africa" },
+  RE: { name: "Réunion", region: "africa" },
+  // Asia
+  GE: { name: "Georgia", region: "asia" },
+  AM: { name: "Armenia", region: "asia" },
+  AZ: { name: "Azerbaijan", region: "asia" },
+  UZ: { name: "Uzbekistan", region: "asia" },
+  KZ: { name: "Kazakhstan", region: "asia" },
+  IN: { name: "India", region: "asia" },
+  LK: { name: "Sri Lanka", region: "asia" },
+  MV: { name: "Maldives", region: "asia" },
+  NP: { name: "Nepal", region: "asia" },
+  BD: { name: "Bangladesh", region: "asia" },
+  PK: { name: "Pakistan", region: "asia" },
+  JP: { name: "Japan", region: "asia" },
+  KR: { name: "South Korea", region: "asia" },
+  CN: { name: "China", region: "asia" },
+  HK: { name: "Hong Kong", region: "asia" },
+  MO: { name: "Macau", region: "asia" },
+  TW: { name: "Taiwan", region: "asia" },
+  MN: { name: "Mongolia", region: "asia" },
+  TH: { name: "Thailand", region: "asia" },
+  SG: { name: "Singapore", region: "asia" },
+  MY: { name: "Malaysia", region: "asia" },
+  ID: { name: "Indonesia", region: "asia" },
+  PH: { name: "Philippines", region: "asia" },
+  VN: { name: "Vietnam", region: "asia" },
+  KH: { name: "Cambodia", region: "asia" },
+  LA: { name: "Laos", region: "asia" },
+  MM: { name: "Myanmar", region: "asia" },
+  // Oceania
+  AU: { name: "Australia", region: "oceania" },
+  NZ: { name: "New Zealand", region: "oceania" },
+  FJ: { name: "Fiji", region: "oceania" },
+  PF: { name: "French Polynesia", region: "oceania" },
+  NC: { name: "New Caledonia", region: "oceania" },
+  CK: { name: "Cook Islands", region: "oceania" },
+  WS: { name: "Samoa", region: "oceania" },
+  GU: { name: "Guam", region: "oceania" },
+};
+
+// Common alternative spellings that don't match the dataset city names
+const CITY_ALIASES: Record<string, string> = {
+  "new york city": "New York",
+  "nyc": "New York",
+  "la": "Los Angeles",
+  "washington dc": "Washington",
+  "washington d.c.": "Washington",
+  "rio": "Rio de Janeiro",
+  "bangalore": "Bengaluru",
+  "bombay": "Mumbai",
+  "madras": "Chennai",
+  "calcutta": "Kolkata",
+  "peking": "Beijing",
+  "saigon": "Ho Chi Minh City",
+  "kiev": "Kyiv",
+  "st petersburg": "Saint Petersburg",
+  "st. petersburg": "Saint Petersburg",
+  "bariloche": "San Carlos de Bariloche",
+  "marrakech": "Marrakesh",
+  "bali": "Denpasar",
+  "tahiti": "Papeete",
+  "mallorca": "Palma de Mallorca",
+  "majorca": "Palma de Mallorca",
+  "cuzco": "Cusco",
+};
+
+const AIRPORTS = airportData as Airport[];
+const AIRPORTS_BY_CODE = new Map(AIRPORTS.map((airport) => [airport.iata, airport]));
+
+// Airports grouped by metro code, in dataset order (primary airport first)
+const AIRPORTS_BY_METRO = AIRPORTS.reduce((groups, airport) => {
+  groups.set(airport.cityCode, [...(groups.get(airport.cityCode) ?? []), airport]);
+  return groups;
+}, new Map<string, Airport[]>());
+
+/**
+ * Lowercase and strip diacritics so "São Paulo" matches "sao paulo"
+ */
+function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+/**
+ * Get an airport by IATA code
+ */
+export function getAirport(code: string): Airport | undefined {
+  return AIRPORTS_BY_CODE.get(code.toUpperCase());
+}
+
+/**
+ * Get all airports that belong to a metro area. Accepts either a metro code
+ * (LON) or one of its airports (LGW).
+ */
+export function getMetroAirports(code: string): Airport[] {
+  const upper = code.toUpperCase();
+  const metroCode = AIRPORTS_BY_CODE.get(upper)?.cityCode ?? upper;
+  return AIRPORTS_BY_METRO.get(metroCode) ?? [];
+}
+
+/**
+ * Resolve a code to its metro area code, or undefined when unknown
+ */
+export function getMetroCode(code: string): string | undefined {
+  const upper = code.toUpperCase();
+  return AIRPORTS_BY_CODE.get(upper)?.cityCode ?? (AIRPORTS_BY_METRO.has(upper) ? upper : undefined);
+}
+
+/**
+ * Check whether a code is a known airport or metro area code
+ */
+export function isKnownLocationCode(code: string): boolean {
+  return getMetroCode(code) !== undefined;
+}
+
+/**
+ * Check whether two codes refer to the same metro area (e.g. JFK and EWR)
+ */
+export function isSameMetro(a: string, b: string): boolean {
+  const metroA = getMetroCode(a);
+  return metroA !== undefined && metroA === getMetroCode(b);
+}
+
+/**
+ * Get the country name for an ISO country code
+ */
+export function getCountryName(countryCode: string): string {
+  return COUNTRIES[countryCode]?.name ?? countryCode;
+}
+
+/**
+ * Get the world region for an airport or metro code
+ */
+export function getAirportRegion(code: string): Region | undefined {
+  const airport = getAirport(code) ?? getMetroAirports(code)[0];
+  return airport ? COUNTRIES[airport.country]?.region : undefined;
+}
+
+/**
+ * Get the IANA timezone for an airport or metro code
+ */
+export function getAirportTimezone(code: string): string | undefined {
+  return (getAirport(code) ?? getMetroAirports(code)[0])?.tz;
+}
+
+/**
+ * Great-circle distance between two airports in kilometres,
+ * or undefined when either code is unknown
+ */
+export function getDistanceKm(fromCode: string, toCode: string): number | undefined {
+  const from = getAirport(fromCode) ?? getMetroAirports(fromCode)[0];
+  const to = getAirport(toCode) ?? getMetroAirports(toCode)[0];
+  if (!from || !to) return undefined;
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Find the primary airport code for a city name, e.g. "London" → LHR.
+ * Returns undefined when the city isn't in the dataset.
+ */
+export function findAirportCodeForCity(cityName: string): string | undefined {
+  const normalized = normalizeText(cityName);
+  const alias = CITY_ALIASES[normalized];
+  const target = alias ? normalizeText(alias) : normalized;
+
+  return AIRPORTS.find((airport) => normalizeText(airport.city) === target)?.iata;
+}
+
+/**
+ * Search airports and metro areas by code, city or airport name.
+ * Exact code matches come first, then city prefix matches, then name matches.
+ */
+export function searchAirports(query: string, limit: number = 10): LocationSuggestion[] {
+  const normalized = normalizeText(query);
+  if (normalized.length < 2) return [];
+
+  const upper = normalized.toUpperCase();
+  const scored: Array<{ suggestion: LocationSuggestion; score: number }> = [];
+
+  for (const [metroCode, airports] of AIRPORTS_BY_METRO) {
+    const primary = airports[0];
+    const city = normalizeText(primary.city);
+
+    // Metro entry for multi-airport cities whose code isn't itself an airport
+    if (airports.length > 1 && !AIRPORTS_BY_CODE.has(metroCode)) {
+      const score = metroCode === upper ? 0 : city.startsWith(normalized) ? 1 : -1;
+      if (score >= 0) {
+        scored.push({
+          suggestion: {
+            code: metroCode,
+            name: `${primary.city} (all airports)`,
+            city: primary.city,
+            country: getCountryName(primary.country),
+            type: "city",
+          },
+          score,
+        });
+      }
+    }
+
+    for (const airport of airports) {
+      const airportCity = normalizeText(airport.city);
+      const name = normalizeText(airport.name);
+      const score =
+        airport.iata === upper ? 0
+          : airportCity.startsWith(normalized) || city.startsWith(normalized) ? 2
+            : name.split(/[\s\-/]+/).some((word) => word.startsWith(normalized)) ? 3
+              : airportCity.includes(normalized) || name.includes(normalized) ? 4
+                : -1;
+
+      if (score >= 0) {
+        scored.push({
+          suggestion: {
+            code: airport.iata,
+            name: airport.name,
+            city: airport.city,
+            country: getCountryName(airport.country),
+            type: "airport",
+          },
+          score,
+        });
+      }
+    }
+  }
+
+  // Stable sort keeps dataset order (primary airports first) within a score
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
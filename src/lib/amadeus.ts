@@ -1,4 +1,9 @@
 import Amadeus from "amadeus";
+import { TokenBucket, sleep, getBackoffDelay } from "./rate-limiter";
+import { recordApiCall } from "./api-usage";
+import { getAirportTimezone, getMetroAirports, isSameMetro } from "./airports";
+import { parseDurationMinutes } from "./flight-utils";
+import { localToUtc } from "./timezones";
 
 // Lazy-loaded Amadeus client singleton
 let amadeusClient: InstanceType<typeof Amadeus> | null = null;
@@ -19,15 +24,78 @@ function getAmadeusClient(): InstanceType<typeof Amadeus> {
   return amadeusClient;
 }
 
+// Shared rate limiter for every Amadeus call in this process
+// Defaults stay below the test tier limit of 10 requests/second
+let amadeusLimiter: TokenBucket | null = null;
+
+function getAmadeusLimiter(): TokenBucket {
+  if (!amadeusLimiter) {
+    const perSecond = Number(process.env.AMADEUS_RATE_LIMIT_PER_SECOND) || 5;
+    const burst = Number(process.env.AMADEUS_RATE_LIMIT_BURST) || 3;
+    amadeusLimiter = new TokenBucket(burst, perSecond);
+  }
+  return amadeusLimiter;
+}
+
+const getMaxRetries = () => {
+  const retries = parseInt(process.env.AMADEUS_MAX_RETRIES || "", 10);
+  return Number.isNaN(retries) ? 3 : retries;
+};
+
+type AmadeusEndpoint = "flight-offers" | "locations";
+
+/**
+ * Run an Amadeus API call through the shared rate limiter.
+ * Rate-limit (429) and server (5xx) errors are retried with exponential backoff;
+ * every attempt is counted toward the daily quota.
+ */
+async function callAmadeus<T>(
+  endpoint: AmadeusEndpoint,
+  request: (client: InstanceType<typeof Amadeus>) => Promise<T>
+): Promise<T> {
+  const client = getAmadeusClient();
+  const maxRetries = getMaxRetries();
+
+  for (let attempt = 0; ; attempt++) {
+    await getAmadeusLimiter().acquire();
+
+    try {
+      const result = await request(client);
+      void recordApiCall("amadeus", endpoint, true);
+      return result;
+    } catch (error) {
+      void recordApiCall("amadeus", endpoint, false);
+
+      const parsed = parseAmadeusError(error);
+      if (attempt >= maxRetries || !isRetryableAmadeusError(parsed)) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(attempt);
+      console.warn(`Amadeus ${endpoint} call failed (${parsed.message}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
 // ============================================
 // Type Definitions
 // ============================================
 
+export interface FlightSearchLeg {
+  origin: string; // IATA code
+  destination: string; // IATA code
+  departureDate: string; // YYYY-MM-DD
+}
+
 export interface FlightSearchParams {
   originLocationCode: string; // IATA code
   destinationLocationCode: string; // IATA code
   departureDate: string; // YYYY-MM-DD
   returnDate?: string; // YYYY-MM-DD for round trip
+  // Multi-city / open-jaw itinerary, in travel order. When set, the legs replace
+  // origin/destination/dates (which should mirror the first and last leg).
+  legs?: FlightSearchLeg[];
   adults: number;
   children?: number;
   infants?: number;
@@ -36,13 +104,15 @@ export interface FlightSearchParams {
   currencyCode?: string;
   maxPrice?: number;
   max?: number; // Max results (1-250)
+  includedAirlineCodes?: string[]; // Only these carriers (IATA codes)
+  excludedAirlineCodes?: string[]; // Never these carriers (IATA codes)
 }
 
 export interface FlightSegment {
   departure: {
     iataCode: string;
     terminal?: string;
-    at: string; // ISO datetime
+    at: string; // Airport-local ISO datetime, no offset
   };
   arrival: {
     iataCode: string;
@@ -54,6 +124,7 @@ export interface FlightSegment {
   aircraft: { code: string };
   operating?: { carrierCode: string };
   duration: string; // ISO 8601 duration (PT2H30M)
+  id?: string; // Referenced by travelerPricings[].fareDetailsBySegment[].segmentId
   numberOfStops: number;
 }
 
@@ -135,9 +206,12 @@ export interface AirportSuggestion {
 // Normalized Types (Internal Use)
 // ============================================
 
+// Which flight provider produced a result (see flight-providers.ts)
+export type FlightSource = "amadeus" | "fixture";
+
 export interface NormalizedFlight {
   id: string;
-  source: "amadeus";
+  source: FlightSource;
   price: number;
   currency: string;
   isOneWay: boolean;
@@ -147,29 +221,45 @@ export interface NormalizedFlight {
   totalDuration: string;
   bookableSeats: number;
   lastTicketingDate: string;
+  includedCheckedBags: number | null; // Per passenger on every segment, null if unknown
   raw: FlightOffer; // Keep original for booking
 }
 
-export interface NormalizedLeg {
-  origin: string;
-  destination: string;
+// Times: `departureAt`/`arrivalAt` are airport-local wall-clock times without an
+// offset, exactly as Amadeus returns them. `departureUtc`/`arrivalUtc` are the
+// same moments as UTC instants, resolved with the airports' IANA timezones.
+export interface FlightTimes {
   departureAt: string;
   arrivalAt: string;
+  departureUtc: string;
+  arrivalUtc: string;
+  departureTimeZone?: string; // Undefined when the airport isn't in the dataset
+  arrivalTimeZone?: string;
+}
+
+export interface NormalizedLeg extends FlightTimes {
+  origin: string;
+  destination: string;
   duration: string;
   stops: number;
   segments: NormalizedSegment[];
 }
 
-export interface NormalizedSegment {
+export interface NormalizedSegment extends FlightTimes {
   origin: string;
   destination: string;
-  departureAt: string;
-  arrivalAt: string;
   carrier: string;
   flightNumber: string;
   aircraft: string;
   duration: string;
   cabin?: string;
+  baggage?: BaggageAllowance;
+}
+
+export interface BaggageAllowance {
+  checkedBags: number; // Included checked bags per passenger
+  weight?: number; // Per-bag weight limit when the fare states one
+  weightUnit?: string;
 }
 
 // ============================================
@@ -183,8 +273,6 @@ export async function searchFlights(
   params: FlightSearchParams
 ): Promise<{ flights: NormalizedFlight[]; dictionaries: FlightSearchResponse["dictionaries"] }> {
   try {
-    const amadeus = getAmadeusClient();
-
     // Validate parameters before API call
     validateSearchParams(params);
 
@@ -193,23 +281,35 @@ export async function searchFlights(
       dest: params.destinationLocationCode,
       departure: params.departureDate,
       return: params.returnDate,
+      legs: params.legs?.map((leg) => `${leg.origin}-${leg.destination} ${leg.departureDate}`),
       adults: params.adults,
     });
 
-    const response = await amadeus.shopping.flightOffersSearch.get({
-      originLocationCode: params.originLocationCode,
-      destinationLocationCode: params.destinationLocationCode,
-      departureDate: params.departureDate,
-      returnDate: params.returnDate,
-      adults: params.adults,
-      children: params.children,
-      infants: params.infants,
-      travelClass: params.travelClass,
-      nonStop: params.nonStop,
-      currencyCode: params.currencyCode || "USD",
-      maxPrice: params.maxPrice,
-      max: params.max || 50,
-    });
+    // Multi-city searches need the POST form; simple searches use the GET query
+    const response = await callAmadeus("flight-offers", (amadeus) =>
+      isMultiCitySearch(params)
+        ? amadeus.shopping.flightOffersSearch.post(buildFlightOffersBody(params))
+        : amadeus.shopping.flightOffersSearch.get({
+            originLocationCode: params.originLocationCode,
+            destinationLocationCode: params.destinationLocationCode,
+            departureDate: params.departureDate,
+            returnDate: params.returnDate,
+            adults: params.adults,
+            children: params.children,
+            infants: params.infants,
+            travelClass: params.travelClass,
+            nonStop: params.nonStop,
+            currencyCode: params.currencyCode || "USD",
+            maxPrice: params.maxPrice,
+            max: params.max || 50,
+            // Amadeus rejects both lists together; the provider registry filters the rest
+            ...(params.includedAirlineCodes?.length
+              ? { includedAirlineCodes: params.includedAirlineCodes.join(",") }
+              : params.excludedAirlineCodes?.length
+                ? { excludedAirlineCodes: params.excludedAirlineCodes.join(",") }
+                : {}),
+          })
+    );
 
     // The Amadeus SDK returns the response with data being the array of offers directly
     // and result containing the full response with dictionaries
@@ -235,32 +335,68 @@ export async function searchFlights(
 }
 
 /**
- * Validate search parameters before making API call
+ * Whether the search is a multi-city / open-jaw itinerary
  */
-function validateSearchParams(params: FlightSearchParams): void {
-  // Validate IATA codes (3 uppercase letters)
-  const iataRegex = /^[A-Z]{3}$/;
-
-  if (!iataRegex.test(params.originLocationCode)) {
-    throw new AmadeusError(
-      `Invalid origin airport code: ${params.originLocationCode}`,
-      { code: "INVALID_ORIGIN" }
-    );
-  }
+export function isMultiCitySearch(params: FlightSearchParams): params is FlightSearchParams & { legs: FlightSearchLeg[] } {
+  return !!params.legs && params.legs.length > 1;
+}
 
-  if (!iataRegex.test(params.destinationLocationCode)) {
-    throw new AmadeusError(
-      `Invalid destination airport code: ${params.destinationLocationCode}`,
-      { code: "INVALID_DESTINATION" }
-    );
-  }
+/**
+ * Build the POST body (originDestinations form) for a multi-city search
+ */
+function buildFlightOffersBody(params: FlightSearchParams & { legs: FlightSearchLeg[] }) {
+  const originDestinationIds = params.legs.map((_, index) => String(index + 1));
+
+  // Travelers are numbered adults first; each infant sits on an adult's lap
+  const travelers = [
+    ...Array.from({ length: params.adults }, () => ({ travelerType: "ADULT" })),
+    ...Array.from({ length: params.children || 0 }, () => ({ travelerType: "CHILD" })),
+    ...Array.from({ length: params.infants || 0 }, (_, i) => ({
+      travelerType: "HELD_INFANT",
+      associatedAdultId: String(i + 1),
+    })),
+  ].map((traveler, index) => ({ id: String(index + 1), fareOptions: ["STANDARD"], ...traveler }));
+
+  return {
+    currencyCode: params.currencyCode || "USD",
+    originDestinations: params.legs.map((leg, index) => ({
+      id: originDestinationIds[index],
+      originLocationCode: leg.origin,
+      destinationLocationCode: leg.destination,
+      departureDateTimeRange: { date: leg.departureDate },
+    })),
+    travelers,
+    sources: ["GDS"],
+    searchCriteria: {
+      maxFlightOffers: params.max || 50,
+      ...(params.maxPrice ? { maxPrice: Math.floor(params.maxPrice) } : {}),
+      flightFilters: {
+        ...(params.travelClass
+          ? {
+              cabinRestrictions: [
+                { cabin: params.travelClass, coverage: "MOST_SEGMENTS", originDestinationIds },
+              ],
+            }
+          : {}),
+        ...(params.nonStop ? { connectionRestriction: { maxNumberOfConnections: 0 } } : {}),
+        ...(params.includedAirlineCodes?.length
+          ? { carrierRestrictions: { includedCarrierCodes: params.includedAirlineCodes } }
+          : params.excludedAirlineCodes?.length
+            ? { carrierRestrictions: { excludedCarrierCodes: params.excludedAirlineCodes } }
+            : {}),
+      },
+    },
+  };
+}
 
-  // Validate same origin/destination
-  if (params.originLocationCode === params.destinationLocationCode) {
-    throw new AmadeusError(
-      "Origin and destination cannot be the same",
-      { code: "SAME_ORIGIN_DESTINATION" }
-    );
+/**
+ * Validate search parameters before making API call
+ */
+export function validateSearchParams(params: FlightSearchParams): void {
+  if (isMultiCitySearch(params)) {
+    validateSearchLegs(params.legs);
+  } else {
+    validateRoute(params.originLocationCode, params.destinationLocationCode);
   }
 
   // Validate date format (YYYY-MM-DD)
@@ -286,7 +422,7 @@ function validateSearchParams(params: FlightSearchParams): void {
   }
 
   // Validate return date if provided
-  if (params.returnDate) {
+  if (params.returnDate && !isMultiCitySearch(params)) {
     if (!dateRegex.test(params.returnDate)) {
       throw new AmadeusError(
         `Invalid return date format: ${params.returnDate}`,
@@ -328,6 +464,77 @@ function validateSearchParams(params: FlightSearchParams): void {
   }
 }
 
+/**
+ * Validate an origin/destination pair
+ */
+function validateRoute(origin: string, destination: string): void {
+  // Validate IATA codes (3 uppercase letters)
+  const iataRegex = /^[A-Z]{3}$/;
+
+  if (!iataRegex.test(origin)) {
+    throw new AmadeusError(
+      `Invalid origin airport code: ${origin}`,
+      { code: "INVALID_ORIGIN" }
+    );
+  }
+
+  if (!iataRegex.test(destination)) {
+    throw new AmadeusError(
+      `Invalid destination airport code: ${destination}`,
+      { code: "INVALID_DESTINATION" }
+    );
+  }
+
+  // Validate same origin/destination
+  if (origin === destination) {
+    throw new AmadeusError(
+      "Origin and destination cannot be the same",
+      { code: "SAME_ORIGIN_DESTINATION" }
+    );
+  }
+
+  // Validate airports of the same metro area (e.g. JFK → LGA)
+  if (isSameMetro(origin, destination)) {
+    throw new AmadeusError(
+      `Origin and destination are both in ${getMetroAirports(origin)[0].city}`,
+      { code: "SAME_ORIGIN_DESTINATION" }
+    );
+  }
+}
+
+/**
+ * Validate the legs of a multi-city itinerary
+ */
+function validateSearchLegs(legs: FlightSearchLeg[]): void {
+  // Amadeus accepts at most 6 origin/destination pairs
+  if (legs.length > 6) {
+    throw new AmadeusError(
+      "Multi-city searches support at most 6 flights",
+      { code: "TOO_MANY_LEGS" }
+    );
+  }
+
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+  legs.forEach((leg, index) => {
+    validateRoute(leg.origin, leg.destination);
+
+    if (!dateRegex.test(leg.departureDate)) {
+      throw new AmadeusError(
+        `Invalid date format for flight ${index + 1}: ${leg.departureDate}`,
+        { code: "INVALID_LEG_DATE" }
+      );
+    }
+
+    if (index > 0 && leg.departureDate < legs[index - 1].departureDate) {
+      throw new AmadeusError(
+        `Flight ${index + 1} departs before flight ${index}`,
+        { code: "LEGS_OUT_OF_ORDER" }
+      );
+    }
+  });
+}
+
 /**
  * Parse Amadeus API errors into user-friendly messages
  */
@@ -439,13 +646,12 @@ function parseAmadeusError(error: unknown): AmadeusError {
  */
 export async function searchAirports(keyword: string): Promise<AirportSuggestion[]> {
   try {
-    const amadeus = getAmadeusClient();
-    const response = await amadeus.referenceData.locations.get({
+    const response = await callAmadeus("locations", (amadeus) => amadeus.referenceData.locations.get({
       keyword,
       subType: "AIRPORT,CITY",
       sort: "analytics.travelers.score",
       view: "LIGHT",
-    });
+    }));
 
     return response.data as AirportSuggestion[];
   } catch (error) {
@@ -459,11 +665,10 @@ export async function searchAirports(keyword: string): Promise<AirportSuggestion
  */
 export async function getAirport(iataCode: string): Promise<AirportSuggestion | null> {
   try {
-    const amadeus = getAmadeusClient();
-    const response = await amadeus.referenceData.locations.get({
+    const response = await callAmadeus("locations", (amadeus) => amadeus.referenceData.locations.get({
       keyword: iataCode,
       subType: "AIRPORT",
-    });
+    }));
 
     const airports = response.data as AirportSuggestion[];
     return airports.find((a) => a.iataCode === iataCode) || null;
@@ -480,31 +685,45 @@ export async function getAirport(iataCode: string): Promise<AirportSuggestion |
 /**
  * Normalize Amadeus flight offers to internal format
  */
-function normalizeFlightOffers(offers: FlightOffer[] | undefined | null): NormalizedFlight[] {
+export function normalizeFlightOffers(
+  offers: FlightOffer[] | undefined | null,
+  source: FlightSource = "amadeus"
+): NormalizedFlight[] {
   if (!offers || offers.length === 0) {
     return [];
   }
   return offers.map((offer) => {
+    // Fare details of the first (adult) traveler, keyed by segment id
+    const fareDetails = new Map(
+      (offer.travelerPricings?.[0]?.fareDetailsBySegment ?? []).map((detail) => [detail.segmentId, detail])
+    );
+
     const legs = offer.itineraries.map((itinerary): NormalizedLeg => {
-      const firstSegment = itinerary.segments[0];
-      const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+      const segmentTimes = itinerary.segments.map(resolveSegmentTimes);
+      const firstTimes = segmentTimes[0];
+      const lastTimes = segmentTimes[segmentTimes.length - 1];
 
       return {
-        origin: firstSegment.departure.iataCode,
-        destination: lastSegment.arrival.iataCode,
-        departureAt: firstSegment.departure.at,
-        arrivalAt: lastSegment.arrival.at,
+        origin: itinerary.segments[0].departure.iataCode,
+        destination: itinerary.segments[itinerary.segments.length - 1].arrival.iataCode,
+        departureAt: firstTimes.departureAt,
+        arrivalAt: lastTimes.arrivalAt,
+        departureUtc: firstTimes.departureUtc,
+        arrivalUtc: lastTimes.arrivalUtc,
+        departureTimeZone: firstTimes.departureTimeZone,
+        arrivalTimeZone: lastTimes.arrivalTimeZone,
         duration: itinerary.duration,
         stops: itinerary.segments.length - 1,
-        segments: itinerary.segments.map((seg): NormalizedSegment => ({
+        segments: itinerary.segments.map((seg, index): NormalizedSegment => ({
           origin: seg.departure.iataCode,
           destination: seg.arrival.iataCode,
-          departureAt: seg.departure.at,
-          arrivalAt: seg.arrival.at,
+          ...segmentTimes[index],
           carrier: seg.carrierCode,
           flightNumber: `${seg.carrierCode}${seg.number}`,
           aircraft: seg.aircraft.code,
           duration: seg.duration,
+          cabin: seg.id ? fareDetails.get(seg.id)?.cabin : undefined,
+          baggage: normalizeBaggage(seg.id ? fareDetails.get(seg.id)?.includedCheckedBags : undefined),
         })),
       };
     });
@@ -518,11 +737,11 @@ function normalizeFlightOffers(offers: FlightOffer[] | undefined | null): Normal
 
     return {
       id: offer.id,
-      source: "amadeus" as const,
+      source,
       price: parseFloat(offer.price.grandTotal),
       currency: offer.price.currency,
       isOneWay: offer.oneWay,
-      isMultiCity: offer.itineraries.length > 2,
+      isMultiCity: isMultiCityItinerary(legs),
       legs,
       airlines,
       totalDuration: offer.itineraries
@@ -530,27 +749,79 @@ function normalizeFlightOffers(offers: FlightOffer[] | undefined | null): Normal
         .join(" + "),
       bookableSeats: offer.numberOfBookableSeats,
       lastTicketingDate: offer.lastTicketingDate,
+      includedCheckedBags: getIncludedCheckedBags(legs),
       raw: offer,
     };
   });
 }
 
 /**
- * Parse ISO 8601 duration to human readable
+ * Resolve a segment's local times to UTC. When only one airport's timezone is
+ * known, the other end is derived from the segment duration; with neither,
+ * the local times are treated as UTC.
  */
-export function formatDuration(isoDuration: string): string {
-  const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
-  if (!match) return isoDuration;
+function resolveSegmentTimes(seg: FlightSegment): FlightTimes {
+  const departureTimeZone = getAirportTimezone(seg.departure.iataCode);
+  const arrivalTimeZone = getAirportTimezone(seg.arrival.iataCode);
+  const durationMs = parseDurationMinutes(seg.duration) * 60000;
+
+  const departureUtc = departureTimeZone
+    ? localToUtc(seg.departure.at, departureTimeZone)
+    : arrivalTimeZone && durationMs
+      ? new Date(Date.parse(localToUtc(seg.arrival.at, arrivalTimeZone)) - durationMs).toISOString()
+      : localToUtc(seg.departure.at, "UTC");
+  const arrivalUtc = arrivalTimeZone
+    ? localToUtc(seg.arrival.at, arrivalTimeZone)
+    : durationMs
+      ? new Date(Date.parse(departureUtc) + durationMs).toISOString()
+      : localToUtc(seg.arrival.at, "UTC");
+
+  return {
+    departureAt: seg.departure.at,
+    arrivalAt: seg.arrival.at,
+    departureUtc,
+    arrivalUtc,
+    departureTimeZone,
+    arrivalTimeZone,
+  };
+}
 
-  const hours = match[1] ? parseInt(match[1]) : 0;
-  const minutes = match[2] ? parseInt(match[2]) : 0;
+/**
+ * Convert an Amadeus includedCheckedBags entry. Weight-only allowances
+ * ("23 KG") mean one bag up to that weight.
+ */
+function normalizeBaggage(
+  bags: { weight?: number; weightUnit?: string; quantity?: number } | undefined
+): BaggageAllowance | undefined {
+  if (!bags) return undefined;
+  const checkedBags = bags.quantity ?? (bags.weight ? 1 : 0);
+  return {
+    checkedBags,
+    ...(bags.weight ? { weight: bags.weight, weightUnit: bags.weightUnit } : {}),
+  };
+}
 
-  if (hours && minutes) return `${hours}h ${minutes}m`;
-  if (hours) return `${hours}h`;
-  if (minutes) return `${minutes}m`;
-  return isoDuration;
+/**
+ * Bags included on every segment (the allowance you can rely on end to end)
+ */
+function getIncludedCheckedBags(legs: NormalizedLeg[]): number | null {
+  const segments = legs.flatMap((leg) => leg.segments);
+  if (segments.length === 0 || segments.some((segment) => !segment.baggage)) return null;
+  return Math.min(...segments.map((segment) => segment.baggage!.checkedBags));
 }
 
+/**
+ * More than two legs, or two legs that aren't a simple out-and-back (open jaw)
+ */
+function isMultiCityItinerary(legs: NormalizedLeg[]): boolean {
+  if (legs.length > 2) return true;
+  if (legs.length < 2) return false;
+  return legs[1].origin !== legs[0].destination || legs[1].destination !== legs[0].origin;
+}
+
+// Re-export client-safe formatting for convenience
+export { formatDuration } from "./flight-utils";
+
 // ============================================
 // Error Handling
 // ============================================
@@ -565,6 +836,15 @@ export class AmadeusError extends Error {
   }
 }
 
+/**
+ * Whether a failed call is worth retrying (rate limited or server error)
+ */
+function isRetryableAmadeusError(error: AmadeusError): boolean {
+  const details = error.originalError as { statusCode?: number } | undefined;
+  const statusCode = details?.statusCode;
+  return statusCode === 429 || (statusCode !== undefined && statusCode >= 500);
+}
+
 /**
  * Check if Amadeus is configured
  */
@@ -0,0 +1,104 @@
+/**
+ * API Usage Accounting
+ *
+ * Persists a daily call counter per provider/endpoint so quota consumption
+ * can be monitored from the settings page.
+ */
+
+import { prisma } from "./db";
+
+export type ApiProvider = "amadeus";
+
+const DEFAULT_AMADEUS_MONTHLY_QUOTA = 2000;
+
+export interface ApiUsageSummary {
+  provider: ApiProvider;
+  today: number;
+  monthToDate: number;
+  monthlyQuota: number;
+  errorsToday: number;
+  daily: Array<{ date: string; calls: number; errors: number }>;
+  byEndpoint: Array<{ endpoint: string; calls: number }>; // Month to date
+}
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+export function getMonthlyQuota(provider: ApiProvider): number {
+  switch (provider) {
+    case "amadeus": {
+      const quota = parseInt(process.env.AMADEUS_MONTHLY_QUOTA || "", 10);
+      return Number.isNaN(quota) ? DEFAULT_AMADEUS_MONTHLY_QUOTA : quota;
+    }
+  }
+}
+
+/**
+ * Count a single API call (including retries) against today's usage
+ */
+export async function recordApiCall(
+  provider: ApiProvider,
+  endpoint: string,
+  success: boolean
+): Promise<void> {
+  try {
+    const date = toDateKey(new Date());
+    await prisma.apiUsage.upsert({
+      where: { provider_endpoint_date: { provider, endpoint, date } },
+      create: { provider, endpoint, date, calls: 1, errors: success ? 0 : 1 },
+      update: {
+        calls: { increment: 1 },
+        ...(success ? {} : { errors: { increment: 1 } }),
+      },
+    });
+  } catch (error) {
+    // Usage tracking must never break the API call itself
+    console.error("Failed to record API usage:", error);
+  }
+}
+
+/**
+ * Summarize usage for today, the current month and the last N days
+ */
+export async function getApiUsageSummary(provider: ApiProvider, days = 30): Promise<ApiUsageSummary> {
+  const now = new Date();
+  const today = toDateKey(now);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const rangeStart = new Date(now);
+  rangeStart.setUTCDate(rangeStart.getUTCDate() - (days - 1));
+  const since = [toDateKey(rangeStart), monthStart].sort()[0];
+
+  const rows = await prisma.apiUsage.findMany({
+    where: { provider, date: { gte: since } },
+    orderBy: { date: "asc" },
+  });
+
+  const dailyMap = new Map<string, { calls: number; errors: number }>();
+  const endpointMap = new Map<string, number>();
+  let monthToDate = 0;
+
+  for (const row of rows) {
+    const day = dailyMap.get(row.date) || { calls: 0, errors: 0 };
+    day.calls += row.calls;
+    day.errors += row.errors;
+    dailyMap.set(row.date, day);
+
+    if (row.date >= monthStart) {
+      monthToDate += row.calls;
+      endpointMap.set(row.endpoint, (endpointMap.get(row.endpoint) || 0) + row.calls);
+    }
+  }
+
+  const daily = Array.from(dailyMap.entries())
+    .filter(([date]) => date >= toDateKey(rangeStart))
+    .map(([date, counts]) => ({ date, ...counts }));
+
+  return {
+    provider,
+    today: dailyMap.get(today)?.calls || 0,
+    monthToDate,
+    monthlyQuota: getMonthlyQuota(provider),
+    errorsToday: dailyMap.get(today)?.errors || 0,
+    daily,
+    byEndpoint: Array.from(endpointMap.entries()).map(([endpoint, calls]) => ({ endpoint, calls })),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Baggage fees - client-safe
+ *
+ * Estimates what a fare really costs once the traveler's checked bags are
+ * added. Included allowances come from the offer (see normalizeFlightOffers);
+ * fees for extra bags come from a local per-carrier table of typical
+ * one-way, per-passenger prices in USD.
+ */
+
+import type { NormalizedFlight, NormalizedLeg } from "./amadeus";
+
+const STORAGE_KEY = "checkedBags";
+export const MAX_CHECKED_BAGS = 3;
+
+interface BagFee {
+  first: number; // First checked bag
+  additional: number; // Each bag after the first
+}
+
+// Typical published fees (USD, one way, per passenger) - estimates only
+const CARRIER_BAG_FEES: Record<string, BagFee> = {
+  // North America
+  AA: { first: 40, additional: 45 },
+  UA: { first: 40, additional: 50 },
+  DL: { first: 35, additional: 45 },
+  B6: { first: 45, additional: 60 },
+  AS: { first: 35, additional: 45 },
+  WN: { first: 0, additional: 0 },
+  NK: { first: 55, additional: 70 },
+  F9: { first: 55, additional: 75 },
+  AC: { first: 35, additional: 50 },
+  // Latin America
+  AR: { first: 35, additional: 50 },
+  LA: { first: 40, additional: 55 },
+  CM: { first: 40, additional: 60 },
+  AV: { first: 45, additional: 60 },
+  G3: { first: 35, additional: 50 },
+  AD: { first: 35, additional: 50 },
+  // Europe
+  IB: { first: 45, additional: 65 },
+  UX: { first: 50, additional: 65 },
+  TP: { first: 45, additional: 65 },
+  BA: { first: 65, additional: 75 },
+  AF: { first: 55, additional: 75 },
+  KL: { first: 55, additional: 75 },
+  LH: { first: 60, additional: 80 },
+  TK: { first: 40, additional: 60 },
+  FR: { first: 45, additional: 55 },
+  U2: { first: 40, additional: 50 },
+  VY: { first: 35, additional: 45 },
+  // Middle East / Asia
+  EK: { first: 60, additional: 80 },
+  QR: { first: 60, additional: 80 },
+  NH: { first: 0, additional: 100 },
+  JL: { first: 0, additional: 100 },
+};
+
+const DEFAULT_BAG_FEE: BagFee = { first: 50, additional: 70 };
+
+export interface EffectivePrice {
+  total: number; // Fare plus estimated bag fees
+  bagFees: number; // Estimated fees for bags not included in the fare
+  isEstimate: boolean; // Fees came from the local table or the allowance was unknown
+}
+
+export function getCarrierBagFee(carrier: string): BagFee {
+  return CARRIER_BAG_FEES[carrier] ?? DEFAULT_BAG_FEE;
+}
+
+// Bags included on every segment of a leg (unknown counts as none)
+function getLegIncludedBags(leg: NormalizedLeg): { bags: number; known: boolean } {
+  const allowances = leg.segments.map((segment) => segment.baggage?.checkedBags);
+  if (allowances.some((bags) => bags === undefined)) {
+    return { bags: 0, known: false };
+  }
+  return { bags: Math.min(...(allowances as number[])), known: true };
+}
+
+// Passengers that get their own bag allowance (lap infants don't)
+function getBagPassengerCount(flight: NormalizedFlight): number {
+  const travelers = flight.raw?.travelerPricings?.filter((pricing) => pricing.travelerType !== "HELD_INFANT");
+  return travelers && travelers.length > 0 ? travelers.length : 1;
+}
+
+/**
+ * Price of a flight once `checkedBags` bags per passenger are checked on every leg
+ */
+export function getEffectivePrice(flight: NormalizedFlight, checkedBags: number): EffectivePrice {
+  if (checkedBags <= 0) {
+    return { total: flight.price, bagFees: 0, isEstimate: false };
+  }
+
+  const passengers = getBagPassengerCount(flight);
+  let bagFees = 0;
+  let isEstimate = false;
+
+  for (const leg of flight.legs) {
+    const included = getLegIncludedBags(leg);
+    if (!included.known) isEstimate = true;
+
+    const fee = getCarrierBagFee(leg.segments[0]?.carrier ?? "");
+    for (let bag = included.bags + 1; bag <= checkedBags; bag++) {
+      bagFees += (bag === 1 ? fee.first : fee.additional) * passengers;
+      isEstimate = true;
+    }
+  }
+
+  return { total: flight.price + bagFees, bagFees, isEstimate };
+}
+
+// ============================================
+// User setting (localStorage)
+// ============================================
+
+export function getCheckedBagsSetting(): number {
+  if (typeof window === "undefined") return 0;
+
+  try {
+    const value = parseInt(localStorage.getItem(STORAGE_KEY) || "0", 10);
+    return Number.isNaN(value) ? 0 : Math.min(Math.max(value, 0), MAX_CHECKED_BAGS);
+  } catch (e) {
+    console.error("Failed to load checked bags setting:", e);
+    return 0;
+  }
+}
+
+export function setCheckedBagsSetting(bags: number): void {
+  localStorage.setItem(STORAGE_KEY, String(Math.min(Math.max(bags, 0), MAX_CHECKED_BAGS)));
+}
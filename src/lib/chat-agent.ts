@@ -0,0 +1,605 @@
+/**
+ * Chat Agent
+ *
+ * Tool-calling loop behind the chat. Read-only tools (route comparison,
+ * search history, saved searches, tasks, alerts) run on the server; tools that
+ * write data are returned as a pending action the user confirms in the chat
+ * before the client sends it to /api/tasks, /api/alerts or /api/saved-searches.
+ */
+
+import { z } from "zod";
+import type OpenAI from "openai";
+import { prisma } from "./db";
+import { OpenAIServiceError, type ConversationContext, type ParsedTravelQuery } from "./openai";
+import { createCompletion } from "./llm";
+import { searchMultiCityRoutes, type MultiCitySearchResult } from "./multi-city";
+import { getActiveRankingSettings } from "./ranking-presets";
+import { listSearchHistory } from "./search-history";
+import { listSavedSearches, findSavedSearch, SavedSearchTagsSchema } from "./saved-searches";
+import { isValidCron, describeCronSchedule } from "./scheduler";
+import { formatPassengerMix } from "./flight-utils";
+import { isFlightSearchConfigured } from "./flight-providers";
+
+// Model/tool round trips before giving up on a request
+const MAX_TOOL_ROUNDS = 4;
+
+// ============================================
+// Tool Schemas
+// ============================================
+
+const iataCode = () => z.string().regex(/^[A-Za-z]{3}$/, "Must be a 3-letter IATA code").transform((v) => v.toUpperCase());
+const isoDate = () => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+const travelClass = () => z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]);
+
+// LLMs send null for fields they leave out; treat it as "not given"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((v) => v ?? undefined);
+
+const CompareRoutesArgsSchema = z.object({
+  origin: iataCode(),
+  destination: iataCode(),
+  departureDate: isoDate(),
+  returnDate: optional(isoDate()),
+  adults: optional(z.number().int().min(1).max(9)),
+  travelClass: optional(travelClass()),
+});
+
+const HistoryArgsSchema = z.object({
+  limit: optional(z.number().int().min(1).max(20)),
+});
+
+const ListSavedSearchesArgsSchema = z.object({
+  tag: optional(z.string().min(1)),
+});
+
+const RunSavedSearchArgsSchema = z.object({
+  name: z.string().min(1),
+});
+
+const SaveSearchArgsSchema = z.object({
+  name: optional(z.string().trim().min(1).max(100)),
+  tags: optional(SavedSearchTagsSchema),
+});
+
+const ListTasksArgsSchema = z.object({
+  activeOnly: optional(z.boolean()),
+});
+
+const passengerFields = {
+  adults: z.number().int().min(1).max(9).nullish().transform((v) => v ?? 1),
+  children: z.number().int().min(0).max(9).nullish().transform((v) => v ?? 0),
+  infants: z.number().int().min(0).max(9).nullish().transform((v) => v ?? 0),
+  travelClass: travelClass().nullish().transform((v) => v ?? "ECONOMY"),
+  nonStop: z.boolean().nullish().transform((v) => v ?? false),
+};
+
+const CreateTaskArgsSchema = z.object({
+  name: optional(z.string().min(1).max(100)),
+  origin: iataCode(),
+  destination: iataCode(),
+  departureDate: z.string().regex(/^(\d{4}-\d{2}-\d{2}|\+\d+[dwm])$/, "Date must be YYYY-MM-DD or relative like +30d"),
+  returnDate: optional(isoDate()),
+  ...passengerFields,
+  cronExpr: z.string().refine(isValidCron, "Invalid cron expression"),
+  priceTarget: optional(z.number().positive()),
+}).refine((data) => data.infants <= data.adults, {
+  message: "Each infant must travel with an adult",
+  path: ["infants"],
+});
+
+const CreateAlertArgsSchema = z.object({
+  origin: iataCode(),
+  destination: iataCode(),
+  departureDate: isoDate(),
+  returnDate: optional(isoDate()),
+  ...passengerFields,
+  targetPrice: z.number().positive(),
+  currentPrice: optional(z.number().positive()),
+  currency: optional(z.string().length(3)),
+}).refine((data) => data.infants <= data.adults, {
+  message: "Each infant must travel with an adult",
+  path: ["infants"],
+});
+
+const toolParameters = (schema: z.ZodTypeAny) => {
+  const parameters = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as Record<string, unknown>;
+  delete parameters.$schema; // Function parameters are a bare JSON schema object
+  return parameters;
+};
+
+const CHAT_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "search_flights",
+      description: "Search for flights, or refine/change the current search (dates, cabin, passengers, airlines, stops). Use for any request to find flights or prices.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "compare_routes",
+      description: "Compare the direct route with self-transfer routes via stopover hubs that may be cheaper.",
+      parameters: toolParameters(CompareRoutesArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_search_history",
+      description: "List the most recent searches with their cheapest price.",
+      parameters: toolParameters(HistoryArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_saved_searches",
+      description: "List the user's saved searches (name, prompt, route, dates, tags, pinned), optionally only those with a tag.",
+      parameters: toolParameters(ListSavedSearchesArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "run_saved_search",
+      description: "Run one of the user's saved searches, found by its name or part of it.",
+      parameters: toolParameters(RunSavedSearchArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "save_search",
+      description: "Save the last search in this conversation to the user's saved searches, with an optional name and tags. Requires user confirmation.",
+      parameters: toolParameters(SaveSearchArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_tasks",
+      description: "List scheduled price-tracking tasks with their schedule, target and last run.",
+      parameters: toolParameters(ListTasksArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_alerts",
+      description: "List active price alerts.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "create_task",
+      description: "Create a scheduled task that re-checks a route on a cron schedule (or the adaptive auto schedule) and notifies when the price drops below priceTarget. Requires user confirmation.",
+      parameters: toolParameters(CreateTaskArgsSchema),
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "create_alert",
+      description: "Create a price alert that notifies once the route drops below targetPrice. Requires user confirmation.",
+      parameters: toolParameters(CreateAlertArgsSchema),
+    },
+  },
+];
+
+// ============================================
+// Types
+// ============================================
+
+export type CreateTaskInput = z.infer<typeof CreateTaskArgsSchema> & { name: string };
+export type CreateAlertInput = z.infer<typeof CreateAlertArgsSchema> & { currentPrice: number; currency: string };
+export type SaveSearchInput = z.infer<typeof SaveSearchArgsSchema> & { searchId: string };
+
+// A write the assistant proposes; the client sends the payload to the endpoint once confirmed
+export type ChatAgentAction =
+  | { type: "create_task"; endpoint: "/api/tasks"; payload: CreateTaskInput; summary: string }
+  | { type: "create_alert"; endpoint: "/api/alerts"; payload: CreateAlertInput; summary: string }
+  | { type: "save_search"; endpoint: "/api/saved-searches"; payload: SaveSearchInput; summary: string };
+
+export type ChatAgentResult =
+  | {
+      kind: "search"; // Handled by the conversational search flow
+      savedSearch?: { id: string; name: string; query: string; parsedQuery: ParsedTravelQuery | null }; // Run this saved search instead of the message
+    }
+  | {
+      kind: "reply";
+      content: string;
+      action?: ChatAgentAction;
+      routeComparison?: MultiCitySearchResult;
+    };
+
+interface LastSearch {
+  origin?: string;
+  destination?: string;
+  departureDate?: string;
+  returnDate?: string;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: string;
+  nonStop: boolean;
+  cheapestPrice?: number;
+  currency?: string;
+}
+
+// ============================================
+// Context
+// ============================================
+
+/**
+ * The search "this" refers to, with the cheapest price it found
+ */
+async function getLastSearch(context: ConversationContext & { previousSearchId?: string }): Promise<LastSearch | null> {
+  const { previousQuery, previousResolved, previousSearchId } = context;
+  if (!previousQuery || !previousSearchId) return null;
+
+  const cheapest = await prisma.flightResult.findFirst({
+    where: { searchId: previousSearchId },
+    orderBy: { price: "asc" },
+    select: { price: true, currency: true },
+  });
+
+  return {
+    origin: previousResolved?.origin ?? previousQuery.origin.iataCode,
+    destination: previousResolved?.destination ?? previousQuery.destination.iataCode,
+    departureDate: previousResolved?.departureDate,
+    returnDate: previousResolved?.returnDate,
+    adults: previousQuery.passengers.adults,
+    children: previousQuery.passengers.children,
+    infants: previousQuery.passengers.infants,
+    travelClass: previousQuery.preferences.cabinClass,
+    nonStop: previousQuery.preferences.directFlightsOnly,
+    cheapestPrice: cheapest?.price,
+    currency: cheapest?.currency,
+  };
+}
+
+const buildAgentPrompt = (currentDate: string, lastSearch: LastSearch | null) => `You are the travel assistant of a personal flight price tracker. You help the user search flights, compare routes and set up price tracking.
+
+## Current Context
+- Today's date: ${currentDate}
+- Last search in this conversation: ${lastSearch ? JSON.stringify(lastSearch) : "none"}
+
+## Tools
+- search_flights: any request to find flights or to change the current search ("a week later?", "make it nonstop", "what about Rome?")
+- compare_routes: cheaper alternatives via a stopover city
+- get_search_history, list_tasks, list_alerts: answer questions about past searches, tracking tasks and alerts
+- list_saved_searches, run_saved_search: the user's saved searches ("what have I saved?", "run my Tokyo search")
+- save_search: keep the last search for later ("save this", "bookmark it as summer trip")
+- create_task: recurring tracking ("track this every morning", "check it twice a day")
+- create_alert: one-off price alerts without a schedule ("let me know if it drops below 300")
+
+## Rules
+- "this", "it" and "that flight" refer to the last search; reuse its origin, destination, dates, passengers, cabin and nonStop
+- Schedules are 5-field cron expressions: "every morning" → "0 9 * * *", "twice a day" → "0 9,18 * * *", "every 6 hours" → "0 */6 * * *", "weekly" → "0 9 * * 1"
+- Use the schedule "auto" when the user wants checks to adapt ("check as often as it makes sense", "smart schedule"); it checks more often near departure and when prices move
+- "ping me under 400" / "tell me below 400" → priceTarget (task) or targetPrice (alert) of 400
+- For alerts, currentPrice is the last search's cheapest price
+- Never say something was created or saved: tasks, alerts and saved searches only exist after the user confirms them
+- If details are missing (route, date, schedule), ask a short question instead of guessing
+- Answer briefly and in the user's language`;
+
+// ============================================
+// Tool Execution
+// ============================================
+
+async function runReadTool(
+  name: string,
+  args: unknown
+): Promise<{ result: unknown; routeComparison?: MultiCitySearchResult }> {
+  switch (name) {
+    case "compare_routes": {
+      if (!isFlightSearchConfigured()) {
+        return { result: { error: "Flight search service not configured" } };
+      }
+      const params = CompareRoutesArgsSchema.parse(args);
+      const comparison = await searchMultiCityRoutes({
+        ...params,
+        adults: params.adults ?? 1,
+        travelClass: params.travelClass ?? "ECONOMY",
+        maxHubs: 3,
+        ranking: await getActiveRankingSettings(),
+      });
+      const summarize = (route: MultiCitySearchResult["bestRoute"]) =>
+        route && {
+          via: route.stopoverHub?.code,
+          totalPrice: route.totalPrice,
+          currency: route.currency,
+          savingsVsDirect: route.savingsVsDirect,
+          totalDuration: route.totalDuration,
+          score: route.score,
+          warnings: route.warnings,
+        };
+      return {
+        result: {
+          direct: summarize(comparison.directRoute),
+          stopovers: comparison.stopoverRoutes.map(summarize),
+          best: summarize(comparison.bestRoute),
+        },
+        routeComparison: comparison,
+      };
+    }
+
+    case "get_search_history": {
+      const { limit } = HistoryArgsSchema.parse(args);
+      const { searches, total } = await listSearchHistory(limit ?? 10);
+      return {
+        result: {
+          total,
+          searches: searches.map(({ rawPrompt, origin, destination, departureDate, returnDate, cheapestPrice, currency, createdAt, hasTask }) => ({
+            rawPrompt, origin, destination, departureDate, returnDate, cheapestPrice, currency, createdAt, hasTask,
+          })),
+        },
+      };
+    }
+
+    case "list_saved_searches": {
+      const { tag } = ListSavedSearchesArgsSchema.parse(args);
+      const searches = await listSavedSearches({ tag });
+      return {
+        result: searches.map(({ name, query, origin, destination, departureDate, returnDate, tags, pinned }) => ({
+          name, query, origin, destination, departureDate, returnDate, tags, pinned,
+        })),
+      };
+    }
+
+    case "list_tasks": {
+      const { activeOnly } = ListTasksArgsSchema.parse(args);
+      const tasks = await prisma.scheduledTask.findMany({
+        where: activeOnly ? { active: true } : undefined,
+        select: {
+          name: true,
+          origin: true,
+          destination: true,
+          departureDate: true,
+          returnDate: true,
+          cronExpr: true,
+          priceTarget: true,
+          active: true,
+          lastRun: true,
+          nextRun: true,
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+      return {
+        result: tasks.map((task) => ({ ...task, schedule: describeCronSchedule(task.cronExpr) })),
+      };
+    }
+
+    case "list_alerts": {
+      const alerts = await prisma.priceAlert.findMany({
+        where: { active: true, expiresAt: { gt: new Date() } },
+        select: {
+          origin: true,
+          destination: true,
+          departureDate: true,
+          returnDate: true,
+          targetPrice: true,
+          currentPrice: true,
+          currency: true,
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+      return { result: alerts };
+    }
+
+    default:
+      return { result: { error: `Unknown tool: ${name}` } };
+  }
+}
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+
+const describeTrip = (trip: {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: string;
+  nonStop: boolean;
+}) =>
+  [
+    `${trip.origin} → ${trip.destination}`,
+    trip.returnDate ? `${trip.departureDate} to ${trip.returnDate}` : `${trip.departureDate}, one way`,
+    formatPassengerMix(trip),
+    trip.travelClass.toLowerCase().replace("_", " "),
+    ...(trip.nonStop ? ["non-stop"] : []),
+  ].join(" · ");
+
+/**
+ * Validate a proposed write into a pending action, or return the problem for the model
+ */
+function buildAction(
+  name: string,
+  args: unknown,
+  lastSearch: LastSearch | null,
+  lastSearchId?: string
+): { action: ChatAgentAction } | { error: string } {
+  if (name === "save_search") {
+    const parsed = SaveSearchArgsSchema.safeParse(args);
+    if (!parsed.success) return { error: z.prettifyError(parsed.error) };
+    if (!lastSearch || !lastSearchId) {
+      return { error: "There is no search in this conversation to save - search first (search_flights)" };
+    }
+
+    const payload: SaveSearchInput = { ...parsed.data, searchId: lastSearchId };
+    const label = payload.name ? `"${payload.name}"` : `${lastSearch.origin} → ${lastSearch.destination}`;
+    const tags = payload.tags?.length ? ` tagged ${payload.tags.join(", ")}` : "";
+    return {
+      action: {
+        type: "save_search",
+        endpoint: "/api/saved-searches",
+        payload,
+        summary: `Save ${label}${tags} to your saved searches`,
+      },
+    };
+  }
+
+  if (name === "create_task") {
+    const parsed = CreateTaskArgsSchema.safeParse(args);
+    if (!parsed.success) return { error: z.prettifyError(parsed.error) };
+
+    const payload: CreateTaskInput = {
+      ...parsed.data,
+      name: parsed.data.name ?? `${parsed.data.origin} → ${parsed.data.destination} ${parsed.data.departureDate}`,
+    };
+    const target = payload.priceTarget
+      ? `, notify below ${formatMoney(payload.priceTarget, lastSearch?.currency ?? "USD")}`
+      : "";
+    return {
+      action: {
+        type: "create_task",
+        endpoint: "/api/tasks",
+        payload,
+        summary: `Track ${describeTrip(payload)} — ${describeCronSchedule(payload.cronExpr).toLowerCase()}${target}`,
+      },
+    };
+  }
+
+  const parsed = CreateAlertArgsSchema.safeParse(args);
+  if (!parsed.success) return { error: z.prettifyError(parsed.error) };
+
+  // The alert route needs today's price; it's the last search's when the route matches
+  const sameRoute = lastSearch?.origin === parsed.data.origin && lastSearch?.destination === parsed.data.destination;
+  const currentPrice = parsed.data.currentPrice ?? (sameRoute ? lastSearch?.cheapestPrice : undefined);
+  if (!currentPrice) {
+    return { error: "currentPrice is unknown for this route - search it first (search_flights) or ask the user" };
+  }
+
+  const payload: CreateAlertInput = {
+    ...parsed.data,
+    currentPrice,
+    currency: parsed.data.currency ?? (sameRoute ? lastSearch?.currency : undefined) ?? "USD",
+  };
+  return {
+    action: {
+      type: "create_alert",
+      endpoint: "/api/alerts",
+      payload,
+      summary: `Alert me when ${describeTrip(payload)} drops below ${formatMoney(payload.targetPrice, payload.currency)} (now ${formatMoney(payload.currentPrice, payload.currency)})`,
+    },
+  };
+}
+
+// ============================================
+// Agent Loop
+// ============================================
+
+/**
+ * Answer a chat message, calling tools as needed. Stops at the first write,
+ * which is handed back for confirmation instead of being executed.
+ */
+export async function runChatAgent(
+  message: string,
+  context: ConversationContext & { previousSearchId?: string }
+): Promise<ChatAgentResult> {
+  const currentDate = new Date().toISOString().split("T")[0];
+  const lastSearch = await getLastSearch(context);
+
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    { role: "system", content: buildAgentPrompt(currentDate, lastSearch) },
+    ...context.history.map((turn) => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: message },
+  ];
+  let routeComparison: MultiCitySearchResult | undefined;
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    let reply: OpenAI.Chat.Completions.ChatCompletionMessage;
+    try {
+      const completion = await createCompletion("chat", {
+        messages,
+        tools: CHAT_TOOLS,
+        tool_choice: "auto",
+      });
+      reply = completion.choices[0].message;
+    } catch (error) {
+      console.error("OpenAI chat agent error:", error);
+      throw new OpenAIServiceError("Failed to process chat message", error);
+    }
+
+    const toolCalls = (reply.tool_calls ?? []).filter((call) => call.type === "function");
+    if (toolCalls.length === 0) {
+      return { kind: "reply", content: reply.content || "Sorry, I didn't catch that.", routeComparison };
+    }
+
+    messages.push(reply);
+
+    for (const call of toolCalls) {
+      const name = call.function.name;
+      console.log("Chat agent tool call:", name, call.function.arguments);
+
+      if (name === "search_flights") {
+        return { kind: "search" };
+      }
+
+      let args: unknown;
+      try {
+        args = JSON.parse(call.function.arguments || "{}");
+      } catch {
+        args = {};
+      }
+
+      if (name === "run_saved_search") {
+        const parsed = RunSavedSearchArgsSchema.safeParse(args);
+        const saved = parsed.success ? await findSavedSearch(parsed.data.name) : null;
+        if (saved) {
+          return {
+            kind: "search",
+            savedSearch: { id: saved.id, name: saved.name, query: saved.query, parsedQuery: saved.parsedQuery },
+          };
+        }
+        messages.push({
+          role: "tool",
+          tool_call_id: call.id,
+          content: JSON.stringify({ error: "No saved search with that name - list_saved_searches shows them" }),
+        });
+        continue;
+      }
+
+      let result: unknown;
+      if (name === "create_task" || name === "create_alert" || name === "save_search") {
+        const built = buildAction(name, args, lastSearch, context.previousSearchId);
+        if ("action" in built) {
+          return {
+            kind: "reply",
+            content: `${built.action.summary}.\n\nShall I go ahead?`,
+            action: built.action,
+            routeComparison,
+          };
+        }
+        result = { error: built.error };
+      } else {
+        try {
+          const executed = await runReadTool(name, args);
+          result = executed.result;
+          routeComparison = executed.routeComparison ?? routeComparison;
+        } catch (error) {
+          console.error(`Chat agent tool ${name} failed:`, error);
+          result = { error: error instanceof z.ZodError ? z.prettifyError(error) : "Tool failed" };
+        }
+      }
+
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+  }
+
+  return {
+    kind: "reply",
+    content: "Sorry, I couldn't complete that request. Could you rephrase it?",
+    routeComparison,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Conversations
+ *
+ * Loads the recent transcript and the last search of a conversation so
+ * follow-up messages ("what about a week later?") can refine it, names new
+ * conversations, and restores the flight results linked to stored messages.
+ */
+
+import { db } from "./db";
+import { normalizeFlightOffers, type FlightOffer, type FlightSource, type NormalizedFlight } from "./amadeus";
+import type { AirlinePreferences } from "./flight-utils";
+import {
+  TravelQuerySchema,
+  generateConversationTitle,
+  isOpenAIConfigured,
+  type ConversationContext,
+  type ConversationTurn,
+  type ParsedTravelQuery,
+} from "./openai";
+
+// How many earlier messages the parser sees
+const HISTORY_LIMIT = 12;
+
+// Flight cards restored per search when a conversation is reopened
+const RESTORED_RESULTS_LIMIT = 10;
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null; // Null until the first message names it
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredFlightResults {
+  searchId: string;
+  flights: NormalizedFlight[];
+  totalCount: number; // Results stored for the search, of which `flights` are the cheapest
+  parsedQuery?: ParsedTravelQuery;
+  airlinePreferences?: AirlinePreferences;
+}
+
+export const toConversationSummary = (conversation: {
+  id: string;
+  title: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}): ConversationSummary => ({
+  id: conversation.id,
+  title: conversation.title,
+  createdAt: conversation.createdAt.toISOString(),
+  updatedAt: conversation.updatedAt.toISOString(),
+});
+
+/**
+ * Build the context of a conversation from its stored ChatMessage rows.
+ * The previous query is the last search linked to an assistant message.
+ */
+export async function loadConversationContext(
+  conversationId?: string
+): Promise<ConversationContext & { previousSearchId?: string }> {
+  if (!conversationId) {
+    return { history: [] };
+  }
+
+  const recent = await db.chatMessage.findMany({
+    where: { conversationId, role: { in: ["user", "assistant"] } },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_LIMIT,
+  });
+
+  const history: ConversationTurn[] = [...recent]
+    .reverse()
+    .map((message) => ({ role: message.role as ConversationTurn["role"], content: message.content }));
+
+  const lastSearchMessage = recent.find((message) => message.searchId);
+  if (!lastSearchMessage?.searchId) {
+    return { history };
+  }
+
+  const search = await db.searchQuery.findUnique({
+    where: { id: lastSearchMessage.searchId },
+  });
+  const parsed = TravelQuerySchema.safeParse(search?.parsed);
+  if (!search || !parsed.success) {
+    return { history };
+  }
+
+  // The stored query also carries the values the search actually used
+  const stored = search.parsed as {
+    resolvedOrigin?: string;
+    resolvedDestination?: string;
+    resolvedDepartureDate?: string;
+    resolvedReturnDate?: string;
+  };
+
+  return {
+    history,
+    previousQuery: parsed.data,
+    previousResolved: {
+      origin: stored.resolvedOrigin,
+      destination: stored.resolvedDestination,
+      departureDate: stored.resolvedDepartureDate,
+      returnDate: stored.resolvedReturnDate,
+    },
+    previousSearchId: search.id,
+  };
+}
+
+/**
+ * Title for a conversation from its first message: generated when AI is
+ * available, otherwise the message itself, shortened at a word boundary
+ */
+export async function createConversationTitle(firstMessage: string): Promise<string> {
+  const generated = isOpenAIConfigured() ? await generateConversationTitle(firstMessage) : "";
+  const title = (generated || firstMessage).replace(/\s+/g, " ").replace(/^["'\s]+|["'.\s]+$/g, "");
+
+  if (title.length <= MAX_TITLE_LENGTH) return title;
+  const cut = title.slice(0, MAX_TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 20 ? cut.lastIndexOf(" ") : MAX_TITLE_LENGTH)}…`;
+}
+
+/**
+ * Rebuild the flight cards of earlier searches from their stored results
+ */
+export async function loadSearchResults(searchIds: string[]): Promise<Map<string, StoredFlightResults>> {
+  if (searchIds.length === 0) return new Map();
+
+  const searches = await db.searchQuery.findMany({
+    where: { id: { in: searchIds } },
+    include: {
+      results: { orderBy: { price: "asc" }, take: RESTORED_RESULTS_LIMIT },
+      _count: { select: { results: true } },
+    },
+  });
+
+  return new Map(
+    searches.map((search) => {
+      const parsed = TravelQuerySchema.safeParse(search.parsed);
+      const stored = search.parsed as { resolvedAirlines?: AirlinePreferences } | null;
+      const flights = search.results.flatMap((result) =>
+        normalizeFlightOffers([result.itinerary as unknown as FlightOffer], result.source as FlightSource)
+          // Offer ids repeat across searches; the row id keeps cards unique
+          .map((flight) => ({ ...flight, id: result.id }))
+      );
+
+      return [
+        search.id,
+        {
+          searchId: search.id,
+          flights,
+          totalCount: search._count.results,
+          parsedQuery: parsed.success ? parsed.data : undefined,
+          airlinePreferences: stored?.resolvedAirlines,
+        },
+      ];
+    })
+  );
+}
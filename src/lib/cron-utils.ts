@@ -4,10 +4,20 @@
  * Constants and utilities for cron expressions that can be used on both client and server.
  */
 
+/**
+ * Schedule of adaptive tasks: instead of a cron expression, checks get denser
+ * as departure nears or prices swing, and sparser while prices are flat
+ */
+export const AUTO_SCHEDULE = "auto";
+
+// Run budget per day of auto schedules without one of their own
+export const DEFAULT_AUTO_RUNS_PER_DAY = 8;
+
 /**
  * Common cron presets
  */
 export const CRON_PRESETS = [
+  { label: "Auto (adapts to departure and price moves)", value: AUTO_SCHEDULE },
   { label: "Every 6 hours", value: "0 */6 * * *" },
   { label: "Every 12 hours", value: "0 */12 * * *" },
   { label: "Daily at 9 AM", value: "0 9 * * *" },
@@ -20,6 +30,10 @@ export const CRON_PRESETS = [
  * Get human-readable description of cron schedule
  */
 export function describeCronSchedule(cronExpr: string): string {
+  if (cronExpr === AUTO_SCHEDULE) {
+    return "Auto, more often near departure and when prices move";
+  }
+
   // Common patterns
   const patterns: Record<string, string> = {
     "0 9 * * *": "Daily at 9:00 AM",
@@ -0,0 +1,240 @@
+/**
+ * Flexible-Date Price Matrix
+ *
+ * Fans a search out over a range of departure dates (and trip lengths for
+ * round trips) and keeps the cheapest fare per date pair, so the UI can show
+ * a price calendar. Every search goes through the shared result cache and
+ * the Amadeus rate limiter, and the total number of searches is capped by
+ * DATE_MATRIX_MAX_SEARCHES (default 30).
+ */
+
+import { FlightSearchParams, NormalizedFlight } from "./amadeus";
+import { searchFlightsCached } from "./search-cache";
+
+const DEFAULT_MAX_SEARCHES = 30;
+const MATRIX_CONCURRENCY = 3;
+const RESULTS_PER_SEARCH = 10;
+
+export interface DateMatrixParams {
+  origin: string;
+  destination: string;
+  departureStart: string; // YYYY-MM-DD
+  departureEnd: string; // YYYY-MM-DD
+  tripDurations?: number[]; // Days between departure and return; omit for one-way
+  adults: number;
+  children?: number;
+  infants?: number;
+  travelClass?: FlightSearchParams["travelClass"];
+  nonStop?: boolean;
+  includedAirlineCodes?: string[];
+  excludedAirlineCodes?: string[];
+  currencyCode?: string;
+  forceRefresh?: boolean; // Bypass the server-side result cache
+}
+
+export interface DateMatrixCell {
+  departureDate: string;
+  returnDate?: string;
+  tripDuration?: number;
+  price: number | null; // Cheapest total price, null if no flights or the search failed
+  currency: string;
+  airlines: string[];
+  stops: number | null; // Most stops on any leg of the cheapest flight
+  error?: string;
+}
+
+export interface DateMatrixResult {
+  origin: string;
+  destination: string;
+  departureDates: string[];
+  tripDurations: number[];
+  cells: DateMatrixCell[];
+  cheapest: DateMatrixCell | null;
+  searchStats: {
+    totalSearches: number;
+    cacheHits: number;
+    skippedDates: number; // Dates dropped to stay under the search cap
+    searchTimeMs: number;
+  };
+}
+
+// Reported as each date pair finishes, with its flights for early results
+export type DateMatrixProgress = (update: {
+  cell: DateMatrixCell;
+  flights: NormalizedFlight[];
+  completed: number;
+  total: number;
+}) => void;
+
+export function getDateMatrixMaxSearches(): number {
+  const max = parseInt(process.env.DATE_MATRIX_MAX_SEARCHES || "", 10);
+  return Number.isNaN(max) || max < 1 ? DEFAULT_MAX_SEARCHES : max;
+}
+
+// Date arithmetic on YYYY-MM-DD strings in UTC to avoid timezone drift
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * List departure dates in the range, thinned evenly when the full grid
+ * would exceed the search budget
+ */
+export function getMatrixDepartureDates(
+  start: string,
+  end: string,
+  durationsCount: number,
+  maxSearches = getDateMatrixMaxSearches()
+): { dates: string[]; skipped: number } {
+  const today = new Date().toISOString().split("T")[0];
+  const all: string[] = [];
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (date > today) all.push(date);
+  }
+
+  const maxDates = Math.max(1, Math.floor(maxSearches / Math.max(1, durationsCount)));
+  if (all.length <= maxDates) {
+    return { dates: all, skipped: 0 };
+  }
+
+  // Keep first and last date, spread the rest evenly
+  const step = (all.length - 1) / Math.max(1, maxDates - 1);
+  const dates = Array.from(new Set(
+    Array.from({ length: maxDates }, (_, i) => all[Math.round(i * step)])
+  ));
+
+  return { dates, skipped: all.length - dates.length };
+}
+
+/**
+ * Search every departure date / trip length combination and return the
+ * cheapest fare for each
+ */
+export async function searchDateMatrix(
+  params: DateMatrixParams,
+  onProgress?: DateMatrixProgress
+): Promise<DateMatrixResult> {
+  const startTime = Date.now();
+  const currency = params.currencyCode || "USD";
+  const tripDurations = Array.from(new Set(params.tripDurations ?? []))
+    .filter((days) => days > 0)
+    .sort((a, b) => a - b);
+
+  const { dates: departureDates, skipped } = getMatrixDepartureDates(
+    params.departureStart,
+    params.departureEnd,
+    tripDurations.length || 1
+  );
+
+  const combinations = departureDates.flatMap<{
+    departureDate: string;
+    tripDuration?: number;
+    returnDate?: string;
+  }>((departureDate) =>
+    tripDurations.length > 0
+      ? tripDurations.map((tripDuration) => ({
+          departureDate,
+          tripDuration,
+          returnDate: addDays(departureDate, tripDuration),
+        }))
+      : [{ departureDate }]
+  );
+
+  const searchStats = {
+    totalSearches: 0,
+    cacheHits: 0,
+    skippedDates: skipped,
+    searchTimeMs: 0,
+  };
+
+  const cells: DateMatrixCell[] = new Array(combinations.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  // Small worker pool - the rate limiter paces the actual API calls
+  const worker = async () => {
+    while (nextIndex < combinations.length) {
+      const index = nextIndex++;
+      const { departureDate, tripDuration, returnDate } = combinations[index];
+
+      try {
+        const result = await searchFlightsCached(
+          {
+            originLocationCode: params.origin,
+            destinationLocationCode: params.destination,
+            departureDate,
+            returnDate,
+            adults: params.adults,
+            children: params.children,
+            infants: params.infants,
+            travelClass: params.travelClass,
+            nonStop: params.nonStop,
+            includedAirlineCodes: params.includedAirlineCodes,
+            excludedAirlineCodes: params.excludedAirlineCodes,
+            currencyCode: currency,
+            max: RESULTS_PER_SEARCH,
+          },
+          { forceRefresh: params.forceRefresh }
+        );
+
+        searchStats.totalSearches++;
+        if (result.cache.hit) searchStats.cacheHits++;
+
+        const cheapest = result.flights.reduce<(typeof result.flights)[number] | null>(
+          (best, flight) => (!best || flight.price < best.price ? flight : best),
+          null
+        );
+
+        cells[index] = {
+          departureDate,
+          returnDate,
+          tripDuration,
+          price: cheapest ? cheapest.price : null,
+          currency: cheapest?.currency || currency,
+          airlines: cheapest?.airlines || [],
+          stops: cheapest ? Math.max(...cheapest.legs.map((leg) => leg.stops)) : null,
+        };
+        onProgress?.({ cell: cells[index], flights: result.flights, completed: ++completed, total: combinations.length });
+      } catch (error) {
+        console.error(`Date matrix search failed for ${departureDate}:`, error);
+        searchStats.totalSearches++;
+        cells[index] = {
+          departureDate,
+          returnDate,
+          tripDuration,
+          price: null,
+          currency,
+          airlines: [],
+          stops: null,
+          error: error instanceof Error ? error.message : "Search failed",
+        };
+        onProgress?.({ cell: cells[index], flights: [], completed: ++completed, total: combinations.length });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MATRIX_CONCURRENCY, combinations.length) }, worker)
+  );
+
+  const cheapest = cells.reduce<DateMatrixCell | null>(
+    (best, cell) =>
+      cell.price !== null && (!best || best.price === null || cell.price < best.price) ? cell : best,
+    null
+  );
+
+  searchStats.searchTimeMs = Date.now() - startTime;
+
+  return {
+    origin: params.origin,
+    destination: params.destination,
+    departureDates,
+    tripDurations,
+    cells,
+    cheapest,
+    searchStats,
+  };
+}
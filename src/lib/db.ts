@@ -50,9 +50,19 @@ export const db = {
   get session() { return getDb().session; },
   get scheduledTask() { return getDb().scheduledTask; },
   get notification() { return getDb().notification; },
+  get conversation() { return getDb().conversation; },
   get chatMessage() { return getDb().chatMessage; },
   get priceHistory() { return getDb().priceHistory; },
   get priceAlert() { return getDb().priceAlert; },
+  get searchCache() { return getDb().searchCache; },
+  get apiUsage() { return getDb().apiUsage; },
+  get parseCache() { return getDb().parseCache; },
+  get llmUsage() { return getDb().llmUsage; },
+  get rankingPreset() { return getDb().rankingPreset; },
+  get travelerProfile() { return getDb().travelerProfile; },
+  get savedSearch() { return getDb().savedSearch; },
+  get trip() { return getDb().trip; },
+  get taskRun() { return getDb().taskRun; },
   $transaction: (...args: Parameters<PrismaClient['$transaction']>) => getDb().$transaction(...args),
   $connect: () => getDb().$connect(),
   $disconnect: () => getDb().$disconnect(),
@@ -0,0 +1,130 @@
+/**
+ * Server-Sent Events - client-safe
+ *
+ * Long searches report their stages as SSE (`event: <name>` + JSON `data:`)
+ * when the request sends `Accept: text/event-stream`; plain JSON callers keep
+ * getting a single response. The reader side parses a fetch() body, so POST
+ * requests can stream too (EventSource only supports GET).
+ */
+
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Whether the client asked for a streamed response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+/**
+ * Run a producer and stream every event it sends. The stream closes when the
+ * producer settles; a thrown error is sent as an "error" event first.
+ */
+export function createEventStream<T extends StreamEvent>(
+  run: (send: (event: T) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false; // Also set when the client goes away mid-search
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = ({ event, data }: StreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error("Event stream error:", error);
+        send({ event: "error", data: { success: false, error: error instanceof Error ? error.message : "Unexpected error" } });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Don't let proxies hold events back
+    },
+  });
+}
+
+/**
+ * Read an SSE response body, calling `onEvent` for each complete event
+ */
+export async function readEventStream<T extends StreamEvent>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    if (data.length > 0) {
+      onEvent({ event, data: JSON.parse(data.join("\n")) } as T);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
+
+/**
+ * Read a streamed response up to its final "done" or "error" event and return
+ * that event's data. Responses that failed before streaming started (auth,
+ * validation) are plain JSON and returned as-is.
+ */
+export async function readStreamedResponse<R, T extends StreamEvent = StreamEvent>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<R> {
+  if (!response.headers.get("content-type")?.includes("text/event-stream")) {
+    return response.json();
+  }
+
+  let result: R | undefined;
+  await readEventStream<T>(response, (event) => {
+    if (event.event === "done" || event.event === "error") result = event.data as R;
+    else onEvent(event);
+  });
+
+  if (result === undefined) {
+    throw new Error("The search stopped before it finished");
+  }
+  return result;
+}
@@ -0,0 +1,325 @@
+/**
+ * Fixture Flight Provider
+ *
+ * Replays recorded Amadeus flight-offer responses from disk so the app can be
+ * developed and demoed without API credentials.
+ *
+ * Fixtures are stored as raw Amadeus responses ({ meta, data, dictionaries }) in
+ * FLIGHT_FIXTURES_DIR (defaults to ./fixtures/flights):
+ * - `EZE-MAD.json` is replayed for searches on that exact route
+ * - `default.json` is used as a template for any other route, with the
+ *   endpoints rewritten to the requested airports
+ *
+ * Recorded dates are shifted onto the requested departure/return dates.
+ * Multi-city searches are assembled from the one-way fixture of each leg.
+ * Set FLIGHT_FIXTURES_RECORD=true to save live Amadeus responses as fixtures.
+ */
+
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  normalizeFlightOffers,
+  validateSearchParams,
+  isMultiCitySearch,
+  FlightOffer,
+  FlightSearchLeg,
+  FlightSearchParams,
+  FlightSearchResponse,
+  NormalizedFlight,
+} from "./amadeus";
+import type { FlightProvider } from "./flight-providers";
+
+const DEFAULT_FIXTURE = "default.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getFixturesDir(): string {
+  return process.env.FLIGHT_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "flights");
+}
+
+function getRouteFixturePath(origin: string, destination: string): string {
+  return path.join(getFixturesDir(), `${origin}-${destination}.json`);
+}
+
+export function isFixtureRecordingEnabled(): boolean {
+  return process.env.FLIGHT_FIXTURES_RECORD === "true";
+}
+
+/**
+ * Load the fixture for a route, falling back to the default template
+ */
+async function loadFixture(
+  origin: string,
+  destination: string
+): Promise<{ response: FlightSearchResponse; isTemplate: boolean } | null> {
+  const routePath = getRouteFixturePath(origin, destination);
+  const defaultPath = path.join(getFixturesDir(), DEFAULT_FIXTURE);
+
+  for (const [filePath, isTemplate] of [[routePath, false], [defaultPath, true]] as const) {
+    if (!existsSync(filePath)) continue;
+    const content = await readFile(filePath, "utf-8");
+    return { response: JSON.parse(content) as FlightSearchResponse, isTemplate };
+  }
+
+  return null;
+}
+
+/**
+ * Shift a local Amadeus datetime ("2025-03-15T21:40:00") by a number of days
+ */
+function shiftDateTime(at: string, days: number): string {
+  const shifted = new Date(new Date(`${at.slice(0, 19)}Z`).getTime() + days * DAY_MS);
+  return shifted.toISOString().slice(0, 19);
+}
+
+/**
+ * Days between two YYYY-MM-DD dates
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Adapt a recorded offer to the requested search, or return null if it doesn't fit
+ */
+function adaptOffer(
+  offer: FlightOffer,
+  params: FlightSearchParams,
+  isTemplate: boolean
+): FlightOffer | null {
+  const isRoundTrip = !!params.returnDate;
+
+  if (isRoundTrip && offer.itineraries.length < 2) {
+    return null;
+  }
+
+  const itineraries = (isRoundTrip ? offer.itineraries.slice(0, 2) : offer.itineraries.slice(0, 1)).map(
+    (itinerary, index) => {
+      const targetDate = index === 0 ? params.departureDate : params.returnDate!;
+      const recordedDate = itinerary.segments[0].departure.at.slice(0, 10);
+      const offset = daysBetween(recordedDate, targetDate);
+      const [from, to] =
+        index === 0
+          ? [params.originLocationCode, params.destinationLocationCode]
+          : [params.destinationLocationCode, params.originLocationCode];
+
+      const segments = itinerary.segments.map((segment, segIndex) => ({
+        ...segment,
+        departure: {
+          ...segment.departure,
+          iataCode: isTemplate && segIndex === 0 ? from : segment.departure.iataCode,
+          at: shiftDateTime(segment.departure.at, offset),
+        },
+        arrival: {
+          ...segment.arrival,
+          iataCode:
+            isTemplate && segIndex === itinerary.segments.length - 1 ? to : segment.arrival.iataCode,
+          at: shiftDateTime(segment.arrival.at, offset),
+        },
+      }));
+
+      return { ...itinerary, segments };
+    }
+  );
+
+  // A rewritten template can end up with a connection at one of the endpoints
+  const hasLoop = itineraries.some((itinerary) =>
+    itinerary.segments.some((segment) => segment.departure.iataCode === segment.arrival.iataCode)
+  );
+  if (hasLoop) {
+    return null;
+  }
+
+  if (params.nonStop && itineraries.some((itinerary) => itinerary.segments.length > 1)) {
+    return null;
+  }
+
+  if (params.maxPrice && parseFloat(offer.price.grandTotal) > params.maxPrice) {
+    return null;
+  }
+
+  return {
+    ...offer,
+    oneWay: !isRoundTrip,
+    // Recorded ticketing deadlines are stale, so cap them at the departure date
+    lastTicketingDate: params.departureDate,
+    itineraries,
+  };
+}
+
+/**
+ * Join one offer per leg into a single multi-city offer with summed prices
+ */
+function combineOffers(offers: FlightOffer[], id: string): FlightOffer {
+  // Renumber segments so ids stay unique across the joined offers
+  let nextSegmentId = 1;
+  const parts = offers.map((offer) => {
+    const segmentIds = new Map<string, string>();
+    const itineraries = offer.itineraries.map((itinerary) => ({
+      ...itinerary,
+      segments: itinerary.segments.map((segment) => {
+        const newId = String(nextSegmentId++);
+        if (segment.id) segmentIds.set(segment.id, newId);
+        return { ...segment, id: newId };
+      }),
+    }));
+    const travelerPricings = offer.travelerPricings.map((pricing) => ({
+      ...pricing,
+      fareDetailsBySegment: pricing.fareDetailsBySegment.map((detail) => ({
+        ...detail,
+        segmentId: segmentIds.get(detail.segmentId) ?? detail.segmentId,
+      })),
+    }));
+    return { ...offer, itineraries, travelerPricings };
+  });
+
+  const sum = (pick: (offer: FlightOffer) => string | undefined) =>
+    parts.reduce((total, offer) => total + parseFloat(pick(offer) ?? "0"), 0).toFixed(2);
+
+  return {
+    ...parts[0],
+    id,
+    oneWay: false,
+    numberOfBookableSeats: Math.min(...parts.map((offer) => offer.numberOfBookableSeats)),
+    itineraries: parts.flatMap((offer) => offer.itineraries),
+    price: {
+      ...parts[0].price,
+      total: sum((offer) => offer.price.total),
+      base: sum((offer) => offer.price.base),
+      grandTotal: sum((offer) => offer.price.grandTotal),
+    },
+    validatingAirlineCodes: [...new Set(parts.flatMap((offer) => offer.validatingAirlineCodes))],
+    travelerPricings: parts[0].travelerPricings.map((pricing, t) => ({
+      ...pricing,
+      price: {
+        ...pricing.price,
+        total: sum((offer) => offer.travelerPricings[t]?.price.total),
+        base: sum((offer) => offer.travelerPricings[t]?.price.base),
+      },
+      fareDetailsBySegment: parts.flatMap((offer) => offer.travelerPricings[t]?.fareDetailsBySegment ?? []),
+    })),
+  };
+}
+
+/**
+ * Build multi-city offers by pairing up the one-way fixture offers of each leg
+ */
+async function searchFixtureLegs(
+  params: FlightSearchParams & { legs: FlightSearchLeg[] }
+): Promise<{ offers: FlightOffer[]; dictionaries: FlightSearchResponse["dictionaries"] }> {
+  const offersByLeg: FlightOffer[][] = [];
+  let dictionaries: FlightSearchResponse["dictionaries"] = {};
+
+  for (const leg of params.legs) {
+    const fixture = await loadFixture(leg.origin, leg.destination);
+    if (!fixture) {
+      console.log(`No flight fixture for ${leg.origin}-${leg.destination}`);
+      return { offers: [], dictionaries: undefined };
+    }
+
+    const legParams: FlightSearchParams = {
+      ...params,
+      originLocationCode: leg.origin,
+      destinationLocationCode: leg.destination,
+      departureDate: leg.departureDate,
+      returnDate: undefined,
+      legs: undefined,
+      maxPrice: undefined, // Applied to the combined price below
+    };
+
+    const offers = fixture.response.data
+      .map((offer) => adaptOffer(offer, legParams, fixture.isTemplate))
+      .filter((offer): offer is FlightOffer => offer !== null)
+      .sort((a, b) => parseFloat(a.price.grandTotal) - parseFloat(b.price.grandTotal));
+
+    if (offers.length === 0) {
+      return { offers: [], dictionaries: undefined };
+    }
+
+    offersByLeg.push(offers);
+    const legDictionaries = fixture.response.dictionaries;
+    dictionaries = {
+      locations: { ...dictionaries.locations, ...legDictionaries?.locations },
+      aircraft: { ...dictionaries.aircraft, ...legDictionaries?.aircraft },
+      currencies: { ...dictionaries.currencies, ...legDictionaries?.currencies },
+      carriers: { ...dictionaries.carriers, ...legDictionaries?.carriers },
+    };
+  }
+
+  // Pair the n-th cheapest option of every leg
+  const count = Math.max(...offersByLeg.map((offers) => offers.length));
+  const offers = Array.from({ length: count }, (_, i) =>
+    combineOffers(offersByLeg.map((legOffers) => legOffers[i % legOffers.length]), String(i + 1))
+  ).filter((offer) => !params.maxPrice || parseFloat(offer.price.grandTotal) <= params.maxPrice);
+
+  return { offers, dictionaries };
+}
+
+export const fixtureProvider: FlightProvider = {
+  name: "fixture",
+  label: "Recorded fixtures",
+  isConfigured() {
+    return existsSync(getFixturesDir());
+  },
+  async searchFlights(params) {
+    validateSearchParams(params);
+
+    if (isMultiCitySearch(params)) {
+      const { offers, dictionaries } = await searchFixtureLegs(params);
+      const flights = normalizeFlightOffers(
+        offers
+          .sort((a, b) => parseFloat(a.price.grandTotal) - parseFloat(b.price.grandTotal))
+          .slice(0, params.max || 50),
+        "fixture"
+      );
+
+      console.log(`Fixture provider returned ${flights.length} multi-city flight offers`);
+
+      return { flights, dictionaries };
+    }
+
+    const fixture = await loadFixture(params.originLocationCode, params.destinationLocationCode);
+    if (!fixture) {
+      console.log(`No flight fixture for ${params.originLocationCode}-${params.destinationLocationCode}`);
+      return { flights: [], dictionaries: undefined };
+    }
+
+    const offers = fixture.response.data
+      .map((offer) => adaptOffer(offer, params, fixture.isTemplate))
+      .filter((offer): offer is FlightOffer => offer !== null)
+      .sort((a, b) => parseFloat(a.price.grandTotal) - parseFloat(b.price.grandTotal))
+      .slice(0, params.max || 50);
+
+    const flights = normalizeFlightOffers(offers, "fixture");
+
+    console.log(`Fixture provider returned ${flights.length} flight offers`);
+
+    return {
+      flights,
+      dictionaries: fixture.response.dictionaries,
+    };
+  },
+};
+
+/**
+ * Save a live search response as a route fixture
+ */
+export async function recordFixture(
+  params: FlightSearchParams,
+  flights: NormalizedFlight[],
+  dictionaries: FlightSearchResponse["dictionaries"]
+): Promise<void> {
+  if (flights.length === 0) return;
+
+  const response: FlightSearchResponse = {
+    meta: { count: flights.length },
+    data: flights.map((flight) => flight.raw),
+    dictionaries,
+  };
+
+  await mkdir(getFixturesDir(), { recursive: true });
+  await writeFile(
+    getRouteFixturePath(params.originLocationCode, params.destinationLocationCode),
+    JSON.stringify(response, null, 2)
+  );
+}
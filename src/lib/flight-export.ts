@@ -4,21 +4,34 @@
  * Generate .ics calendar files and formatted text for clipboard
  */
 
-import { NormalizedFlight, formatDuration } from "./amadeus";
+import { NormalizedFlight } from "./amadeus";
+import { formatDuration, getLegLabel } from "./flight-utils";
+import { formatDayOffset, formatLocalDate, formatLocalTime, getTimeZoneOffsetMinutes } from "./timezones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Generate an ICS calendar file content for a flight
+ * Generate an ICS calendar file content for a flight.
+ *
+ * Times are written in each airport's own zone (DTSTART;TZID=Europe/Madrid:...),
+ * with a VTIMEZONE for every zone used. Airports without a known zone fall
+ * back to the UTC instant.
  */
 export function generateICS(flight: NormalizedFlight): string {
-  const outbound = flight.legs[0];
-  const returnLeg = flight.legs[1];
-
   const formatICSDate = (isoString: string) => {
     // Format: YYYYMMDDTHHMMSSZ
     const date = new Date(isoString);
     return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
   };
 
+  const timeZones = new Set<string>();
+  const formatICSTime = (property: string, local: string, utc: string, timeZone?: string) => {
+    if (!timeZone) return `${property}:${formatICSDate(utc)}`;
+    timeZones.add(timeZone);
+    // Format: YYYYMMDDTHHMMSS in the airport's local time
+    return `${property};TZID=${timeZone}:${local.slice(0, 19).replace(/[-:]/g, "")}`;
+  };
+
   const escapeICS = (text: string) => {
     return text.replace(/[,;\\]/g, "\\$&").replace(/\n/g, "\\n");
   };
@@ -28,58 +41,43 @@ export function generateICS(flight: NormalizedFlight): string {
 
   let events = "";
 
-  // Outbound flight event
-  const outboundDesc = [
-    `Flight: ${outbound.segments.map(s => s.flightNumber).join(", ")}`,
-    `Airlines: ${flight.airlines.join(", ")}`,
-    `Duration: ${formatDuration(outbound.duration)}`,
-    outbound.stops > 0 ? `Stops: ${outbound.stops}` : "Direct flight",
-    `Price: $${Math.round(flight.price)} ${flight.currency}`,
-    "",
-    "Segments:",
-    ...outbound.segments.map(
-      (s) => `${s.origin} → ${s.destination} (${s.flightNumber})`
-    ),
-  ].join("\\n");
-
-  events += `BEGIN:VEVENT
-DTSTART:${formatICSDate(outbound.departureAt)}
-DTEND:${formatICSDate(outbound.arrivalAt)}
-DTSTAMP:${now}
-UID:${uid}-outbound
-SUMMARY:✈️ ${outbound.origin} → ${outbound.destination}
-DESCRIPTION:${escapeICS(outboundDesc)}
-LOCATION:${outbound.origin} Airport
-STATUS:CONFIRMED
-END:VEVENT
-`;
-
-  // Return flight event if exists
-  if (returnLeg) {
-    const returnDesc = [
-      `Flight: ${returnLeg.segments.map(s => s.flightNumber).join(", ")}`,
+  // One event per leg (outbound, return, or each multi-city flight)
+  flight.legs.forEach((leg, index) => {
+    const label = getLegLabel(flight, index);
+    const description = [
+      `Flight: ${leg.segments.map(s => s.flightNumber).join(", ")}`,
       `Airlines: ${flight.airlines.join(", ")}`,
-      `Duration: ${formatDuration(returnLeg.duration)}`,
-      returnLeg.stops > 0 ? `Stops: ${returnLeg.stops}` : "Direct flight",
+      `Departs: ${formatLocalDate(leg.departureAt)} ${formatLocalTime(leg.departureAt)} local time (${leg.origin})`,
+      `Arrives: ${formatLocalDate(leg.arrivalAt)} ${formatLocalTime(leg.arrivalAt)} local time (${leg.destination})`,
+      `Duration: ${formatDuration(leg.duration)}`,
+      leg.stops > 0 ? `Stops: ${leg.stops}` : "Direct flight",
+      ...(index === 0 ? [`Price: $${Math.round(flight.price)} ${flight.currency}`] : []),
       "",
       "Segments:",
-      ...returnLeg.segments.map(
+      ...leg.segments.map(
         (s) => `${s.origin} → ${s.destination} (${s.flightNumber})`
       ),
     ].join("\\n");
 
     events += `BEGIN:VEVENT
-DTSTART:${formatICSDate(returnLeg.departureAt)}
-DTEND:${formatICSDate(returnLeg.arrivalAt)}
+${formatICSTime("DTSTART", leg.departureAt, leg.departureUtc, leg.departureTimeZone)}
+${formatICSTime("DTEND", leg.arrivalAt, leg.arrivalUtc, leg.arrivalTimeZone)}
 DTSTAMP:${now}
-UID:${uid}-return
-SUMMARY:✈️ ${returnLeg.origin} → ${returnLeg.destination} (Return)
-DESCRIPTION:${escapeICS(returnDesc)}
-LOCATION:${returnLeg.origin} Airport
+UID:${uid}-${index === 0 ? "outbound" : flight.isMultiCity ? `leg${index + 1}` : "return"}
+SUMMARY:✈️ ${leg.origin} → ${leg.destination}${index > 0 ? ` (${label})` : ""}
+DESCRIPTION:${escapeICS(description)}
+LOCATION:${leg.origin} Airport
 STATUS:CONFIRMED
 END:VEVENT
 `;
-  }
+  });
+
+  // Each zone's rules over the years the flight spans
+  const firstYear = new Date(flight.legs[0].departureUtc).getUTCFullYear();
+  const lastYear = new Date(flight.legs[flight.legs.length - 1].arrivalUtc).getUTCFullYear();
+  const from = Date.UTC(firstYear, 0, 1);
+  const to = Date.UTC(lastYear + 1, 0, 1);
+  const vtimezones = [...timeZones].map((timeZone) => buildVTimezone(timeZone, from, to)).join("");
 
   return `BEGIN:VCALENDAR
 VERSION:2.0
@@ -87,7 +85,61 @@ PRODID:-//PersonalTravel//Flight Export//EN
 CALSCALE:GREGORIAN
 METHOD:PUBLISH
 X-WR-CALNAME:Flight Itinerary
-${events}END:VCALENDAR`;
+${vtimezones}${events}END:VCALENDAR`;
+}
+
+/**
+ * VTIMEZONE for an IANA zone between two instants: the offset at `from`, then
+ * one observance per offset change (found day by day, then to the minute)
+ */
+function buildVTimezone(timeZone: string, from: number, to: number): string {
+  const offsetAt = (ms: number) => getTimeZoneOffsetMinutes(timeZone, new Date(ms));
+
+  const formatOffset = (minutes: number) => {
+    const sign = minutes < 0 ? "-" : "+";
+    const abs = Math.abs(minutes);
+    return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+  };
+
+  // Onsets are written in the local time that was in effect just before them
+  const observance = (onset: number, offsetFrom: number, offsetTo: number, isDaylight: boolean) => {
+    const kind = isDaylight ? "DAYLIGHT" : "STANDARD";
+    const local = new Date(onset + offsetFrom * 60000).toISOString().replace(/[-:]/g, "").split(".")[0];
+    return `BEGIN:${kind}
+DTSTART:${local}
+TZOFFSETFROM:${formatOffset(offsetFrom)}
+TZOFFSETTO:${formatOffset(offsetTo)}
+END:${kind}
+`;
+  };
+
+  const changes: Array<{ at: number; from: number; to: number }> = [];
+  for (let day = from; day < to; day += DAY_MS) {
+    const before = offsetAt(day);
+    const after = offsetAt(day + DAY_MS);
+    if (before === after) continue;
+
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetAt(middle) === before) low = middle;
+      else high = middle;
+    }
+    changes.push({ at: high, from: before, to: after });
+  }
+
+  // The larger offset of a change is daylight saving time
+  const initial = offsetAt(from);
+  const observances = [
+    observance(from, initial, initial, changes.length > 0 && initial > changes[0].to),
+    ...changes.map((change) => observance(change.at, change.from, change.to, change.to > change.from)),
+  ];
+
+  return `BEGIN:VTIMEZONE
+TZID:${timeZone}
+${observances.join("")}END:VTIMEZONE
+`;
 }
 
 /**
@@ -111,52 +163,20 @@ export function downloadICS(flight: NormalizedFlight) {
  * Generate formatted text for clipboard
  */
 export function generateClipboardText(flight: NormalizedFlight): string {
-  const outbound = flight.legs[0];
-  const returnLeg = flight.legs[1];
-
-  const formatDate = (iso: string) => {
-    const date = new Date(iso);
-    return date.toLocaleDateString("en-US", {
-      weekday: "short",
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
-
-  const formatTime = (iso: string) => {
-    const date = new Date(iso);
-    return date.toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false,
-    });
-  };
-
   let text = `✈️ Flight Details\n`;
   text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-  // Outbound
-  text += `📍 Outbound: ${outbound.origin} → ${outbound.destination}\n`;
-  text += `📅 ${formatDate(outbound.departureAt)}\n`;
-  text += `⏰ ${formatTime(outbound.departureAt)} - ${formatTime(outbound.arrivalAt)}\n`;
-  text += `⏱️ Duration: ${formatDuration(outbound.duration)}\n`;
-  text += outbound.stops === 0
-    ? `✅ Direct flight\n`
-    : `🔄 ${outbound.stops} stop(s)\n`;
-  text += `🛫 Flights: ${outbound.segments.map(s => s.flightNumber).join(", ")}\n`;
-
-  // Return if exists
-  if (returnLeg) {
-    text += `\n📍 Return: ${returnLeg.origin} → ${returnLeg.destination}\n`;
-    text += `📅 ${formatDate(returnLeg.departureAt)}\n`;
-    text += `⏰ ${formatTime(returnLeg.departureAt)} - ${formatTime(returnLeg.arrivalAt)}\n`;
-    text += `⏱️ Duration: ${formatDuration(returnLeg.duration)}\n`;
-    text += returnLeg.stops === 0
+  flight.legs.forEach((leg, index) => {
+    text += `${index > 0 ? "\n" : ""}📍 ${getLegLabel(flight, index)}: ${leg.origin} → ${leg.destination}\n`;
+    const dayOffset = formatDayOffset(leg.departureAt, leg.arrivalAt);
+    text += `📅 ${formatLocalDate(leg.departureAt, { weekday: "short", month: "short", day: "numeric", year: "numeric" })}\n`;
+    text += `⏰ ${formatLocalTime(leg.departureAt)} - ${formatLocalTime(leg.arrivalAt)}${dayOffset ? ` (${dayOffset} day)` : ""}, local time\n`;
+    text += `⏱️ Duration: ${formatDuration(leg.duration)}\n`;
+    text += leg.stops === 0
       ? `✅ Direct flight\n`
-      : `🔄 ${returnLeg.stops} stop(s)\n`;
-    text += `🛫 Flights: ${returnLeg.segments.map(s => s.flightNumber).join(", ")}\n`;
-  }
+      : `🔄 ${leg.stops} stop(s)\n`;
+    text += `🛫 Flights: ${leg.segments.map(s => s.flightNumber).join(", ")}\n`;
+  });
 
   text += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
   text += `💰 Total Price: $${Math.round(flight.price)} ${flight.currency}\n`;
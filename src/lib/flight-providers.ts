@@ -0,0 +1,219 @@
+/**
+ * Flight Provider Registry
+ *
+ * Every flight search in the app goes through this module instead of calling
+ * a specific API directly. Providers are selected with the FLIGHT_PROVIDERS
+ * env variable (comma separated, defaults to "amadeus"). When more than one
+ * provider is active, their results are merged into a single list ranked by price
+ * (grouped by currency when providers answer in different ones).
+ */
+
+import {
+  searchFlights as searchAmadeusFlights,
+  isAmadeusConfigured,
+  isMultiCitySearch,
+  FlightSearchParams,
+  FlightSearchResponse,
+  FlightSource,
+  NormalizedFlight,
+} from "./amadeus";
+import { fixtureProvider, isFixtureRecordingEnabled, recordFixture } from "./fixture-provider";
+
+export type FlightDictionaries = FlightSearchResponse["dictionaries"];
+
+export interface FlightProviderResult {
+  flights: NormalizedFlight[];
+  dictionaries: FlightDictionaries;
+}
+
+export interface FlightProvider {
+  name: FlightSource;
+  label: string;
+  isConfigured(): boolean;
+  searchFlights(params: FlightSearchParams): Promise<FlightProviderResult>;
+}
+
+// ============================================
+// Built-in Providers
+// ============================================
+
+export const amadeusProvider: FlightProvider = {
+  name: "amadeus",
+  label: "Amadeus",
+  isConfigured: isAmadeusConfigured,
+  async searchFlights(params) {
+    const result = await searchAmadeusFlights(params);
+
+    // Optionally capture live responses so they can be replayed offline later
+    // (fixtures are per route, so multi-city responses are not recorded)
+    if (isFixtureRecordingEnabled() && !isMultiCitySearch(params)) {
+      try {
+        await recordFixture(params, result.flights, result.dictionaries);
+      } catch (error) {
+        console.error("Failed to record flight fixture:", error);
+      }
+    }
+
+    return result;
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+const providers = new Map<FlightSource, FlightProvider>();
+
+export function registerFlightProvider(provider: FlightProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerFlightProvider(amadeusProvider);
+registerFlightProvider(fixtureProvider);
+
+export function getFlightProvider(name: FlightSource): FlightProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get the providers enabled via FLIGHT_PROVIDERS, in the configured order
+ */
+export function getActiveProviders(): FlightProvider[] {
+  const names = (process.env.FLIGHT_PROVIDERS || "amadeus")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const active: FlightProvider[] = [];
+  for (const name of names) {
+    const provider = providers.get(name as FlightSource);
+    if (!provider) {
+      console.warn(`Unknown flight provider "${name}" in FLIGHT_PROVIDERS`);
+      continue;
+    }
+    if (!active.includes(provider)) {
+      active.push(provider);
+    }
+  }
+  return active;
+}
+
+/**
+ * Check if at least one active flight provider is ready to search
+ */
+export function isFlightSearchConfigured(): boolean {
+  return getActiveProviders().some((provider) => provider.isConfigured());
+}
+
+// ============================================
+// Search
+// ============================================
+
+/**
+ * Search flights across all active providers.
+ * A single provider's errors are passed through unchanged; with several
+ * providers, failures are tolerated as long as one of them returns results.
+ */
+export async function searchFlightOffers(params: FlightSearchParams): Promise<FlightProviderResult> {
+  const active = getActiveProviders().filter((provider) => provider.isConfigured());
+
+  if (active.length === 0) {
+    throw new Error("No flight provider configured");
+  }
+
+  if (active.length === 1) {
+    return applyAirlineFilters(await active[0].searchFlights(params), params);
+  }
+
+  const settled = await Promise.allSettled(active.map((provider) => provider.searchFlights(params)));
+  const fulfilled = settled.filter(
+    (result): result is PromiseFulfilledResult<FlightProviderResult> => result.status === "fulfilled"
+  );
+
+  if (fulfilled.length === 0) {
+    const firstFailure = settled[0] as PromiseRejectedResult;
+    throw firstFailure.reason;
+  }
+
+  settled.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Flight provider ${active[index].name} failed:`, result.reason);
+    }
+  });
+
+  return mergeProviderResults(
+    fulfilled.map((result) => applyAirlineFilters(result.value, params)),
+    params.currencyCode || "USD",
+    params.max
+  );
+}
+
+/**
+ * Enforce included/excluded carriers on a provider's results. Not every
+ * provider can restrict carriers (and Amadeus takes only one of the lists),
+ * so this runs after every search.
+ */
+function applyAirlineFilters(result: FlightProviderResult, params: FlightSearchParams): FlightProviderResult {
+  const included = params.includedAirlineCodes ?? [];
+  const excluded = params.excludedAirlineCodes ?? [];
+  if (included.length === 0 && excluded.length === 0) {
+    return result;
+  }
+
+  const flights = result.flights.filter((flight) => {
+    const marketing = flight.legs.flatMap((leg) => leg.segments.map((segment) => segment.carrier));
+    // A codeshare still flies on the operating carrier, so check it for exclusions too
+    const operating = flight.raw.itineraries.flatMap((itinerary) =>
+      itinerary.segments.map((segment) => segment.operating?.carrierCode ?? segment.carrierCode)
+    );
+
+    if (included.length > 0 && !marketing.every((carrier) => included.includes(carrier))) {
+      return false;
+    }
+    return ![...marketing, ...operating].some((carrier) => excluded.includes(carrier));
+  });
+
+  if (flights.length < result.flights.length) {
+    console.log(`Airline filters removed ${result.flights.length - flights.length} of ${result.flights.length} flights`);
+  }
+
+  return { ...result, flights };
+}
+
+/**
+ * Merge results from several providers into one list ranked by price. Prices
+ * in different currencies can't be compared without rates, so offers in the
+ * requested currency come first and the others follow grouped by currency.
+ */
+function mergeProviderResults(
+  results: FlightProviderResult[],
+  currency: string,
+  max?: number
+): FlightProviderResult {
+  const requested = currency.toUpperCase();
+  const currencyRank = (flight: NormalizedFlight) => {
+    const code = flight.currency.toUpperCase();
+    return code === requested ? "" : code; // Sorts before every currency code
+  };
+
+  const flights = results
+    .flatMap((result) =>
+      // Prefix ids so offers from different providers can't collide
+      result.flights.map((flight) => ({ ...flight, id: `${flight.source}-${flight.id}` }))
+    )
+    .sort((a, b) => currencyRank(a).localeCompare(currencyRank(b)) || a.price - b.price);
+
+  const dictionaries: NonNullable<FlightDictionaries> = {};
+  for (const result of results) {
+    if (!result.dictionaries) continue;
+    dictionaries.carriers = { ...dictionaries.carriers, ...result.dictionaries.carriers };
+    dictionaries.aircraft = { ...dictionaries.aircraft, ...result.dictionaries.aircraft };
+    dictionaries.locations = { ...dictionaries.locations, ...result.dictionaries.locations };
+    dictionaries.currencies = { ...dictionaries.currencies, ...result.dictionaries.currencies };
+  }
+
+  return {
+    flights: max ? flights.slice(0, max) : flights,
+    dictionaries,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Flight utilities - client-safe
+ *
+ * Formatting helpers for flight data that can be used on both client and server.
+ */
+
+import type { NormalizedFlight, FlightSearchParams } from "./amadeus";
+
+/**
+ * Parse ISO 8601 duration to human readable
+ */
+export function formatDuration(isoDuration: string): string {
+  const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
+  if (!match) return isoDuration;
+
+  const hours = match[1] ? parseInt(match[1]) : 0;
+  const minutes = match[2] ? parseInt(match[2]) : 0;
+
+  if (hours && minutes) return `${hours}h ${minutes}m`;
+  if (hours) return `${hours}h`;
+  if (minutes) return `${minutes}m`;
+  return isoDuration;
+}
+
+/**
+ * Parse ISO 8601 duration ("PT13H5M", "P1DT2H") to minutes
+ */
+export function parseDurationMinutes(isoDuration: string): number {
+  const match = isoDuration.match(/P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?/);
+  if (!match) return 0;
+
+  const [, days, hours, minutes] = match;
+  return (parseInt(days || "0") * 24 + parseInt(hours || "0")) * 60 + parseInt(minutes || "0");
+}
+
+/**
+ * Label for a leg of an itinerary ("Outbound", "Return", or "Flight N" for multi-city)
+ */
+export function getLegLabel(flight: NormalizedFlight, index: number): string {
+  if (flight.isMultiCity) return `Flight ${index + 1}`;
+  return index === 0 ? "Outbound" : "Return";
+}
+
+/**
+ * Travelers priced in the offer, so tracked prices cover the same party
+ */
+export function getPassengerMix(flight: NormalizedFlight): { adults: number; children: number; infants: number } {
+  const types = flight.raw.travelerPricings?.map((pricing) => pricing.travelerType) ?? [];
+  const count = (type: string) => types.filter((travelerType) => travelerType === type).length;
+  return {
+    adults: Math.max(count("ADULT") + count("SENIOR"), 1),
+    children: count("CHILD"),
+    infants: count("HELD_INFANT"),
+  };
+}
+
+/**
+ * Human readable party, e.g. "2 adults, 1 child, 1 infant"
+ */
+export function formatPassengerMix(mix: { adults: number; children?: number; infants?: number }): string {
+  const part = (count: number, singular: string, plural: string) =>
+    `${count} ${count === 1 ? singular : plural}`;
+  return [
+    part(mix.adults, "adult", "adults"),
+    ...(mix.children ? [part(mix.children, "child", "children")] : []),
+    ...(mix.infants ? [part(mix.infants, "infant", "infants")] : []),
+  ].join(", ");
+}
+
+/**
+ * Human readable date window of a trip, e.g. "Mar 3, 2026 – Mar 17, 2026"
+ */
+export function formatDateWindow(window: { startDate: string | null; endDate: string | null }): string {
+  const day = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  if (window.startDate && window.endDate) return `${day(window.startDate)} – ${day(window.endDate)}`;
+  if (window.startDate) return `From ${day(window.startDate)}`;
+  if (window.endDate) return `Back by ${day(window.endDate)}`;
+  return "Dates open";
+}
+
+/**
+ * Cabin the offer was priced in (from the first segment), defaulting to economy
+ */
+export function getTravelClass(flight: NormalizedFlight): NonNullable<FlightSearchParams["travelClass"]> {
+  const cabin = flight.legs[0]?.segments[0]?.cabin;
+  return cabin === "PREMIUM_ECONOMY" || cabin === "BUSINESS" || cabin === "FIRST" ? cabin : "ECONOMY";
+}
+
+// ============================================
+// Airline preferences
+// ============================================
+
+export interface AirlinePreferences {
+  preferred: string[]; // IATA carrier codes ranked higher (see ranking.ts)
+  avoided: string[]; // IATA carrier codes excluded from the search
+  preferredOnly: boolean; // Search was restricted to the preferred carriers
+}
+
+/**
+ * Whether every flight of the itinerary is sold by a preferred carrier
+ */
+export function isPreferredAirlineFlight(flight: NormalizedFlight, preferred: string[]): boolean {
+  return preferred.length > 0 && flight.airlines.every((airline) => preferred.includes(airline));
+}
+
+/**
+ * One-line summary of the airline constraints applied to a search, or null if none
+ */
+export function describeAirlinePreferences(
+  preferences: AirlinePreferences,
+  carriers?: Record<string, string>
+): string | null {
+  const name = (code: string) => (carriers?.[code] ? `${carriers[code]} (${code})` : code);
+  const parts: string[] = [];
+
+  if (preferences.preferred.length > 0) {
+    const names = preferences.preferred.map(name).join(", ");
+    parts.push(preferences.preferredOnly ? `only ${names}` : `preferring ${names}`);
+  }
+  if (preferences.avoided.length > 0) {
+    parts.push(`excluding ${preferences.avoided.map(name).join(", ")}`);
+  }
+
+  return parts.length > 0 ? `Airlines: ${parts.join("; ")}` : null;
+}
@@ -0,0 +1,163 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Records prompt and completion tokens of every LLM call with an estimated
+ * cost, so the settings page can show what each feature costs per day.
+ */
+
+import { prisma } from "./db";
+import type { LLMTask } from "./llm";
+
+// USD per 1M tokens. Models served by a local OpenAI-compatible endpoint are free;
+// other unknown models, including those of hosted compatible endpoints, are
+// recorded without a cost.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // Estimated USD, unpriced calls count as 0
+}
+
+export interface LLMUsageSummary {
+  today: LLMUsageTotals;
+  monthToDate: LLMUsageTotals;
+  daily: Array<{ date: string } & LLMUsageTotals>;
+  byFeature: Array<{ feature: string } & LLMUsageTotals>; // Month to date
+  unpricedCalls: number; // Month to date calls to models without known pricing
+}
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Estimated USD cost of a call, or null when the model's pricing is unknown.
+ * Dated snapshots ("gpt-5-nano-2025-08-07") use their base model's price.
+ */
+export function estimateLLMCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  if (provider === "openai-compatible" && isLocalEndpoint(process.env.LLM_BASE_URL)) return 0;
+
+  const base = Object.keys(MODEL_PRICING)
+    .filter((name) => model === name || model.startsWith(`${name}-20`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!base) return null;
+
+  const pricing = MODEL_PRICING[base];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Whether an endpoint runs on this machine or the local network (Ollama,
+ * llama.cpp...), as opposed to a hosted service that bills per token
+ */
+function isLocalEndpoint(baseURL: string | undefined): boolean {
+  if (!baseURL) return false;
+  let hostname: string;
+  try {
+    hostname = new URL(baseURL).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+  return (
+    hostname === "localhost" ||
+    hostname === "::1" ||
+    hostname.endsWith(".local") ||
+    hostname === "host.docker.internal" ||
+    /^(127|10)\./.test(hostname) ||
+    /^192\.168\./.test(hostname) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname)
+  );
+}
+
+/**
+ * Record the token usage of a single completion
+ */
+export async function recordLLMUsage(
+  feature: LLMTask,
+  provider: string,
+  model: string,
+  usage: { prompt_tokens?: number; completion_tokens?: number } | undefined
+): Promise<void> {
+  try {
+    const promptTokens = usage?.prompt_tokens ?? 0;
+    const completionTokens = usage?.completion_tokens ?? 0;
+    await prisma.llmUsage.create({
+      data: {
+        feature,
+        provider,
+        model,
+        promptTokens,
+        completionTokens,
+        cost: estimateLLMCost(provider, model, promptTokens, completionTokens),
+        date: toDateKey(new Date()),
+      },
+    });
+  } catch (error) {
+    // Usage tracking must never break the completion itself
+    console.error("Failed to record LLM usage:", error);
+  }
+}
+
+/**
+ * Summarize usage for today, the current month and the last N days
+ */
+export async function getLLMUsageSummary(days = 30): Promise<LLMUsageSummary> {
+  const now = new Date();
+  const today = toDateKey(now);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const rangeStart = new Date(now);
+  rangeStart.setUTCDate(rangeStart.getUTCDate() - (days - 1));
+  const since = [toDateKey(rangeStart), monthStart].sort()[0];
+
+  const sums = {
+    _count: { _all: true },
+    _sum: { promptTokens: true, completionTokens: true, cost: true },
+  } as const;
+  const [byDate, byFeature, unpricedCalls] = await Promise.all([
+    prisma.llmUsage.groupBy({ by: ["date"], where: { date: { gte: since } }, orderBy: { date: "asc" }, ...sums }),
+    prisma.llmUsage.groupBy({ by: ["feature"], where: { date: { gte: monthStart } }, ...sums }),
+    prisma.llmUsage.count({ where: { date: { gte: monthStart }, cost: null } }),
+  ]);
+
+  const toTotals = (row: (typeof byDate)[number] | (typeof byFeature)[number]): LLMUsageTotals => ({
+    calls: row._count._all,
+    promptTokens: row._sum.promptTokens ?? 0,
+    completionTokens: row._sum.completionTokens ?? 0,
+    cost: row._sum.cost ?? 0,
+  });
+  const empty: LLMUsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+
+  const daily = byDate.map((row) => ({ date: row.date, ...toTotals(row) }));
+  const monthToDate = daily
+    .filter((day) => day.date >= monthStart)
+    .reduce((total, day) => ({
+      calls: total.calls + day.calls,
+      promptTokens: total.promptTokens + day.promptTokens,
+      completionTokens: total.completionTokens + day.completionTokens,
+      cost: total.cost + day.cost,
+    }), empty);
+
+  return {
+    today: daily.find((day) => day.date === today) ?? empty,
+    monthToDate,
+    daily: daily.filter((day) => day.date >= toDateKey(rangeStart)),
+    byFeature: byFeature
+      .map((row) => ({ feature: row.feature, ...toTotals(row) }))
+      .sort((a, b) => b.cost - a.cost || b.calls - a.calls),
+    unpricedCalls,
+  };
+}
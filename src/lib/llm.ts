@@ -0,0 +1,258 @@
+/**
+ * LLM Provider Registry
+ *
+ * Every completion in the app goes through this module instead of a specific
+ * API client. Providers speak the OpenAI chat completions protocol, so besides
+ * OpenAI itself any compatible server works (llama.cpp, Ollama, vLLM...):
+ *
+ * - LLM_PROVIDER: "openai" or "openai-compatible" (defaults to the latter when
+ *   LLM_BASE_URL is set)
+ * - LLM_BASE_URL / LLM_API_KEY: the compatible endpoint, e.g. http://localhost:11434/v1
+ * - LLM_MODEL: default model, LLM_MODEL_<TASK> overrides it per task
+ *
+ * Structured output is validated against its zod schema and, when a model
+ * returns sloppy JSON, sent back with the validation errors to be repaired.
+ */
+
+import OpenAI from "openai";
+import { z } from "zod";
+import { recordLLMUsage } from "./llm-usage";
+
+type ChatCompletionParams = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+export type LLMMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+// What a completion is for - each can run on its own model
+export type LLMTask = "parse" | "airports" | "insights" | "chat" | "title";
+
+export interface LLMProvider {
+  name: string;
+  label: string;
+  isConfigured(): boolean;
+  createCompletion(params: ChatCompletionParams): Promise<OpenAI.Chat.Completions.ChatCompletion>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// gpt-5-nano is optimized for speed and cost while maintaining high quality
+// (per-model pricing for cost estimates lives in llm-usage.ts)
+const DEFAULT_MODEL = "gpt-5-nano";
+
+// Times a structured reply is sent back for fixing before giving up
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Model used for a task: LLM_MODEL_<TASK>, then LLM_MODEL (or the older OPENAI_MODEL)
+ */
+export function getModelForTask(task: LLMTask): string {
+  return (
+    process.env[`LLM_MODEL_${task.toUpperCase()}`] ||
+    process.env.LLM_MODEL ||
+    process.env.OPENAI_MODEL ||
+    DEFAULT_MODEL
+  );
+}
+
+function getMaxRepairs(): number {
+  const value = parseInt(process.env.LLM_MAX_REPAIRS || "", 10);
+  return Number.isNaN(value) || value < 0 ? DEFAULT_MAX_REPAIRS : value;
+}
+
+// ============================================
+// Built-in Providers
+// ============================================
+
+interface OpenAICompatibleOptions {
+  name: string;
+  label: string;
+  baseURL: () => string | undefined;
+  apiKey: () => string | undefined;
+  isConfigured: () => boolean;
+}
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API.
+ * The client is created lazily so env changes in tests and scripts apply.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    name: options.name,
+    label: options.label,
+    isConfigured: options.isConfigured,
+    createCompletion(params) {
+      if (!options.isConfigured()) {
+        throw new Error(`${options.label} is not configured`);
+      }
+      client ??= new OpenAI({
+        baseURL: options.baseURL(),
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: options.apiKey() || "not-needed",
+      });
+      return client.chat.completions.create(params);
+    },
+  };
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  name: "openai",
+  label: "OpenAI",
+  baseURL: () => undefined,
+  apiKey: () => process.env.OPENAI_API_KEY,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+});
+
+export const openaiCompatibleProvider = createOpenAICompatibleProvider({
+  name: "openai-compatible",
+  label: "OpenAI-compatible endpoint",
+  baseURL: () => process.env.LLM_BASE_URL,
+  apiKey: () => process.env.LLM_API_KEY,
+  isConfigured: () => !!process.env.LLM_BASE_URL,
+});
+
+// ============================================
+// Registry
+// ============================================
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerLLMProvider(openaiProvider);
+registerLLMProvider(openaiCompatibleProvider);
+
+/**
+ * Get the provider selected via LLM_PROVIDER
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase()
+    || (process.env.LLM_BASE_URL ? "openai-compatible" : "openai");
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Check if an LLM provider is configured
+ */
+export function isLLMConfigured(): boolean {
+  try {
+    return getLLMProvider().isConfigured();
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// Completions
+// ============================================
+
+/**
+ * Run a chat completion for a task on the configured provider and model,
+ * recording its token usage
+ */
+export async function createCompletion(
+  task: LLMTask,
+  params: Omit<ChatCompletionParams, "model">
+): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+  const provider = getLLMProvider();
+  const model = getModelForTask(task);
+  const completion = await provider.createCompletion({ ...params, model });
+  await recordLLMUsage(task, provider.name, completion.model || model, completion.usage);
+  return completion;
+}
+
+/**
+ * Run a completion expecting JSON that matches `schema`. Replies that don't
+ * parse or validate are sent back with the errors and the JSON schema until
+ * they do (up to LLM_MAX_REPAIRS times); the last error is thrown otherwise.
+ */
+export async function completeJSON<T extends z.ZodType>(
+  task: LLMTask,
+  messages: LLMMessage[],
+  schema: T
+): Promise<z.output<T>> {
+  const conversation = [...messages];
+  const maxRepairs = getMaxRepairs();
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const completion = await createCompletion(task, {
+      messages: conversation,
+      response_format: { type: "json_object" },
+    });
+    const content = completion.choices[0]?.message.content ?? "";
+
+    const result = parseStructuredOutput(content, schema);
+    if (result.success) return result.data;
+
+    lastError = result.error;
+    console.warn(`LLM ${task} reply failed validation (attempt ${attempt + 1}):`, result.problem);
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: buildRepairPrompt(result.problem, schema) }
+    );
+  }
+
+  throw lastError;
+}
+
+type StructuredOutput<T> =
+  | { success: true; data: T }
+  | { success: false; error: Error; problem: string };
+
+function parseStructuredOutput<T extends z.ZodType>(
+  content: string,
+  schema: T
+): StructuredOutput<z.output<T>> {
+  if (!content.trim()) {
+    return { success: false, error: new Error("No response returned"), problem: "The reply was empty." };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJSON(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid JSON";
+    return { success: false, error: error as Error, problem: `The reply is not valid JSON (${message}).` };
+  }
+
+  const validated = schema.safeParse(json);
+  if (validated.success) {
+    return { success: true, data: validated.data };
+  }
+  return { success: false, error: validated.error, problem: z.prettifyError(validated.error) };
+}
+
+/**
+ * Pull the JSON object out of replies wrapped in prose or markdown fences
+ */
+function extractJSON(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text.trim();
+}
+
+function buildRepairPrompt(problem: string, schema: z.ZodType): string {
+  let jsonSchema = "";
+  try {
+    const definition = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as Record<string, unknown>;
+    delete definition.$schema;
+    jsonSchema = `\n\nIt must match this JSON schema:\n${JSON.stringify(definition)}`;
+  } catch {
+    // Schema can't be expressed as JSON schema; the errors alone will have to do
+  }
+
+  return `Your previous reply could not be used:
+${problem}
+
+Reply again with only the corrected JSON object, keeping every value you got right.${jsonSchema}`;
+}
@@ -5,8 +5,11 @@
  * and compares them with direct flights to find savings.
  */
 
-import { searchFlights, NormalizedFlight, FlightSearchParams } from "./amadeus";
+import { NormalizedFlight } from "./amadeus";
+import { searchFlightsCached } from "./search-cache";
 import { findSuitableHubs, StopoverHub, getMinimumLayover } from "./stopovers";
+import { addMinutesToLocal } from "./timezones";
+import { rankRoutes, type RankingScore, type RankingSettings } from "./ranking";
 
 export interface RouteSegment {
   origin: string;
@@ -27,7 +30,8 @@ export interface MultiCityRoute {
   savingsPercent?: number;
   totalDuration: string;
   layoverDuration?: string;
-  score: number; // 0-100, higher is better (considers price, time, convenience)
+  score: number; // 0-100, higher is better, see ranking.ts
+  ranking?: RankingScore; // How the score breaks down by factor
   warnings?: string[];
 }
 
@@ -39,6 +43,8 @@ export interface MultiCitySearchParams {
   adults: number;
   travelClass?: "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
   maxHubs?: number;
+  forceRefresh?: boolean; // Bypass the server-side result cache
+  ranking?: RankingSettings; // Weights routes are scored with (defaults to the balanced preset)
 }
 
 export interface MultiCitySearchResult {
@@ -48,22 +54,32 @@ export interface MultiCitySearchResult {
   searchStats: {
     hubsSearched: number;
     totalSearches: number;
+    cacheHits: number;
     searchTimeMs: number;
   };
 }
 
+// Reported as the search advances, so routes can be shown before every hub is done
+export type MultiCityProgress =
+  | { type: "hubs"; hubs: StopoverHub[] } // Hubs that will be searched
+  | { type: "direct"; route: MultiCityRoute | null }
+  | { type: "hub"; hub: StopoverHub; route: MultiCityRoute | null; completed: number; total: number };
+
 /**
  * Search for multi-city routes with potential savings
  */
 export async function searchMultiCityRoutes(
-  params: MultiCitySearchParams
+  params: MultiCitySearchParams,
+  onProgress?: (update: MultiCityProgress) => void
 ): Promise<MultiCitySearchResult> {
   const startTime = Date.now();
   const searchStats = {
     hubsSearched: 0,
     totalSearches: 0,
+    cacheHits: 0,
     searchTimeMs: 0,
   };
+  const stopoverRoutes: MultiCityRoute[] = [];
 
   // Find suitable stopover hubs
   const hubs = findSuitableHubs(
@@ -71,11 +87,12 @@ export async function searchMultiCityRoutes(
     params.destination,
     params.maxHubs || 3
   );
+  onProgress?.({ type: "hubs", hubs });
 
   // Search for direct flights
   let directRoute: MultiCityRoute | null = null;
   try {
-    const directResult = await searchFlights({
+    const directResult = await searchFlightsCached({
       originLocationCode: params.origin,
       destinationLocationCode: params.destination,
       departureDate: params.departureDate,
@@ -83,8 +100,9 @@ export async function searchMultiCityRoutes(
       adults: params.adults,
       travelClass: params.travelClass,
       max: 10,
-    });
+    }, { forceRefresh: params.forceRefresh });
     searchStats.totalSearches++;
+    if (directResult.cache.hit) searchStats.cacheHits++;
 
     if (directResult.flights.length > 0) {
       const bestDirect = directResult.flights[0];
@@ -103,52 +121,58 @@ export async function searchMultiCityRoutes(
         totalPrice: bestDirect.price,
         currency: bestDirect.currency,
         totalDuration: bestDirect.totalDuration,
-        score: calculateRouteScore(bestDirect.price, bestDirect.totalDuration, 0),
+        score: 0, // Set when the routes are ranked
       };
     }
   } catch (error) {
     console.error("Direct search failed:", error);
   }
 
-  // Search through each hub
-  const stopoverRoutes: MultiCityRoute[] = [];
+  // Routes found so far are ranked against each other, so streamed routes carry provisional scores
+  const scoreFound = (route: MultiCityRoute) =>
+    rankRoutes([...(directRoute ? [directRoute] : []), ...stopoverRoutes, route], params.ranking)
+      .find((ranked) => ranked.id === route.id)!;
+  onProgress?.({ type: "direct", route: directRoute && scoreFound(directRoute) });
+
 
-  for (const hub of hubs) {
+  // Search through each hub
+  for (const [index, hub] of hubs.entries()) {
+    let hubRoute: MultiCityRoute | null = null;
     try {
       searchStats.hubsSearched++;
 
       // Search origin -> hub
-      const leg1Result = await searchFlights({
+      const leg1Result = await searchFlightsCached({
         originLocationCode: params.origin,
         destinationLocationCode: hub.code,
         departureDate: params.departureDate,
         adults: params.adults,
         travelClass: params.travelClass,
         max: 5,
-      });
+      }, { forceRefresh: params.forceRefresh });
       searchStats.totalSearches++;
+      if (leg1Result.cache.hit) searchStats.cacheHits++;
 
       if (leg1Result.flights.length === 0) continue;
 
       // Calculate arrival time at hub to determine departure date for leg 2
       const leg1Best = leg1Result.flights[0];
-      const leg1Arrival = new Date(leg1Best.legs[0].arrivalAt);
       const minLayover = getMinimumLayover(hub.code);
 
-      // Add layover time
-      const leg2DepartureTime = new Date(leg1Arrival.getTime() + minLayover * 60 * 60 * 1000);
-      const leg2Date = leg2DepartureTime.toISOString().split("T")[0];
+      // Add layover time to the hub-local arrival; leg 2 departs on the hub's calendar
+      const leg2Date = addMinutesToLocal(leg1Best.legs[0].arrivalAt, minLayover * 60).slice(0, 10);
 
       // Search hub -> destination
-      const leg2Result = await searchFlights({
+      const leg2Result = await searchFlightsCached({
         originLocationCode: hub.code,
         destinationLocationCode: params.destination,
         departureDate: leg2Date,
         adults: params.adults,
         travelClass: params.travelClass,
         max: 5,
-      });
+      }, { forceRefresh: params.forceRefresh });
       searchStats.totalSearches++;
+      if (leg2Result.cache.hit) searchStats.cacheHits++;
 
       if (leg2Result.flights.length === 0) continue;
 
@@ -156,8 +180,8 @@ export async function searchMultiCityRoutes(
 
       // Calculate total price and duration
       const totalPrice = leg1Best.price + leg2Best.price;
-      const leg2Departure = new Date(leg2Best.legs[0].departureAt);
-      const layoverMs = leg2Departure.getTime() - leg1Arrival.getTime();
+      // UTC instants, so layover and trip times are correct across timezones
+      const layoverMs = Date.parse(leg2Best.legs[0].departureUtc) - Date.parse(leg1Best.legs[0].arrivalUtc);
       const layoverHours = Math.round(layoverMs / (1000 * 60 * 60) * 10) / 10;
 
       // Validate layover is reasonable (2-24 hours)
@@ -177,9 +201,7 @@ export async function searchMultiCityRoutes(
         : 0;
 
       // Calculate total duration
-      const leg1Departure = new Date(leg1Best.legs[0].departureAt);
-      const leg2Arrival = new Date(leg2Best.legs[0].arrivalAt);
-      const totalMs = leg2Arrival.getTime() - leg1Departure.getTime();
+      const totalMs = Date.parse(leg2Best.legs[0].arrivalUtc) - Date.parse(leg1Best.legs[0].departureUtc);
       const totalHours = Math.round(totalMs / (1000 * 60 * 60) * 10) / 10;
 
       const stopoverRoute: MultiCityRoute = {
@@ -208,77 +230,34 @@ export async function searchMultiCityRoutes(
         savingsPercent: savingsPercent > 0 ? savingsPercent : undefined,
         totalDuration: `${totalHours}h`,
         layoverDuration: `${layoverHours}h in ${hub.city}`,
-        score: calculateRouteScore(totalPrice, `${totalHours}h`, layoverHours),
+        score: 0, // Set when the routes are ranked
         warnings: warnings.length > 0 ? warnings : undefined,
       };
 
       stopoverRoutes.push(stopoverRoute);
+      hubRoute = stopoverRoute;
     } catch (error) {
       console.error(`Hub search failed for ${hub.code}:`, error);
+    } finally {
+      onProgress?.({ type: "hub", hub, route: hubRoute && scoreFound(hubRoute), completed: index + 1, total: hubs.length });
     }
   }
 
-  // Sort stopover routes by score
-  stopoverRoutes.sort((a, b) => b.score - a.score);
-
-  // Determine best overall route
-  let bestRoute = directRoute;
-  if (stopoverRoutes.length > 0) {
-    const bestStopover = stopoverRoutes[0];
-    if (
-      !directRoute ||
-      (bestStopover.savingsPercent && bestStopover.savingsPercent >= 10)
-    ) {
-      // Prefer stopover if it saves at least 10%
-      bestRoute = bestStopover;
-    }
-  }
+  // Score all routes against each other; the best one overall is recommended
+  const ranked = rankRoutes([...(directRoute ? [directRoute] : []), ...stopoverRoutes], params.ranking);
+  const rankedDirect = ranked.find((route) => route.type === "direct") ?? null;
+  const rankedStopovers = ranked.filter((route) => route.type === "stopover");
 
   searchStats.searchTimeMs = Date.now() - startTime;
 
   return {
-    directRoute,
-    stopoverRoutes,
-    bestRoute,
+    directRoute: rankedDirect,
+    stopoverRoutes: rankedStopovers,
+    bestRoute: ranked[0] ?? null,
     searchStats,
   };
 }
 
-/**
- * Calculate a route score (0-100)
- * Higher is better - balances price, time, and convenience
- */
-function calculateRouteScore(
-  price: number,
-  duration: string,
-  layoverHours: number
-): number {
-  // Parse duration
-  const durationMatch = duration.match(/(\d+(?:\.\d+)?)/);
-  const hours = durationMatch ? parseFloat(durationMatch[1]) : 24;
-
-  // Price score (lower is better, normalized)
-  // Assume $500-$2000 range for international flights
-  const priceScore = Math.max(0, Math.min(100, 100 - ((price - 300) / 20)));
-
-  // Duration score (shorter is better)
-  // Assume 6-30 hour range for international flights
-  const durationScore = Math.max(0, Math.min(100, 100 - ((hours - 6) * 4)));
-
-  // Layover penalty (prefer 2-4 hour layovers)
-  let layoverPenalty = 0;
-  if (layoverHours > 0) {
-    if (layoverHours < 2) layoverPenalty = 20;
-    else if (layoverHours > 8) layoverPenalty = 15;
-    else if (layoverHours > 4) layoverPenalty = 5;
-  }
-
-  // Weighted average
-  const score = priceScore * 0.5 + durationScore * 0.3 - layoverPenalty;
-
-  return Math.max(0, Math.min(100, Math.round(score)));
-}
-
 /**
  * Format price with currency
  */
@@ -9,6 +9,8 @@ import { prisma } from "./db";
 import { sendPriceAlertEmail, PriceAlertData, isEmailConfigured } from "./resend";
 import { sendTelegramPriceAlert, isTelegramConfigured } from "./telegram";
 import { TaskExecutionResult } from "./scheduler";
+import type { NormalizedLeg } from "./amadeus";
+import { formatDayOffset, formatLocalTime } from "./timezones";
 
 export type NotificationType = "PRICE_DROP" | "PRICE_TARGET" | "NEW_LOW" | "PRICE_UPDATE";
 
@@ -71,13 +73,15 @@ export async function sendNotifications(
 
   const results: NotificationResult[] = [];
 
-  // Build notification data
+  // Build notification data, with the best flight's airport-local dates and times
+  const bestLegs = result.bestFlight?.legs;
   const alertData: PriceAlertData = {
     taskName: task.name,
     origin: task.origin,
     destination: task.destination,
-    departureDate: task.departureDate,
-    returnDate: task.returnDate,
+    departureDate: bestLegs ? bestLegs[0].departureAt.slice(0, 10) : task.departureDate,
+    returnDate: bestLegs ? bestLegs[1]?.departureAt.slice(0, 10) : task.returnDate,
+    flightTimes: bestLegs ? formatLegTimes(bestLegs[0]) : undefined,
     currentPrice: result.currentPrice!,
     previousPrice: result.previousPrice,
     lowestPrice: task.lowestPrice || undefined,
@@ -121,6 +125,14 @@ export async function sendNotifications(
   return results;
 }
 
+/**
+ * Describe a leg's airport-local times, e.g. "22:05 → 14:30 (+1 day)"
+ */
+function formatLegTimes(leg: NormalizedLeg): string {
+  const dayOffset = formatDayOffset(leg.departureAt, leg.arrivalAt);
+  return `${formatLocalTime(leg.departureAt)} → ${formatLocalTime(leg.arrivalAt)}${dayOffset ? ` (${dayOffset} day)` : ""}`;
+}
+
 /**
  * Record a sent notification in the database
  */
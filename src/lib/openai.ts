@@ -1,30 +1,9 @@
-import OpenAI from "openai";
 import { z } from "zod";
-
-// Lazy-loaded OpenAI client singleton
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new OpenAIServiceError("OPENAI_API_KEY environment variable is not set");
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
-// ============================================
-// Configuration
-// ============================================
-
-// Model configuration - defaults to gpt-5-nano, can be overridden via env
-// gpt-5-nano is optimized for speed and cost while maintaining high quality
-// Pricing: $0.25/1M input, $2/1M output (cost-effective)
-const DEFAULT_MODEL = "gpt-5-nano";
-const getModel = () => process.env.OPENAI_MODEL || DEFAULT_MODEL;
+import type { AirlinePreferences } from "./flight-utils";
+import { completeJSON, createCompletion, isLLMConfigured } from "./llm";
+import { withParseCache } from "./parse-cache";
+import { getAirport, getCountryName, getMetroAirports } from "./airports";
+import type { TravelerProfile } from "./traveler-profile";
 
 // ============================================
 // Travel Query Schema
@@ -36,18 +15,23 @@ const nullableNumber = () => z.number().optional().nullable().transform(v => v ?
 const nullableArray = <T extends z.ZodTypeAny>(schema: T) =>
   z.array(schema).optional().nullable().transform(v => v ?? undefined);
 
+const LocationSchema = z.object({
+  city: z.string().describe("City name"),
+  iataCode: z.string().length(3).optional().nullable().transform(v => v ?? undefined).describe("IATA airport code if known"),
+  country: nullableString().describe("Country name"),
+});
+
 export const TravelQuerySchema = z.object({
-  origin: z.object({
-    city: z.string().describe("City name"),
-    iataCode: z.string().length(3).optional().nullable().transform(v => v ?? undefined).describe("IATA airport code if known"),
-    country: nullableString().describe("Country name"),
-  }).describe("Departure location"),
-
-  destination: z.object({
-    city: z.string().describe("City name"),
-    iataCode: z.string().length(3).optional().nullable().transform(v => v ?? undefined).describe("IATA airport code if known"),
-    country: nullableString().describe("Country name"),
-  }).describe("Arrival location"),
+  origin: LocationSchema.describe("Departure location"),
+
+  destination: LocationSchema.describe("Arrival location"),
+
+  legs: nullableArray(z.object({
+    origin: LocationSchema,
+    destination: LocationSchema,
+    date: nullableString().describe("Departure date of this flight in YYYY-MM-DD format"),
+    daysAfterPrevious: nullableNumber().describe("Days after the previous flight when no date is given"),
+  })).describe("Ordered flights for multi_city / open-jaw trips, null otherwise"),
 
   dates: z.object({
     departure: z.object({
@@ -75,8 +59,10 @@ export const TravelQuerySchema = z.object({
     cabinClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).default("ECONOMY"),
     directFlightsOnly: z.boolean().default(false),
     flexibleDates: z.boolean().default(false).describe("User indicated flexibility with dates"),
-    preferredAirlines: nullableArray(z.string()).describe("Preferred airline codes"),
-    avoidAirlines: nullableArray(z.string()).describe("Airlines to avoid"),
+    preferredAirlines: nullableArray(z.string()).describe("Preferred airline IATA codes"),
+    preferredAirlinesOnly: z.boolean().default(false).describe("Only fly the preferred airlines"),
+    avoidAirlines: nullableArray(z.string()).describe("Airline IATA codes to avoid"),
+    checkedBags: z.number().min(0).max(3).optional().nullable().transform(v => v ?? undefined).describe("Checked bags per passenger if mentioned"),
   }).describe("Travel preferences and constraints"),
 
   intent: z.object({
@@ -109,23 +95,104 @@ export const AirportLookupSchema = z.object({
 
 export type AirportLookup = z.infer<typeof AirportLookupSchema>;
 
+// ============================================
+// Conversation Schema
+// ============================================
+
+// A follow-up message returns only what changed relative to the previous query
+export const FollowUpQuerySchema = z.object({
+  isNewSearch: z.boolean().default(false).describe("The message describes an unrelated new trip"),
+  changes: z.record(z.string(), z.unknown()).optional().nullable().transform(v => v ?? {}),
+  summary: nullableString().describe("Short description of what changed"),
+  confidence: TravelQuerySchema.shape.confidence,
+});
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationContext {
+  history: ConversationTurn[]; // Earlier turns, oldest first, excluding the new message
+  previousQuery?: ParsedTravelQuery; // Structured query of the last search in the conversation
+  previousResolved?: {
+    origin?: string; // IATA codes the search actually used
+    destination?: string;
+    departureDate?: string;
+    returnDate?: string;
+  };
+}
+
+export interface ConversationalParseResult {
+  parsedQuery: ParsedTravelQuery;
+  isFollowUp: boolean; // Applied as a diff to the previous search
+  changedFields: string[]; // Dot paths of the fields the follow-up changed
+  summary?: string;
+}
+
 // ============================================
 // API Functions
 // ============================================
 
+/**
+ * The traveler's home base (Buenos Aires until a home airport is saved)
+ */
+function describeHome(profile?: TravelerProfile): { label: string; city: string; code: string } {
+  const code = profile?.homeAirport;
+  const airport = code ? getAirport(code) ?? getMetroAirports(code)[0] : undefined;
+  if (!code || !airport) {
+    return { label: "Buenos Aires, Argentina", city: "Buenos Aires", code: "EZE" };
+  }
+  return { label: `${airport.city}, ${getCountryName(airport.country)}`, city: airport.city, code };
+}
+
+/**
+ * Profile defaults beyond the home airport, as prompt lines. Empty when the
+ * profile sets nothing but the built-in defaults.
+ */
+function describeProfileDefaults(profile?: TravelerProfile): string {
+  if (!profile) return "";
+
+  const lines: string[] = [];
+  const { adults, children, infants } = profile;
+  if (adults !== 1 || children > 0 || infants > 0) {
+    lines.push(`- Usual travelers: ${adults} adults, ${children} children, ${infants} infants`);
+  }
+  if (profile.travelClass !== "ECONOMY") {
+    lines.push(`- Usual cabin: ${profile.travelClass}`);
+  }
+  if (profile.maxStops === 0) {
+    lines.push("- Prefers nonstop flights: directFlightsOnly: true");
+  } else if (profile.maxStops !== null) {
+    lines.push(`- Accepts at most ${profile.maxStops} stop(s)`);
+  }
+  if (profile.preferredAirlines.length > 0) {
+    lines.push(`- Preferred airlines: ${profile.preferredAirlines.join(", ")} (preferredAirlines, not exclusive)`);
+  }
+  return lines.join("\n");
+}
+
 // Comprehensive system prompt for travel query parsing
-const buildSystemPrompt = (currentDate: string) => `You are an expert travel assistant specializing in parsing natural language flight queries. Your task is to extract structured search parameters from conversational input.
+const buildSystemPrompt = (currentDate: string, profile?: TravelerProfile) => {
+  const home = describeHome(profile);
+  const defaults = describeProfileDefaults(profile);
+
+  return `You are an expert travel assistant specializing in parsing natural language flight queries. Your task is to extract structured search parameters from conversational input.
 
 ## Current Context
 - Today's date: ${currentDate}
-- Default origin: Buenos Aires, Argentina (user's home base)
+- Default origin: ${home.label} (user's home base)
 - Default currency: USD
-
+${defaults ? `
+## Traveler Profile
+Use these defaults unless the message says otherwise:
+${defaults}
+` : ""}
 ## Core Parsing Rules
 
 ### 1. LOCATIONS
 **Origin:**
-- If no origin is specified, default to Buenos Aires (EZE)
+- If no origin is specified, default to ${home.city} (${home.code})
 - Handle Spanish city names: "de Buenos Aires", "desde BA", "saliendo de Ezeiza"
 - For Argentina departures, prefer EZE over AEP for international flights
 
@@ -204,8 +271,16 @@ const buildSystemPrompt = (currentDate: string) => `You are an expert travel ass
 
 **Flight Preferences:**
 - "direct" / "directo" / "non-stop" / "sin escalas" → directFlightsOnly: true
-- "avoiding X airline" → avoidAirlines
-- "preferably with X" → preferredAirlines
+- Airlines are always 2-letter IATA codes (Ryanair → FR, Iberia → IB, Aerolíneas Argentinas → AR)
+- "avoiding X airline" / "no Ryanair" / "nada de X" → avoidAirlines: ["FR"]
+- "preferably with X" / "I like flying X" → preferredAirlines
+- "only with X" / "solo con X" → preferredAirlines and preferredAirlinesOnly: true
+
+**Baggage:**
+- "with one checked bag" / "con una valija" / "1 bag" → checkedBags: 1
+- "two checked bags each" → checkedBags: 2
+- "carry-on only" / "hand luggage only" / "solo equipaje de mano" → checkedBags: 0
+- Not mentioned → checkedBags: null
 
 ### 5. TRIP TYPE
 - Default: round_trip
@@ -213,6 +288,16 @@ const buildSystemPrompt = (currentDate: string) => `You are an expert travel ass
 - Multiple destinations mentioned → multi_city
 - "open jaw" / mentioning different return city → multi_city
 
+**Multi-city legs:**
+For multi_city trips, list every flight in travel order in "legs" (max 6):
+- "Madrid → Tokyo, then Osaka → Seoul, then back to Madrid" →
+  legs: MAD→NRT, KIX→ICN, ICN→MAD
+- Ground segments (e.g. Tokyo to Osaka by train) are NOT flights - skip them
+- Give each leg a date if known, otherwise "daysAfterPrevious" (e.g. "a week in Tokyo" → 7)
+- Set origin to the first leg's origin and destination to the first leg's destination
+- dates.departure describes the first flight; set dates.return to null
+- For one_way and round_trip, set legs to null
+
 ### 6. CONFIDENCE SCORING
 Rate your overall confidence 0-1:
 - 1.0: All key info explicit and unambiguous
@@ -232,6 +317,14 @@ Return valid JSON matching this exact structure:
 {
   "origin": { "city": "string", "iataCode": "XXX", "country": "string" },
   "destination": { "city": "string", "iataCode": "XXX", "country": "string" },
+  "legs": [
+    {
+      "origin": { "city": "string", "iataCode": "XXX", "country": "string" },
+      "destination": { "city": "string", "iataCode": "XXX", "country": "string" },
+      "date": "YYYY-MM-DD or null",
+      "daysAfterPrevious": "number or null"
+    }
+  ] or null,
   "dates": {
     "departure": {
       "date": "YYYY-MM-DD or null",
@@ -253,7 +346,9 @@ Return valid JSON matching this exact structure:
     "directFlightsOnly": false,
     "flexibleDates": true/false,
     "preferredAirlines": [],
-    "avoidAirlines": []
+    "preferredAirlinesOnly": false,
+    "avoidAirlines": [],
+    "checkedBags": "number or null"
   },
   "intent": {
     "tripType": "one_way|round_trip|multi_city",
@@ -268,56 +363,191 @@ Return valid JSON matching this exact structure:
 }
 
 Always populate every field. Use null for missing optional values. Be precise with IATA codes.`;
+};
 
 /**
- * Parse a natural language travel query into structured search parameters
+ * Parse a natural language travel query into structured search parameters.
+ * Earlier conversation turns, when given, let the latest message answer
+ * clarification questions instead of starting over. The traveler profile
+ * fills in whatever the query leaves out, like the origin. `today` is only
+ * overridden to replay queries at a fixed date (e.g. the parser eval).
  */
-export async function parseTravelQuery(query: string): Promise<ParsedTravelQuery> {
-  const client = getOpenAIClient();
-  const model = getModel();
-
-  const currentDate = new Date().toISOString().split("T")[0];
-  const systemPrompt = buildSystemPrompt(currentDate);
+export async function parseTravelQuery(
+  query: string,
+  history: ConversationTurn[] = [],
+  today: Date = new Date(),
+  profile?: TravelerProfile
+): Promise<ParsedTravelQuery> {
+  const currentDate = today.toISOString().split("T")[0];
+  const systemPrompt = history.length > 0
+    ? `${buildSystemPrompt(currentDate, profile)}
+
+## Conversation
+Earlier messages of this conversation precede the latest one. The latest message may answer questions you asked or add details to an earlier request - combine everything into a single query for the trip being discussed now.`
+    : buildSystemPrompt(currentDate, profile);
+
+  // The same text parses differently under another profile
+  const cacheText = [query, profile?.homeAirport, describeProfileDefaults(profile)].filter(Boolean).join("\n");
+
+  // Validated with Zod, sloppy replies are sent back to be fixed
+  const parse = () => completeJSON("parse", [
+    { role: "system", content: systemPrompt },
+    ...history.map((turn) => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: query },
+  ], TravelQuerySchema);
 
   try {
-    const completion = await client.chat.completions.create({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: query },
-      ],
-      response_format: { type: "json_object" },
-    });
+    // Only standalone queries are cached, a reply in a conversation depends on what came before
+    return history.length > 0
+      ? await parse()
+      : await withParseCache("parse", { text: cacheText, referenceDate: currentDate }, parse);
+  } catch (error) {
+    console.error("OpenAI parse travel query error:", error);
+    if (error instanceof OpenAIServiceError) throw error;
+    if (error instanceof z.ZodError) {
+      throw new OpenAIServiceError("Failed to validate parsed travel query", error);
+    }
+    throw new OpenAIServiceError("Failed to parse travel query", error);
+  }
+}
+
+const buildFollowUpPrompt = (
+  currentDate: string,
+  previousQuery: ParsedTravelQuery,
+  previousResolved: ConversationContext["previousResolved"]
+) => `You are an expert travel assistant refining a flight search during a conversation. The user already searched and is now following up.
+
+## Current Context
+- Today's date: ${currentDate}
+- Previous search (structured): ${JSON.stringify(previousQuery)}
+- Previous search dates actually used: departure ${previousResolved?.departureDate ?? "unknown"}, return ${previousResolved?.returnDate ?? "none"}
+
+## Task
+Express the user's latest message as CHANGES to the previous search. Only include fields that change, using the same structure and field names as the previous search. Everything you leave out stays as it was.
+
+## Rules
+- "a week later" / "una semana después" → shift departure and return dates by 7 days from the dates actually used, as YYYY-MM-DD
+- "make it nonstop" / "directo" → { "preferences": { "directFlightsOnly": true } }
+- "what about business?" → { "preferences": { "cabinClass": "BUSINESS" } }
+- "add my kid" → { "passengers": { "children": <previous + 1> } }
+- "one way instead" → { "intent": { "tripType": "one_way" }, "dates": { "return": null } }
+- A changed origin or destination must be a complete location: { "city", "iataCode", "country" }
+- Use null to clear a value (e.g. "no budget limit" → { "preferences": { "maxBudget": null } })
+- Airlines are always 2-letter IATA codes; list the complete new array
+- If the message answers a question you asked, apply the answer as a change
+- If the message describes a different, unrelated trip, set isNewSearch: true and leave changes empty
 
-    const content = completion.choices[0].message.content;
+## Output Format
+Return valid JSON exactly like this:
+{
+  "isNewSearch": false,
+  "changes": { "preferences": { "directFlightsOnly": true } },
+  "summary": "Non-stop flights only",
+  "confidence": {
+    "overall": 0.0-1.0,
+    "needsClarification": true/false,
+    "clarificationQuestions": ["array of questions if needed"]
+  }
+}`;
 
-    if (!content) {
-      throw new OpenAIServiceError("Failed to parse travel query - no response returned");
+/**
+ * Apply follow-up changes to a previous query. Objects merge field by field;
+ * arrays, primitives and locations (city + code belong together) replace.
+ */
+export function applyQueryChanges(
+  previous: Record<string, unknown>,
+  changes: Record<string, unknown>,
+  path: string[] = []
+): { merged: Record<string, unknown>; changedFields: string[] } {
+  const merged: Record<string, unknown> = { ...previous };
+  const changedFields: string[] = [];
+  const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (!(key in previous) && path.length === 0) continue; // Ignore unknown top-level keys
+    const current = previous[key];
+    const isLocation = isPlainObject(value) && "city" in value;
+
+    if (isPlainObject(value) && isPlainObject(current) && !isLocation) {
+      const nested = applyQueryChanges(current, value, [...path, key]);
+      merged[key] = nested.merged;
+      changedFields.push(...nested.changedFields);
+    } else if (JSON.stringify(value) !== JSON.stringify(current)) {
+      merged[key] = value;
+      changedFields.push([...path, key].join("."));
     }
+  }
 
-    const parsed = JSON.parse(content);
+  return { merged, changedFields };
+}
 
-    // Validate with Zod
-    const validated = TravelQuerySchema.parse(parsed);
+/**
+ * Parse a chat message in the context of the conversation. With a previous
+ * search, the message is applied as a diff to that structured query;
+ * otherwise (or for an unrelated new trip) it's parsed with the earlier turns.
+ */
+export async function parseTravelQueryInContext(
+  message: string,
+  context: ConversationContext,
+  profile?: TravelerProfile
+): Promise<ConversationalParseResult> {
+  if (!context.previousQuery) {
+    return {
+      parsedQuery: await parseTravelQuery(message, context.history, undefined, profile),
+      isFollowUp: false,
+      changedFields: [],
+    };
+  }
+
+  const currentDate = new Date().toISOString().split("T")[0];
 
-    return validated;
+  let followUp: z.infer<typeof FollowUpQuerySchema>;
+  try {
+    followUp = await completeJSON("parse", [
+      { role: "system", content: buildFollowUpPrompt(currentDate, context.previousQuery, context.previousResolved) },
+      ...context.history.map((turn) => ({ role: turn.role, content: turn.content })),
+      { role: "user", content: message },
+    ], FollowUpQuerySchema);
   } catch (error) {
-    console.error("OpenAI parse travel query error:", error);
+    console.error("OpenAI parse follow-up error:", error);
     if (error instanceof OpenAIServiceError) throw error;
     if (error instanceof z.ZodError) {
-      throw new OpenAIServiceError("Failed to validate parsed travel query", error);
+      throw new OpenAIServiceError("Failed to validate follow-up changes", error);
     }
-    throw new OpenAIServiceError("Failed to parse travel query", error);
+    throw new OpenAIServiceError("Failed to parse follow-up", error);
   }
+
+  if (followUp.isNewSearch) {
+    return {
+      parsedQuery: await parseTravelQuery(message, context.history, undefined, profile),
+      isFollowUp: false,
+      changedFields: [],
+    };
+  }
+
+  const { merged, changedFields } = applyQueryChanges(
+    context.previousQuery as unknown as Record<string, unknown>,
+    followUp.changes
+  );
+
+  const result = TravelQuerySchema.safeParse({ ...merged, confidence: followUp.confidence });
+  if (!result.success) {
+    throw new OpenAIServiceError("Failed to validate refined travel query", result.error);
+  }
+
+  return {
+    parsedQuery: result.data,
+    isFollowUp: true,
+    changedFields,
+    summary: followUp.summary,
+  };
 }
 
 /**
  * Look up IATA airport codes for cities using AI
  */
 export async function lookupAirportCodes(cities: string[]): Promise<AirportLookup> {
-  const client = getOpenAIClient();
-  const model = getModel();
-
   const systemPrompt = `You are an expert airport code lookup assistant. Given city names, return the most appropriate IATA airport codes.
 
 ## Rules:
@@ -354,25 +584,12 @@ Return valid JSON exactly like this:
 }`;
 
   try {
-    const completion = await client.chat.completions.create({
-      model,
-      messages: [
+    return await withParseCache("airports", { text: [...cities].sort().join(", ") }, () =>
+      completeJSON("airports", [
         { role: "system", content: systemPrompt },
         { role: "user", content: `Look up airport codes for: ${cities.join(", ")}` },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const content = completion.choices[0].message.content;
-
-    if (!content) {
-      throw new OpenAIServiceError("Failed to lookup airport codes - no response");
-    }
-
-    const parsed = JSON.parse(content);
-    const validated = AirportLookupSchema.parse(parsed);
-
-    return validated;
+      ], AirportLookupSchema)
+    );
   } catch (error) {
     console.error("OpenAI airport lookup error:", error);
     if (error instanceof OpenAIServiceError) throw error;
@@ -392,34 +609,61 @@ export async function generateSearchInsights(
   priceRange: { min: number; max: number },
   hasDirectFlights: boolean
 ): Promise<string> {
-  const client = getOpenAIClient();
-  const model = getModel();
+  // Same query, result count and price range give the same insight, e.g. when re-running a saved search
+  const min = Math.round(priceRange.min);
+  const max = Math.round(priceRange.max);
+  const cacheText = `${query} | ${resultsCount} results | ${min}-${max} | direct: ${hasDirectFlights ? "yes" : "no"}`;
 
   try {
-    const completion = await client.chat.completions.create({
-      model,
-      messages: [
-        {
-          role: "system",
-          content: `You are a helpful travel assistant. Provide brief, actionable insights about flight search results. Keep responses concise (2-3 sentences max).`,
-        },
-        {
-          role: "user",
-          content: `Original search: "${query}"
+    return await withParseCache("insights", { text: cacheText }, async () => {
+      const completion = await createCompletion("insights", {
+        messages: [
+          {
+            role: "system",
+            content: `You are a helpful travel assistant. Provide brief, actionable insights about flight search results. Keep responses concise (2-3 sentences max).`,
+          },
+          {
+            role: "user",
+            content: `Original search: "${query}"
 Results: ${resultsCount} flights found
-Price range: $${priceRange.min} - $${priceRange.max}
+Price range: $${min} - $${max}
 Direct flights available: ${hasDirectFlights ? "Yes" : "No"}
 
 Provide a brief insight or suggestion for the user.`,
+          },
+        ],
+        max_tokens: 150,
+      });
+
+      return completion.choices[0].message.content || "";
+    });
+  } catch (error) {
+    // Failures throw out of the cache callback, so they are never cached
+    console.error("OpenAI generate insights error:", error);
+    return ""; // Non-critical, return empty on error
+  }
+}
+
+/**
+ * Generate a short title for a chat conversation from its first message
+ */
+export async function generateConversationTitle(firstMessage: string): Promise<string> {
+  try {
+    const completion = await createCompletion("title", {
+      messages: [
+        {
+          role: "system",
+          content: `Write a short title (max 6 words) for a travel chat that starts with the user's message, e.g. "Buenos Aires to Madrid in March". Use the user's language. Reply with the title only, no quotes.`,
         },
+        { role: "user", content: firstMessage },
       ],
-      max_tokens: 150,
+      max_tokens: 30,
     });
 
-    return completion.choices[0].message.content || "";
+    return completion.choices[0].message.content?.trim() || "";
   } catch (error) {
-    console.error("OpenAI generate insights error:", error);
-    return ""; // Non-critical, return empty on error
+    console.error("OpenAI generate conversation title error:", error);
+    return ""; // Non-critical, the caller falls back to the message
   }
 }
 
@@ -431,12 +675,14 @@ Provide a brief insight or suggestion for the user.`,
  * Convert parsed dates to YYYY-MM-DD format for Amadeus
  * Handles various flexibility modes and relative date expressions
  */
-export function resolveParsedDates(parsed: ParsedTravelQuery): {
+export function resolveParsedDates(parsed: ParsedTravelQuery, now: Date = new Date()): {
   departureDate: string;
   returnDate?: string;
   departureDateRange?: { start: string; end: string };
+  tripDurations?: number[]; // Trip lengths in days to explore in a date matrix
+  legDates?: string[]; // Departure date of each multi-city leg
 } {
-  const today = new Date();
+  const today = new Date(now);
   today.setHours(0, 0, 0, 0);
 
   // Helper to format date as YYYY-MM-DD
@@ -515,6 +761,25 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
     return date;
   };
 
+  // Keep a date range in the future: a range that is already over moves a year
+  // ahead as a whole (start and end together), one under way starts tomorrow
+  const ensureFutureRange = (start: Date, end: Date): { start: Date; end: Date } => {
+    if (end <= today) {
+      const shifted = [start, end].map((date) => {
+        const nextYear = new Date(date);
+        nextYear.setFullYear(nextYear.getFullYear() + 1);
+        return nextYear;
+      });
+      return { start: shifted[0], end: shifted[1] };
+    }
+    if (start <= today) {
+      const tomorrow = new Date(today);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      return { start: tomorrow, end };
+    }
+    return { start, end };
+  };
+
   let departureDate: string;
   let departureDateRange: { start: string; end: string } | undefined;
 
@@ -524,11 +789,16 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
     return new Date(year, month - 1, day);
   };
 
+  // Years a past departure date was moved ahead by, applied to the return date too
+  let yearShift = 0;
+
   // Resolve departure date
   if (parsed.dates.departure.date) {
     // Exact date provided - use the AI-parsed date directly
-    const depDate = parseDateString(parsed.dates.departure.date);
-    departureDate = formatDate(ensureFuture(depDate));
+    const parsedDepDate = parseDateString(parsed.dates.departure.date);
+    const depDate = ensureFuture(parsedDepDate);
+    yearShift = depDate.getFullYear() - parsedDepDate.getFullYear();
+    departureDate = formatDate(depDate);
 
     // Add range if flexible
     if (parsed.dates.departure.flexibility === "flexible_few_days") {
@@ -536,10 +806,8 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
       start.setDate(start.getDate() - 2);
       const end = new Date(depDate);
       end.setDate(end.getDate() + 2);
-      departureDateRange = {
-        start: formatDate(ensureFuture(start)),
-        end: formatDate(end),
-      };
+      const range = ensureFutureRange(start, end);
+      departureDateRange = { start: formatDate(range.start), end: formatDate(range.end) };
     }
   } else if (parsed.dates.departure.month) {
     // Month-based flexibility
@@ -547,12 +815,16 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
       parsed.dates.departure.month,
       parsed.dates.departure.flexibility
     );
-    departureDate = formatDate(ensureFuture(result.date));
     if (result.range) {
-      departureDateRange = {
-        start: formatDate(ensureFuture(result.range.start)),
-        end: formatDate(result.range.end),
-      };
+      // The date stays inside its range, which may start later this month
+      const range = ensureFutureRange(result.range.start, result.range.end);
+      const yearOffset = range.end.getFullYear() - result.range.end.getFullYear();
+      const date = new Date(result.date);
+      date.setFullYear(date.getFullYear() + yearOffset);
+      departureDate = formatDate(date < range.start ? range.start : date);
+      departureDateRange = { start: formatDate(range.start), end: formatDate(range.end) };
+    } else {
+      departureDate = formatDate(ensureFuture(result.date));
     }
   } else {
     // Default to 2 weeks from now
@@ -567,8 +839,9 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
   if (parsed.intent.tripType === "one_way") {
     returnDate = undefined;
   } else if (parsed.dates.return?.date) {
-    // Use AI-parsed return date directly
+    // Use AI-parsed return date directly, moved ahead with the departure date
     const retDate = parseDateString(parsed.dates.return.date);
+    retDate.setFullYear(retDate.getFullYear() + yearShift);
     returnDate = formatDate(retDate);
   } else if (parsed.dates.return?.durationDays) {
     const depDate = new Date(departureDate);
@@ -592,7 +865,63 @@ export function resolveParsedDates(parsed: ParsedTravelQuery): {
     returnDate = formatDate(depDate);
   }
 
-  return { departureDate, returnDate, departureDateRange };
+  // Trip lengths to explore around the resolved return date
+  let tripDurations: number[] | undefined;
+  if (returnDate) {
+    const baseDays = Math.round(
+      (parseDateString(returnDate).getTime() - parseDateString(departureDate).getTime()) / (1000 * 60 * 60 * 24)
+    );
+    const spread =
+      parsed.dates.return?.flexibility === "flexible_week" ? 3 :
+      parsed.dates.return?.flexibility === "flexible_few_days" ? 1 : 0;
+    tripDurations = spread
+      ? [baseDays - spread, baseDays, baseDays + spread].filter((days) => days > 0)
+      : [baseDays];
+  }
+
+  // Resolve multi-city leg dates: the first leg uses the departure date, later
+  // legs use their own date or an offset from the previous leg (default 7 days)
+  let legDates: string[] | undefined;
+  if (parsed.intent.tripType === "multi_city" && parsed.legs && parsed.legs.length > 1) {
+    legDates = [departureDate];
+    for (const leg of parsed.legs.slice(1)) {
+      const previous = parseDateString(legDates[legDates.length - 1]);
+      let legDate: Date;
+      if (leg.date) {
+        legDate = parseDateString(leg.date);
+      } else {
+        legDate = new Date(previous);
+        legDate.setDate(legDate.getDate() + (leg.daysAfterPrevious ?? 7));
+      }
+      legDates.push(formatDate(legDate < previous ? previous : legDate));
+    }
+  }
+
+  return { departureDate, returnDate, departureDateRange, tripDurations, legDates };
+}
+
+/**
+ * Clean up the parsed airline preferences into IATA carrier codes.
+ * Anything that isn't a 2-character code is dropped, and avoiding an
+ * airline wins over preferring it.
+ */
+export function resolveAirlinePreferences(parsed: ParsedTravelQuery): AirlinePreferences {
+  const toCodes = (airlines?: string[]) => [
+    ...new Set(
+      (airlines ?? [])
+        .map((airline) => airline.trim().toUpperCase())
+        .filter((airline) => /^[A-Z0-9]{2}$/.test(airline))
+    ),
+  ];
+
+  const avoided = toCodes(parsed.preferences.avoidAirlines);
+  const preferred = toCodes(parsed.preferences.preferredAirlines).filter((code) => !avoided.includes(code));
+
+  return {
+    preferred,
+    avoided,
+    preferredOnly: parsed.preferences.preferredAirlinesOnly && preferred.length > 0,
+  };
 }
 
 // ============================================
@@ -610,8 +939,8 @@ export class OpenAIServiceError extends Error {
 }
 
 /**
- * Check if OpenAI is configured
+ * Check if an LLM provider is configured (OpenAI or a compatible endpoint)
  */
 export function isOpenAIConfigured(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return isLLMConfigured();
 }
@@ -0,0 +1,94 @@
+/**
+ * Parse Cache
+ *
+ * Persists LLM results for inputs we've already seen, so re-running a search
+ * from the history page or a saved search doesn't parse the same text, look
+ * up the same airports or write the same insight again (insights are keyed on
+ * the query, result count and price range). Entries are keyed by feature,
+ * model, normalized input text and - for anything with relative dates - the
+ * reference date, and expire after PARSE_CACHE_TTL_DAYS
+ * (default 30, set to 0 to disable caching).
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "./db";
+import { getModelForTask, type LLMTask } from "./llm";
+
+const DEFAULT_TTL_DAYS = 30;
+
+export function getParseCacheTtlDays(): number {
+  const ttl = parseInt(process.env.PARSE_CACHE_TTL_DAYS || "", 10);
+  return Number.isNaN(ttl) || ttl < 0 ? DEFAULT_TTL_DAYS : ttl;
+}
+
+/**
+ * Collapse case and whitespace so trivially different inputs share an entry
+ */
+export function normalizeCacheInput(text: string): string {
+  return text.normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Return the cached result for this input, or compute and cache it.
+ * `referenceDate` (YYYY-MM-DD) belongs in the key whenever the result
+ * depends on "today", e.g. "next Friday".
+ */
+export async function withParseCache<T>(
+  feature: LLMTask,
+  input: { text: string; referenceDate?: string },
+  compute: () => Promise<T>
+): Promise<T> {
+  const ttlDays = getParseCacheTtlDays();
+  if (ttlDays === 0) return compute();
+
+  const model = getModelForTask(feature);
+  const text = normalizeCacheInput(input.text);
+  const referenceDate = input.referenceDate ?? null;
+  const key = createHash("sha256")
+    .update(JSON.stringify([feature, model, text, referenceDate]))
+    .digest("hex");
+
+  try {
+    const entry = await prisma.parseCache.findUnique({ where: { key } });
+    if (entry && entry.expiresAt > new Date()) {
+      console.log(`Parse cache hit for ${feature}`);
+      return entry.result as T;
+    }
+  } catch (error) {
+    // A cache failure should never block parsing
+    console.error("Parse cache read failed:", error);
+  }
+
+  const result = await compute();
+
+  try {
+    const data = {
+      feature,
+      model,
+      input: text,
+      referenceDate,
+      result: result as object,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    };
+    await prisma.parseCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  } catch (error) {
+    console.error("Parse cache write failed:", error);
+  }
+
+  return result;
+}
+
+/**
+ * Delete expired cache entries
+ */
+export async function purgeExpiredParseCache(): Promise<number> {
+  const deleted = await prisma.parseCache.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return deleted.count;
+}
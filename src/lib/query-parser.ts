@@ -0,0 +1,459 @@
+/**
+ * Rule-based Query Parser
+ *
+ * Deterministic parser for the short, structured queries typed all day
+ * ("BCN to JFK 12 March return 20 March 2 adults business"). It produces the
+ * same ParsedTravelQuery shape as the LLM parser, resolving cities and IATA
+ * codes through the bundled airport data. Anything it doesn't recognize
+ * lowers its confidence, and low-confidence queries go to the LLM instead.
+ */
+
+import {
+  parseTravelQuery,
+  isOpenAIConfigured,
+  TravelQuerySchema,
+  type ParsedTravelQuery,
+} from "./openai";
+import {
+  findAirportCodeForCity,
+  getAirport,
+  getMetroAirports,
+  getCountryName,
+  isKnownLocationCode,
+} from "./airports";
+import type { TravelerProfile } from "./traveler-profile";
+
+// Rule-based results at or above this confidence skip the LLM
+const MIN_RULE_CONFIDENCE = 0.8;
+
+// Longest city name tried on each side of "to", in words ("san carlos de bariloche")
+const MAX_CITY_WORDS = 4;
+
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DAY_PATTERN = "(\\d{1,2})(?:st|nd|rd|th)?";
+const NUMBER_PATTERN = "(\\d+|one|two|three|four|five|six|seven|eight|nine)";
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+
+// Words that carry no information of their own
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "from", "to", "on", "in", "at", "of", "for", "and", "with", "by",
+  "flight", "flights", "fly", "flying", "trip", "ticket", "tickets", "class", "cabin",
+  "i", "we", "me", "us", "want", "need", "looking", "find", "show", "book", "please",
+  "cheap", "cheapest", "leaving", "departing", "depart", "return", "returning", "back",
+  "round", "one", "way", "only", "until", "till", "->", "→", "-",
+]);
+
+interface ParsedDate {
+  date: string; // YYYY-MM-DD
+  isReturn: boolean;
+}
+
+/**
+ * Parse a query with rules only. Returns null when origin and destination
+ * can't both be resolved; with a home airport in the profile, "to Tokyo"
+ * is enough. `today` is injectable so results are reproducible.
+ */
+export function parseTravelQueryWithRules(
+  query: string,
+  today: Date = new Date(),
+  profile?: TravelerProfile
+): ParsedTravelQuery | null {
+  // Matched spans are blanked out so later rules and the leftover check skip them
+  let text = normalize(query);
+  const consume = (pattern: RegExp, onMatch: (match: RegExpExecArray) => void) => {
+    text = text.replace(pattern, (...args) => {
+      const groups = args.slice(0, -2) as string[];
+      const match = Object.assign(groups, { index: args[args.length - 2], input: text }) as RegExpExecArray;
+      onMatch(match);
+      return " ".repeat(groups[0].length);
+    });
+  };
+
+  // Route
+  const route = findRoute(text) ?? findRouteFromHome(text, profile?.homeAirport);
+  if (!route) return null;
+  text = text.slice(0, route.start) + " ".repeat(route.end - route.start) + text.slice(route.end);
+
+  // Passengers
+  let passengers = { adults: 1, children: 0, infants: 0 };
+  let countedPassengers = false;
+  consume(new RegExp(`\\b${NUMBER_PATTERN}\\s+(?:adults?|passengers?|people|persons?|pax|travell?ers)\\b`, "g"), (m) => {
+    passengers.adults = toNumber(m[1]);
+    countedPassengers = true;
+  });
+  consume(new RegExp(`\\b${NUMBER_PATTERN}\\s+(?:child|children|kids?)\\b`, "g"), (m) => {
+    passengers.children = toNumber(m[1]);
+    countedPassengers = true;
+  });
+  consume(new RegExp(`\\b${NUMBER_PATTERN}\\s+(?:lap\\s+)?(?:infants?|bab(?:y|ies))\\b`, "g"), (m) => {
+    passengers.infants = toNumber(m[1]);
+    countedPassengers = true;
+  });
+  // Any count in the query describes the whole party, otherwise the usual one travels
+  if (!countedPassengers && profile) {
+    passengers = { adults: profile.adults, children: profile.children, infants: profile.infants };
+  }
+
+  // Cabin and stops
+  let cabinClass: ParsedTravelQuery["preferences"]["cabinClass"] = profile?.travelClass ?? "ECONOMY";
+  consume(/\b(premium economy|business|first class|economy|coach)(?:\s+class)?\b/g, (m) => {
+    cabinClass =
+      m[1] === "premium economy" ? "PREMIUM_ECONOMY" :
+      m[1] === "business" ? "BUSINESS" :
+      m[1] === "first class" ? "FIRST" : "ECONOMY";
+  });
+  let directFlightsOnly = profile?.maxStops === 0;
+  consume(/\b(?:non-?stop|direct)(?:\s+flights?)?(?:\s+only)?\b/g, () => {
+    directFlightsOnly = true;
+  });
+
+  // Budget, in dollars: other currencies are left to the LLM, which converts them
+  let maxBudget: number | undefined;
+  let budgetInOtherCurrency = false;
+  consume(/\b(?:under|below|max|up to|less than)\s*([$€£])?\s*(\d+)\s*(usd|dollars?|eur|euros?|gbp|pounds?|\$|€|£)?(?![a-z])/g, (m) => {
+    const currency = m[1] ?? m[3];
+    if (currency && !["$", "usd", "dollar", "dollars"].includes(currency)) {
+      budgetInOtherCurrency = true;
+    } else {
+      maxBudget = Number(m[2]);
+    }
+  });
+
+  // Trip type keywords
+  let tripType: ParsedTravelQuery["intent"]["tripType"] | undefined;
+  consume(/\bone[- ]way\b/g, () => {
+    tripType = "one_way";
+  });
+  consume(/\bround[- ]?trip\b/g, () => {
+    tripType ??= "round_trip";
+  });
+
+  // Trip length
+  let durationDays: number | undefined;
+  let durationWeeks: number | undefined;
+  consume(new RegExp(`\\b(?:for\\s+)?(?:${NUMBER_PATTERN}|an?)[- ](days?|nights?|weeks?)(?:\\s+trip)?\\b`, "g"), (m) => {
+    const count = m[1] ? toNumber(m[1]) : 1; // "for a week"
+    if (m[2].startsWith("week")) durationWeeks = count;
+    else durationDays = count;
+  });
+
+  // Dates, most specific patterns first
+  const dates: ParsedDate[] = [];
+  const isReturnAt = (index: number) =>
+    /\b(?:return(?:ing)?|back|until|till|inbound)(?:\s+on)?\s*$/.test(text.slice(0, index));
+  const addDate = (index: number, day: number, month: number, year?: number) => {
+    const isReturn = isReturnAt(index) || dates.length > 0;
+    const after = isReturn && dates[0] ? dates[0].date : undefined;
+    const date = resolveDate(day, month, year, today, after);
+    if (date) dates.push({ date, isReturn });
+  };
+
+  consume(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (m) => {
+    addDate(m.index, Number(m[3]), Number(m[2]) - 1, Number(m[1]));
+  });
+  consume(new RegExp(`\\b${DAY_PATTERN}\\s*(?:-|to|until)\\s*${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:\\s+(\\d{4}))?`, "g"), (m) => {
+    const month = toMonth(m[3]);
+    const year = m[4] ? Number(m[4]) : undefined;
+    addDate(m.index, Number(m[1]), month, year);
+    addDate(m.index, Number(m[2]), month, year);
+  });
+  consume(new RegExp(`\\b${MONTH_PATTERN}\\s+${DAY_PATTERN}\\s*(?:-|to|until)\\s*${DAY_PATTERN}\\b(?:\\s+(\\d{4}))?`, "g"), (m) => {
+    const month = toMonth(m[1]);
+    const year = m[4] ? Number(m[4]) : undefined;
+    addDate(m.index, Number(m[2]), month, year);
+    addDate(m.index, Number(m[3]), month, year);
+  });
+  consume(new RegExp(`\\b${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:\\s+(\\d{4}))?`, "g"), (m) => {
+    addDate(m.index, Number(m[1]), toMonth(m[2]), m[3] ? Number(m[3]) : undefined);
+  });
+  consume(new RegExp(`\\b${MONTH_PATTERN}\\s+${DAY_PATTERN}\\b(?!\\s*(?:adults?|passengers?|people|child|children|kids?|infants?|days?|nights?|weeks?))(?:\\s+(\\d{4}))?`, "g"), (m) => {
+    addDate(m.index, Number(m[2]), toMonth(m[1]), m[3] ? Number(m[3]) : undefined);
+  });
+  consume(/\b(today|tomorrow)\b/g, (m) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + (m[1] === "tomorrow" ? 1 : 0));
+    addDate(m.index, date.getDate(), date.getMonth(), date.getFullYear());
+  });
+
+  // A month on its own means any day that month
+  let departureMonth: string | undefined;
+  if (dates.length === 0) {
+    consume(new RegExp(`\\b(?:in\\s+|during\\s+)?${MONTH_PATTERN}\\b`), (m) => {
+      departureMonth = MONTH_NAMES[toMonth(m[1])];
+    });
+  }
+
+  // Anything left over is something the rules didn't understand
+  const leftover = text.split(/\s+/).filter((word) => word && !FILLER_WORDS.has(word));
+  const departure = dates.find((date) => !date.isReturn) ?? dates[0];
+  const returning = dates.find((date) => date !== departure);
+  const hasReturn = !!returning || !!durationDays || !!durationWeeks;
+
+  tripType ??= hasReturn || /\breturn\b/.test(normalize(query)) ? "round_trip" : "one_way";
+  if (tripType === "one_way" && hasReturn) tripType = "round_trip";
+
+  // Each part the rules aren't sure about lowers the confidence and gets a question,
+  // asked when there is no LLM to hand the query to
+  const questions: string[] = [];
+  let overall = 0.95;
+  if (leftover.length > 0) {
+    // A single word the rules didn't understand can change the search, so it goes to the LLM
+    overall = Math.min(0.7, 0.95 - leftover.length * 0.15);
+    questions.push(`I didn't understand "${leftover.join(" ")}" - could you say it another way?`);
+  }
+  if (!departure && !departureMonth) {
+    overall = Math.min(overall, 0.6); // Relative dates are better left to the LLM
+    questions.push("Which day do you want to leave? A date like \"12 March\" works best.");
+  }
+  if (budgetInOtherCurrency) {
+    overall = Math.min(overall, 0.6);
+    questions.push("What is your budget in US dollars?");
+  }
+
+  // Each infant travels on an adult's lap
+  const tooManyInfants = passengers.infants > passengers.adults;
+  if (tooManyInfants) {
+    overall = Math.min(overall, 0.4);
+    questions.push(`Each infant needs an adult to sit with - how many adults are traveling with the ${passengers.infants} infants?`);
+  }
+
+  return TravelQuerySchema.parse({
+    origin: route.origin,
+    destination: route.destination,
+    legs: null,
+    dates: {
+      departure: {
+        date: departure?.date ?? null,
+        month: departureMonth ?? null,
+        flexibility: departureMonth ? "anytime_month" : "exact",
+      },
+      return: tripType === "one_way" ? null : {
+        date: returning?.date ?? null,
+        durationDays: durationDays ?? null,
+        durationWeeks: durationWeeks ?? null,
+        flexibility: "exact",
+      },
+    },
+    passengers,
+    preferences: {
+      maxBudget: maxBudget ?? null,
+      cabinClass,
+      directFlightsOnly,
+      flexibleDates: !!departureMonth,
+      preferredAirlines: profile?.preferredAirlines.length ? profile.preferredAirlines : null,
+    },
+    intent: { tripType },
+    confidence: {
+      overall: Math.max(0.3, Math.round(overall * 100) / 100),
+      needsClarification: tooManyInfants,
+      clarificationQuestions: questions.length > 0 ? questions : null,
+    },
+  });
+}
+
+/**
+ * Parse with rules only, returning the result when it's confident enough to
+ * skip the LLM. Such a query names its own route and dates, so the chat can
+ * search it without reading the conversation.
+ */
+export function parseConfidentlyWithRules(query: string, profile?: TravelerProfile): ParsedTravelQuery | null {
+  const ruleBased = parseTravelQueryWithRules(query, new Date(), profile);
+  return ruleBased && ruleBased.confidence.overall >= MIN_RULE_CONFIDENCE ? ruleBased : null;
+}
+
+/**
+ * Parse with the rules first and call the LLM only when they aren't confident.
+ * Without an LLM configured, an unsure rule-based result asks the questions
+ * the rules had instead of searching on guesses; null means nothing could be
+ * parsed at all.
+ */
+export async function parseNaturalQuery(
+  query: string,
+  profile?: TravelerProfile
+): Promise<ParsedTravelQuery | null> {
+  const ruleBased = parseTravelQueryWithRules(query, new Date(), profile);
+  if (ruleBased && ruleBased.confidence.overall >= MIN_RULE_CONFIDENCE) {
+    return ruleBased;
+  }
+
+  if (!isOpenAIConfigured()) {
+    return ruleBased && needsClarification(ruleBased);
+  }
+
+  try {
+    return await parseTravelQuery(query, [], new Date(), profile);
+  } catch (error) {
+    // A slow or failing LLM shouldn't block a query the rules partly understood
+    if (ruleBased) {
+      console.error("LLM parse failed, using rule-based result:", error);
+      return ruleBased;
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Mark an unsure rule-based result as needing clarification, with a
+ * confidence low enough for the search routes to ask its questions
+ */
+function needsClarification(parsed: ParsedTravelQuery): ParsedTravelQuery {
+  return {
+    ...parsed,
+    confidence: {
+      overall: Math.min(parsed.confidence.overall, 0.4),
+      needsClarification: true,
+      clarificationQuestions: parsed.confidence.clarificationQuestions,
+    },
+  };
+}
+
+/**
+ * Lowercase, strip diacritics and punctuation that never matters
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[,;!?]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value] ?? Number(value);
+}
+
+function toMonth(value: string): number {
+  return MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(value.slice(0, 3)));
+}
+
+/**
+ * Build a YYYY-MM-DD date. Without a year, the next occurrence on or after
+ * `today` (or after `after`, for return dates) is used.
+ */
+function resolveDate(day: number, month: number, year: number | undefined, today: Date, after?: string): string | null {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  let candidate = new Date(year ?? start.getFullYear(), month, day);
+  if (candidate.getMonth() !== month) return null; // e.g. 31 April
+
+  if (year === undefined) {
+    // A return date can fall more than a year after today ("12 March returning 2 March")
+    const notBefore = after ? parseLocalDate(after) : start;
+    let nextYear = candidate.getFullYear();
+    while (candidate < notBefore || candidate.getMonth() !== month) {
+      candidate = new Date(++nextYear, month, day);
+    }
+  }
+
+  return [
+    candidate.getFullYear(),
+    String(candidate.getMonth() + 1).padStart(2, "0"),
+    String(candidate.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+interface ResolvedLocation {
+  city: string;
+  iataCode: string;
+  country: string;
+}
+
+/**
+ * Resolve an IATA airport/metro code or a city name from the airport data
+ */
+function resolveLocation(phrase: string): ResolvedLocation | null {
+  const trimmed = phrase.trim();
+  if (!trimmed) return null;
+
+  const code = /^[a-z]{3}$/.test(trimmed) && isKnownLocationCode(trimmed)
+    ? trimmed.toUpperCase()
+    : findAirportCodeForCity(trimmed);
+  if (!code) return null;
+
+  const airport = getAirport(code) ?? getMetroAirports(code)[0];
+  if (!airport) return null;
+  return { city: airport.city, iataCode: code, country: getCountryName(airport.country) };
+}
+
+/**
+ * Find "<origin> to <destination>" (or "->", "→", "BCN-JFK"), trying the
+ * longest city names next to the separator first
+ */
+function findRoute(text: string): { origin: ResolvedLocation; destination: ResolvedLocation; start: number; end: number } | null {
+  const codePair = /\b([a-z]{3})-([a-z]{3})\b/.exec(text);
+  if (codePair) {
+    const origin = resolveLocation(codePair[1]);
+    const destination = resolveLocation(codePair[2]);
+    if (origin && destination) {
+      return { origin, destination, start: codePair.index, end: codePair.index + codePair[0].length };
+    }
+  }
+
+  const words = [...text.matchAll(/\S+/g)].map((match) => ({ word: match[0], start: match.index ?? 0 }));
+  for (let i = 1; i < words.length - 1; i++) {
+    if (!["to", "->", "→"].includes(words[i].word)) continue;
+
+    for (let before = Math.min(MAX_CITY_WORDS, i); before >= 1; before--) {
+      const originWords = words.slice(i - before, i);
+      const origin = resolveLocation(originWords.map((w) => w.word).join(" "));
+      if (!origin) continue;
+
+      for (let after = Math.min(MAX_CITY_WORDS, words.length - i - 1); after >= 1; after--) {
+        const destinationWords = words.slice(i + 1, i + 1 + after);
+        const destination = resolveLocation(destinationWords.map((w) => w.word).join(" "));
+        if (!destination) continue;
+
+        const last = destinationWords[destinationWords.length - 1];
+        return { origin, destination, start: originWords[0].start, end: last.start + last.word.length };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find "to <destination>" in a query without an origin, leaving from the
+ * traveler's home airport
+ */
+function findRouteFromHome(
+  text: string,
+  homeAirport: string | null | undefined
+): { origin: ResolvedLocation; destination: ResolvedLocation; start: number; end: number } | null {
+  const origin = homeAirport ? resolveLocation(homeAirport.toLowerCase()) : null;
+  if (!origin) return null;
+
+  const words = [...text.matchAll(/\S+/g)].map((match) => ({ word: match[0], start: match.index ?? 0 }));
+  for (let i = 0; i < words.length - 1; i++) {
+    if (!["to", "->", "→"].includes(words[i].word)) continue;
+
+    for (let after = Math.min(MAX_CITY_WORDS, words.length - i - 1); after >= 1; after--) {
+      const destinationWords = words.slice(i + 1, i + 1 + after);
+      const destination = resolveLocation(destinationWords.map((w) => w.word).join(" "));
+      if (!destination || destination.iataCode === origin.iataCode) continue;
+
+      const last = destinationWords[destinationWords.length - 1];
+      return { origin, destination, start: words[i].start, end: last.start + last.word.length };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Ranking Presets
+ *
+ * Weight presets for the ranking engine, stored in the database so the
+ * results list, route comparison, natural-language search and the chat
+ * assistant all rank with the same active preset.
+ */
+
+import { prisma } from "./db";
+import {
+  BUILT_IN_RANKING_PRESETS,
+  DEFAULT_RANKING_SETTINGS,
+  RankingSettingsSchema,
+  type RankingSettings,
+} from "./ranking";
+
+export interface RankingPresetItem {
+  id: string;
+  name: string;
+  settings: RankingSettings;
+  builtIn: boolean;
+  active: boolean;
+}
+
+function toPresetItem(preset: {
+  id: string;
+  name: string;
+  settings: unknown;
+  builtIn: boolean;
+  active: boolean;
+}): RankingPresetItem {
+  const parsed = RankingSettingsSchema.safeParse(preset.settings);
+  return {
+    id: preset.id,
+    name: preset.name,
+    settings: parsed.success ? parsed.data : DEFAULT_RANKING_SETTINGS,
+    builtIn: preset.builtIn,
+    active: preset.active,
+  };
+}
+
+/**
+ * Create the built-in presets that don't exist yet, the first one active
+ */
+async function ensureBuiltInPresets(): Promise<void> {
+  const existing = await prisma.rankingPreset.count({ where: { builtIn: true } });
+  if (existing >= BUILT_IN_RANKING_PRESETS.length) return;
+
+  const hasActive = (await prisma.rankingPreset.count({ where: { active: true } })) > 0;
+  await prisma.rankingPreset.createMany({
+    data: BUILT_IN_RANKING_PRESETS.map((preset, index) => ({
+      name: preset.name,
+      settings: preset.settings as object,
+      builtIn: true,
+      active: !hasActive && index === 0,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * List all presets, built-in ones first
+ */
+export async function listRankingPresets(): Promise<RankingPresetItem[]> {
+  await ensureBuiltInPresets();
+  const presets = await prisma.rankingPreset.findMany({
+    orderBy: [{ builtIn: "desc" }, { createdAt: "asc" }],
+  });
+  return presets.map(toPresetItem);
+}
+
+/**
+ * Make a preset the one results are ranked with
+ */
+export async function activateRankingPreset(id: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.rankingPreset.updateMany({ where: { active: true, id: { not: id } }, data: { active: false } }),
+    prisma.rankingPreset.update({ where: { id }, data: { active: true } }),
+  ]);
+}
+
+/**
+ * Settings of the active preset, or the default weights if there is none
+ */
+export async function getActiveRankingSettings(): Promise<RankingSettings> {
+  try {
+    const preset = await prisma.rankingPreset.findFirst({ where: { active: true } });
+    return preset ? toPresetItem(preset).settings : DEFAULT_RANKING_SETTINGS;
+  } catch (error) {
+    // Ranking with the defaults beats failing the search
+    console.error("Failed to load ranking preset:", error);
+    return DEFAULT_RANKING_SETTINGS;
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Flight Ranking - client-safe
+ *
+ * Scores flight offers and split-ticket routes on weighted factors (price,
+ * duration, stops, departure time, red-eyes, preferred airlines, layovers).
+ * Each factor scores 0-100 and the total is their weighted average, so every
+ * ranking can be explained factor by factor. Price and duration are scored
+ * against the cheapest and fastest option in the same set.
+ */
+
+import { z } from "zod";
+import type { NormalizedFlight, NormalizedLeg } from "./amadeus";
+import type { MultiCityRoute } from "./multi-city";
+import { parseDurationMinutes } from "./flight-utils";
+import { formatLocalTime } from "./timezones";
+
+export type RankingFactor =
+  | "price"
+  | "duration"
+  | "stops"
+  | "departureTime"
+  | "redEye"
+  | "preferredAirlines"
+  | "layoverQuality";
+
+export type RankingWeights = Record<RankingFactor, number>; // 0-10 each, 0 ignores the factor
+
+export interface RankingSettings {
+  weights: RankingWeights;
+  departureWindow: { start: number; end: number }; // Preferred local departure hours, end exclusive
+}
+
+export interface RankingContext {
+  preferredAirlines?: string[]; // The preferred airlines factor only applies when there are some
+}
+
+export interface RankingComponent {
+  factor: RankingFactor;
+  label: string;
+  weight: number;
+  score: number; // 0-100
+  points: number; // Contribution to the total
+  detail: string; // Why it scored this way, e.g. "$120 more than the cheapest"
+}
+
+export interface RankingScore {
+  total: number; // 0-100, higher ranks first
+  components: RankingComponent[];
+}
+
+export const MAX_RANKING_WEIGHT = 10;
+
+export const RANKING_FACTORS: Record<RankingFactor, { label: string; description: string }> = {
+  price: { label: "Price", description: "Cheaper options rank higher" },
+  duration: { label: "Duration", description: "Shorter total travel time" },
+  stops: { label: "Stops", description: "Fewer connections" },
+  departureTime: { label: "Departure time", description: "Departures within your preferred hours" },
+  redEye: { label: "Avoid red-eyes", description: "No flights departing overnight" },
+  preferredAirlines: { label: "Preferred airlines", description: "Airlines you asked for" },
+  layoverQuality: { label: "Layover quality", description: "Connections neither tight nor very long" },
+};
+
+const FACTOR_ORDER = Object.keys(RANKING_FACTORS) as RankingFactor[];
+
+// Segments departing in this local window count as overnight flights
+const RED_EYE_START_HOUR = 22;
+const RED_EYE_END_HOUR = 5;
+
+// ============================================
+// Presets
+// ============================================
+
+export interface BuiltInRankingPreset {
+  name: string;
+  settings: RankingSettings;
+}
+
+export const BUILT_IN_RANKING_PRESETS: BuiltInRankingPreset[] = [
+  {
+    name: "Balanced",
+    settings: {
+      weights: { price: 5, duration: 3, stops: 2, departureTime: 1, redEye: 1, preferredAirlines: 3, layoverQuality: 2 },
+      departureWindow: { start: 6, end: 22 },
+    },
+  },
+  {
+    name: "Cheapest",
+    settings: {
+      weights: { price: 10, duration: 1, stops: 1, departureTime: 0, redEye: 0, preferredAirlines: 1, layoverQuality: 1 },
+      departureWindow: { start: 0, end: 24 },
+    },
+  },
+  {
+    name: "Fastest",
+    settings: {
+      weights: { price: 2, duration: 8, stops: 5, departureTime: 0, redEye: 0, preferredAirlines: 1, layoverQuality: 2 },
+      departureWindow: { start: 0, end: 24 },
+    },
+  },
+  {
+    name: "Comfort",
+    settings: {
+      weights: { price: 3, duration: 3, stops: 5, departureTime: 4, redEye: 6, preferredAirlines: 3, layoverQuality: 5 },
+      departureWindow: { start: 8, end: 21 },
+    },
+  },
+];
+
+export const DEFAULT_RANKING_SETTINGS: RankingSettings = BUILT_IN_RANKING_PRESETS[0].settings;
+
+const weight = z.number().int().min(0).max(MAX_RANKING_WEIGHT);
+
+export const RankingSettingsSchema = z.object({
+  weights: z.object({
+    price: weight,
+    duration: weight,
+    stops: weight,
+    departureTime: weight,
+    redEye: weight,
+    preferredAirlines: weight,
+    layoverQuality: weight,
+  }),
+  departureWindow: z
+    .object({
+      start: z.number().int().min(0).max(23),
+      end: z.number().int().min(1).max(24),
+    })
+    .refine((window) => window.start < window.end, "The departure window must end after it starts"),
+}).refine((settings) => Object.values(settings.weights).some((value) => value > 0), {
+  message: "At least one factor needs a weight above 0",
+  path: ["weights"],
+});
+
+// ============================================
+// Candidates
+// ============================================
+
+/**
+ * What the factors look at, shared by flight offers and split-ticket routes
+ */
+export interface RankingCandidate {
+  id: string;
+  price: number;
+  currency: string;
+  durationMinutes: number;
+  stops: number;
+  departures: string[]; // Local departure time of each direction or ticket
+  segments: Array<{ origin: string; departureAt: string }>;
+  airlines: string[];
+  connections: Array<{ airport: string; minutes: number }>;
+}
+
+function legConnections(leg: NormalizedLeg): RankingCandidate["connections"] {
+  return leg.segments.slice(1).map((segment, index) => ({
+    airport: segment.origin,
+    minutes: minutesBetween(leg.segments[index].arrivalUtc, segment.departureUtc),
+  }));
+}
+
+function minutesBetween(fromUtc: string, toUtc: string): number {
+  return Math.round((Date.parse(toUtc) - Date.parse(fromUtc)) / 60000);
+}
+
+/**
+ * Candidate for a flight offer; `price` overrides the fare, e.g. to include bag fees
+ */
+export function flightCandidate(flight: NormalizedFlight, price: number = flight.price): RankingCandidate {
+  return {
+    id: flight.id,
+    price,
+    currency: flight.currency,
+    durationMinutes: flight.legs.reduce((total, leg) => total + parseDurationMinutes(leg.duration), 0),
+    stops: flight.legs.reduce((total, leg) => total + leg.stops, 0),
+    departures: flight.legs.map((leg) => leg.departureAt),
+    segments: flight.legs.flatMap((leg) => leg.segments),
+    airlines: flight.airlines,
+    connections: flight.legs.flatMap(legConnections),
+  };
+}
+
+/**
+ * Candidate for a route, following the outbound journey across its tickets.
+ * The change between separate tickets counts as a stop and a connection.
+ */
+export function routeCandidate(route: MultiCityRoute): RankingCandidate {
+  const legs = route.segments
+    .map((segment) => segment.bestFlight?.legs[0])
+    .filter((leg): leg is NormalizedLeg => !!leg);
+  const first = legs[0];
+  const last = legs[legs.length - 1];
+
+  const transfers = legs.slice(1).map((leg, index) => ({
+    airport: leg.origin,
+    minutes: minutesBetween(legs[index].arrivalUtc, leg.departureUtc),
+  }));
+
+  return {
+    id: route.id,
+    price: route.totalPrice,
+    currency: route.currency,
+    durationMinutes: first && last ? minutesBetween(first.departureUtc, last.arrivalUtc) : 0,
+    stops: legs.reduce((total, leg) => total + leg.stops, 0) + transfers.length,
+    departures: legs.map((leg) => leg.departureAt),
+    segments: legs.flatMap((leg) => leg.segments),
+    airlines: [...new Set(route.segments.flatMap((segment) => segment.bestFlight?.airlines ?? []))],
+    connections: [...legs.flatMap(legConnections), ...transfers],
+  };
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours && rest) return `${hours}h ${rest}m`;
+  return hours ? `${hours}h` : `${rest}m`;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+
+const formatHour = (hour: number) => `${String(hour % 24).padStart(2, "0")}:00`;
+
+const localHour = (localDateTime: string) => Number(localDateTime.slice(11, 13));
+
+function scoreLayover(minutes: number): number {
+  if (minutes < 45) return 0;
+  if (minutes < 90) return 60;
+  if (minutes <= 240) return 100;
+  if (minutes <= 480) return 70;
+  if (minutes <= 720) return 40;
+  return 10;
+}
+
+interface FactorResult {
+  score: number;
+  detail: string;
+}
+
+type FactorScorer = (
+  candidate: RankingCandidate,
+  set: { cheapest: number; fastest: number },
+  settings: RankingSettings,
+  context: RankingContext
+) => FactorResult | null; // null when the factor doesn't apply
+
+const FACTOR_SCORERS: Record<RankingFactor, FactorScorer> = {
+  price(candidate, { cheapest }) {
+    if (candidate.price <= cheapest) return { score: 100, detail: "Cheapest option" };
+    return {
+      score: (cheapest / candidate.price) * 100,
+      detail: `${formatAmount(candidate.price - cheapest, candidate.currency)} more than the cheapest`,
+    };
+  },
+
+  duration(candidate, { fastest }) {
+    const total = formatMinutes(candidate.durationMinutes);
+    if (candidate.durationMinutes <= fastest) return { score: 100, detail: `${total} in total, the fastest` };
+    return {
+      score: (fastest / candidate.durationMinutes) * 100,
+      detail: `${total} in total, ${formatMinutes(candidate.durationMinutes - fastest)} longer than the fastest`,
+    };
+  },
+
+  stops(candidate) {
+    const perJourney = candidate.stops / Math.max(1, candidate.departures.length);
+    return {
+      score: 100 / (1 + perJourney),
+      detail: candidate.stops === 0 ? "Nonstop" : `${candidate.stops} stop${candidate.stops !== 1 ? "s" : ""} in total`,
+    };
+  },
+
+  departureTime(candidate, _set, { departureWindow }) {
+    const window = `${formatHour(departureWindow.start)}-${formatHour(departureWindow.end)}`;
+    const outside = candidate.departures.filter((departure) => {
+      const hour = localHour(departure);
+      return hour < departureWindow.start || hour >= departureWindow.end;
+    });
+    if (outside.length === 0) return { score: 100, detail: `Departs within ${window}` };
+    return {
+      score: 100 * (1 - outside.length / candidate.departures.length),
+      detail: candidate.departures.length === 1
+        ? `Departs at ${formatLocalTime(outside[0])}, outside ${window}`
+        : `${outside.length} of ${candidate.departures.length} departures outside ${window}`,
+    };
+  },
+
+  redEye(candidate) {
+    const overnight = candidate.segments.filter((segment) => {
+      const hour = localHour(segment.departureAt);
+      return hour >= RED_EYE_START_HOUR || hour < RED_EYE_END_HOUR;
+    });
+    if (overnight.length === 0) return { score: 100, detail: "No overnight flights" };
+    const first = overnight[0];
+    return {
+      score: 100 * (1 - overnight.length / candidate.segments.length),
+      detail: `Overnight flight from ${first.origin} at ${formatLocalTime(first.departureAt)}`
+        + (overnight.length > 1 ? ` and ${overnight.length - 1} more` : ""),
+    };
+  },
+
+  preferredAirlines(candidate, _set, _settings, { preferredAirlines = [] }) {
+    if (preferredAirlines.length === 0) return null;
+    const preferred = candidate.airlines.filter((airline) => preferredAirlines.includes(airline));
+    if (preferred.length === candidate.airlines.length) return { score: 100, detail: "Only preferred airlines" };
+    if (preferred.length > 0) return { score: 50, detail: `Partly on ${preferred.join(", ")}` };
+    return { score: 0, detail: "No preferred airline" };
+  },
+
+  layoverQuality(candidate) {
+    if (candidate.connections.length === 0) return { score: 100, detail: "No connections" };
+    const worst = candidate.connections.reduce((a, b) => (scoreLayover(b.minutes) < scoreLayover(a.minutes) ? b : a));
+    const score = scoreLayover(worst.minutes);
+    const quality = worst.minutes < 90 ? " - tight" : worst.minutes > 480 ? " - long" : "";
+    return {
+      score,
+      detail: `${candidate.connections.length === 1 ? "" : "Worst: "}${formatMinutes(Math.max(0, worst.minutes))} in ${worst.airport}${quality}`,
+    };
+  },
+};
+
+/**
+ * Score every candidate against the others in the set
+ */
+export function scoreCandidates(
+  candidates: RankingCandidate[],
+  settings: RankingSettings = DEFAULT_RANKING_SETTINGS,
+  context: RankingContext = {}
+): Map<string, RankingScore> {
+  const scores = new Map<string, RankingScore>();
+  if (candidates.length === 0) return scores;
+
+  const set = {
+    cheapest: Math.min(...candidates.map((candidate) => candidate.price)),
+    fastest: Math.min(...candidates.map((candidate) => candidate.durationMinutes).filter((minutes) => minutes > 0)),
+  };
+
+  for (const candidate of candidates) {
+    const results = FACTOR_ORDER
+      .map((factor) => ({ factor, weight: settings.weights[factor], result: FACTOR_SCORERS[factor](candidate, set, settings, context) }))
+      .filter((entry): entry is typeof entry & { result: FactorResult } => entry.result !== null && entry.weight > 0);
+    const totalWeight = results.reduce((total, entry) => total + entry.weight, 0);
+
+    // When no weighted factor applies, every factor that does counts the same
+    const applicable = totalWeight > 0
+      ? results
+      : FACTOR_ORDER
+          .map((factor) => ({ factor, weight: 1, result: FACTOR_SCORERS[factor](candidate, set, settings, context) }))
+          .filter((entry): entry is typeof entry & { result: FactorResult } => entry.result !== null);
+    const weightSum = totalWeight > 0 ? totalWeight : applicable.length;
+
+    const components = applicable.map(({ factor, weight, result }) => ({
+      factor,
+      label: RANKING_FACTORS[factor].label,
+      weight,
+      score: Math.round(result.score),
+      points: (weight * result.score) / weightSum,
+      detail: result.detail,
+    }));
+
+    scores.set(candidate.id, {
+      total: components.reduce((total, component) => total + component.points, 0),
+      components,
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Score flight offers; `priceOf` lets the caller rank on prices with bag fees
+ */
+export function scoreFlights(
+  flights: NormalizedFlight[],
+  settings?: RankingSettings,
+  context?: RankingContext,
+  priceOf: (flight: NormalizedFlight) => number = (flight) => flight.price
+): Map<string, RankingScore> {
+  return scoreCandidates(flights.map((flight) => flightCandidate(flight, priceOf(flight))), settings, context);
+}
+
+/**
+ * Score routes against each other and return them best first, with `score`
+ * and `ranking` filled in
+ */
+export function rankRoutes(routes: MultiCityRoute[], settings?: RankingSettings): MultiCityRoute[] {
+  const scores = scoreCandidates(routes.map(routeCandidate), settings);
+  return routes
+    .map((route) => {
+      const ranking = scores.get(route.id)!;
+      return { ...route, score: Math.round(ranking.total), ranking };
+    })
+    .sort((a, b) => b.ranking.total - a.ranking.total || a.totalPrice - b.totalPrice);
+}
+
+/**
+ * Sort order for scored items: best score first, cheapest on ties
+ */
+export function compareByScore<T extends { id: string }>(
+  scores: Map<string, RankingScore>,
+  priceOf: (item: T) => number
+): (a: T, b: T) => number {
+  return (a, b) =>
+    (scores.get(b.id)?.total ?? 0) - (scores.get(a.id)?.total ?? 0) || priceOf(a) - priceOf(b);
+}
@@ -0,0 +1,61 @@
+/**
+ * Rate Limiting Utilities
+ *
+ * In-process token bucket used to throttle calls to external APIs, plus a
+ * helper for exponential backoff with jitter.
+ */
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param capacity Maximum burst size
+   * @param refillPerSecond Tokens added per second (sustained request rate)
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a token is available and take it.
+   * Callers are served in FIFO order.
+   */
+  acquire(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+        await sleep(waitMs);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next;
+    return next;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff delay with jitter (half fixed, half random)
+ */
+export function getBackoffDelay(attempt: number, baseMs = 500, maxMs = 10000): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
@@ -30,6 +30,7 @@ export interface PriceAlertData {
   destination: string;
   departureDate: string;
   returnDate?: string | null;
+  flightTimes?: string; // Local departure/arrival of the best flight, e.g. "22:05 → 14:30 (+1 day)"
   currentPrice: number;
   previousPrice?: number;
   lowestPrice?: number;
@@ -186,7 +187,10 @@ function buildPriceAlertHtml(data: PriceAlertData): string {
           </div>
           <div style="text-align: center; margin-top: 12px; color: #64748b; font-size: 14px;">
             ${data.departureDate}${data.returnDate ? ` — ${data.returnDate}` : " (One Way)"}
-          </div>
+          </div>${data.flightTimes ? `
+          <div style="text-align: center; margin-top: 4px; color: #94a3b8; font-size: 13px;">
+            ${data.flightTimes} local time
+          </div>` : ""}
         </div>
 
         <!-- Current Price -->
@@ -1,71 +1,256 @@
-// Saved Searches Storage using localStorage
+/**
+ * Saved Searches
+ *
+ * Searches kept for re-running, stored in the database so they follow us
+ * across browsers and devices. Each keeps the raw prompt, the structured query
+ * it was parsed into (what re-runs search, since a prompt saved from a chat
+ * follow-up like "make it nonstop" means nothing on its own) and the
+ * parameters it resolved to, which prefill tasks. Imported searches have no
+ * parsed query, so their prompt is parsed again. Tags group them and pinned
+ * ones are listed first. The dashboard, the chat assistant and the task form
+ * all read them from here.
+ */
 
-const STORAGE_KEY = "savedSearches";
-const MAX_SAVED_SEARCHES = 10;
+import { createHash } from "crypto";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { getAirport, getMetroAirports } from "./airports";
+import { TravelQuerySchema, resolveAirlinePreferences, type ParsedTravelQuery } from "./openai";
+
+const MAX_TAGS = 10;
+
+export const SavedSearchTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(30))
+  .max(MAX_TAGS)
+  .transform((tags) => [...new Set(tags)]);
+
+// Entry of the old localStorage list, as sent by the dashboard's one-time import
+export const LegacySavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  query: z.string().trim().min(1),
+  origin: z.string().length(3).optional(),
+  destination: z.string().length(3).optional(),
+  departureDate: z.string().optional(),
+  returnDate: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+export type LegacySavedSearch = z.infer<typeof LegacySavedSearchSchema>;
 
 export interface SavedSearch {
   id: string;
   name: string;
-  query: string; // Natural language query
-  origin?: string;
-  destination?: string;
-  departureDate?: string;
-  returnDate?: string;
+  query: string;
+  parsedQuery: ParsedTravelQuery | null;
+  origin: string | null;
+  destination: string | null;
+  departureDate: string | null;
+  returnDate: string | null;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
+  nonStop: boolean;
+  tags: string[];
+  pinned: boolean;
   createdAt: string;
+  updatedAt: string;
 }
 
-export function getSavedSearches(): SavedSearch[] {
-  if (typeof window === "undefined") return [];
-
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (!data) return [];
-    return JSON.parse(data);
-  } catch (e) {
-    console.error("Failed to load saved searches:", e);
-    return [];
-  }
-}
+type SavedSearchRow = Prisma.SavedSearchGetPayload<object>;
 
-export function saveSearch(search: Omit<SavedSearch, "id" | "createdAt">): SavedSearch {
-  const searches = getSavedSearches();
-
-  // Check if same query already exists
-  const existingIndex = searches.findIndex(
-    (s) => s.query.toLowerCase() === search.query.toLowerCase()
-  );
-
-  if (existingIndex !== -1) {
-    // Update existing search
-    searches[existingIndex] = {
-      ...searches[existingIndex],
-      ...search,
-      createdAt: new Date().toISOString(),
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
-    return searches[existingIndex];
-  }
-
-  // Create new search
-  const newSearch: SavedSearch = {
-    ...search,
-    id: crypto.randomUUID(),
-    createdAt: new Date().toISOString(),
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  const parsedQuery = TravelQuerySchema.safeParse(row.parsedQuery);
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    parsedQuery: parsedQuery.success ? parsedQuery.data : null,
+    origin: row.origin,
+    destination: row.destination,
+    departureDate: row.departureDate,
+    returnDate: row.returnDate,
+    adults: row.adults,
+    children: row.children,
+    infants: row.infants,
+    travelClass: row.travelClass as SavedSearch["travelClass"],
+    nonStop: row.nonStop,
+    tags: row.tags,
+    pinned: row.pinned,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
   };
+}
 
-  // Add to beginning, limit to max
-  const updated = [newSearch, ...searches].slice(0, MAX_SAVED_SEARCHES);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+/**
+ * List saved searches, pinned first, then the most recently saved
+ */
+export async function listSavedSearches(options: { tag?: string } = {}): Promise<SavedSearch[]> {
+  const searches = await prisma.savedSearch.findMany({
+    where: options.tag ? { tags: { has: options.tag.toLowerCase() } } : undefined,
+    orderBy: [{ pinned: "desc" }, { updatedAt: "desc" }],
+  });
+  return searches.map(toSavedSearch);
+}
+
+export async function getSavedSearch(id: string): Promise<SavedSearch | null> {
+  const search = await prisma.savedSearch.findUnique({ where: { id } });
+  return search ? toSavedSearch(search) : null;
+}
 
-  return newSearch;
+/**
+ * Find a saved search by id or by (part of) its name, for the chat assistant
+ */
+export async function findSavedSearch(idOrName: string): Promise<SavedSearch | null> {
+  const search = await prisma.savedSearch.findFirst({
+    where: {
+      OR: [
+        { id: idOrName },
+        { name: { equals: idOrName, mode: "insensitive" } },
+        { name: { contains: idOrName, mode: "insensitive" } },
+      ],
+    },
+    orderBy: [{ pinned: "desc" }, { updatedAt: "desc" }],
+  });
+  return search ? toSavedSearch(search) : null;
 }
 
-export function deleteSavedSearch(id: string): void {
-  const searches = getSavedSearches();
-  const updated = searches.filter((s) => s.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+const cityName = (code: string) => (getAirport(code) ?? getMetroAirports(code)[0])?.city ?? code;
+
+/**
+ * Save a search from the history with the parameters it ran with. Saving a
+ * search that runs the same way again (same route, dates, travelers, budget,
+ * airlines and date flexibility) updates the earlier entry instead of adding
+ * another, whatever prompt it came from.
+ * Returns null when the search doesn't exist.
+ */
+export async function saveSearchFromHistory(
+  searchId: string,
+  options: { name?: string; tags?: string[]; pinned?: boolean } = {}
+): Promise<SavedSearch | null> {
+  const search = await prisma.searchQuery.findUnique({ where: { id: searchId } });
+  if (!search) return null;
+
+  // Natural language searches store the parsed query plus the values they resolved to,
+  // manual searches store the request parameters
+  const parsed = TravelQuerySchema.safeParse(search.parsed);
+  const stored = search.parsed as {
+    resolvedOrigin?: string;
+    resolvedDestination?: string;
+    resolvedDepartureDate?: string;
+    resolvedReturnDate?: string;
+    origin?: string;
+    destination?: string;
+    departureDate?: string;
+    returnDate?: string;
+    adults?: number;
+    children?: number;
+    infants?: number;
+    travelClass?: SavedSearch["travelClass"];
+    nonStop?: boolean;
+    maxPrice?: number;
+    includedAirlineCodes?: string[];
+    excludedAirlineCodes?: string[];
+  };
+  const query = parsed.success ? parsed.data : null;
+
+  const origin = stored.resolvedOrigin ?? query?.origin.iataCode ?? stored.origin ?? null;
+  const destination = stored.resolvedDestination ?? query?.destination.iataCode ?? stored.destination ?? null;
+  const defaultName = query
+    ? `${query.origin.city} → ${query.destination.city}`
+    : origin && destination
+      ? `${cityName(origin)} → ${cityName(destination)}`
+      : search.rawPrompt.slice(0, 50);
+
+  // The parameters the entry resolved to
+  const params = {
+    origin,
+    destination,
+    departureDate: stored.resolvedDepartureDate ?? query?.dates.departure.date ?? stored.departureDate ?? null,
+    returnDate: stored.resolvedReturnDate ?? query?.dates.return?.date ?? stored.returnDate ?? null,
+    adults: query?.passengers.adults ?? stored.adults ?? 1,
+    children: query?.passengers.children ?? stored.children ?? 0,
+    infants: query?.passengers.infants ?? stored.infants ?? 0,
+    travelClass: query?.preferences.cabinClass ?? stored.travelClass ?? "ECONOMY",
+    nonStop: query?.preferences.directFlightsOnly ?? stored.nonStop ?? false,
+  };
+
+  // Everything the search runs with, which identifies the entry
+  const searchKey = createHash("sha256")
+    .update(
+      JSON.stringify({
+        ...params,
+        maxPrice: query?.preferences.maxBudget ?? stored.maxPrice ?? null,
+        airlines: query
+          ? resolveAirlinePreferences(query)
+          : { included: stored.includedAirlineCodes ?? null, excluded: stored.excludedAirlineCodes ?? null },
+        departureMonth: query?.dates.departure.month ?? null,
+        departureFlexibility: query?.dates.departure.flexibility ?? "exact",
+        returnFlexibility: query?.dates.return?.flexibility ?? "exact",
+        legs: query?.legs ?? null,
+      })
+    )
+    .digest("hex");
+
+  const data = {
+    ...params,
+    searchKey,
+    query: search.rawPrompt,
+    parsedQuery: query ? (query as object) : Prisma.DbNull,
+    ...(options.tags && { tags: options.tags }),
+    ...(options.pinned !== undefined && { pinned: options.pinned }),
+  };
+
+  // Searches that didn't resolve a route are matched on their prompt
+  const existing = await prisma.savedSearch.findFirst({
+    where: origin && destination ? { searchKey } : { query: { equals: search.rawPrompt, mode: "insensitive" } },
+  });
+  const saved = existing
+    ? await prisma.savedSearch.update({
+        where: { id: existing.id },
+        data: { ...data, ...(options.name && { name: options.name }) },
+      })
+    : await prisma.savedSearch.create({
+        data: { ...data, name: options.name ?? defaultName },
+      });
+  return toSavedSearch(saved);
 }
 
-export function clearAllSavedSearches(): void {
-  localStorage.removeItem(STORAGE_KEY);
+/**
+ * Import searches from the old localStorage list, skipping prompts that are
+ * already saved
+ */
+export async function importLegacySavedSearches(
+  searches: LegacySavedSearch[]
+): Promise<{ imported: number; skipped: number }> {
+  const existing = await prisma.savedSearch.findMany({ select: { query: true } });
+  const seen = new Set(existing.map((search) => search.query.toLowerCase()));
+
+  const toCreate = searches.filter((search) => {
+    const key = search.query.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  await prisma.savedSearch.createMany({
+    data: toCreate.map((search) => {
+      const createdAt = search.createdAt ? new Date(search.createdAt) : new Date();
+      const validDate = Number.isNaN(createdAt.getTime()) ? new Date() : createdAt;
+      return {
+        name: search.name,
+        query: search.query,
+        origin: search.origin?.toUpperCase() ?? null,
+        destination: search.destination?.toUpperCase() ?? null,
+        departureDate: search.departureDate ?? null,
+        returnDate: search.returnDate ?? null,
+        tags: [],
+        createdAt: validDate,
+        updatedAt: validDate,
+      };
+    }),
+  });
+
+  return { imported: toCreate.length, skipped: searches.length - toCreate.length };
 }
@@ -4,10 +4,17 @@
  * Handles scheduled flight searches, price tracking, and notifications.
  */
 
+import { hostname } from "os";
 import { CronExpressionParser } from "cron-parser";
+import type { PriceAlert, ScheduledTask } from "@prisma/client";
 import { prisma } from "./db";
-import { searchFlights, NormalizedFlight } from "./amadeus";
+import { NormalizedFlight, FlightSearchParams } from "./amadeus";
+import { getActiveProviders } from "./flight-providers";
+import { searchFlightsCached } from "./search-cache";
 import { sendNotifications } from "./notifications";
+import { getAirportTimezone } from "./airports";
+import { getLocalDate } from "./timezones";
+import { AUTO_SCHEDULE, DEFAULT_AUTO_RUNS_PER_DAY } from "./cron-utils";
 
 export interface TaskExecutionResult {
   taskId: string;
@@ -20,24 +27,187 @@ export interface TaskExecutionResult {
   hitPriceTarget?: boolean;
   bestFlight?: NormalizedFlight;
   error?: string;
+  runId?: string; // TaskRun recording this execution
+  skipped?: boolean; // Another runner holds the task's lease
+}
+
+export type TaskRunTrigger = "cron" | "manual";
+
+export interface ExecuteTaskOptions {
+  trigger?: TaskRunTrigger; // Cron runs only claim tasks that are due (default "manual")
+  runner?: string; // Lease owner recorded on the task and its run
+}
+
+export interface SchedulerRunOptions {
+  concurrency?: number; // Tasks or alerts processed at once (default 1)
+  runner?: string; // Lease owner, see ExecuteTaskOptions
+  signal?: AbortSignal; // Stops starting new work once aborted; work in progress finishes
+}
+
+// How long a claimed task stays locked; if its runner dies, the task is freed when this expires
+const TASK_LEASE_MS = 10 * 60 * 1000;
+
+// Minimum time between two checks of the same price alert
+const DEFAULT_ALERT_CHECK_INTERVAL_MINUTES = 60;
+
+export interface ScheduleContext {
+  departureDate?: string; // YYYY-MM-DD the task searches for
+  recentPrices?: number[]; // Recent PriceHistory prices, oldest first
+  runsToday?: number; // Runs since midnight UTC
+  maxRunsPerDay?: number | null; // The task's run budget
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Auto schedule: hours between checks by days left before departure, 48h beyond the last step
+const AUTO_INTERVAL_STEPS = [
+  { daysLeft: 3, hours: 2 },
+  { daysLeft: 7, hours: 3 },
+  { daysLeft: 14, hours: 6 },
+  { daysLeft: 30, hours: 8 },
+  { daysLeft: 60, hours: 12 },
+  { daysLeft: 120, hours: 24 },
+];
+const AUTO_FAR_INTERVAL_HOURS = 48;
+const AUTO_LONGEST_INTERVAL_HOURS = 96;
+
+// Prices recorded within this window drive the volatility adjustment
+const AUTO_VOLATILITY_WINDOW_DAYS = 14;
+const AUTO_VOLATILITY_MAX_POINTS = 20;
+
+// Average move between consecutive checks: above SWINGING halves the interval, below FLAT doubles it
+const AUTO_SWINGING_CHANGE = 0.03;
+const AUTO_FLAT_CHANGE = 0.005;
+const AUTO_MIN_POINTS_FOR_FLAT = 4;
+
+// Run log entries older than this are purged by the cron job
+const TASK_RUN_RETENTION_DAYS = 30;
+
+const DEFAULT_RUNNER = `${hostname()}:${process.pid}`;
+
+export function getAlertCheckIntervalMinutes(): number {
+  const minutes = parseInt(process.env.ALERT_CHECK_INTERVAL_MINUTES || "", 10);
+  return Number.isNaN(minutes) || minutes < 0 ? DEFAULT_ALERT_CHECK_INTERVAL_MINUTES : minutes;
 }
 
 /**
- * Calculate the next run time from a cron expression
+ * Run fn over items with at most `concurrency` calls in flight
  */
-export function getNextRunTime(cronExpr: string, fromDate?: Date): Date {
-  try {
-    const interval = CronExpressionParser.parse(cronExpr, {
-      currentDate: fromDate || new Date(),
-    });
-    return interval.next().toDate();
-  } catch (error) {
-    console.error("Invalid cron expression:", cronExpr, error);
-    // Default to 24 hours from now if cron is invalid
-    const next = new Date();
-    next.setHours(next.getHours() + 24);
-    return next;
+async function runWithConcurrency<T, R>(
+  items: T[],
+  options: SchedulerRunOptions,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+
+  const lanes = Math.max(1, Math.min(options.concurrency ?? 1, items.length));
+  await Promise.all(
+    Array.from({ length: lanes }, async () => {
+      while (next < items.length && !options.signal?.aborted) {
+        const item = items[next++];
+        results.push(await fn(item));
+      }
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Hours between two checks of an auto schedule: shorter as departure nears or
+ * prices swing, longer while they are flat, and never closer than the daily
+ * run budget allows
+ */
+export function getAutoIntervalHours(context: ScheduleContext, fromDate: Date = new Date()): number {
+  let hours = AUTO_FAR_INTERVAL_HOURS;
+  if (context.departureDate) {
+    const daysLeft = (Date.parse(`${context.departureDate}T00:00:00Z`) - fromDate.getTime()) / DAY_MS;
+    hours = AUTO_INTERVAL_STEPS.find((step) => daysLeft <= step.daysLeft)?.hours ?? AUTO_FAR_INTERVAL_HOURS;
   }
+
+  const prices = context.recentPrices ?? [];
+  if (prices.length >= 2) {
+    const changes = prices.slice(1).map((price, index) => Math.abs(price - prices[index]) / prices[index]);
+    const averageChange = changes.reduce((sum, change) => sum + change, 0) / changes.length;
+
+    if (averageChange >= AUTO_SWINGING_CHANGE) {
+      hours /= 2;
+    } else if (averageChange < AUTO_FLAT_CHANGE && prices.length >= AUTO_MIN_POINTS_FOR_FLAT) {
+      hours *= 2;
+    }
+  }
+
+  const budget = context.maxRunsPerDay ?? DEFAULT_AUTO_RUNS_PER_DAY;
+  return Math.min(Math.max(hours, 24 / budget), AUTO_LONGEST_INTERVAL_HOURS);
+}
+
+/**
+ * Calculate the next run time from a cron expression or the auto schedule.
+ * Once a task has spent its daily run budget, the next run moves to the next UTC day.
+ */
+export function getNextRunTime(cronExpr: string, fromDate?: Date, context: ScheduleContext = {}): Date {
+  const from = fromDate || new Date();
+  const isAuto = cronExpr === AUTO_SCHEDULE;
+
+  let next: Date;
+  if (isAuto) {
+    next = new Date(from.getTime() + getAutoIntervalHours(context, from) * HOUR_MS);
+  } else {
+    try {
+      const interval = CronExpressionParser.parse(cronExpr, {
+        currentDate: from,
+      });
+      next = interval.next().toDate();
+    } catch (error) {
+      console.error("Invalid cron expression:", cronExpr, error);
+      // Default to 24 hours from now if cron is invalid
+      next = new Date(from.getTime() + DAY_MS);
+    }
+  }
+
+  const budget = context.maxRunsPerDay ?? (isAuto ? DEFAULT_AUTO_RUNS_PER_DAY : null);
+  if (budget && (context.runsToday ?? 0) >= budget) {
+    const tomorrow = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+    if (next < tomorrow) {
+      // Cron schedules resume at their first time of the new day
+      next = isAuto ? tomorrow : getNextRunTime(cronExpr, new Date(tomorrow.getTime() - 1));
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Next run of a task, looking up the price moves and runs its schedule depends on
+ */
+export async function planNextRun(task: ScheduledTask, fromDate: Date = new Date()): Promise<Date> {
+  const isAuto = task.cronExpr === AUTO_SCHEDULE;
+  const hasBudget = isAuto || task.maxRunsPerDay != null;
+  const startOfDay = new Date(Date.UTC(fromDate.getUTCFullYear(), fromDate.getUTCMonth(), fromDate.getUTCDate()));
+
+  const [history, runsToday] = await Promise.all([
+    isAuto
+      ? prisma.priceHistory.findMany({
+          where: {
+            taskId: task.id,
+            recordedAt: { gte: new Date(fromDate.getTime() - AUTO_VOLATILITY_WINDOW_DAYS * DAY_MS) },
+          },
+          orderBy: { recordedAt: "desc" },
+          take: AUTO_VOLATILITY_MAX_POINTS,
+          select: { price: true },
+        })
+      : [],
+    hasBudget ? prisma.taskRun.count({ where: { taskId: task.id, startedAt: { gte: startOfDay } } }) : 0,
+  ]);
+
+  return getNextRunTime(task.cronExpr, fromDate, {
+    departureDate: parseRelativeDate(task.departureDate),
+    recentPrices: history.map((point) => point.price).reverse(),
+    runsToday,
+    maxRunsPerDay: task.maxRunsPerDay,
+  });
 }
 
 /**
@@ -72,17 +242,83 @@ export function parseRelativeDate(dateStr: string): string {
 }
 
 /**
- * Execute a scheduled task
+ * Claim a task by taking its lease. The conditions are checked in the same
+ * UPDATE that sets the lease, so of two overlapping runners only one wins.
+ */
+async function claimTask(taskId: string, runner: string, dueOnly: boolean): Promise<boolean> {
+  const now = new Date();
+  const claimed = await prisma.scheduledTask.updateMany({
+    where: {
+      id: taskId,
+      active: true,
+      ...(dueOnly ? { nextRun: { lte: now } } : {}),
+      OR: [{ leaseUntil: null }, { leaseUntil: { lt: now } }],
+    },
+    data: {
+      leaseOwner: runner,
+      leaseUntil: new Date(now.getTime() + TASK_LEASE_MS),
+    },
+  });
+  return claimed.count === 1;
+}
+
+/**
+ * Record the outcome of a run
+ */
+async function finishTaskRun(
+  runId: string,
+  startedAt: Date,
+  result: TaskExecutionResult,
+  providerCalls: number
+): Promise<void> {
+  const finishedAt = new Date();
+
+  try {
+    await prisma.taskRun.update({
+      where: { id: runId },
+      data: {
+        status: result.success ? "success" : "failed",
+        providerCalls,
+        price: result.currentPrice,
+        currency: result.bestFlight?.currency,
+        error: result.success ? null : result.error,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record run ${runId}:`, error);
+  }
+}
+
+/**
+ * Release a task's lease once its run is over
  */
-export async function executeTask(taskId: string): Promise<TaskExecutionResult> {
+async function releaseTaskLease(taskId: string, runner: string): Promise<void> {
+  try {
+    // Only release our own lease: if it expired, another runner may hold the task now
+    await prisma.scheduledTask.updateMany({
+      where: { id: taskId, leaseOwner: runner },
+      data: { leaseOwner: null, leaseUntil: null },
+    });
+  } catch (error) {
+    console.error(`Failed to release lease on task ${taskId}:`, error);
+  }
+}
+
+/**
+ * Execute a scheduled task, recording the run in the task's run log.
+ * The task is skipped when another runner holds its lease.
+ */
+export async function executeTask(
+  taskId: string,
+  options: ExecuteTaskOptions = {}
+): Promise<TaskExecutionResult> {
+  const trigger = options.trigger ?? "manual";
+  const runner = options.runner ?? DEFAULT_RUNNER;
+
   const task = await prisma.scheduledTask.findUnique({
     where: { id: taskId },
-    include: {
-      priceHistory: {
-        orderBy: { recordedAt: "desc" },
-        take: 1,
-      },
-    },
   });
 
   if (!task) {
@@ -93,26 +329,96 @@ export async function executeTask(taskId: string): Promise<TaskExecutionResult>
     return { taskId, success: false, error: "Task is inactive" };
   }
 
+  if (!(await claimTask(taskId, runner, trigger === "cron"))) {
+    return { taskId, success: false, skipped: true, error: "Task is already running" };
+  }
+
+  const startedAt = new Date();
+
+  // The lease is released however the run ends, even when it couldn't be recorded,
+  // so a database hiccup doesn't block the task until the lease expires
+  try {
+    // Holding the lease, any run still marked as running belongs to a runner that died
+    await prisma.taskRun.updateMany({
+      where: { taskId, status: "running" },
+      data: { status: "failed", error: "Runner stopped before the run finished", finishedAt: startedAt },
+    });
+
+    const run = await prisma.taskRun.create({
+      data: { taskId, trigger, runner, startedAt },
+    });
+
+    const stats = { providerCalls: 0 };
+    let result: TaskExecutionResult;
+    try {
+      result = await runClaimedTask(task, stats);
+    } catch (error) {
+      console.error(`Task execution failed for ${taskId}:`, error);
+      result = {
+        taskId,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    await finishTaskRun(run.id, startedAt, result, stats.providerCalls);
+
+    return { ...result, runId: run.id };
+  } finally {
+    await releaseTaskLease(taskId, runner);
+  }
+}
+
+/**
+ * Search flights for a task, counting the searches that reached a provider
+ */
+async function searchForTask(params: FlightSearchParams, stats: { providerCalls: number }) {
+  const providers = getActiveProviders().filter((provider) => provider.isConfigured()).length;
+  try {
+    const result = await searchFlightsCached(params);
+    if (!result.cache.hit) {
+      stats.providerCalls += providers;
+    }
+    return result;
+  } catch (error) {
+    // Cache reads never throw, so a failed search did reach the providers
+    stats.providerCalls += providers;
+    throw error;
+  }
+}
+
+/**
+ * Run the search of a claimed task, record the price and send notifications
+ */
+async function runClaimedTask(
+  task: ScheduledTask,
+  stats: { providerCalls: number }
+): Promise<TaskExecutionResult> {
+  const taskId = task.id;
+
   try {
     // Parse dates (handle relative dates)
     const departureDate = parseRelativeDate(task.departureDate);
     const returnDate = task.returnDate ? parseRelativeDate(task.returnDate) : undefined;
 
-    // Check if departure date is in the past
-    if (new Date(departureDate) < new Date()) {
+    // Check if departure date is in the past (compared with today at the origin airport)
+    if (departureDate < getLocalDate(getAirportTimezone(task.origin))) {
       return { taskId, success: false, error: "Departure date is in the past" };
     }
 
     // Execute the search
-    const result = await searchFlights({
+    const result = await searchForTask({
       originLocationCode: task.origin,
       destinationLocationCode: task.destination,
       departureDate,
       returnDate,
       adults: task.adults,
-      travelClass: task.travelClass as "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST",
+      children: task.children,
+      infants: task.infants,
+      travelClass: task.travelClass as FlightSearchParams["travelClass"],
+      nonStop: task.nonStop,
       max: 5,
-    });
+    }, stats);
 
     if (result.flights.length === 0) {
       // Update last run time even if no results
@@ -120,7 +426,7 @@ export async function executeTask(taskId: string): Promise<TaskExecutionResult>
         where: { id: taskId },
         data: {
           lastRun: new Date(),
-          nextRun: getNextRunTime(task.cronExpr),
+          nextRun: await planNextRun(task),
         },
       });
 
@@ -160,7 +466,7 @@ export async function executeTask(taskId: string): Promise<TaskExecutionResult>
       where: { id: taskId },
       data: {
         lastRun: new Date(),
-        nextRun: getNextRunTime(task.cronExpr),
+        nextRun: await planNextRun(task),
         lastPrice: currentPrice,
         lowestPrice: isNewLow ? currentPrice : lowestPrice,
       },
@@ -195,7 +501,7 @@ export async function executeTask(taskId: string): Promise<TaskExecutionResult>
       where: { id: taskId },
       data: {
         lastRun: new Date(),
-        nextRun: getNextRunTime(task.cronExpr),
+        nextRun: await planNextRun(task),
       },
     });
 
@@ -211,38 +517,56 @@ export async function executeTask(taskId: string): Promise<TaskExecutionResult>
  * Get all tasks that are due to run
  */
 export async function getDueTasks() {
+  const now = new Date();
   return prisma.scheduledTask.findMany({
     where: {
       active: true,
       nextRun: {
-        lte: new Date(),
+        lte: now,
       },
+      OR: [{ leaseUntil: null }, { leaseUntil: { lt: now } }],
     },
+    orderBy: { nextRun: "asc" },
   });
 }
 
 /**
- * Run all due tasks
+ * Run all due tasks. Tasks claimed by an overlapping run are left out of the results.
  */
-export async function runDueTasks(): Promise<TaskExecutionResult[]> {
+export async function runDueTasks(options: SchedulerRunOptions = {}): Promise<TaskExecutionResult[]> {
   const dueTasks = await getDueTasks();
-  const results: TaskExecutionResult[] = [];
 
-  for (const task of dueTasks) {
-    const result = await executeTask(task.id);
-    results.push(result);
+  // No delay needed between tasks: Amadeus calls go through the shared rate limiter
+  const results = await runWithConcurrency(dueTasks, options, (task) =>
+    executeTask(task.id, { trigger: "cron", runner: options.runner })
+  );
 
-    // Add a small delay between tasks to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  }
+  return results.filter((result) => !result.skipped);
+}
 
-  return results;
+/**
+ * Delete run log entries past the retention period
+ */
+export async function purgeOldTaskRuns(): Promise<number> {
+  const cutoff = new Date(Date.now() - TASK_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await prisma.taskRun.deleteMany({
+    where: {
+      startedAt: {
+        lt: cutoff,
+      },
+    },
+  });
+  return deleted.count;
 }
 
 /**
  * Validate a cron expression
  */
 export function isValidCron(cronExpr: string): boolean {
+  if (cronExpr === AUTO_SCHEDULE) {
+    return true;
+  }
+
   try {
     CronExpressionParser.parse(cronExpr);
     return true;
@@ -252,7 +576,7 @@ export function isValidCron(cronExpr: string): boolean {
 }
 
 // Re-export cron utilities for convenience
-export { CRON_PRESETS, describeCronSchedule } from "./cron-utils";
+export { AUTO_SCHEDULE, CRON_PRESETS, describeCronSchedule } from "./cron-utils";
 
 /**
  * Check price alerts and trigger notifications if conditions are met
@@ -266,133 +590,166 @@ export interface AlertCheckResult {
   error?: string;
 }
 
-export async function checkPriceAlerts(): Promise<AlertCheckResult[]> {
+/**
+ * Check all active alerts that weren't checked within the check interval
+ */
+export async function checkPriceAlerts(options: SchedulerRunOptions = {}): Promise<AlertCheckResult[]> {
+  const now = new Date();
+  const checkDue = {
+    OR: [
+      { lastCheckedAt: null },
+      { lastCheckedAt: { lte: new Date(now.getTime() - getAlertCheckIntervalMinutes() * 60 * 1000) } },
+    ],
+  };
+
   // Get all active alerts that haven't expired
   const alerts = await prisma.priceAlert.findMany({
     where: {
       active: true,
       triggered: false,
       expiresAt: {
-        gt: new Date(),
+        gt: now,
       },
+      ...checkDue,
     },
   });
 
-  const results: AlertCheckResult[] = [];
+  const results = await runWithConcurrency(alerts, options, async (alert) => {
+    // Stamping the check time in a conditional UPDATE claims the alert,
+    // so overlapping runners never check it twice
+    const claimed = await prisma.priceAlert.updateMany({
+      where: { id: alert.id, ...checkDue },
+      data: { lastCheckedAt: new Date() },
+    });
+    return claimed.count === 1 ? checkPriceAlert(alert) : null;
+  });
 
-  for (const alert of alerts) {
-    try {
-      // Search for flights on this route
-      const result = await searchFlights({
-        originLocationCode: alert.origin,
-        destinationLocationCode: alert.destination,
-        departureDate: alert.departureDate.toISOString().split("T")[0],
-        returnDate: alert.returnDate?.toISOString().split("T")[0],
-        adults: 1,
-        travelClass: "ECONOMY",
-        max: 1, // We only need the cheapest
-      });
+  // Clean up expired alerts
+  await prisma.priceAlert.deleteMany({
+    where: {
+      expiresAt: {
+        lt: new Date(),
+      },
+    },
+  });
 
-      if (result.flights.length === 0) {
-        results.push({
-          alertId: alert.id,
-          success: true,
-          triggered: false,
-          error: "No flights found",
-        });
-        continue;
-      }
+  return results.filter((result): result is AlertCheckResult => result !== null);
+}
 
-      const cheapestPrice = result.flights[0].price;
+/**
+ * Check a single alert and notify when its target price is reached
+ */
+async function checkPriceAlert(alert: PriceAlert): Promise<AlertCheckResult> {
+  try {
+    // Search for flights on this route
+    const result = await searchFlightsCached({
+      originLocationCode: alert.origin,
+      destinationLocationCode: alert.destination,
+      departureDate: alert.departureDate.toISOString().split("T")[0],
+      returnDate: alert.returnDate?.toISOString().split("T")[0],
+      adults: alert.adults,
+      children: alert.children,
+      infants: alert.infants,
+      travelClass: alert.travelClass as FlightSearchParams["travelClass"],
+      nonStop: alert.nonStop,
+      max: 1, // We only need the cheapest
+    });
 
-      // Update current price
-      await prisma.priceAlert.update({
-        where: { id: alert.id },
-        data: { currentPrice: cheapestPrice },
-      });
+    if (result.flights.length === 0) {
+      return {
+        alertId: alert.id,
+        success: true,
+        triggered: false,
+        error: "No flights found",
+      };
+    }
 
-      // Check if price dropped below target
-      if (cheapestPrice <= alert.targetPrice) {
-        // Trigger the alert
-        await prisma.priceAlert.update({
-          where: { id: alert.id },
-          data: {
-            triggered: true,
-            notifiedAt: new Date(),
-          },
-        });
-
-        // Send notification (use resend and telegram modules directly)
-        try {
-          const { sendPriceAlertEmail, isEmailConfigured } = await import("./resend");
-          const { sendTelegramPriceAlert, isTelegramConfigured } = await import("./telegram");
-
-          const alertData = {
-            taskName: `Price Alert: ${alert.origin} → ${alert.destination}`,
-            origin: alert.origin,
-            destination: alert.destination,
-            departureDate: alert.departureDate.toISOString().split("T")[0],
-            returnDate: alert.returnDate?.toISOString().split("T")[0],
-            currentPrice: Math.round(cheapestPrice),
-            previousPrice: alert.currentPrice,
-            priceTarget: alert.targetPrice,
-            currency: alert.currency,
-            airlines: alert.airlines,
-            isNewLow: true,
-            hitPriceTarget: true,
-          };
-
-          const notifications = [];
-          if (isEmailConfigured()) {
-            notifications.push(sendPriceAlertEmail(alertData));
-          }
-          if (isTelegramConfigured()) {
-            notifications.push(sendTelegramPriceAlert(alertData));
-          }
-
-          await Promise.all(notifications);
-        } catch (notifyError) {
-          console.error("Failed to send alert notification:", notifyError);
-        }
+    const cheapestPrice = result.flights[0].price;
 
-        results.push({
-          alertId: alert.id,
-          success: true,
+    // Update current price
+    await prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: { currentPrice: cheapestPrice },
+    });
+
+    // Check if price dropped below target
+    if (cheapestPrice <= alert.targetPrice) {
+      // Trigger the alert. Only the check that flips the flag notifies,
+      // so overlapping cron runs can't send the alert twice.
+      const claimed = await prisma.priceAlert.updateMany({
+        where: { id: alert.id, triggered: false },
+        data: {
           triggered: true,
-          currentPrice: cheapestPrice,
-          targetPrice: alert.targetPrice,
-        });
-      } else {
-        results.push({
+          notifiedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return {
           alertId: alert.id,
           success: true,
           triggered: false,
           currentPrice: cheapestPrice,
           targetPrice: alert.targetPrice,
-        });
+        };
       }
 
-      // Rate limiting delay
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    } catch (error) {
-      console.error(`Alert check failed for ${alert.id}:`, error);
-      results.push({
+      // Send notification (use resend and telegram modules directly)
+      try {
+        const { sendPriceAlertEmail, isEmailConfigured } = await import("./resend");
+        const { sendTelegramPriceAlert, isTelegramConfigured } = await import("./telegram");
+
+        const alertData = {
+          taskName: `Price Alert: ${alert.origin} → ${alert.destination}`,
+          origin: alert.origin,
+          destination: alert.destination,
+          departureDate: alert.departureDate.toISOString().split("T")[0],
+          returnDate: alert.returnDate?.toISOString().split("T")[0],
+          currentPrice: Math.round(cheapestPrice),
+          previousPrice: alert.currentPrice,
+          priceTarget: alert.targetPrice,
+          currency: alert.currency,
+          airlines: alert.airlines,
+          isNewLow: true,
+          hitPriceTarget: true,
+        };
+
+        const notifications = [];
+        if (isEmailConfigured()) {
+          notifications.push(sendPriceAlertEmail(alertData));
+        }
+        if (isTelegramConfigured()) {
+          notifications.push(sendTelegramPriceAlert(alertData));
+        }
+
+        await Promise.all(notifications);
+      } catch (notifyError) {
+        console.error("Failed to send alert notification:", notifyError);
+      }
+
+      return {
         alertId: alert.id,
-        success: false,
+        success: true,
+        triggered: true,
+        currentPrice: cheapestPrice,
+        targetPrice: alert.targetPrice,
+      };
+    } else {
+      return {
+        alertId: alert.id,
+        success: true,
         triggered: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
+        currentPrice: cheapestPrice,
+        targetPrice: alert.targetPrice,
+      };
     }
+  } catch (error) {
+    console.error(`Alert check failed for ${alert.id}:`, error);
+    return {
+      alertId: alert.id,
+      success: false,
+      triggered: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
   }
-
-  // Clean up expired alerts
-  await prisma.priceAlert.deleteMany({
-    where: {
-      expiresAt: {
-        lt: new Date(),
-      },
-    },
-  });
-
-  return results;
 }
@@ -0,0 +1,155 @@
+/**
+ * Search Result Cache
+ *
+ * Persists flight search results in Postgres so repeated searches with the same
+ * parameters don't spend API quota. Entries are keyed by a hash of the
+ * normalized search parameters and expire after SEARCH_CACHE_TTL_MINUTES
+ * (default 60, set to 0 to disable caching).
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "./db";
+import { FlightSearchParams, NormalizedFlight } from "./amadeus";
+import { searchFlightOffers, getActiveProviders, FlightDictionaries } from "./flight-providers";
+
+const DEFAULT_TTL_MINUTES = 60;
+
+export interface SearchCacheInfo {
+  hit: boolean;
+  cachedAt: string; // ISO timestamp of when the results were fetched
+  ageSeconds: number;
+}
+
+export interface CachedSearchResult {
+  flights: NormalizedFlight[];
+  dictionaries: FlightDictionaries;
+  cache: SearchCacheInfo;
+}
+
+export function getSearchCacheTtlMinutes(): number {
+  const ttl = parseInt(process.env.SEARCH_CACHE_TTL_MINUTES || "", 10);
+  return Number.isNaN(ttl) || ttl < 0 ? DEFAULT_TTL_MINUTES : ttl;
+}
+
+/**
+ * Normalize search parameters so equivalent searches share a cache entry
+ */
+export function normalizeSearchParams(params: FlightSearchParams): Record<string, unknown> {
+  return {
+    providers: getActiveProviders().map((provider) => provider.name).sort(),
+    originLocationCode: params.originLocationCode.toUpperCase(),
+    destinationLocationCode: params.destinationLocationCode.toUpperCase(),
+    departureDate: params.departureDate,
+    returnDate: params.returnDate ?? null,
+    legs: params.legs?.map((leg) => ({
+      origin: leg.origin.toUpperCase(),
+      destination: leg.destination.toUpperCase(),
+      departureDate: leg.departureDate,
+    })) ?? null,
+    adults: params.adults,
+    children: params.children ?? 0,
+    infants: params.infants ?? 0,
+    travelClass: params.travelClass ?? "ECONOMY",
+    nonStop: params.nonStop ?? false,
+    currencyCode: (params.currencyCode ?? "USD").toUpperCase(),
+    maxPrice: params.maxPrice ?? null,
+    max: params.max ?? 50,
+    includedAirlineCodes: normalizeAirlineCodes(params.includedAirlineCodes),
+    excludedAirlineCodes: normalizeAirlineCodes(params.excludedAirlineCodes),
+  };
+}
+
+function normalizeAirlineCodes(codes?: string[]): string[] | null {
+  return codes && codes.length > 0 ? [...new Set(codes.map((code) => code.toUpperCase()))].sort() : null;
+}
+
+/**
+ * Build the cache key (SHA-256 of the canonical JSON form of the parameters)
+ */
+export function getSearchCacheKey(params: FlightSearchParams): string {
+  const normalized = normalizeSearchParams(params);
+  // Sort top-level keys only (a key-list replacer would also strip nested leg fields)
+  const canonical = JSON.stringify(
+    Object.fromEntries(Object.entries(normalized).sort(([a], [b]) => a.localeCompare(b)))
+  );
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Search flights, serving results from the cache when a fresh entry exists
+ */
+export async function searchFlightsCached(
+  params: FlightSearchParams,
+  options: { forceRefresh?: boolean } = {}
+): Promise<CachedSearchResult> {
+  const ttlMinutes = getSearchCacheTtlMinutes();
+  const key = getSearchCacheKey(params);
+
+  if (ttlMinutes > 0 && !options.forceRefresh) {
+    try {
+      const entry = await prisma.searchCache.findUnique({ where: { key } });
+
+      if (entry && entry.expiresAt > new Date()) {
+        console.log(`Search cache hit for ${params.originLocationCode}-${params.destinationLocationCode}`);
+        return {
+          flights: entry.flights as unknown as NormalizedFlight[],
+          dictionaries: (entry.dictionaries ?? undefined) as FlightDictionaries,
+          cache: {
+            hit: true,
+            cachedAt: entry.createdAt.toISOString(),
+            ageSeconds: Math.round((Date.now() - entry.createdAt.getTime()) / 1000),
+          },
+        };
+      }
+    } catch (error) {
+      // A cache failure should never block a search
+      console.error("Search cache read failed:", error);
+    }
+  }
+
+  const result = await searchFlightOffers(params);
+  const fetchedAt = new Date();
+
+  if (ttlMinutes > 0) {
+    try {
+      const expiresAt = new Date(fetchedAt.getTime() + ttlMinutes * 60 * 1000);
+      const data = {
+        params: normalizeSearchParams(params) as object,
+        flights: result.flights as unknown as object,
+        dictionaries: (result.dictionaries ?? undefined) as object | undefined,
+        createdAt: fetchedAt,
+        expiresAt,
+      };
+      await prisma.searchCache.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    } catch (error) {
+      console.error("Search cache write failed:", error);
+    }
+  }
+
+  return {
+    ...result,
+    cache: {
+      hit: false,
+      cachedAt: fetchedAt.toISOString(),
+      ageSeconds: 0,
+    },
+  };
+}
+
+/**
+ * Delete expired cache entries
+ */
+export async function purgeExpiredSearchCache(): Promise<number> {
+  const deleted = await prisma.searchCache.deleteMany({
+    where: {
+      expiresAt: {
+        lt: new Date(),
+      },
+    },
+  });
+  return deleted.count;
+}
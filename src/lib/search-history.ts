@@ -0,0 +1,102 @@
+/**
+ * Search History
+ *
+ * Lists past searches with their cheapest result, for the history page and
+ * the chat assistant.
+ */
+
+import { prisma } from "./db";
+
+export interface HistoryItem {
+  id: string;
+  rawPrompt: string;
+  origin: string;
+  destination: string;
+  departureDate: string | null;
+  returnDate: string | null;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
+  nonStop: boolean;
+  resultCount: number;
+  cheapestPrice: number | null;
+  currency: string;
+  createdAt: string;
+  hasTask: boolean;
+}
+
+/**
+ * List past searches, newest first
+ */
+export async function listSearchHistory(
+  limit: number,
+  offset = 0
+): Promise<{ searches: HistoryItem[]; total: number }> {
+  // Fetch searches with aggregated result info
+  const searches = await prisma.searchQuery.findMany({
+    take: limit,
+    skip: offset,
+    orderBy: { createdAt: "desc" },
+    include: {
+      results: {
+        select: {
+          price: true,
+          currency: true,
+          origin: true,
+          destination: true,
+        },
+        orderBy: { price: "asc" },
+      },
+      task: {
+        select: { id: true },
+      },
+    },
+  });
+
+  const total = await prisma.searchQuery.count();
+
+  // Transform to HistoryItem format
+  const historyItems: HistoryItem[] = searches.map((search) => {
+    const parsed = search.parsed as {
+      resolvedOrigin?: string;
+      resolvedDestination?: string;
+      resolvedDepartureDate?: string;
+      resolvedReturnDate?: string;
+      origin?: { iataCode?: string; city?: string };
+      destination?: { iataCode?: string; city?: string };
+      // Natural language searches store the parsed query...
+      passengers?: { adults?: number; children?: number; infants?: number };
+      preferences?: { cabinClass?: HistoryItem["travelClass"]; directFlightsOnly?: boolean };
+      // ...manual searches store the request parameters
+      adults?: number;
+      children?: number;
+      infants?: number;
+      travelClass?: HistoryItem["travelClass"];
+      nonStop?: boolean;
+    } | null;
+
+    const cheapest = search.results[0];
+
+    return {
+      id: search.id,
+      rawPrompt: search.rawPrompt,
+      origin: parsed?.resolvedOrigin || cheapest?.origin || "???",
+      destination: parsed?.resolvedDestination || cheapest?.destination || "???",
+      departureDate: parsed?.resolvedDepartureDate || null,
+      returnDate: parsed?.resolvedReturnDate || null,
+      adults: parsed?.passengers?.adults ?? parsed?.adults ?? 1,
+      children: parsed?.passengers?.children ?? parsed?.children ?? 0,
+      infants: parsed?.passengers?.infants ?? parsed?.infants ?? 0,
+      travelClass: parsed?.preferences?.cabinClass ?? parsed?.travelClass ?? "ECONOMY",
+      nonStop: parsed?.preferences?.directFlightsOnly ?? parsed?.nonStop ?? false,
+      resultCount: search.results.length,
+      cheapestPrice: cheapest?.price || null,
+      currency: cheapest?.currency || "USD",
+      createdAt: search.createdAt.toISOString(),
+      hasTask: !!search.task,
+    };
+  });
+
+  return { searches: historyItems, total };
+}
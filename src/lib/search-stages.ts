@@ -0,0 +1,15 @@
+/**
+ * Search stages - client-safe
+ *
+ * Stages a search reports while it runs, shared by the streaming API routes
+ * and the progress UI.
+ */
+
+export type SearchStage = "parsing" | "resolving" | "searching" | "processing" | "complete";
+
+export interface SearchStageUpdate {
+  stage: SearchStage;
+  detail?: string; // What the server is doing right now, e.g. "Priced 4 of 12 dates"
+  completed?: number; // Progress within the stage, when it fans out
+  total?: number;
+}
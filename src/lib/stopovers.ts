@@ -5,12 +5,14 @@
  * Used for multi-city route optimization.
  */
 
+import { getAirportRegion, getDistanceKm, isSameMetro, Region } from "./airports";
+
 export interface StopoverHub {
   code: string;
   name: string;
   city: string;
   country: string;
-  region: "europe" | "middle_east" | "asia" | "americas" | "oceania";
+  region: Region;
   // Airlines that use this as a major hub
   airlines: string[];
   // Good for connections between these regions
@@ -91,6 +93,24 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     airlines: ["LX"], // Swiss
     connectsRegions: ["europe", "americas", "asia"],
   },
+  {
+    code: "MUC",
+    name: "Munich Airport",
+    city: "Munich",
+    country: "Germany",
+    region: "europe",
+    airlines: ["LH"], // Lufthansa
+    connectsRegions: ["europe", "americas", "asia"],
+  },
+  {
+    code: "LIS",
+    name: "Lisbon Humberto Delgado",
+    city: "Lisbon",
+    country: "Portugal",
+    region: "europe",
+    airlines: ["TP"], // TAP Air Portugal
+    connectsRegions: ["europe", "americas", "africa"],
+  },
 
   // Middle East Hubs
   {
@@ -121,6 +141,44 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     connectsRegions: ["europe", "asia", "oceania", "americas"],
   },
 
+  // African Hubs
+  {
+    code: "ADD",
+    name: "Bole International",
+    city: "Addis Ababa",
+    country: "Ethiopia",
+    region: "africa",
+    airlines: ["ET"], // Ethiopian Airlines
+    connectsRegions: ["africa", "europe", "middle_east", "asia", "americas"],
+  },
+  {
+    code: "JNB",
+    name: "O. R. Tambo International",
+    city: "Johannesburg",
+    country: "South Africa",
+    region: "africa",
+    airlines: ["SA"], // South African Airways
+    connectsRegions: ["africa", "europe", "asia", "oceania", "americas"],
+  },
+  {
+    code: "NBO",
+    name: "Jomo Kenyatta International",
+    city: "Nairobi",
+    country: "Kenya",
+    region: "africa",
+    airlines: ["KQ"], // Kenya Airways
+    connectsRegions: ["africa", "europe", "middle_east", "asia"],
+  },
+  {
+    code: "CMN",
+    name: "Mohammed V International",
+    city: "Casablanca",
+    country: "Morocco",
+    region: "africa",
+    airlines: ["AT"], // Royal Air Maroc
+    connectsRegions: ["africa", "europe", "americas"],
+  },
+
   // Asian Hubs
   {
     code: "SIN",
@@ -176,6 +234,62 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     airlines: ["MH"], // Malaysia Airlines
     connectsRegions: ["asia", "oceania", "europe"],
   },
+  {
+    code: "TPE",
+    name: "Taiwan Taoyuan International",
+    city: "Taipei",
+    country: "Taiwan",
+    region: "asia",
+    airlines: ["CI", "BR"], // China Airlines, EVA Air
+    connectsRegions: ["asia", "americas", "oceania", "europe"],
+  },
+  {
+    code: "PVG",
+    name: "Shanghai Pudong International",
+    city: "Shanghai",
+    country: "China",
+    region: "asia",
+    airlines: ["MU"], // China Eastern
+    connectsRegions: ["asia", "europe", "americas", "oceania"],
+  },
+  {
+    code: "DEL",
+    name: "Indira Gandhi International",
+    city: "Delhi",
+    country: "India",
+    region: "asia",
+    airlines: ["AI"], // Air India
+    connectsRegions: ["asia", "europe", "middle_east", "americas", "oceania"],
+  },
+
+  // Oceania Hubs
+  {
+    code: "SYD",
+    name: "Sydney Kingsford Smith",
+    city: "Sydney",
+    country: "Australia",
+    region: "oceania",
+    airlines: ["QF"], // Qantas
+    connectsRegions: ["oceania", "asia", "americas", "middle_east"],
+  },
+  {
+    code: "MEL",
+    name: "Melbourne Airport",
+    city: "Melbourne",
+    country: "Australia",
+    region: "oceania",
+    airlines: ["QF", "VA"], // Qantas, Virgin Australia
+    connectsRegions: ["oceania", "asia", "americas", "middle_east"],
+  },
+  {
+    code: "AKL",
+    name: "Auckland Airport",
+    city: "Auckland",
+    country: "New Zealand",
+    region: "oceania",
+    airlines: ["NZ"], // Air New Zealand
+    connectsRegions: ["oceania", "asia", "americas"],
+  },
 
   // Americas Hubs
   {
@@ -196,6 +310,33 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     airlines: ["AA"],
     connectsRegions: ["americas", "europe"],
   },
+  {
+    code: "DFW",
+    name: "Dallas/Fort Worth International",
+    city: "Dallas",
+    country: "USA",
+    region: "americas",
+    airlines: ["AA"],
+    connectsRegions: ["americas", "europe", "asia", "oceania"],
+  },
+  {
+    code: "SFO",
+    name: "San Francisco International",
+    city: "San Francisco",
+    country: "USA",
+    region: "americas",
+    airlines: ["UA"],
+    connectsRegions: ["americas", "asia", "oceania", "europe"],
+  },
+  {
+    code: "ATL",
+    name: "Hartsfield-Jackson Atlanta International",
+    city: "Atlanta",
+    country: "USA",
+    region: "americas",
+    airlines: ["DL"],
+    connectsRegions: ["americas", "europe", "africa"],
+  },
   {
     code: "LAX",
     name: "Los Angeles International",
@@ -223,6 +364,33 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     airlines: ["CM"], // Copa Airlines
     connectsRegions: ["americas"],
   },
+  {
+    code: "BOG",
+    name: "El Dorado International",
+    city: "Bogotá",
+    country: "Colombia",
+    region: "americas",
+    airlines: ["AV"], // Avianca
+    connectsRegions: ["americas", "europe"],
+  },
+  {
+    code: "LIM",
+    name: "Jorge Chávez International",
+    city: "Lima",
+    country: "Peru",
+    region: "americas",
+    airlines: ["LA"], // LATAM
+    connectsRegions: ["americas"],
+  },
+  {
+    code: "SCL",
+    name: "Arturo Merino Benítez International",
+    city: "Santiago",
+    country: "Chile",
+    region: "americas",
+    airlines: ["LA"], // LATAM
+    connectsRegions: ["americas", "oceania", "europe"],
+  },
   {
     code: "GRU",
     name: "São Paulo Guarulhos",
@@ -230,7 +398,7 @@ export const STOPOVER_HUBS: StopoverHub[] = [
     country: "Brazil",
     region: "americas",
     airlines: ["LA"], // LATAM
-    connectsRegions: ["americas", "europe"],
+    connectsRegions: ["americas", "europe", "africa", "middle_east"],
   },
   {
     code: "MEX",
@@ -243,51 +411,40 @@ export const STOPOVER_HUBS: StopoverHub[] = [
   },
 ];
 
+// Routes shorter than this rarely benefit from a stopover
+const MIN_STOPOVER_ROUTE_KM = 1500;
+// Same-region routes only get stopovers once they're long-haul
+const MIN_SAME_REGION_ROUTE_KM = 4000;
+// Maximum extra distance a hub may add, as a ratio of the direct distance
+const MAX_DETOUR_RATIO = 1.3;
+
 /**
- * Get region for an airport code (simplified mapping)
+ * Get region for an airport code from the bundled airport dataset
  */
-export function getRegionForAirport(code: string): string {
+export function getRegionForAirport(code: string): Region | "unknown" {
   // Check if it's a known hub
   const hub = STOPOVER_HUBS.find((h) => h.code === code);
   if (hub) return hub.region;
 
-  // Simple region detection based on common patterns
-  // This is a simplified approach - in production, use a proper airport database
-  const regionPatterns: Record<string, string[]> = {
-    europe: [
-      "LHR", "LGW", "STN", "CDG", "ORY", "FRA", "MUC", "AMS", "MAD", "BCN",
-      "FCO", "MXP", "ZRH", "VIE", "BRU", "CPH", "OSL", "ARN", "HEL", "DUB",
-      "LIS", "ATH", "PRG", "WAW", "BUD",
-    ],
-    middle_east: [
-      "DXB", "DOH", "AUH", "TLV", "AMM", "CAI", "RUH", "JED", "KWI", "BAH",
-    ],
-    asia: [
-      "SIN", "HKG", "NRT", "HND", "ICN", "PVG", "SHA", "PEK", "BKK", "KUL",
-      "DEL", "BOM", "MNL", "TPE", "CGK", "SGN", "HAN",
-    ],
-    americas: [
-      "JFK", "LAX", "ORD", "MIA", "SFO", "ATL", "DFW", "DEN", "SEA", "BOS",
-      "YYZ", "YVR", "YUL", "MEX", "GRU", "EZE", "SCL", "BOG", "LIM", "PTY",
-    ],
-    oceania: [
-      "SYD", "MEL", "BNE", "PER", "AKL", "WLG", "CHC",
-    ],
-    africa: [
-      "JNB", "CPT", "NBO", "ADD", "CMN", "ALG", "CAI", "LOS", "ACC",
-    ],
-  };
-
-  for (const [region, codes] of Object.entries(regionPatterns)) {
-    if (codes.includes(code)) return region;
-  }
+  return getAirportRegion(code) ?? "unknown";
+}
 
-  // Default to unknown
-  return "unknown";
+/**
+ * Check whether a hub serves both the origin and destination regions
+ */
+function connectsRegions(hub: StopoverHub, originRegion: string, destRegion: string): boolean {
+  return (
+    (hub.connectsRegions.includes(originRegion) || hub.region === originRegion) &&
+    (hub.connectsRegions.includes(destRegion) || hub.region === destRegion)
+  );
 }
 
 /**
- * Find suitable stopover hubs between origin and destination
+ * Find suitable stopover hubs between origin and destination.
+ *
+ * Hubs are ranked by how little they add to the great-circle distance, so
+ * geographically sensible connections (e.g. SYD or AKL for SCL–BKK) come
+ * first. Falls back to region matching when coordinates are unknown.
  */
 export function findSuitableHubs(
   originCode: string,
@@ -297,25 +454,36 @@ export function findSuitableHubs(
   const originRegion = getRegionForAirport(originCode);
   const destRegion = getRegionForAirport(destinationCode);
 
+  // Don't suggest origin or destination (or their sister airports) as stopover
+  const candidates = STOPOVER_HUBS.filter(
+    (hub) => !isSameMetro(hub.code, originCode) && !isSameMetro(hub.code, destinationCode) &&
+      hub.code !== originCode && hub.code !== destinationCode
+  );
+
+  const directKm = getDistanceKm(originCode, destinationCode);
+  if (directKm !== undefined) {
+    if (directKm < MIN_STOPOVER_ROUTE_KM) return [];
+    if (originRegion === destRegion && directKm < MIN_SAME_REGION_ROUTE_KM) return [];
+
+    const ranked = candidates
+      .map((hub) => {
+        const viaKm = (getDistanceKm(originCode, hub.code) ?? Infinity) + (getDistanceKm(hub.code, destinationCode) ?? Infinity);
+        return { hub, detour: viaKm / directKm, servesRoute: connectsRegions(hub, originRegion, destRegion) };
+      })
+      .filter(({ detour }) => detour <= MAX_DETOUR_RATIO)
+      // Prefer hubs whose airlines serve both ends, then the shortest detour
+      .sort((a, b) => Number(b.servesRoute) - Number(a.servesRoute) || a.detour - b.detour);
+
+    return ranked.slice(0, maxHubs).map(({ hub }) => hub);
+  }
+
   // Don't suggest stopovers for same-region flights
   if (originRegion === destRegion) {
     return [];
   }
 
   // Find hubs that connect both regions
-  const suitableHubs = STOPOVER_HUBS.filter((hub) => {
-    // Don't suggest origin or destination as stopover
-    if (hub.code === originCode || hub.code === destinationCode) {
-      return false;
-    }
-
-    // Hub should connect both regions
-    const connectsBoth =
-      (hub.connectsRegions.includes(originRegion) || hub.region === originRegion) &&
-      (hub.connectsRegions.includes(destRegion) || hub.region === destRegion);
-
-    return connectsBoth;
-  });
+  const suitableHubs = candidates.filter((hub) => connectsRegions(hub, originRegion, destRegion));
 
   // Sort by relevance (prefer hubs in middle regions for long-haul)
   const sorted = suitableHubs.sort((a, b) => {
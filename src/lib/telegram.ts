@@ -84,6 +84,7 @@ export interface TelegramPriceAlertData {
   destination: string;
   departureDate: string;
   returnDate?: string | null;
+  flightTimes?: string; // Local departure/arrival of the best flight
   currentPrice: number;
   previousPrice?: number;
   lowestPrice?: number;
@@ -151,6 +152,9 @@ function buildPriceAlertMessage(data: TelegramPriceAlertData): string {
   // Add trip details
   parts.push("");
   parts.push(`📅 ${data.departureDate}${data.returnDate ? ` - ${data.returnDate}` : " (One way)"}`);
+  if (data.flightTimes) {
+    parts.push(`⏰ ${data.flightTimes} local time`);
+  }
 
   if (data.airlines.length > 0) {
     parts.push(`🛫 ${data.airlines.join(", ")}`);
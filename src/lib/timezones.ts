@@ -0,0 +1,134 @@
+/**
+ * Timezone utilities - client-safe
+ *
+ * Amadeus returns segment times as airport-local wall-clock strings without an
+ * offset ("2025-03-10T22:05:00"). These helpers convert them to UTC instants
+ * using IANA zones and format them without going through the browser's zone.
+ */
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA timezone the runtime knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getOffsetFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC in minutes at a given instant (e.g. -180 for Buenos Aires)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, at: Date): number {
+  const parts = Object.fromEntries(
+    getOffsetFormatter(timeZone).formatToParts(at).map((part) => [part.type, part.value])
+  );
+  const wallClockAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return Math.round((wallClockAsUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Read an offset-less local date-time as if it were UTC, so wall-clock
+ * arithmetic never depends on the zone of the machine running it
+ */
+function wallClockMs(localDateTime: string): number {
+  return Date.parse(`${localDateTime.slice(0, 19)}Z`);
+}
+
+/**
+ * Convert an airport-local date-time to a UTC ISO instant ("...Z")
+ */
+export function localToUtc(localDateTime: string, timeZone: string): string {
+  const wallClock = wallClockMs(localDateTime);
+  // Offsets can differ either side of a DST change, so re-check at the candidate instant
+  let utc = wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(wallClock)) * 60000;
+  utc = wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(utc)) * 60000;
+  return new Date(utc).toISOString();
+}
+
+/**
+ * Local wall-clock date-time ("YYYY-MM-DDTHH:MM:SS") for a UTC instant in a timezone
+ */
+export function utcToLocal(utcDateTime: string, timeZone: string): string {
+  const instant = new Date(utcDateTime);
+  const offset = getTimeZoneOffsetMinutes(timeZone, instant);
+  return new Date(instant.getTime() + offset * 60000).toISOString().slice(0, 19);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone, falling back to UTC
+ */
+export function getLocalDate(timeZone?: string, at: Date = new Date()): string {
+  return (timeZone ? utcToLocal(at.toISOString(), timeZone) : at.toISOString()).slice(0, 10);
+}
+
+/**
+ * Shift a local date-time by a number of minutes, keeping it offset-less
+ */
+export function addMinutesToLocal(localDateTime: string, minutes: number): string {
+  return new Date(wallClockMs(localDateTime) + minutes * 60000).toISOString().slice(0, 19);
+}
+
+/**
+ * Calendar days between two local date-times, e.g. 1 for an overnight arrival
+ */
+export function getDayOffset(departureLocal: string, arrivalLocal: string): number {
+  const departureDay = Date.parse(`${departureLocal.slice(0, 10)}T00:00:00Z`);
+  const arrivalDay = Date.parse(`${arrivalLocal.slice(0, 10)}T00:00:00Z`);
+  return Math.round((arrivalDay - departureDay) / 86400000);
+}
+
+/**
+ * "+1", "+2" or "-1" marker for arrivals on a different local day, or null
+ */
+export function formatDayOffset(departureLocal: string, arrivalLocal: string): string | null {
+  const days = getDayOffset(departureLocal, arrivalLocal);
+  if (days === 0) return null;
+  return days > 0 ? `+${days}` : `${days}`;
+}
+
+/**
+ * Format the wall-clock time of a local date-time ("22:05")
+ */
+export function formatLocalTime(localDateTime: string): string {
+  return localDateTime.slice(11, 16);
+}
+
+/**
+ * Format the calendar date of a local date-time ("Mon, Mar 10")
+ */
+export function formatLocalDate(
+  localDateTime: string,
+  options: Intl.DateTimeFormatOptions = { weekday: "short", month: "short", day: "numeric" }
+): string {
+  return new Date(wallClockMs(localDateTime)).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
@@ -0,0 +1,141 @@
+/**
+ * Traveler Profile
+ *
+ * Search defaults that would otherwise be retyped every time: home airport,
+ * usual passengers and cabin, maximum stops and preferred airlines. The
+ * parser uses them as context ("to Tokyo in May" leaves from home), the
+ * search and task forms start from them, and the results list remembers its
+ * filters here so they follow the traveler across devices.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { isKnownLocationCode } from "./airports";
+
+const PROFILE_ID = "default";
+
+const TravelClassSchema = z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]);
+
+export const ResultFiltersSchema = z.object({
+  maxDuration: z.number().int().positive().nullable(),
+  maxStops: z.number().int().min(0).max(2).nullable(),
+  directOnly: z.boolean(),
+  timeOfDay: z.array(z.enum(["morning", "afternoon", "evening", "night"])),
+});
+
+export type ResultFilterPreferences = z.infer<typeof ResultFiltersSchema>;
+
+export interface TravelerProfile {
+  homeAirport: string | null;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: z.infer<typeof TravelClassSchema>;
+  maxStops: number | null; // null = any, 0 = nonstop only
+  preferredAirlines: string[];
+  resultFilters: ResultFilterPreferences | null;
+}
+
+export const DEFAULT_TRAVELER_PROFILE: TravelerProfile = {
+  homeAirport: null,
+  adults: 1,
+  children: 0,
+  infants: 0,
+  travelClass: "ECONOMY",
+  maxStops: null,
+  preferredAirlines: [],
+  resultFilters: null,
+};
+
+// Every field is optional, so the settings page and the results list can each save their part
+export const TravelerProfileUpdateSchema = z.object({
+  homeAirport: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((code) => /^[A-Z]{3}$/.test(code) && isKnownLocationCode(code), "Unknown airport code")
+    .nullable()
+    .optional(),
+  adults: z.number().int().min(1).max(9).optional(),
+  children: z.number().int().min(0).max(9).optional(),
+  infants: z.number().int().min(0).max(9).optional(),
+  travelClass: TravelClassSchema.optional(),
+  maxStops: z.number().int().min(0).max(2).nullable().optional(),
+  preferredAirlines: z
+    .array(z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2}$/, "Airlines must be 2-letter IATA codes"))
+    .max(10)
+    .optional(),
+  resultFilters: ResultFiltersSchema.nullable().optional(),
+});
+
+export type TravelerProfileUpdate = z.infer<typeof TravelerProfileUpdateSchema>;
+
+function toProfile(row: {
+  homeAirport: string | null;
+  adults: number;
+  children: number;
+  infants: number;
+  travelClass: string;
+  maxStops: number | null;
+  preferredAirlines: string[];
+  resultFilters: unknown;
+}): TravelerProfile {
+  const travelClass = TravelClassSchema.safeParse(row.travelClass);
+  const resultFilters = ResultFiltersSchema.safeParse(row.resultFilters);
+  return {
+    homeAirport: row.homeAirport,
+    adults: row.adults,
+    children: row.children,
+    infants: row.infants,
+    travelClass: travelClass.success ? travelClass.data : "ECONOMY",
+    maxStops: row.maxStops,
+    preferredAirlines: row.preferredAirlines,
+    resultFilters: resultFilters.success ? resultFilters.data : null,
+  };
+}
+
+/**
+ * The saved profile, or the defaults when there is none yet
+ */
+export async function getTravelerProfile(): Promise<TravelerProfile> {
+  try {
+    const row = await prisma.travelerProfile.findUnique({ where: { id: PROFILE_ID } });
+    return row ? toProfile(row) : DEFAULT_TRAVELER_PROFILE;
+  } catch (error) {
+    // Searching without defaults beats failing the search
+    console.error("Failed to load traveler profile:", error);
+    return DEFAULT_TRAVELER_PROFILE;
+  }
+}
+
+/**
+ * Save part of the profile. Throws when the result would have more lap
+ * infants than adults.
+ */
+export async function updateTravelerProfile(update: TravelerProfileUpdate): Promise<TravelerProfile> {
+  const current = await getTravelerProfile();
+  const next = { ...current, ...update };
+  if (next.infants > next.adults) {
+    throw new TravelerProfileError("Each infant must travel with an adult");
+  }
+
+  const { resultFilters, ...fields } = update;
+  const data = {
+    ...fields,
+    ...(resultFilters !== undefined && { resultFilters: resultFilters ?? Prisma.DbNull }),
+  };
+  const row = await prisma.travelerProfile.upsert({
+    where: { id: PROFILE_ID },
+    create: { id: PROFILE_ID, ...data },
+    update: data,
+  });
+  return toProfile(row);
+}
+
+export class TravelerProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TravelerProfileError";
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Trips
+ *
+ * A trip groups what belongs to one journey: the searches made for it, the
+ * flights shortlisted from their results, and the tasks and alerts tracking
+ * its prices. Items are attached through the links they already carry (a
+ * shortlisted flight is found by its searchId, and attaching a search brings
+ * along the task created from it). Deleting a trip detaches its items.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { isKnownLocationCode } from "./airports";
+import { normalizeFlightOffers, type FlightOffer, type FlightSource, type NormalizedFlight } from "./amadeus";
+
+// Price checks shown per tracked task
+const TASK_HISTORY_LIMIT = 30;
+
+const isoDate = () => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const tripFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  destination: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((code) => /^[A-Z]{3}$/.test(code) && isKnownLocationCode(code), "Unknown airport code"),
+  startDate: isoDate().nullable(),
+  endDate: isoDate().nullable(),
+  budget: z.number().positive().nullable(),
+  currency: z.string().length(3).toUpperCase(),
+  adults: z.number().int().min(1).max(9),
+  children: z.number().int().min(0).max(9),
+  infants: z.number().int().min(0).max(9),
+  notes: z.string().max(5000).nullable(),
+};
+
+export const TripCreateSchema = z.object({
+  ...tripFields,
+  startDate: tripFields.startDate.optional(),
+  endDate: tripFields.endDate.optional(),
+  budget: tripFields.budget.optional(),
+  currency: tripFields.currency.default("USD"),
+  adults: tripFields.adults.default(1),
+  children: tripFields.children.default(0),
+  infants: tripFields.infants.default(0),
+  notes: tripFields.notes.optional(),
+});
+
+// Every field is optional, so the trip page can save notes or the budget on their own
+export const TripUpdateSchema = z.object(tripFields).partial();
+
+export type TripCreateInput = z.infer<typeof TripCreateSchema>;
+export type TripUpdateInput = z.infer<typeof TripUpdateSchema>;
+
+// What can be attached to a trip, by the ids the rest of the app already uses
+export const TripItemSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("search"), searchId: z.string().min(1) }),
+  z.object({ type: z.literal("flight"), searchId: z.string().min(1), flightId: z.string().min(1) }),
+  z.object({ type: z.literal("task"), taskId: z.string().min(1) }),
+  z.object({ type: z.literal("alert"), alertId: z.string().min(1) }),
+]);
+
+export type TripItem = z.infer<typeof TripItemSchema>;
+export type TripItemType = TripItem["type"];
+
+export interface TripSummary {
+  id: string;
+  name: string;
+  destination: string;
+  startDate: string | null;
+  endDate: string | null;
+  budget: number | null;
+  currency: string;
+  adults: number;
+  children: number;
+  infants: number;
+  notes: string | null;
+  counts: { searches: number; shortlist: number; tasks: number; alerts: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TripSearch {
+  id: string;
+  rawPrompt: string;
+  cheapestPrice: number | null;
+  currency: string;
+  createdAt: string;
+}
+
+export interface TripShortlistItem {
+  id: string; // FlightResult id
+  searchId: string;
+  flight: NormalizedFlight;
+  createdAt: string; // When the price was seen
+}
+
+export interface TripTask {
+  id: string;
+  name: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate: string | null;
+  active: boolean;
+  priceTarget: number | null;
+  lastPrice: number | null;
+  lowestPrice: number | null;
+  lastRun: string | null;
+  priceHistory: {
+    id: string;
+    price: number;
+    currency: string;
+    airlines: string[];
+    stops: number;
+    duration: string | null;
+    recordedAt: string;
+  }[]; // Newest first
+}
+
+export interface TripAlert {
+  id: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate: string | null;
+  targetPrice: number;
+  currentPrice: number;
+  currency: string;
+  active: boolean;
+  triggered: boolean;
+}
+
+export interface TripBudget {
+  budget: number;
+  currency: string;
+  cheapestPrice: number | null; // Cheapest shortlisted or tracked price in the trip's currency
+  remaining: number | null; // Budget left after the cheapest option, negative when over
+}
+
+export interface TripDetail extends TripSummary {
+  searches: TripSearch[];
+  shortlist: TripShortlistItem[];
+  tasks: TripTask[];
+  alerts: TripAlert[];
+  budgetSummary: TripBudget | null;
+}
+
+const summaryInclude = {
+  _count: { select: { searches: true, shortlist: true, tasks: true, alerts: true } },
+} satisfies Prisma.TripInclude;
+
+type TripRow = Prisma.TripGetPayload<{ include: typeof summaryInclude }>;
+
+function toSummary(row: TripRow): TripSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    destination: row.destination,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    budget: row.budget,
+    currency: row.currency,
+    adults: row.adults,
+    children: row.children,
+    infants: row.infants,
+    notes: row.notes,
+    counts: row._count,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Budget left after the cheapest option. Prices in other currencies are
+ * left out rather than converted.
+ */
+export function summarizeBudget(
+  trip: { budget: number | null; currency: string },
+  prices: { price: number | null; currency: string }[]
+): TripBudget | null {
+  if (trip.budget == null) return null;
+
+  const comparable = prices
+    .filter((option) => option.price != null && option.currency === trip.currency)
+    .map((option) => option.price as number);
+  const cheapestPrice = comparable.length > 0 ? Math.min(...comparable) : null;
+
+  return {
+    budget: trip.budget,
+    currency: trip.currency,
+    cheapestPrice,
+    remaining: cheapestPrice != null ? trip.budget - cheapestPrice : null,
+  };
+}
+
+/**
+ * List trips, most recently changed first
+ */
+export async function listTrips(): Promise<TripSummary[]> {
+  const trips = await prisma.trip.findMany({
+    include: summaryInclude,
+    orderBy: { updatedAt: "desc" },
+  });
+  return trips.map(toSummary);
+}
+
+/**
+ * A trip with everything attached to it, or null when it doesn't exist
+ */
+export async function getTripDetail(id: string): Promise<TripDetail | null> {
+  const trip = await prisma.trip.findUnique({
+    where: { id },
+    include: {
+      ...summaryInclude,
+      searches: {
+        include: { results: { select: { price: true, currency: true }, orderBy: { price: "asc" }, take: 1 } },
+        orderBy: { createdAt: "desc" },
+      },
+      shortlist: { orderBy: { price: "asc" } },
+      tasks: {
+        include: { priceHistory: { orderBy: { recordedAt: "desc" }, take: TASK_HISTORY_LIMIT } },
+        orderBy: { createdAt: "desc" },
+      },
+      alerts: { orderBy: { createdAt: "desc" } },
+    },
+  });
+  if (!trip) return null;
+
+  const shortlist = trip.shortlist.flatMap((result) =>
+    normalizeFlightOffers([result.itinerary as unknown as FlightOffer], result.source as FlightSource)
+      // Offer ids repeat across searches; the row id keeps entries unique
+      .map((flight) => ({
+        id: result.id,
+        searchId: result.searchId,
+        flight: { ...flight, id: result.id },
+        createdAt: result.createdAt.toISOString(),
+      }))
+  );
+
+  const tasks: TripTask[] = trip.tasks.map((task) => ({
+    id: task.id,
+    name: task.name,
+    origin: task.origin,
+    destination: task.destination,
+    departureDate: task.departureDate,
+    returnDate: task.returnDate,
+    active: task.active,
+    priceTarget: task.priceTarget,
+    lastPrice: task.lastPrice,
+    lowestPrice: task.lowestPrice,
+    lastRun: task.lastRun?.toISOString() ?? null,
+    priceHistory: task.priceHistory.map((point) => ({
+      id: point.id,
+      price: point.price,
+      currency: point.currency,
+      airlines: point.airlines,
+      stops: point.stops,
+      duration: point.duration,
+      recordedAt: point.recordedAt.toISOString(),
+    })),
+  }));
+
+  const alerts: TripAlert[] = trip.alerts.map((alert) => ({
+    id: alert.id,
+    origin: alert.origin,
+    destination: alert.destination,
+    departureDate: alert.departureDate.toISOString().slice(0, 10),
+    returnDate: alert.returnDate?.toISOString().slice(0, 10) ?? null,
+    targetPrice: alert.targetPrice,
+    currentPrice: alert.currentPrice,
+    currency: alert.currency,
+    active: alert.active,
+    triggered: alert.triggered,
+  }));
+
+  return {
+    ...toSummary(trip),
+    searches: trip.searches.map((search) => ({
+      id: search.id,
+      rawPrompt: search.rawPrompt,
+      cheapestPrice: search.results[0]?.price ?? null,
+      currency: search.results[0]?.currency ?? "USD",
+      createdAt: search.createdAt.toISOString(),
+    })),
+    shortlist,
+    tasks,
+    alerts,
+    budgetSummary: summarizeBudget(trip, [
+      ...shortlist.map(({ flight }) => ({ price: flight.price, currency: flight.currency })),
+      ...tasks.map((task) => ({ price: task.lastPrice, currency: task.priceHistory[0]?.currency ?? "USD" })),
+      ...alerts.filter((alert) => alert.active).map((alert) => ({ price: alert.currentPrice, currency: alert.currency })),
+    ]),
+  };
+}
+
+/**
+ * Throws when the travelers or date window don't add up
+ */
+function validateTrip(trip: { adults: number; infants: number; startDate?: string | null; endDate?: string | null }) {
+  if (trip.infants > trip.adults) {
+    throw new TripError("Each infant must travel with an adult");
+  }
+  if (trip.startDate && trip.endDate && trip.endDate < trip.startDate) {
+    throw new TripError("The trip must end after it starts");
+  }
+}
+
+export async function createTrip(input: TripCreateInput): Promise<TripSummary> {
+  validateTrip(input);
+  const trip = await prisma.trip.create({ data: input, include: summaryInclude });
+  return toSummary(trip);
+}
+
+/**
+ * Save part of a trip. Returns null when it doesn't exist.
+ */
+export async function updateTrip(id: string, update: TripUpdateInput): Promise<TripSummary | null> {
+  const current = await prisma.trip.findUnique({ where: { id } });
+  if (!current) return null;
+
+  validateTrip({ ...current, ...update });
+  const trip = await prisma.trip.update({ where: { id }, data: update, include: summaryInclude });
+  return toSummary(trip);
+}
+
+/**
+ * Delete a trip; its searches, flights, tasks and alerts are kept
+ */
+export async function deleteTrip(id: string): Promise<boolean> {
+  const { count } = await prisma.trip.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Attach an item to a trip, moving it from any other trip. Throws when the
+ * trip or the item doesn't exist.
+ */
+export async function attachToTrip(tripId: string, item: TripItem): Promise<void> {
+  const trip = await prisma.trip.findUnique({ where: { id: tripId }, select: { id: true } });
+  if (!trip) throw new TripNotFoundError("Trip not found");
+
+  switch (item.type) {
+    case "search": {
+      const search = await prisma.searchQuery.findUnique({ where: { id: item.searchId }, select: { id: true } });
+      if (!search) throw new TripNotFoundError("Search not found");
+      // A task created from the search tracks the same trip
+      await prisma.$transaction([
+        prisma.searchQuery.update({ where: { id: search.id }, data: { tripId } }),
+        prisma.scheduledTask.updateMany({ where: { searchId: search.id }, data: { tripId } }),
+      ]);
+      return;
+    }
+
+    case "flight": {
+      // Restored results use the row id, fresh ones the provider's offer id, which is
+      // prefixed with its source when several providers were searched ("amadeus-1")
+      const separator = item.flightId.indexOf("-");
+      const matches: Prisma.FlightResultWhereInput[] = [
+        { id: item.flightId },
+        { itinerary: { path: ["id"], equals: item.flightId } },
+      ];
+      if (separator > 0) {
+        matches.push({
+          source: item.flightId.slice(0, separator),
+          itinerary: { path: ["id"], equals: item.flightId.slice(separator + 1) },
+        });
+      }
+      const result = await prisma.flightResult.findFirst({
+        where: { searchId: item.searchId, OR: matches },
+        select: { id: true },
+      });
+      if (!result) throw new TripNotFoundError("Flight not found");
+      await prisma.$transaction([
+        prisma.flightResult.update({ where: { id: result.id }, data: { tripId } }),
+        // The search it came from belongs to the trip too, unless it's already filed elsewhere
+        prisma.searchQuery.updateMany({ where: { id: item.searchId, tripId: null }, data: { tripId } }),
+      ]);
+      return;
+    }
+
+    case "task": {
+      const { count } = await prisma.scheduledTask.updateMany({ where: { id: item.taskId }, data: { tripId } });
+      if (count === 0) throw new TripNotFoundError("Task not found");
+      return;
+    }
+
+    case "alert": {
+      const { count } = await prisma.priceAlert.updateMany({ where: { id: item.alertId }, data: { tripId } });
+      if (count === 0) throw new TripNotFoundError("Alert not found");
+      return;
+    }
+  }
+}
+
+/**
+ * Remove an item from a trip, by the id the trip detail lists it with
+ */
+export async function detachFromTrip(tripId: string, type: TripItemType, id: string): Promise<void> {
+  const where = { id, tripId };
+  const data = { tripId: null };
+  const { count } =
+    type === "search"
+      ? await prisma.searchQuery.updateMany({ where, data })
+      : type === "flight"
+        ? await prisma.flightResult.updateMany({ where, data })
+        : type === "task"
+          ? await prisma.scheduledTask.updateMany({ where, data })
+          : await prisma.priceAlert.updateMany({ where, data });
+  if (count === 0) throw new TripNotFoundError("Item not found in this trip");
+}
+
+export class TripError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TripError";
+  }
+}
+
+export class TripNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TripNotFoundError";
+  }
+}
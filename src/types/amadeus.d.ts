@@ -25,6 +25,8 @@ declare module "amadeus" {
     currencyCode?: string;
     maxPrice?: number;
     max?: number;
+    includedAirlineCodes?: string; // Comma separated, can't be combined with excludedAirlineCodes
+    excludedAirlineCodes?: string;
   }
 
   interface LocationSearchParams {